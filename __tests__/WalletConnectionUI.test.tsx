@@ -21,7 +21,7 @@ const createMockWalletStrategy = (id: string, name: string): WalletStrategy => (
   getConnectionSteps: jest.fn().mockReturnValue([]),
   getInstallationUrl: jest.fn().mockReturnValue('https://example.com'),
   isInstalled: jest.fn().mockReturnValue(true),
-  getProvider: jest.fn().mockReturnValue(null)
+  getProvider: jest.fn<WalletStrategy['getProvider']>().mockReturnValue(null)
 });
 
 describe('WalletConnectionUI - Enhanced Features', () => {
@@ -0,0 +1,190 @@
+/**
+ * @jest-environment node
+ */
+import { encodeAbiParameters } from 'viem';
+import { BalanceService } from '@/services/implementations/BalanceService';
+import { NetworkService } from '@/services/implementations/NetworkService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { getChainDefinition } from '@/config/chains';
+import { getTokensForChain, loadTokenLists } from '@/config/tokens';
+import { decodeAggregate3 } from '@/utils/multicall';
+import { rpcClient } from '@/utils/rpcClient';
+
+jest.mock('@/config/chains', () => {
+  const actual = jest.requireActual<typeof import('@/config/chains')>('@/config/chains');
+  return { ...actual, getChainDefinition: jest.fn(actual.getChainDefinition) };
+});
+
+jest.mock('@/utils/toast', () => ({
+  networkToast: {
+    switchError: jest.fn(),
+    switchSuccess: jest.fn()
+  }
+}));
+
+const OWNER = '0x1234567890123456789012345678901234567890';
+const MULTICALL3 = '0xca11bde05977b3631167028862be2a173976ca11';
+
+const encodeResults = (results: Array<{ success: boolean; returnData: `0x${string}` }>) => {
+  return encodeAbiParameters(
+    [{ type: 'tuple[]', components: [{ name: 'success', type: 'bool' }, { name: 'returnData', type: 'bytes' }] }],
+    [results]
+  );
+};
+
+const encodeUint = (value: bigint) => encodeAbiParameters([{ type: 'uint256' }], [value]);
+
+type RpcHandler = (params: any[]) => unknown;
+
+const mockRpc = (handlers: Record<string, RpcHandler>) => {
+  (global.fetch as any).mockImplementation(async (_url: string, init: RequestInit) => {
+    const payload = JSON.parse(init.body as string);
+    const answer = ({ method, params, id }: any) => ({ jsonrpc: '2.0', id, result: handlers[method](params) });
+    return {
+      ok: true,
+      status: 200,
+      json: async () => (Array.isArray(payload) ? payload.map(answer) : answer(payload))
+    };
+  });
+};
+
+// Batched calls are listed one by one
+const rpcMethods = (): string[] => (global.fetch as any).mock.calls
+  .map(([, init]: [string, RequestInit]) => JSON.parse(init.body as string))
+  .reduce((methods: string[], payload: any) => methods.concat([].concat(payload).map((entry: any) => entry.method)), []);
+
+describe('Multicall3 encoding', () => {
+  it('should decode aggregate3 results', () => {
+    const encoded = encodeResults([
+      { success: true, returnData: encodeUint(BigInt(42)) },
+      { success: false, returnData: '0x' }
+    ]);
+
+    expect(decodeAggregate3(encoded)).toEqual([
+      { success: true, returnData: encodeUint(BigInt(42)) },
+      { success: false, returnData: '0x' }
+    ]);
+  });
+});
+
+describe('BalanceService', () => {
+  const [usdc, usdt, weth] = getTokensForChain(137);
+  let service: BalanceService;
+
+  beforeEach(() => {
+    (global.fetch as any).mockReset();
+    (getChainDefinition as any).mockImplementation(jest.requireActual<typeof import('@/config/chains')>('@/config/chains').getChainDefinition);
+    rpcClient.reset();
+    const errorHandler = new WalletErrorHandler();
+    const networkService = new NetworkService(errorHandler, {} as any, undefined, { allowTestnets: false });
+    service = new BalanceService(networkService, errorHandler, { cacheTtl: 60000 });
+  });
+
+  it('should read the native balance and batch token reads through Multicall3', async () => {
+    mockRpc({
+      eth_getBalance: () => '0xde0b6b3a7640000',
+      eth_call: ([call]) => {
+        expect(call.to).toBe(MULTICALL3);
+        return encodeResults([
+          { success: true, returnData: encodeUint(BigInt(1500000)) },
+          { success: false, returnData: '0x' },
+          { success: true, returnData: encodeUint(BigInt('250000000000000000')) }
+        ]);
+      }
+    });
+
+    const result = await service.getBalances(OWNER, 137);
+
+    expect(result.success).toBe(true);
+    expect(result.balances?.native).toMatchObject({ address: null, symbol: 'MATIC', formatted: '1' });
+    expect(result.balances?.batched).toBe(true);
+    expect(result.balances?.tokens.map(token => [token.symbol, token.formatted])).toEqual([
+      [usdc.symbol, '1.5'],
+      [weth.symbol, '0.25']
+    ]);
+    expect(result.balances?.tokens.find(token => token.address === usdt.address)).toBeUndefined();
+    expect(rpcMethods().sort()).toEqual(['eth_call', 'eth_getBalance']);
+  });
+
+  it('should read tokens one by one when the chain has no Multicall3', async () => {
+    const polygon = getChainDefinition(137)!;
+    (getChainDefinition as any).mockReturnValue({ ...polygon, contracts: undefined });
+    mockRpc({
+      eth_getBalance: () => '0x0',
+      eth_call: ([call]) => encodeUint(call.to === usdc.address ? BigInt(1000000) : BigInt(0))
+    });
+
+    const { balances, batched } = await service.getTokenBalances(OWNER, 137);
+
+    expect(batched).toBe(false);
+    expect(balances.map(token => token.formatted)).toEqual(['1', '0', '0']);
+    expect(rpcMethods()).toEqual(['eth_call', 'eth_call', 'eth_call']);
+  });
+
+  it('should serve cached balances until a newer block arrives', async () => {
+    mockRpc({
+      eth_getBalance: () => '0x1',
+      eth_call: () => encodeResults([])
+    });
+    const emptyService = new BalanceService(
+      new NetworkService(new WalletErrorHandler(), {} as any),
+      new WalletErrorHandler(),
+      { cacheTtl: 60000, getTokens: () => [] }
+    );
+
+    await emptyService.getBalances(OWNER, 137, { blockNumber: 10 });
+    await emptyService.getBalances(OWNER, 137, { blockNumber: 10 });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    await emptyService.getBalances(OWNER, 137, { blockNumber: 11 });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+
+    emptyService.invalidate(OWNER);
+    expect(emptyService.getCachedBalances(OWNER, 137)).toBeNull();
+  });
+
+  it('should expire cached balances after the TTL', async () => {
+    mockRpc({ eth_getBalance: () => '0x1' });
+    const shortLived = new BalanceService(
+      new NetworkService(new WalletErrorHandler(), {} as any),
+      new WalletErrorHandler(),
+      { cacheTtl: 0, getTokens: () => [] }
+    );
+
+    await shortLived.getBalances(OWNER, 137);
+    await shortLived.getBalances(OWNER, 137);
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should read balances on chains of the other network mode', async () => {
+    mockRpc({ eth_getBalance: () => '0xde0b6b3a7640000', eth_call: () => encodeResults([]) });
+
+    const result = await service.getBalances(OWNER, 11155111);
+
+    expect(result.success).toBe(true);
+    expect(result.balances?.native).toMatchObject({ symbol: 'ETH', formatted: '1' });
+  });
+
+  it('should reject invalid addresses without calling the node', async () => {
+    const result = await service.getBalances('not-an-address', 137);
+
+    expect(result.success).toBe(false);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('Token list config', () => {
+  it('should reject tokens for unknown chains and bad definitions', () => {
+    const load = () => loadTokenLists({
+      tokens: {
+        '999999': [],
+        '137': [{ address: '0x123', symbol: 'BAD', name: 'Bad', decimals: 1.5 }]
+      }
+    });
+
+    expect(load).toThrow('999999: chain is not in the chain list');
+    expect(load).toThrow('137/BAD: address must be an address');
+    expect(load).toThrow('137/BAD: decimals must be an integer between 0 and 36');
+  });
+});
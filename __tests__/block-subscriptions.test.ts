@@ -0,0 +1,385 @@
+/**
+ * @jest-environment node
+ */
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { RpcEndpointTracker } from '@/utils/rpc';
+import { JsonRpcClient } from '@/utils/rpcClient';
+import { SecurityUtils } from '@/utils/security';
+import { SubscriptionManager, SubscriptionSocket } from '@/utils/subscriptions';
+import { getChainDefinition } from '@/config/chains';
+import { BlockHead, ChainLog, SubscriptionTransport } from '@/types/chain';
+
+const bsc = getChainDefinition(56)!;
+const TOKEN = '0x55d398326f99059ff775485246999027b3197955';
+const TRANSFER = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const toHex = (value: number) => `0x${value.toString(16)}`;
+
+const rawHead = (number: number) => ({
+  number: toHex(number),
+  hash: `0x${number.toString(16).padStart(64, '0')}`,
+  parentHash: `0x${(number - 1).toString(16).padStart(64, '0')}`,
+  timestamp: toHex(1700000000 + number * 3)
+});
+
+const rawLog = (blockNumber: number, logIndex: number = 0) => ({
+  address: TOKEN,
+  topics: [TRANSFER],
+  data: '0x01',
+  blockNumber: toHex(blockNumber),
+  blockHash: rawHead(blockNumber).hash,
+  transactionHash: `0x${'cd'.repeat(32)}`,
+  logIndex: toHex(logIndex),
+  removed: false
+});
+
+interface MockNode {
+  url: string;
+  port: number;
+  // subscription id -> kind, for the subscriptions currently open on the node
+  subscriptions: Map<string, string>;
+  connections: () => number;
+  pushHead: (number: number) => void;
+  pushLog: (log: object) => void;
+  dropConnections: () => void;
+  close: () => Promise<void>;
+}
+
+// A local node that speaks eth_subscribe / eth_unsubscribe over WebSocket
+const startNode = (port: number = 0): Promise<MockNode> => {
+  const server = new WebSocketServer({ host: '127.0.0.1', port });
+  const subscriptions = new Map<string, string>();
+  const sockets = new Map<string, WebSocket>();
+  let nextSubscription = 1;
+
+  server.on('connection', socket => {
+    socket.on('message', data => {
+      const { id, method, params } = JSON.parse(String(data));
+      if (method === 'eth_subscribe') {
+        const subscription = toHex(nextSubscription++);
+        subscriptions.set(subscription, params[0]);
+        sockets.set(subscription, socket);
+        socket.send(JSON.stringify({ jsonrpc: '2.0', id, result: subscription }));
+      } else if (method === 'eth_unsubscribe') {
+        subscriptions.delete(params[0]);
+        sockets.delete(params[0]);
+        socket.send(JSON.stringify({ jsonrpc: '2.0', id, result: true }));
+      }
+    });
+    socket.on('close', () => {
+      sockets.forEach((owner, subscription) => {
+        if (owner === socket) {
+          subscriptions.delete(subscription);
+          sockets.delete(subscription);
+        }
+      });
+    });
+  });
+
+  const push = (kind: string, result: object) => {
+    subscriptions.forEach((subscriptionKind, subscription) => {
+      if (subscriptionKind !== kind) return;
+      sockets.get(subscription)!.send(JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'eth_subscription',
+        params: { subscription, result }
+      }));
+    });
+  };
+
+  return new Promise(resolve => {
+    server.on('listening', () => {
+      const address = server.address() as AddressInfo;
+      resolve({
+        url: `ws://127.0.0.1:${address.port}`,
+        port: address.port,
+        subscriptions,
+        connections: () => server.clients.size,
+        pushHead: number => push('newHeads', rawHead(number)),
+        pushLog: log => push('logs', log),
+        dropConnections: () => server.clients.forEach(client => client.terminate()),
+        close: () => new Promise(done => {
+          server.clients.forEach(client => client.terminate());
+          server.close(() => done());
+        })
+      });
+    });
+  });
+};
+
+// HTTP node for the polling fallback; the latest block moves on by one per eth_getBlockByNumber or eth_blockNumber
+const mockHttpNode = (firstBlock: number) => {
+  let latest = firstBlock - 1;
+  (global.fetch as any).mockImplementation(async (_url: string, init: RequestInit) => {
+    const payload = JSON.parse(init.body as string);
+    const answer = ({ method, params, id }: any) => {
+      if (method === 'eth_getBlockByNumber') {
+        latest++;
+        return { jsonrpc: '2.0', id, result: rawHead(latest) };
+      }
+      if (method === 'eth_blockNumber') {
+        latest++;
+        return { jsonrpc: '2.0', id, result: toHex(latest) };
+      }
+      const from = parseInt(params[0].fromBlock, 16);
+      const to = parseInt(params[0].toBlock, 16);
+      return { jsonrpc: '2.0', id, result: Array.from({ length: to - from + 1 }, (_, index) => rawLog(from + index)) };
+    };
+    return { ok: true, status: 200, json: async () => (Array.isArray(payload) ? payload.map(answer) : answer(payload)) };
+  });
+  return {
+    // The next block polled or asked for is the one after this
+    setLatest: (block: number) => {
+      latest = block;
+    }
+  };
+};
+
+const waitFor = async (condition: () => boolean, timeout: number = 2000): Promise<void> => {
+  const startedAt = Date.now();
+  while (!condition()) {
+    if (Date.now() - startedAt > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const requests = (): any[] => (global.fetch as any).mock.calls
+  .map(([, init]: [string, RequestInit]) => JSON.parse(init.body as string))
+  .reduce((all: any[], payload: any) => all.concat(payload), []);
+
+const requestedMethods = (): string[] => requests().map(request => request.method);
+
+describe('SubscriptionManager', () => {
+  let node: MockNode;
+  let manager: SubscriptionManager;
+  let transports: Array<SubscriptionTransport | null>;
+
+  const createManager = (wsUrls: string[], stallTimeout?: number) => {
+    manager = new SubscriptionManager({
+      client: new JsonRpcClient(new RpcEndpointTracker()),
+      createSocket: url => new WebSocket(url),
+      resolveEndpoints: chainId => (chainId === 56 ? { wsUrls, httpUrls: bsc.rpcUrls } : null),
+      reconnectDelay: 20,
+      maxReconnectDelay: 100,
+      pollInterval: 20,
+      stallTimeout
+    });
+    transports = [];
+    manager.onTransportChange(change => transports.push(change.transport));
+    return manager;
+  };
+
+  beforeAll(() => {
+    SecurityUtils.trustHost('127.0.0.1');
+  });
+
+  afterAll(() => {
+    SecurityUtils.untrustHost('127.0.0.1');
+  });
+
+  beforeEach(async () => {
+    (global.fetch as any).mockReset();
+    node = await startNode();
+  });
+
+  afterEach(async () => {
+    manager?.closeAll();
+    await node.close();
+  });
+
+  it('should stream new heads over eth_subscribe', async () => {
+    createManager([node.url]);
+    const heads: BlockHead[] = [];
+
+    manager.subscribeNewHeads(56, head => heads.push(head));
+    await waitFor(() => node.subscriptions.size === 1);
+    node.pushHead(100);
+    node.pushHead(101);
+    await waitFor(() => heads.length === 2);
+
+    expect(heads[0]).toEqual({ number: 100, hash: rawHead(100).hash, parentHash: rawHead(100).parentHash, timestamp: 1700000300 });
+    expect(heads[1].number).toBe(101);
+    expect(manager.getTransport(56)).toBe('websocket');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should share one socket per chain and close it with the last subscription', async () => {
+    createManager([node.url]);
+    const logs: ChainLog[] = [];
+
+    const stopHeads = manager.subscribeNewHeads(56, () => {});
+    const stopLogs = manager.subscribeLogs(56, { address: TOKEN, topics: [TRANSFER] }, log => logs.push(log));
+    await waitFor(() => node.subscriptions.size === 2);
+    expect(node.connections()).toBe(1);
+
+    node.pushLog(rawLog(100, 3));
+    await waitFor(() => logs.length === 1);
+    expect(logs[0]).toMatchObject({ address: TOKEN, topics: [TRANSFER], blockNumber: 100, logIndex: 3, removed: false });
+
+    stopLogs();
+    await waitFor(() => node.subscriptions.size === 1);
+    expect(Array.from(node.subscriptions.values())).toEqual(['newHeads']);
+
+    stopHeads();
+    await waitFor(() => node.connections() === 0);
+    expect(manager.getTransport(56)).toBeNull();
+  });
+
+  it('should poll while the socket is down, then reconnect and resubscribe', async () => {
+    createManager([node.url]);
+    mockHttpNode(200);
+    const heads: number[] = [];
+
+    manager.subscribeNewHeads(56, head => heads.push(head.number));
+    manager.subscribeLogs(56, { address: TOKEN }, () => {});
+    await waitFor(() => node.subscriptions.size === 2);
+
+    node.dropConnections();
+    await waitFor(() => transports.includes('polling'));
+    await waitFor(() => node.subscriptions.size === 2 && manager.getTransport(56) === 'websocket');
+
+    expect(transports.slice(0, 3)).toEqual(['websocket', 'polling', 'websocket']);
+    expect(heads).toContain(200);
+    expect(node.connections()).toBe(1);
+
+    // Pushed heads reach the listener through the new subscription ids
+    const polled = heads.length;
+    node.pushHead(500);
+    await waitFor(() => heads.length === polled + 1);
+    expect(heads[heads.length - 1]).toBe(500);
+  });
+
+  it('should fall back to HTTP polling and fetch logs for every block since the last poll', async () => {
+    const { port } = node;
+    await node.close();
+    createManager([`ws://127.0.0.1:${port}`]);
+    mockHttpNode(300);
+    const heads: number[] = [];
+    const logs: ChainLog[] = [];
+
+    manager.subscribeNewHeads(56, head => heads.push(head.number));
+    manager.subscribeLogs(56, { address: TOKEN, topics: [TRANSFER] }, log => logs.push(log));
+    await waitFor(() => heads.length >= 3);
+
+    expect(manager.getTransport(56)).toBe('polling');
+    expect(heads.slice(0, 3)).toEqual([300, 301, 302]);
+    expect(logs.slice(0, 3).map(log => log.blockNumber)).toEqual([300, 301, 302]);
+    const getLogs = (global.fetch as any).mock.calls
+      .map(([, init]: [string, RequestInit]) => [].concat(JSON.parse(init.body as string)))
+      .reduce((all: any[], payloads: any[]) => all.concat(payloads), [])
+      .filter((payload: any) => payload.method === 'eth_getLogs');
+    expect(getLogs[1].params[0]).toEqual({ address: TOKEN, topics: [TRANSFER], fromBlock: toHex(301), toBlock: toHex(301) });
+
+    // Once the node is back, the socket takes over and polling stops
+    node = await startNode(port);
+    await waitFor(() => manager.getTransport(56) === 'websocket' && node.subscriptions.size === 2, 3000);
+    await waitFor(() => requestedMethods().includes('eth_blockNumber'));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const polls = requestedMethods().length;
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(requestedMethods().length).toBe(polls);
+  });
+
+  it('should carry a logs-only subscription across socket drops without gaps or repeats', async () => {
+    createManager([node.url]);
+    const chain = mockHttpNode(201);
+    const blocks: number[] = [];
+    const getLogs = () => requests().filter(request => request.method === 'eth_getLogs');
+
+    manager.subscribeLogs(56, { address: TOKEN }, log => blocks.push(log.blockNumber));
+    await waitFor(() => node.subscriptions.size === 1 && requestedMethods().includes('eth_blockNumber'));
+
+    // Nothing subscribed to newHeads, so the streamed logs tell how far the chain has been seen
+    node.pushLog(rawLog(202));
+    node.pushLog(rawLog(203));
+    await waitFor(() => blocks.length === 2);
+    chain.setLatest(205);
+
+    node.dropConnections();
+    await waitFor(() => transports.includes('polling'));
+    await waitFor(() => manager.getTransport(56) === 'websocket' && node.subscriptions.size === 1);
+    await waitFor(() => requestedMethods().filter(method => method === 'eth_blockNumber').length === 2);
+    await waitFor(() => blocks.includes(206));
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    // Polls and the backfill pick up after the last streamed log, and deliver each block once
+    expect(getLogs()[0].params[0].fromBlock).toBe(toHex(204));
+    expect(blocks).toEqual(Array.from({ length: blocks.length }, (_, index) => 202 + index));
+
+    // A log already fetched over HTTP is not delivered again when the node streams it
+    const last = blocks[blocks.length - 1];
+    node.pushLog(rawLog(last));
+    node.pushLog(rawLog(last + 1));
+    await waitFor(() => blocks[blocks.length - 1] === last + 1);
+    expect(blocks.filter(block => block === last)).toHaveLength(1);
+  });
+
+  it('should poll while an open socket sends no new heads', async () => {
+    createManager([node.url], 100);
+    mockHttpNode(600);
+    const heads: number[] = [];
+
+    manager.subscribeNewHeads(56, head => heads.push(head.number));
+    await waitFor(() => node.subscriptions.size === 1);
+    node.pushHead(100);
+
+    await waitFor(() => heads.includes(600), 1000);
+    expect(heads[0]).toBe(100);
+    expect(transports.slice(0, 2)).toEqual(['websocket', 'polling']);
+  });
+
+  it('should poll straight away on chains without a WebSocket endpoint', async () => {
+    createManager([]);
+    mockHttpNode(42);
+    const heads: number[] = [];
+
+    manager.subscribeNewHeads(56, head => heads.push(head.number));
+    await waitFor(() => heads.length >= 1);
+
+    expect(manager.getTransport(56)).toBe('polling');
+    expect(heads[0]).toBe(42);
+    expect(node.connections()).toBe(0);
+  });
+});
+
+describe('SubscriptionManager reconnect backoff', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should double the delay between attempts up to the maximum and rotate endpoints', () => {
+    jest.useFakeTimers();
+    mockHttpNode(1);
+    const opened: Array<{ url: string; at: number; socket: SubscriptionSocket }> = [];
+    const manager = new SubscriptionManager({
+      client: new JsonRpcClient(new RpcEndpointTracker()),
+      createSocket: url => {
+        const socket: SubscriptionSocket = { onopen: null, onmessage: null, onclose: null, onerror: null, send: jest.fn(), close: jest.fn() };
+        opened.push({ url, at: Date.now(), socket });
+        return socket;
+      },
+      resolveEndpoints: () => ({ wsUrls: ['wss://bsc-rpc.publicnode.com', 'wss://bsc-dataseed1.binance.org/ws'], httpUrls: bsc.rpcUrls }),
+      reconnectDelay: 100,
+      maxReconnectDelay: 300,
+      pollInterval: 60000
+    });
+
+    manager.subscribeNewHeads(56, () => {});
+    const delays: number[] = [];
+    for (let attempt = 0; attempt < 4; attempt++) {
+      const closedAt = Date.now();
+      opened[opened.length - 1].socket.onclose!({});
+      jest.advanceTimersByTime(1000);
+      delays.push(opened[opened.length - 1].at - closedAt);
+    }
+    manager.closeAll();
+
+    expect(delays).toEqual([100, 200, 300, 300]);
+    expect(opened.map(({ url }) => url.split('/')[2])).toEqual([
+      'bsc-rpc.publicnode.com', 'bsc-dataseed1.binance.org', 'bsc-rpc.publicnode.com', 'bsc-dataseed1.binance.org', 'bsc-rpc.publicnode.com'
+    ]);
+  });
+});
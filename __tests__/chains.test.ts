@@ -0,0 +1,80 @@
+import chainList from '@/config/chains.json';
+import { CHAIN_DEFINITIONS, loadChainDefinitions, validateChainDefinition, getChainDefinition } from '@/config/chains';
+import { toAddEthereumChainParams, toWagmiChain } from '@/utils/chains';
+import { NetworkRegistry, ConfiguredNetworkStrategy } from '@/strategies/NetworkStrategy';
+import { SecurityUtils } from '@/utils/security';
+import { APP_CONFIG } from '@/config/constants';
+import { ChainDefinition } from '@/types/chain';
+
+const exampleChain: ChainDefinition = {
+  id: 8453,
+  key: 'BASE',
+  name: 'Base',
+  network: 'base',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrls: ['https://mainnet.base.org'],
+  blockExplorers: [{ name: 'BaseScan', url: 'https://basescan.org' }],
+  testnet: false,
+  icons: { emoji: '🟦', url: 'https://icons.llamao.fi/icons/chains/rsz_base.jpg' },
+  gas: { fallback: { fast: 1, standard: 1, slow: 1 } }
+};
+
+describe('Chain list config', () => {
+  it('should load every chain from the JSON file', () => {
+    expect(CHAIN_DEFINITIONS.map(chain => chain.id)).toEqual(chainList.chains.map(chain => chain.id));
+    expect(APP_CONFIG.DEFAULT_NETWORK_IDS).toEqual(CHAIN_DEFINITIONS.map(chain => chain.id));
+  });
+
+  it('should report every problem in an invalid definition', () => {
+    const errors = validateChainDefinition({ ...exampleChain, id: -1, rpcUrls: ['ftp://nope'], icons: {} });
+
+    expect(errors).toHaveLength(3);
+  });
+
+  it('should reject duplicate chain ids', () => {
+    expect(() => loadChainDefinitions({ chains: [exampleChain, exampleChain] })).toThrow('Duplicate chain ids: 8453');
+  });
+
+  it('should build wagmi chains from a definition', () => {
+    const chain = toWagmiChain(getChainDefinition(56)!);
+
+    expect(chain).toMatchObject({
+      id: 56,
+      nativeCurrency: { symbol: 'BNB' },
+      rpcUrls: { default: { http: ['https://bsc-dataseed1.binance.org', 'https://bsc-dataseed2.binance.org', 'https://bsc-rpc.publicnode.com'] } },
+      blockExplorers: { default: { url: 'https://bscscan.com' } },
+      contracts: { multicall3: { address: '0xca11bde05977b3631167028862be2a173976ca11' } }
+    });
+  });
+
+  it('should build wallet_addEthereumChain params from a definition', () => {
+    expect(toAddEthereumChainParams(exampleChain)).toEqual({
+      chainId: '0x2105',
+      chainName: 'Base',
+      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+      rpcUrls: ['https://mainnet.base.org'],
+      blockExplorerUrls: ['https://basescan.org'],
+      iconUrls: ['https://icons.llamao.fi/icons/chains/rsz_base.jpg']
+    });
+  });
+
+  it('should register a strategy per configured chain without a dedicated class', async () => {
+    const registry = new NetworkRegistry([exampleChain]);
+    const strategy = registry.getStrategy(8453);
+
+    expect(strategy).toBeInstanceOf(ConfiguredNetworkStrategy);
+    expect(strategy?.getBlockExplorer()).toBe('https://basescan.org');
+    expect(strategy?.getNativeCurrency().symbol).toBe('ETH');
+    await expect(strategy?.getGasEstimate()).resolves.toEqual({
+      type: 'legacy',
+      source: 'fallback',
+      fast: { gasPrice: BigInt(1000000000) },
+      standard: { gasPrice: BigInt(1000000000) },
+      slow: { gasPrice: BigInt(1000000000) }
+    });
+  });
+
+  it('should trust RPC hosts named in the chain list', () => {
+    expect(SecurityUtils.validateURL(getChainDefinition(1)!.rpcUrls[0])).toBe(true);
+  });
+});
@@ -0,0 +1,189 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { CustomNetworkService } from '@/services/implementations/CustomNetworkService';
+import { NetworkService } from '@/services/implementations/NetworkService';
+import { BrowserStorageService } from '@/services/implementations/BrowserStorageService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { NetworkRegistry, networkRegistry } from '@/strategies/NetworkStrategy';
+import { AddNetworkForm } from '@/components/status/AddNetworkForm';
+import { CustomNetworkInput } from '@/services/interfaces/ICustomNetworkService';
+import { APP_CONFIG } from '@/config/constants';
+import { SecurityUtils } from '@/utils/security';
+import { createMemoryStorage } from './fixtures/storage';
+
+jest.mock('@/utils/toast', () => ({
+  networkToast: { switchSuccess: jest.fn(), switchError: jest.fn() }
+}));
+
+// jsdom does not implement AbortSignal.timeout
+if (typeof AbortSignal.timeout !== 'function') {
+  (AbortSignal as any).timeout = () => new AbortController().signal;
+}
+
+const BASE: CustomNetworkInput = {
+  name: 'Base',
+  rpcUrl: 'https://mainnet.base.org',
+  chainId: 8453,
+  currencySymbol: 'ETH',
+  explorerUrl: 'https://basescan.org'
+};
+
+const mockChainId = (result: unknown) => {
+  (global.fetch as any).mockImplementation(async (_url: string, init: RequestInit) => {
+    const { id } = JSON.parse(init.body as string);
+    return { ok: true, json: async () => ({ jsonrpc: '2.0', id, result }) };
+  });
+};
+
+describe('CustomNetworkService', () => {
+  let storage: BrowserStorageService;
+  let registry: NetworkRegistry;
+
+  const createService = () => new CustomNetworkService(storage, new WalletErrorHandler(), { registry });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storage = new BrowserStorageService(createMemoryStorage());
+    registry = new NetworkRegistry();
+  });
+
+  it('should save and register a network whose RPC reports the entered chain id', async () => {
+    mockChainId('0x2105');
+    const service = createService();
+
+    const result = await service.addCustomNetwork(BASE);
+
+    expect(result.success).toBe(true);
+    expect(JSON.parse((global.fetch as any).mock.calls[0][1].body)).toMatchObject({ method: 'eth_chainId', params: [] });
+    expect(registry.getStrategy(8453)).toMatchObject({ name: 'Base', rpcUrl: 'https://mainnet.base.org' });
+    expect(registry.getStrategy(8453)!.getBlockExplorer()).toBe('https://basescan.org');
+    expect(storage.getJSON(APP_CONFIG.STORAGE_KEYS.CUSTOM_NETWORKS)).toEqual([result.network]);
+    // Its RPC can now be used through the endpoint tracker
+    expect(SecurityUtils.validateURL('https://mainnet.base.org')).toBe(true);
+
+    service.removeCustomNetwork(8453);
+  });
+
+  it('should refuse an RPC that answers for another chain', async () => {
+    mockChainId('0x1');
+
+    const result = await createService().addCustomNetwork(BASE);
+
+    expect(result).toEqual({ success: false, error: 'The RPC reports chain ID 1, not 8453' });
+    expect(registry.getStrategy(8453)).toBeUndefined();
+    expect(storage.getJSON(APP_CONFIG.STORAGE_KEYS.CUSTOM_NETWORKS)).toBeNull();
+  });
+
+  it('should report an RPC that cannot be reached', async () => {
+    (global.fetch as any).mockRejectedValue(new Error('Failed to fetch'));
+
+    const result = await createService().addCustomNetwork(BASE);
+
+    expect(result.error).toBe('Could not reach the RPC: Failed to fetch');
+  });
+
+  it('should check the inputs before calling the RPC', async () => {
+    const service = createService();
+
+    expect((await service.addCustomNetwork({ ...BASE, chainId: 137 })).error).toBe('Chain ID 137 is already configured as Polygon');
+    expect((await service.addCustomNetwork({ ...BASE, rpcUrl: 'http://rpc.example.org' })).error).toContain('must use https');
+    expect((await service.addCustomNetwork({ ...BASE, rpcUrl: 'javascript:alert(1)' })).success).toBe(false);
+    expect((await service.addCustomNetwork({ ...BASE, chainId: 1.5 })).error).toContain('positive whole number');
+    expect((await service.addCustomNetwork({ ...BASE, currencySymbol: 'E' })).error).toContain('2 to 6 characters');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should clean the names with SecurityUtils', async () => {
+    mockChainId('0x2105');
+
+    const result = await createService().addCustomNetwork({ ...BASE, name: ' <b>Base</b> ' });
+
+    expect(result.network?.name).toBe('&lt;b&gt;Base&lt;/b&gt;');
+  });
+
+  it('should accept a local node over http', async () => {
+    mockChainId('0x7a69');
+
+    const result = await createService().addCustomNetwork({ ...BASE, name: 'Anvil', rpcUrl: 'http://127.0.0.1:8545', chainId: 31337, testnet: true });
+
+    expect(result.success).toBe(true);
+    expect(registry.getTestnetStrategies().map(strategy => strategy.id)).toContain(31337);
+  });
+
+  it('should register saved networks again after a reload and forget removed ones', async () => {
+    mockChainId('0x2105');
+    await createService().addCustomNetwork(BASE);
+
+    registry = new NetworkRegistry();
+    const reloaded = createService();
+
+    expect(reloaded.getCustomNetworks().map(network => network.id)).toEqual([8453]);
+    expect(registry.getStrategy(8453)).toBeTruthy();
+
+    expect(reloaded.removeCustomNetwork(8453)).toBe(true);
+    expect(reloaded.removeCustomNetwork(137)).toBe(false);
+    expect(registry.getStrategy(8453)).toBeUndefined();
+    expect(registry.getStrategy(137)).toBeTruthy();
+    expect(storage.getJSON(APP_CONFIG.STORAGE_KEYS.CUSTOM_NETWORKS)).toEqual([]);
+    expect(SecurityUtils.validateURL('https://mainnet.base.org')).toBe(false);
+  });
+
+  it('should offer custom networks through the network service', async () => {
+    mockChainId('0x2105');
+    const errorHandler = new WalletErrorHandler();
+    const service = new CustomNetworkService(storage, errorHandler);
+    const networkService = new NetworkService(errorHandler, {
+      useNetwork: () => ({} as any),
+      useSwitchNetwork: () => ({} as any)
+    }, storage);
+
+    await service.addCustomNetwork(BASE);
+
+    try {
+      expect(networkService.isNetworkSupported(8453)).toBe(true);
+      expect(networkService.getSupportedNetworks().find(network => network.id === 8453)).toMatchObject({
+        name: 'Base',
+        nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 }
+      });
+    } finally {
+      service.removeCustomNetwork(8453);
+    }
+    expect(networkRegistry.getStrategy(8453)).toBeUndefined();
+  });
+});
+
+describe('AddNetworkForm', () => {
+  const fill = (label: string, value: string) => {
+    fireEvent.change(screen.getByLabelText(label), { target: { value } });
+  };
+
+  it('should submit the entered network and clear the form once added', async () => {
+    const onAdd = jest.fn<(input: CustomNetworkInput) => Promise<boolean>>().mockResolvedValue(true);
+    render(<AddNetworkForm onAdd={onAdd} onCancel={jest.fn()} isVerifying={false} error={null} />);
+
+    expect(screen.getByRole<HTMLButtonElement>('button', { name: 'Add network' }).disabled).toBe(true);
+
+    fill('Network name', 'Base');
+    fill('RPC URL', 'https://mainnet.base.org');
+    fill('Chain ID', '8453');
+    fill('Currency symbol', 'ETH');
+    fireEvent.click(screen.getByRole('button', { name: 'Add network' }));
+
+    await waitFor(() => expect(onAdd).toHaveBeenCalledWith({
+      name: 'Base',
+      rpcUrl: 'https://mainnet.base.org',
+      chainId: 8453,
+      currencySymbol: 'ETH',
+      explorerUrl: undefined,
+      testnet: false
+    }));
+    await waitFor(() => expect(screen.getByLabelText<HTMLInputElement>('Network name').value).toBe(''));
+  });
+
+  it('should show the verification state and error', () => {
+    render(<AddNetworkForm onAdd={jest.fn<(input: CustomNetworkInput) => Promise<boolean>>()} onCancel={jest.fn()} isVerifying error="The RPC reports chain ID 1, not 8453" />);
+
+    expect(screen.getByRole<HTMLButtonElement>('button', { name: 'Checking RPC...' }).disabled).toBe(true);
+    expect(screen.getByText('The RPC reports chain ID 1, not 8453')).toBeTruthy();
+  });
+});
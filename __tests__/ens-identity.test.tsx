@@ -0,0 +1,189 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { EnsIdentityService } from '@/services/implementations/EnsIdentityService';
+import { BrowserStorageService } from '@/services/implementations/BrowserStorageService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { AddressResolution } from '@/services/interfaces/IIdentityService';
+import { AccountIdentity } from '@/components/wallet/AccountIdentity';
+import { AddressInput } from '@/components/wallet/AddressInput';
+import { isEnsName, parseEnsAvatarUri, toGatewayUrl } from '@/utils/ens';
+import { APP_CONFIG } from '@/config/constants';
+import { createMemoryStorage } from './fixtures/storage';
+
+jest.mock('@/utils/toast', () => ({
+  walletConnectionToast: {
+    failed: jest.fn()
+  }
+}));
+
+const VITALIK = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+const NOBODY = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8';
+const NFT_CONTRACT = '0xb47e3cd837dDF8e4c57F05d70Ab865de6e193BBB';
+const { ENS_CACHE_PREFIX } = APP_CONFIG.STORAGE_KEYS;
+
+describe('ENS helpers', () => {
+  it('should tell names from addresses', () => {
+    expect(isEnsName('vitalik.eth')).toBe(true);
+    expect(isEnsName('pay.example.xyz')).toBe(true);
+    expect(isEnsName(VITALIK)).toBe(false);
+    expect(isEnsName('vitalik')).toBe(false);
+    expect(isEnsName('not a.name')).toBe(false);
+  });
+
+  it('should turn avatar URIs into gateway URLs', () => {
+    expect(toGatewayUrl('ipfs://QmHash/avatar.png')).toBe('https://ipfs.io/ipfs/QmHash/avatar.png');
+    expect(toGatewayUrl('ipfs://ipfs/QmHash')).toBe('https://ipfs.io/ipfs/QmHash');
+    expect(toGatewayUrl('ar://tx-id')).toBe('https://arweave.net/tx-id');
+    expect(toGatewayUrl('https://example.com/me.png')).toBe('https://example.com/me.png');
+    expect(toGatewayUrl('data:image/png;base64,AAAA')).toBe('data:image/png;base64,AAAA');
+    expect(toGatewayUrl('javascript:alert(1)')).toBeNull();
+  });
+
+  it('should read NFT avatar records', () => {
+    expect(parseEnsAvatarUri(`eip155:1/erc721:${NFT_CONTRACT}/2430`)).toEqual({
+      kind: 'nft', chainId: 1, standard: 'erc721', contract: NFT_CONTRACT, tokenId: '2430'
+    });
+    expect(parseEnsAvatarUri(`eip155:137/ERC1155:${NFT_CONTRACT}/7`)).toMatchObject({ chainId: 137, standard: 'erc1155' });
+    expect(parseEnsAvatarUri('ipfs://QmHash')).toEqual({ kind: 'url', url: 'https://ipfs.io/ipfs/QmHash' });
+    expect(parseEnsAvatarUri('eip155:1/erc20:0x1234/1')).toBeNull();
+  });
+});
+
+const createResolver = () => ({
+  resolveName: jest.fn<(name: string) => Promise<string | null>>(async name => (name === 'vitalik.eth' ? VITALIK : null)),
+  lookupName: jest.fn<(address: string) => Promise<string | null>>(async address =>
+    (address.toLowerCase() === VITALIK.toLowerCase() ? 'vitalik.eth' : null)),
+  resolveAvatar: jest.fn<(name: string, owner: string) => Promise<string | null>>(async () => 'https://ipfs.io/ipfs/QmAvatar')
+});
+
+describe('EnsIdentityService', () => {
+  let storage: Storage;
+  let resolver: ReturnType<typeof createResolver>;
+
+  const createService = () => new EnsIdentityService(
+    new BrowserStorageService(storage),
+    new WalletErrorHandler(),
+    { resolver, cacheTtl: 60000, missCacheTtl: 1000 }
+  );
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    resolver = createResolver();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should look up the name and avatar of an address once and share concurrent lookups', async () => {
+    const service = createService();
+
+    const [first, second] = await Promise.all([service.lookupAddress(VITALIK), service.lookupAddress(VITALIK)]);
+    expect(first).toEqual({ address: VITALIK, name: 'vitalik.eth', avatar: 'https://ipfs.io/ipfs/QmAvatar' });
+    expect(second).toEqual(first);
+    expect(resolver.resolveAvatar).toHaveBeenCalledWith('vitalik.eth', VITALIK);
+
+    // A new service instance reads the stored result instead of calling the resolver
+    await expect(createService().lookupAddress(VITALIK.toLowerCase())).resolves.toMatchObject({ name: 'vitalik.eth' });
+    await expect(createService().resolveName('Vitalik.eth')).resolves.toBe(VITALIK);
+    expect(resolver.lookupName).toHaveBeenCalledTimes(1);
+    expect(resolver.resolveName).not.toHaveBeenCalled();
+  });
+
+  it('should cache misses for a shorter time and drop expired entries', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000000);
+    const service = createService();
+
+    await expect(service.lookupAddress(NOBODY)).resolves.toEqual({ address: NOBODY, name: null, avatar: null });
+    expect(service.getCachedIdentity(NOBODY)).toEqual({ address: NOBODY, name: null, avatar: null });
+
+    now.mockReturnValue(1000000 + 1001);
+    expect(service.getCachedIdentity(NOBODY)).toBeNull();
+    expect(storage.getItem(`${ENS_CACHE_PREFIX}address:${NOBODY}`)).toBeNull();
+
+    await service.lookupAddress(NOBODY);
+    expect(resolver.lookupName).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the name when the avatar fails and not cache failed lookups', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    resolver.resolveAvatar.mockRejectedValueOnce(new Error('metadata unavailable'));
+    const service = createService();
+
+    await expect(service.lookupAddress(VITALIK)).resolves.toEqual({ address: VITALIK, name: 'vitalik.eth', avatar: null });
+
+    resolver.lookupName.mockRejectedValueOnce(new Error('rpc down'));
+    await expect(service.lookupAddress(NOBODY)).resolves.toEqual({ address: NOBODY, name: null, avatar: null });
+    expect(service.getCachedIdentity(NOBODY)).toBeNull();
+  });
+
+  it('should accept an address or an ENS name as input', async () => {
+    const service = createService();
+
+    await expect(service.resolveAddressInput(` ${NOBODY} `)).resolves.toEqual({ success: true, address: NOBODY });
+    await expect(service.resolveAddressInput('Vitalik.eth')).resolves.toEqual({ success: true, address: VITALIK, name: 'vitalik.eth' });
+    await expect(service.resolveAddressInput('unknown.eth')).resolves.toEqual({
+      success: false,
+      error: 'unknown.eth does not resolve to an address'
+    });
+    await expect(service.resolveAddressInput('0x1234')).resolves.toEqual({
+      success: false,
+      error: 'Enter a valid address or ENS name'
+    });
+  });
+
+  it('should clear only ENS entries', async () => {
+    storage.setItem('lastConnectedWallet', 'metaMask');
+    const service = createService();
+    await service.lookupAddress(VITALIK);
+
+    service.clearCache();
+    expect(service.getCachedIdentity(VITALIK)).toBeNull();
+    expect(storage.getItem('lastConnectedWallet')).toBe('metaMask');
+  });
+});
+
+describe('ENS components', () => {
+  it('should show the name and avatar with the full address on hover', () => {
+    const { container } = render(
+      <AccountIdentity address={VITALIK} identity={{ address: VITALIK, name: 'vitalik.eth', avatar: 'https://ipfs.io/ipfs/QmAvatar' }} />
+    );
+
+    expect(screen.getByText('vitalik.eth')).toBeTruthy();
+    expect(screen.getByText('0xd8dA...6045')).toBeTruthy();
+    expect(screen.getByTitle(VITALIK)).toBeTruthy();
+    expect(container.querySelector('img')?.getAttribute('src')).toBe('https://ipfs.io/ipfs/QmAvatar');
+  });
+
+  it('should fall back to the short address without a name', () => {
+    const { container } = render(<AccountIdentity address={NOBODY} identity={null} />);
+
+    expect(screen.getByText('0x7099...79c8')).toBeTruthy();
+    expect(container.querySelector('img')).toBeNull();
+  });
+
+  it('should preview what a typed name resolves to', async () => {
+    const resolveAddress = jest.fn<(value: string) => Promise<AddressResolution>>(async value => (
+      value === 'vitalik.eth'
+        ? { success: true, address: VITALIK, name: value }
+        : { success: false, error: `${value} does not resolve to an address` }
+    ));
+    const Harness = () => {
+      const [value, setValue] = React.useState('');
+      return <AddressInput id="recipient" value={value} onChange={setValue} resolveAddress={resolveAddress} />;
+    };
+    render(<Harness />);
+    const input = screen.getByRole('textbox');
+
+    fireEvent.change(input, { target: { value: 'vitalik.eth' } });
+    await waitFor(() => expect(screen.getByText('→ 0xd8dA...6045')).toBeTruthy());
+
+    fireEvent.change(input, { target: { value: 'unknown.eth' } });
+    await waitFor(() => expect(screen.getByText('unknown.eth does not resolve to an address')).toBeTruthy());
+    expect(input.getAttribute('aria-invalid')).toBe('true');
+
+    // Hex addresses need no lookup
+    fireEvent.change(input, { target: { value: NOBODY } });
+    expect(resolveAddress).toHaveBeenCalledTimes(2);
+  });
+});
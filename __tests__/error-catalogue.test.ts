@@ -0,0 +1,96 @@
+import {
+  ERROR_CATALOGUE,
+  ERROR_MESSAGES,
+  RECOVERY_POLICIES,
+  describeWalletError,
+  formatErrorMessage,
+  getErrorEntry
+} from '@/config/errorCatalogue';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { WalletRegistry } from '@/strategies/WalletStrategy';
+import { ProviderDiscovery } from '@/strategies/ProviderDiscovery';
+import { ErrorCode, ErrorFactory } from '@/types/errors';
+
+jest.mock('@/utils/toast', () => ({
+  walletConnectionToast: { failed: jest.fn() },
+  networkToast: { switchError: jest.fn() },
+  signatureToast: { failed: jest.fn() },
+  transactionToast: { failed: jest.fn() }
+}));
+
+// Numeric enums also map values back to names; keep the named members only
+const ERROR_CODE_MEMBERS = Object.entries(ErrorCode).filter(([name]) => isNaN(Number(name)));
+
+describe('Error code catalogue', () => {
+  it.each(ERROR_CODE_MEMBERS)('should cover ErrorCode.%s', (_name, code) => {
+    const entry = ERROR_CATALOGUE[String(code)];
+
+    expect(entry).toBeTruthy();
+    expect(ERROR_MESSAGES[entry.messageKey]).toBeTruthy();
+    expect(RECOVERY_POLICIES[entry.recovery]).toBeTruthy();
+  });
+
+  it('should only describe ErrorCode members', () => {
+    const codes = new Set(ERROR_CODE_MEMBERS.map(([, code]) => String(code)));
+
+    expect(Object.keys(ERROR_CATALOGUE).filter(code => !codes.has(code))).toEqual([]);
+  });
+
+  it('should treat the string and EIP-1193 rejection codes alike', () => {
+    const { source: _numericSource, ...numeric } = ERROR_CATALOGUE[ErrorCode.PROVIDER_USER_REJECTED];
+    const { source: _stringSource, ...string } = ERROR_CATALOGUE[ErrorCode.WALLET_USER_REJECTED];
+
+    expect(string).toEqual(numeric);
+    expect(numeric).toMatchObject({ category: 'wallet', retryable: false, recovery: 'none' });
+  });
+
+  it('should find the code of wrapped and storage errors', () => {
+    expect(getErrorEntry({ message: 'Failed', cause: { code: 4902 } })?.messageKey).toBe('unrecognizedChain');
+    expect(getErrorEntry({ name: 'QuotaExceededError', message: 'Quota' })?.category).toBe('storage');
+    expect(getErrorEntry({ code: 'ACTION_REJECTED', message: 'Unknown' })).toBeUndefined();
+  });
+
+  it('should fill in the wallet name and let strategies override wording', () => {
+    expect(formatErrorMessage('walletLocked', 'MetaMask')).toBe('MetaMask is locked. Please unlock your wallet.');
+    expect(formatErrorMessage('requestPending')).toBe('Your wallet is already processing a request. Please wait.');
+    expect(describeWalletError({ code: 4001, message: 'Denied' }, 'Rabby', { overrides: { userRejected: 'Cancelled.' } })).toBe('Cancelled.');
+  });
+
+  it('should only apply WalletConnect codes to WalletConnect', () => {
+    const error = { code: ErrorCode.WALLETCONNECT_USER_DISCONNECTED, message: 'Disconnected' };
+
+    expect(describeWalletError(error, 'MetaMask')).toBeUndefined();
+    expect(describeWalletError(error, 'WalletConnect', { includeWalletConnect: true })).toBe('The WalletConnect session was disconnected.');
+  });
+});
+
+describe('WalletErrorHandler driven by the catalogue', () => {
+  const errorHandler = new WalletErrorHandler(new WalletRegistry(new ProviderDiscovery()));
+
+  it('should categorize by code', () => {
+    expect(errorHandler.categorizeError({ code: 4902, message: 'Unrecognized chain' })).toEqual({
+      type: 'network',
+      severity: 'medium',
+      userFriendly: true
+    });
+    expect(errorHandler.categorizeError({ code: -32700, message: 'Parse error' })).toMatchObject({ type: 'wallet', userFriendly: false });
+    expect(errorHandler.categorizeError({ name: 'QuotaExceededError', message: 'Quota' }).type).toBe('storage');
+  });
+
+  it('should take the recovery action and its policy from the catalogue', () => {
+    expect(errorHandler.getRecoveryAction({ code: 4100, message: 'Unauthorized' })).toEqual({ action: 'reconnect', delay: 2000, maxAttempts: 3 });
+    expect(errorHandler.getRecoveryAction({ code: -32005, message: 'Limit exceeded' })).toEqual({ action: 'retry', delay: 1000, maxAttempts: 2 });
+    expect(errorHandler.getRecoveryAction({ code: 'USER_REJECTED', message: 'Rejected' }).action).toBe('none');
+  });
+
+  it('should never re-submit a transaction whatever its code', () => {
+    const error = ErrorFactory.createTransactionError('Internal error', 'send', ErrorCode.RPC_INTERNAL_ERROR, 137);
+
+    expect(errorHandler.getRecoveryAction(error)).toEqual({ action: 'none' });
+  });
+
+  it('should fall back to the message for errors without a code', () => {
+    expect(errorHandler.categorizeError(new Error('network request failed')).type).toBe('network');
+    expect(errorHandler.getRecoveryAction(new Error('Something odd')).action).toBe('none');
+  });
+});
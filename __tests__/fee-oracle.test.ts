@@ -0,0 +1,198 @@
+/**
+ * @jest-environment node
+ */
+import ethereumFees from './fixtures/fees/ethereum.json';
+import polygonFees from './fixtures/fees/polygon.json';
+import bscFees from './fixtures/fees/bsc.json';
+import legacyNodeFees from './fixtures/fees/legacy-node.json';
+import polygonGasStation from './fixtures/fees/polygon-gas-station.json';
+import { FeeOracle, parseGwei, suggestFees } from '@/utils/fees';
+import { RpcEndpointTracker } from '@/utils/rpc';
+import { JsonRpcClient } from '@/utils/rpcClient';
+import { ConfiguredNetworkStrategy } from '@/strategies/NetworkStrategy';
+import { getChainDefinition } from '@/config/chains';
+
+type RpcFixture = { chainId: number; responses: Record<string, object> };
+
+// Replays recorded node responses by JSON-RPC method, and the gas station response by URL
+const replay = (fixture: RpcFixture | null, gasStation?: object) => {
+  (global.fetch as any).mockImplementation(async (url: string, init?: RequestInit) => {
+    if (gasStation && url.startsWith('https://gasstation.polygon.technology')) {
+      return { ok: true, status: 200, json: async () => gasStation };
+    }
+
+    const payload = JSON.parse(init?.body as string);
+    const responses = ([] as { method: string; id: number }[]).concat(payload)
+      .map(({ method, id }) => fixture?.responses[method] && { ...fixture.responses[method], id });
+    if (responses.some(response => !response)) {
+      return { ok: false, status: 503, json: async () => ({}) };
+    }
+    return { ok: true, status: 200, json: async () => (Array.isArray(payload) ? responses : responses[0]) };
+  });
+};
+
+// Batched calls are listed one by one
+const requestedPayloads = (): { method: string; params: unknown[] }[] => (global.fetch as any).mock.calls
+  .filter(([, init]: [string, RequestInit?]) => init?.body)
+  .reduce((all: object[], [, init]: [string, RequestInit]) => all.concat(JSON.parse(init.body as string)), []);
+
+const requestedMethods = (): string[] => requestedPayloads().map(payload => payload.method);
+
+const createClient = () => new JsonRpcClient(new RpcEndpointTracker());
+
+// Endpoints must be on trusted hosts, so the chain list's own URLs are used
+const rpcUrls = (chainId: number): string[] => getChainDefinition(chainId)!.rpcUrls;
+
+describe('FeeOracle', () => {
+  let oracle: FeeOracle;
+
+  beforeEach(() => {
+    (global.fetch as any).mockReset();
+    oracle = new FeeOracle(createClient());
+  });
+
+  it('should suggest EIP-1559 fees from the median reward percentiles', async () => {
+    replay(ethereumFees);
+
+    const estimate = await oracle.estimate(rpcUrls(1), 1);
+
+    expect(estimate).toEqual({
+      type: 'eip1559',
+      source: 'rpc',
+      baseFeePerGas: BigInt('8398765432'),
+      slow: { maxFeePerGas: BigInt('9248641975'), maxPriorityFeePerGas: BigInt('10000000') },
+      standard: { maxFeePerGas: BigInt('10598456790'), maxPriorityFeePerGas: BigInt('100000000') },
+      fast: { maxFeePerGas: BigInt('18797530864'), maxPriorityFeePerGas: BigInt('2000000000') },
+      blockNumber: 21000004
+    });
+    expect(requestedMethods().sort()).toEqual(['eth_feeHistory', 'eth_gasPrice']);
+    // Both calls go out together as one JSON-RPC batch
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should request the configured reward percentiles over recent blocks', async () => {
+    replay(ethereumFees);
+
+    await oracle.estimate(rpcUrls(1), 1);
+
+    const feeHistoryCall = requestedPayloads().find(payload => payload.method === 'eth_feeHistory');
+    expect(feeHistoryCall?.params).toEqual(['0x5', 'latest', [10, 50, 90]]);
+  });
+
+  it('should skip empty blocks when sampling priority fees', async () => {
+    replay(polygonFees);
+
+    const estimate = await oracle.estimate(rpcUrls(137), 137);
+
+    expect(estimate.type).toBe('eip1559');
+    if (estimate.type !== 'eip1559') return;
+    expect(estimate.slow.maxPriorityFeePerGas).toBe(parseGwei(30));
+    expect(estimate.standard.maxPriorityFeePerGas).toBe(parseGwei(32.5));
+    expect(estimate.fast.maxPriorityFeePerGas).toBe(parseGwei(47.5));
+    expect(estimate.fast.maxFeePerGas).toBe(BigInt('109524691356'));
+  });
+
+  it('should fall back to legacy pricing when the chain has no base fee', async () => {
+    replay(bscFees);
+
+    const estimate = await oracle.estimate(rpcUrls(56), 56);
+
+    expect(estimate).toEqual({
+      type: 'legacy',
+      source: 'rpc',
+      slow: { gasPrice: BigInt('100000000') },
+      standard: { gasPrice: BigInt('110000000') },
+      fast: { gasPrice: BigInt('125000000') },
+      blockNumber: 45000004
+    });
+  });
+
+  it('should fall back to legacy pricing when the node rejects eth_feeHistory', async () => {
+    replay(legacyNodeFees);
+
+    const estimate = await oracle.estimate(rpcUrls(56), 56);
+
+    expect(estimate).toEqual({
+      type: 'legacy',
+      source: 'rpc',
+      slow: { gasPrice: parseGwei(5) },
+      standard: { gasPrice: parseGwei(5.5) },
+      fast: { gasPrice: parseGwei(6.25) },
+      blockNumber: undefined
+    });
+  });
+
+  it('should fail when neither fee method answers', async () => {
+    replay(null);
+
+    await expect(oracle.estimate(rpcUrls(1), 1)).rejects.toMatchObject({
+      name: 'NetworkError',
+      message: 'Unable to read fee data from the network'
+    });
+  });
+
+  it('should use eth_gasPrice for the tip when no sampled block was tipped', () => {
+    const { result } = ethereumFees.responses.eth_feeHistory;
+    const untipped = { ...result, reward: result.reward.map(block => block.map(() => '0x0')) };
+
+    const estimate = suggestFees(untipped, BigInt('8498765432'));
+
+    expect(estimate).toMatchObject({
+      type: 'eip1559',
+      slow: { maxPriorityFeePerGas: BigInt(100000000) },
+      fast: { maxPriorityFeePerGas: BigInt(100000000) }
+    });
+  });
+});
+
+describe('ConfiguredNetworkStrategy gas estimates', () => {
+  const polygon = getChainDefinition(137)!;
+
+  beforeEach(() => {
+    (global.fetch as any).mockReset();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (console.warn as any).mockRestore();
+  });
+
+  it('should estimate fees from the chain RPC', async () => {
+    replay(polygonFees);
+
+    const estimate = await new ConfiguredNetworkStrategy(polygon, createClient()).getGasEstimate();
+
+    expect(estimate).toMatchObject({ type: 'eip1559', source: 'rpc', blockNumber: 64000004 });
+  });
+
+  it('should fall back to the gas station when the RPC is unavailable', async () => {
+    replay(null, polygonGasStation);
+
+    const estimate = await new ConfiguredNetworkStrategy(polygon, createClient()).getGasEstimate();
+
+    expect(estimate).toEqual({
+      type: 'eip1559',
+      source: 'oracle',
+      baseFeePerGas: BigInt(112),
+      slow: { maxFeePerGas: BigInt('30000000126'), maxPriorityFeePerGas: BigInt('30000000014') },
+      standard: { maxFeePerGas: BigInt('31500000112'), maxPriorityFeePerGas: BigInt('31500000000') },
+      fast: { maxFeePerGas: BigInt('42250000112'), maxPriorityFeePerGas: BigInt('42250000000') },
+      blockNumber: 64000005
+    });
+  });
+
+  it('should fall back to the configured gwei values when everything fails', async () => {
+    replay(null);
+    const linea = getChainDefinition(59144)!;
+
+    const estimate = await new ConfiguredNetworkStrategy(linea, createClient()).getGasEstimate();
+
+    expect(estimate).toEqual({
+      type: 'legacy',
+      source: 'fallback',
+      slow: { gasPrice: parseGwei(1) },
+      standard: { gasPrice: parseGwei(1.5) },
+      fast: { gasPrice: parseGwei(2) }
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import {
+  BitgetWalletStrategy,
+  CoinbaseWalletStrategy,
+  MetaMaskStrategy,
+  TokenPocketStrategy,
+  WalletConnectStrategy,
+  WalletRegistry
+} from '@/strategies/WalletStrategy';
+import { ProviderDiscovery } from '@/strategies/ProviderDiscovery';
+import { WalletConnectionUI } from '@/components/wallet/WalletConnectionUI';
+import { detectInAppWallet, getMobileEnvironment } from '@/utils/mobile';
+
+jest.mock('@/utils/toast', () => ({
+  walletConnectionToast: {
+    failed: jest.fn(),
+    retryAttempt: jest.fn(),
+    maxRetriesExceeded: jest.fn()
+  }
+}));
+
+const IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1';
+const ANDROID = 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36';
+const DESKTOP = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+const DAPP_URL = 'https://demo.example.com/swap?token=0xabc&amount=1';
+
+describe('Mobile environment detection', () => {
+  it('should tell phones from desktops', () => {
+    expect(getMobileEnvironment(IPHONE, undefined)).toEqual({ isMobile: true, inAppWallet: null });
+    expect(getMobileEnvironment(DESKTOP, undefined)).toEqual({ isMobile: false, inAppWallet: null });
+  });
+
+  it('should recognise wallet browsers by their user agent', () => {
+    expect(detectInAppWallet(`${ANDROID} TokenPocket/2.0.0`, undefined)).toBe('tokenPocket');
+    expect(detectInAppWallet(`${IPHONE} BitKeep/8.10.0`, undefined)).toBe('bitgetWallet');
+    expect(detectInAppWallet(`${IPHONE} CoinbaseWallet/28.0`, undefined)).toBe('coinbaseWallet');
+    expect(detectInAppWallet(`${ANDROID} MetaMaskMobile`, undefined)).toBe('metaMask');
+  });
+
+  it('should recognise wallet browsers by their provider flags', () => {
+    // TokenPocket announces itself as MetaMask too
+    expect(detectInAppWallet(ANDROID, { isMetaMask: true, isTokenPocket: true })).toBe('tokenPocket');
+    expect(detectInAppWallet(IPHONE, { isBitKeep: true })).toBe('bitgetWallet');
+    expect(detectInAppWallet(IPHONE, { isMetaMask: true })).toBeNull();
+  });
+
+  it('should not treat desktop extensions as in-app browsers', () => {
+    expect(getMobileEnvironment(DESKTOP, { isTokenPocket: true })).toEqual({ isMobile: false, inAppWallet: null });
+  });
+});
+
+describe('Wallet deep links', () => {
+  it('should build a link that reopens the dapp in each wallet', () => {
+    expect(new MetaMaskStrategy().getDeepLink(DAPP_URL))
+      .toBe('https://metamask.app.link/dapp/demo.example.com/swap?token=0xabc&amount=1');
+    expect(new TokenPocketStrategy().getDeepLink(DAPP_URL))
+      .toBe(`tpdapp://open?params=${encodeURIComponent(JSON.stringify({ url: DAPP_URL }))}`);
+    expect(new BitgetWalletStrategy().getDeepLink(DAPP_URL))
+      .toBe(`https://bkcode.vip?action=dapp&url=${encodeURIComponent(DAPP_URL)}`);
+    expect(new CoinbaseWalletStrategy().getDeepLink(DAPP_URL))
+      .toBe(`https://go.cb-w.com/dapp?cb_url=${encodeURIComponent(DAPP_URL)}`);
+  });
+
+  it('should only list mobile compatible wallets with a deep link', () => {
+    const registry = new WalletRegistry(new ProviderDiscovery());
+
+    expect(registry.getDeepLinkStrategies().map(strategy => strategy.id))
+      .toEqual(['metaMask', 'tokenPocket', 'bitgetWallet', 'coinbaseWallet']);
+  });
+});
+
+describe('WalletConnectionUI on mobile', () => {
+  const deepLinkWallets = [new MetaMaskStrategy(), new TokenPocketStrategy()];
+  const props = {
+    isConnected: false,
+    isConnecting: false,
+    address: null,
+    walletType: null,
+    error: null,
+    availableWallets: [new WalletConnectStrategy()],
+    lastConnectedWallet: null,
+    onConnect: jest.fn<(walletType: string) => Promise<void>>(),
+    onDisconnect: jest.fn<() => Promise<void>>(),
+    onRetry: jest.fn<() => Promise<void>>(),
+    deepLinkWallets
+  };
+
+  it('should offer wallet apps through deep links on a phone', () => {
+    render(<WalletConnectionUI {...props} mobile={{ isMobile: true, inAppWallet: null, dappUrl: DAPP_URL }} />);
+
+    expect(screen.getByText('Open this page in a wallet app')).toBeTruthy();
+    expect(screen.getByRole('link', { name: 'Open in TokenPocket' }).getAttribute('href'))
+      .toBe(new TokenPocketStrategy().getDeepLink(DAPP_URL));
+    expect(screen.getByRole('link', { name: 'Open in MetaMask' }).getAttribute('href'))
+      .toBe('https://metamask.app.link/dapp/demo.example.com/swap?token=0xabc&amount=1');
+    expect(screen.getByRole('button', { name: 'Connect to WalletConnect wallet' })).toBeTruthy();
+  });
+
+  it('should keep the extension path on desktop', () => {
+    render(<WalletConnectionUI {...props} mobile={{ isMobile: false, inAppWallet: null, dappUrl: DAPP_URL }} />);
+
+    expect(screen.queryByRole('link')).toBeNull();
+  });
+
+  it('should connect to the injected provider inside a wallet browser', () => {
+    render(
+      <WalletConnectionUI
+        {...props}
+        availableWallets={[new TokenPocketStrategy()]}
+        mobile={{ isMobile: true, inAppWallet: 'tokenPocket', dappUrl: DAPP_URL }}
+      />
+    );
+
+    expect(screen.queryByRole('link')).toBeNull();
+    expect(screen.getByRole('button', { name: 'Connect to TokenPocket wallet' })).toBeTruthy();
+  });
+});
@@ -0,0 +1,98 @@
+import { NetworkService, NetworkServiceOptions } from '@/services/implementations/NetworkService';
+import { BrowserStorageService } from '@/services/implementations/BrowserStorageService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { getChainDefinitionsForMode } from '@/config/chains';
+import { networkRegistry } from '@/strategies/NetworkStrategy';
+import { APP_CONFIG } from '@/config/constants';
+import { createMemoryStorage } from './fixtures/storage';
+
+jest.mock('@/utils/toast', () => ({
+  networkToast: {
+    switchError: jest.fn(),
+    switchSuccess: jest.fn()
+  }
+}));
+
+const hooks = {
+  useNetwork: () => ({} as any),
+  useSwitchNetwork: () => ({} as any)
+};
+
+describe('Network mode', () => {
+  let storageService: BrowserStorageService;
+
+  const createService = (options: NetworkServiceOptions = { allowTestnets: true }) => {
+    return new NetworkService(new WalletErrorHandler(), hooks, storageService, options);
+  };
+
+  beforeEach(() => {
+    storageService = new BrowserStorageService(createMemoryStorage());
+  });
+
+  it('should split the chain list into mainnets and testnets', () => {
+    expect(getChainDefinitionsForMode('mainnet').map(chain => chain.id)).toEqual([137, 59144, 56, 1]);
+    expect(getChainDefinitionsForMode('testnet').map(chain => chain.id)).toEqual([11155111, 80002, 59141, 97]);
+    expect(networkRegistry.getTestnetStrategies().every(strategy => strategy.isTestnet())).toBe(true);
+  });
+
+  it('should default to mainnet mode and only offer mainnets', () => {
+    const service = createService();
+
+    expect(service.getNetworkMode()).toBe('mainnet');
+    expect(service.getSupportedNetworks().every(network => network.isTestnet === false)).toBe(true);
+    expect(service.isNetworkSupported(11155111)).toBe(false);
+  });
+
+  it('should filter supported networks by the selected mode', async () => {
+    const service = createService();
+
+    expect(service.setNetworkMode('testnet')).toEqual({ success: true, mode: 'testnet' });
+    expect(service.getSupportedNetworks().map(network => network.name)).toEqual([
+      'Sepolia', 'Polygon Amoy', 'Linea Sepolia', 'BSC Testnet'
+    ]);
+    expect(service.isNetworkSupported(1)).toBe(false);
+    await expect(service.switchNetwork(1)).resolves.toMatchObject({ success: false });
+  });
+
+  it('should save the mode with the other user preferences', () => {
+    storageService.setJSON(APP_CONFIG.STORAGE_KEYS.USER_PREFERENCES, { autoReconnect: true });
+
+    createService().setNetworkMode('testnet');
+
+    expect(storageService.getJSON(APP_CONFIG.STORAGE_KEYS.USER_PREFERENCES)).toEqual({ autoReconnect: true, networkMode: 'testnet' });
+    expect(createService().getNetworkMode()).toBe('testnet');
+  });
+
+  it('should refuse testnet mode when testnets are not allowed', () => {
+    const service = createService({ allowTestnets: false });
+
+    expect(service.isNetworkModeAllowed('testnet')).toBe(false);
+    expect(service.setNetworkMode('testnet')).toMatchObject({ success: false, mode: 'mainnet' });
+    expect(service.getNetworkMode()).toBe('mainnet');
+  });
+
+  it('should ignore a saved testnet mode when testnets are not allowed', () => {
+    storageService.setJSON(APP_CONFIG.STORAGE_KEYS.USER_PREFERENCES, { networkMode: 'testnet' });
+
+    expect(createService({ allowTestnets: false }).getNetworkMode()).toBe('mainnet');
+  });
+
+  it('should not allow testnets in production builds without the env flag', () => {
+    const originalEnv = process.env;
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    process.env = { ...originalEnv, NODE_ENV: 'production', NEXT_PUBLIC_ENABLE_TESTNETS: undefined };
+
+    jest.isolateModules(() => {
+      expect(require('@/config/environment').areTestnetsAllowed()).toBe(false);
+    });
+
+    process.env = { ...originalEnv, NODE_ENV: 'production', NEXT_PUBLIC_ENABLE_TESTNETS: 'true' };
+
+    jest.isolateModules(() => {
+      expect(require('@/config/environment').areTestnetsAllowed()).toBe(true);
+    });
+
+    process.env = originalEnv;
+    warn.mockRestore();
+  });
+});
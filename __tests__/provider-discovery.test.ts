@@ -0,0 +1,143 @@
+import { ProviderDiscovery, providerDiscovery } from '@/strategies/ProviderDiscovery';
+import { WalletRegistry, InjectedWalletStrategy, MetaMaskStrategy } from '@/strategies/WalletStrategy';
+import { EIP6963ProviderDetail, WalletProvider, EIP6963_ANNOUNCE_EVENT, EIP6963_REQUEST_EVENT } from '@/types/wallet';
+
+const createDetail = (rdns: string, name: string, uuid = `${rdns}-uuid`): EIP6963ProviderDetail => ({
+  info: {
+    uuid,
+    name,
+    icon: 'data:image/svg+xml;base64,PHN2Zy8+',
+    rdns
+  },
+  provider: {
+    request: jest.fn(),
+    on: jest.fn(),
+    removeListener: jest.fn()
+  } as unknown as WalletProvider
+});
+
+const announce = (detail: unknown) => {
+  window.dispatchEvent(new CustomEvent(EIP6963_ANNOUNCE_EVENT, { detail }));
+};
+
+describe('EIP-6963 Provider Discovery', () => {
+  let discovery: ProviderDiscovery;
+
+  beforeEach(() => {
+    discovery = new ProviderDiscovery();
+  });
+
+  afterEach(() => {
+    discovery.stop();
+  });
+
+  it('should request providers when discovery starts', () => {
+    const requestListener = jest.fn();
+    window.addEventListener(EIP6963_REQUEST_EVENT, requestListener);
+
+    discovery.start();
+
+    expect(requestListener).toHaveBeenCalledTimes(1);
+    window.removeEventListener(EIP6963_REQUEST_EVENT, requestListener);
+  });
+
+  it('should keep a live list of announced providers', () => {
+    const listener = jest.fn();
+    discovery.subscribe(listener);
+    discovery.start();
+
+    announce(createDetail('io.metamask', 'MetaMask'));
+    announce(createDetail('com.bitget.web3', 'Bitget Wallet'));
+
+    expect(discovery.getProviders()).toHaveLength(2);
+    expect(discovery.getProviderByRdns(['io.metamask'])?.info.name).toBe('MetaMask');
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ignore malformed announcements', () => {
+    discovery.start();
+
+    announce({ info: { name: 'Broken' }, provider: {} });
+
+    expect(discovery.getProviders()).toHaveLength(0);
+  });
+
+  it('should stop listening after stop is called', () => {
+    discovery.start();
+    discovery.stop();
+
+    announce(createDetail('io.metamask', 'MetaMask'));
+
+    expect(discovery.getProviders()).toHaveLength(0);
+  });
+});
+
+describe('WalletRegistry - EIP-6963 matching', () => {
+  let discovery: ProviderDiscovery;
+  let registry: WalletRegistry;
+
+  beforeEach(() => {
+    discovery = new ProviderDiscovery();
+    registry = new WalletRegistry(discovery);
+    registry.startProviderDiscovery();
+  });
+
+  afterEach(() => {
+    registry.stopProviderDiscovery();
+  });
+
+  it('should match announced providers to strategies by rdns', () => {
+    const metaMask = createDetail('io.metamask', 'MetaMask');
+    const tokenPocket = createDetail('pro.tokenpocket', 'TokenPocket');
+    announce(metaMask);
+    announce(tokenPocket);
+
+    expect(registry.getStrategyForProvider(metaMask)?.id).toBe('metaMask');
+    expect(registry.getStrategyForProvider(tokenPocket)?.id).toBe('tokenPocket');
+    expect(registry.getInjectedStrategies()).toHaveLength(0);
+  });
+
+  it('should expose unmatched wallets as generic injected strategies', () => {
+    const rabby = createDetail('io.rabby', 'Rabby Wallet');
+    announce(rabby);
+
+    const strategy = registry.getStrategyForProvider(rabby);
+    expect(strategy).toBeInstanceOf(InjectedWalletStrategy);
+    expect(strategy?.id).toBe('eip6963:io.rabby');
+    expect(strategy?.name).toBe('Rabby Wallet');
+    expect(strategy?.getProvider()).toBe(rabby.provider);
+    expect(registry.getStrategy('eip6963:io.rabby')).toBe(strategy);
+    expect(registry.getAvailableStrategies()).toContain(strategy);
+  });
+});
+
+describe('MetaMaskStrategy detection', () => {
+  const strategy = new MetaMaskStrategy();
+
+  afterEach(() => {
+    delete (window as any).ethereum;
+    providerDiscovery.stop();
+    providerDiscovery.clear();
+  });
+
+  it('should not treat another wallet owning window.ethereum as MetaMask', () => {
+    (window as any).ethereum = createDetail('io.rabby', 'Rabby Wallet').provider;
+
+    expect(strategy.isInstalled()).toBe(false);
+    expect(strategy.getProvider()).toBeNull();
+  });
+
+  it('should detect MetaMask from window.ethereum.isMetaMask or its EIP-6963 announcement', () => {
+    const injected = { ...createDetail('io.metamask', 'MetaMask').provider, isMetaMask: true };
+    (window as any).ethereum = injected;
+    expect(strategy.isInstalled()).toBe(true);
+
+    delete (window as any).ethereum;
+    const announced = createDetail('io.metamask', 'MetaMask');
+    providerDiscovery.start();
+    announce(announced);
+
+    expect(strategy.isInstalled()).toBe(true);
+    expect(strategy.getProvider()).toBe(announced.provider);
+  });
+});
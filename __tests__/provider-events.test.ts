@@ -0,0 +1,187 @@
+import { ProviderEventBus } from '@/services/implementations/ProviderEventBus';
+import { NetworkService } from '@/services/implementations/NetworkService';
+import { WagmiWalletService } from '@/services/implementations/WagmiWalletService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { BrowserStorageService } from '@/services/implementations/BrowserStorageService';
+import { MockWagmiAdapter } from '@/services/implementations/WagmiAdapter';
+import { ProviderDiscovery } from '@/strategies/ProviderDiscovery';
+import { WalletRegistry } from '@/strategies/WalletStrategy';
+import { EIP6963ProviderDetail, EIP6963_ANNOUNCE_EVENT, WalletProvider } from '@/types/wallet';
+import { parseChainId } from '@/utils/chains';
+
+type Handler = (...args: any[]) => void;
+
+// EIP-1193 provider that lets the test fire wallet events
+const createProvider = () => {
+  const handlers: Record<string, Set<Handler>> = {};
+  const provider = {
+    request: jest.fn(),
+    on: jest.fn((event: string, handler: Handler) => {
+      (handlers[event] = handlers[event] || new Set()).add(handler);
+    }),
+    removeListener: jest.fn((event: string, handler: Handler) => {
+      handlers[event]?.delete(handler);
+    })
+  };
+
+  return {
+    provider: provider as unknown as WalletProvider,
+    emit: (event: string, ...args: unknown[]) => handlers[event]?.forEach(handler => handler(...args)),
+    listenerCount: () => Object.keys(handlers).reduce((count, event) => count + handlers[event].size, 0)
+  };
+};
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+const OTHER_ACCOUNT = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+describe('ProviderEventBus', () => {
+  let bus: ProviderEventBus;
+
+  beforeEach(() => {
+    bus = new ProviderEventBus(new WalletRegistry(new ProviderDiscovery()));
+  });
+
+  it('should normalise chain ids from hex, decimal and numeric events', () => {
+    const wallet = createProvider();
+    const listener = jest.fn();
+    bus.onChainChanged(listener);
+    bus.attach('metaMask', wallet.provider);
+
+    wallet.emit('chainChanged', '0x89');
+    wallet.emit('chainChanged', '1');
+    wallet.emit('chainChanged', 56);
+    wallet.emit('chainChanged', 'not-a-chain');
+
+    expect(listener.mock.calls.map(([event]) => event)).toEqual([
+      { walletType: 'metaMask', chainId: 137 },
+      { walletType: 'metaMask', chainId: 1 },
+      { walletType: 'metaMask', chainId: 56 }
+    ]);
+  });
+
+  it('should treat connect as the first chain report and skip repeated chains', () => {
+    const wallet = createProvider();
+    const listener = jest.fn();
+    bus.onChainChanged(listener);
+    bus.attach('metaMask', wallet.provider);
+
+    wallet.emit('connect', { chainId: '0x1' });
+    wallet.emit('chainChanged', '0x1');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ walletType: 'metaMask', chainId: 1 });
+  });
+
+  it('should report account switches and locked wallets', () => {
+    const wallet = createProvider();
+    const listener = jest.fn();
+    bus.onAccountChanged(listener);
+    bus.attach('tokenPocket', wallet.provider);
+
+    wallet.emit('accountsChanged', [ACCOUNT]);
+    wallet.emit('accountsChanged', [ACCOUNT.toUpperCase().replace('0X', '0x')]);
+    wallet.emit('accountsChanged', OTHER_ACCOUNT);
+    wallet.emit('accountsChanged', []);
+
+    expect(listener.mock.calls.map(([event]) => event)).toEqual([
+      { walletType: 'tokenPocket', accounts: [ACCOUNT], address: ACCOUNT },
+      { walletType: 'tokenPocket', accounts: [OTHER_ACCOUNT], address: OTHER_ACCOUNT },
+      { walletType: 'tokenPocket', accounts: [], address: null }
+    ]);
+  });
+
+  it('should report disconnects with the provider error', () => {
+    const wallet = createProvider();
+    const listener = jest.fn();
+    bus.onDisconnect(listener);
+    bus.attach('bitgetWallet', wallet.provider);
+
+    wallet.emit('disconnect', { code: 4900, message: 'Disconnected from all chains' });
+
+    expect(listener).toHaveBeenCalledWith({ walletType: 'bitgetWallet', code: 4900, message: 'Disconnected from all chains' });
+  });
+
+  it('should stop listening once a provider is detached or a subscription ends', () => {
+    const wallet = createProvider();
+    const listener = jest.fn();
+    const unsubscribe = bus.onChainChanged(listener);
+    bus.attach('metaMask', wallet.provider);
+
+    wallet.emit('chainChanged', '0x1');
+    unsubscribe();
+    wallet.emit('chainChanged', '0x89');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    bus.detach(wallet.provider);
+    expect(wallet.listenerCount()).toBe(0);
+  });
+
+  it('should follow wallets announced after it starts', () => {
+    const discovery = new ProviderDiscovery();
+    const registryBus = new ProviderEventBus(new WalletRegistry(discovery));
+    const wallet = createProvider();
+    const listener = jest.fn();
+    registryBus.onChainChanged(listener);
+
+    registryBus.start();
+    discovery.start();
+    const detail: EIP6963ProviderDetail = {
+      info: { uuid: 'rabby-uuid', name: 'Rabby', icon: 'data:image/svg+xml;base64,PHN2Zy8+', rdns: 'io.rabby' },
+      provider: wallet.provider
+    };
+    window.dispatchEvent(new CustomEvent(EIP6963_ANNOUNCE_EVENT, { detail }));
+    wallet.emit('chainChanged', '0xe708');
+
+    expect(listener).toHaveBeenCalledWith({ walletType: 'eip6963:io.rabby', chainId: 59144 });
+
+    registryBus.stop();
+    discovery.stop();
+    expect(wallet.listenerCount()).toBe(0);
+  });
+});
+
+describe('Provider events on services', () => {
+  it('should keep the network service current network in step with the wallet', () => {
+    const bus = new ProviderEventBus(new WalletRegistry(new ProviderDiscovery()));
+    const wallet = createProvider();
+    bus.attach('metaMask', wallet.provider);
+    const networkService = new NetworkService(new WalletErrorHandler(), {} as any, undefined, { allowTestnets: false, eventBus: bus });
+
+    expect(networkService.getCurrentNetwork()).toBeNull();
+
+    wallet.emit('chainChanged', '0x89');
+    expect(networkService.getCurrentNetwork()).toMatchObject({ id: 137, name: 'Polygon' });
+
+    wallet.emit('chainChanged', '0x2105');
+    expect(networkService.getCurrentNetwork()).toMatchObject({ id: 8453, name: 'Chain 8453' });
+    expect(networkService.isNetworkSupported(8453)).toBe(false);
+
+    wallet.emit('disconnect', { code: 4900, message: 'Disconnected' });
+    expect(networkService.getCurrentNetwork()).toBeNull();
+  });
+
+  it('should expose the same subscriptions on the wallet service', () => {
+    const bus = new ProviderEventBus(new WalletRegistry(new ProviderDiscovery()));
+    const wallet = createProvider();
+    bus.attach('metaMask', wallet.provider);
+    const walletService = new WagmiWalletService(new BrowserStorageService(), new WalletErrorHandler(), new MockWagmiAdapter(), bus);
+    const onAccount = jest.fn();
+    const onDisconnect = jest.fn();
+    walletService.onAccountChanged(onAccount);
+    walletService.onDisconnect(onDisconnect);
+
+    wallet.emit('accountsChanged', [ACCOUNT]);
+    wallet.emit('disconnect');
+
+    expect(onAccount).toHaveBeenCalledWith(expect.objectContaining({ address: ACCOUNT }));
+    expect(onDisconnect).toHaveBeenCalledWith({ walletType: 'metaMask' });
+  });
+
+  it('should parse chain ids in every format wallets use', () => {
+    expect(parseChainId('0x1')).toBe(1);
+    expect(parseChainId('137')).toBe(137);
+    expect(parseChainId(56)).toBe(56);
+    expect(parseChainId('0x0')).toBeNull();
+    expect(parseChainId(undefined)).toBeNull();
+  });
+});
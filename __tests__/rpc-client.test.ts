@@ -0,0 +1,234 @@
+/**
+ * @jest-environment node
+ */
+import { RpcEndpointTracker } from '@/utils/rpc';
+import { JsonRpcClient } from '@/utils/rpcClient';
+import { getChainDefinition } from '@/config/chains';
+
+const bsc = getChainDefinition(56)!;
+const [PRIMARY, SECONDARY] = bsc.rpcUrls;
+const CONTRACT = '0xca11bde05977b3631167028862be2a173976ca11';
+const OWNER = '0x1234567890123456789012345678901234567890';
+const EMPTY = '0x0000000000000000000000000000000000000001';
+const BLOCK_HASH = `0x${'ab'.repeat(32)}`;
+
+type RpcHandler = (params: any[]) => unknown;
+
+// Answers single requests and batches as a node would
+const mockRpc = (handlers: Record<string, RpcHandler>) => {
+  (global.fetch as any).mockImplementation(async (_url: string, init: RequestInit) => {
+    const payload = JSON.parse(init.body as string);
+    const answer = ({ method, params, id }: any) => ({ jsonrpc: '2.0', id, result: handlers[method](params) });
+    return { ok: true, status: 200, json: async () => (Array.isArray(payload) ? payload.map(answer) : answer(payload)) };
+  });
+};
+
+const requestBodies = (): any[] => (global.fetch as any).mock.calls.map(([, init]: [string, RequestInit]) => JSON.parse(init.body as string));
+
+describe('JsonRpcClient', () => {
+  let client: JsonRpcClient;
+
+  beforeEach(() => {
+    (global.fetch as any).mockReset();
+    client = new JsonRpcClient(new RpcEndpointTracker());
+  });
+
+  it('should send identical concurrent calls once', async () => {
+    mockRpc({ eth_blockNumber: () => '0x10' });
+
+    const results = await Promise.all([
+      client.call(bsc.rpcUrls, 'eth_blockNumber'),
+      client.call(bsc.rpcUrls, 'eth_blockNumber'),
+      client.call(bsc.rpcUrls, 'eth_blockNumber')
+    ]);
+
+    expect(results).toEqual(['0x10', '0x10', '0x10']);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(requestBodies()[0]).toMatchObject({ method: 'eth_blockNumber' });
+  });
+
+  it('should batch calls made in the same tick and match responses by id', async () => {
+    mockRpc({
+      eth_blockNumber: () => '0x10',
+      eth_getBalance: ([address]) => (address === CONTRACT ? '0x1' : '0x2'),
+      eth_gasPrice: () => '0x3'
+    });
+
+    const results = await Promise.all([
+      client.call(bsc.rpcUrls, 'eth_blockNumber'),
+      client.call(bsc.rpcUrls, 'eth_getBalance', [CONTRACT, 'latest']),
+      client.call(bsc.rpcUrls, 'eth_getBalance', [EMPTY, 'latest']),
+      client.call(bsc.rpcUrls, 'eth_gasPrice')
+    ]);
+
+    expect(results).toEqual(['0x10', '0x1', '0x2', '0x3']);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(requestBodies()[0].map((payload: any) => payload.method)).toEqual(['eth_blockNumber', 'eth_getBalance', 'eth_getBalance', 'eth_gasPrice']);
+  });
+
+  it('should split batches larger than the configured size', async () => {
+    client = new JsonRpcClient(new RpcEndpointTracker(), { maxBatchSize: 2 });
+    mockRpc({ eth_getBalance: () => '0x0' });
+
+    await Promise.all([CONTRACT, EMPTY, OWNER].map(address => client.call(bsc.rpcUrls, 'eth_getBalance', [address, 'latest'])));
+
+    expect(requestBodies().map(body => [].concat(body).length)).toEqual([2, 1]);
+  });
+
+  it('should cache chain ids, deployed code and blocks by hash', async () => {
+    mockRpc({
+      eth_chainId: () => '0x38',
+      eth_getCode: ([address]) => (address === CONTRACT ? '0x6080' : '0x'),
+      eth_getBlockByHash: () => ({ hash: BLOCK_HASH, number: '0x10' }),
+      eth_blockNumber: () => '0x10'
+    });
+
+    for (let i = 0; i < 2; i++) {
+      await client.call(bsc.rpcUrls, 'eth_chainId');
+      await client.call(bsc.rpcUrls, 'eth_getCode', [CONTRACT, 'latest']);
+      await client.call(bsc.rpcUrls, 'eth_getCode', [EMPTY, 'latest']);
+      await client.call(bsc.rpcUrls, 'eth_getBlockByHash', [BLOCK_HASH, false]);
+      await client.call(bsc.rpcUrls, 'eth_blockNumber');
+    }
+
+    // An empty account may still get code, and the latest block keeps moving
+    expect(requestBodies().map(body => body.method)).toEqual([
+      'eth_chainId', 'eth_getCode', 'eth_getCode', 'eth_getBlockByHash', 'eth_blockNumber',
+      'eth_getCode', 'eth_blockNumber'
+    ]);
+
+    client.clearCache();
+    await client.call(bsc.rpcUrls, 'eth_chainId');
+    expect(global.fetch).toHaveBeenCalledTimes(8);
+  });
+
+  it('should ask again when the cache is bypassed, and cache the fresh result', async () => {
+    let chainId = '0x38';
+    mockRpc({ eth_chainId: () => chainId });
+
+    expect(await client.call([PRIMARY], 'eth_chainId')).toBe('0x38');
+    chainId = '0x1';
+    expect(await client.call([PRIMARY], 'eth_chainId')).toBe('0x38');
+    expect(await client.call([PRIMARY], 'eth_chainId', [], { cache: false })).toBe('0x1');
+    expect(await client.call([PRIMARY], 'eth_chainId')).toBe('0x1');
+
+    // Cached per endpoint
+    expect(await client.call([SECONDARY], 'eth_chainId')).toBe('0x1');
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject a call with the node error and leave the rest of the batch alone', async () => {
+    (global.fetch as any).mockImplementation(async (_url: string, init: RequestInit) => {
+      const payload = JSON.parse(init.body as string);
+      return {
+        ok: true,
+        status: 200,
+        json: async () => payload.map(({ method, id }: any) => (method === 'eth_call'
+          ? { jsonrpc: '2.0', id, error: { code: 3, message: 'execution reverted' } }
+          : { jsonrpc: '2.0', id, result: '0x10' }))
+      };
+    });
+
+    const [call, blockNumber] = await Promise.allSettled([
+      client.call(bsc.rpcUrls, 'eth_call', [{ to: CONTRACT, data: '0x' }, 'latest'], { chainId: 56 }),
+      client.call(bsc.rpcUrls, 'eth_blockNumber', [], { chainId: 56 })
+    ]);
+
+    expect(call).toMatchObject({ status: 'rejected', reason: { message: 'execution reverted', code: 3 } });
+    expect(blockNumber).toEqual({ status: 'fulfilled', value: '0x10' });
+  });
+
+  it('should resend calls one by one when a node does not support batches', async () => {
+    (global.fetch as any).mockImplementation(async (_url: string, init: RequestInit) => {
+      const payload = JSON.parse(init.body as string);
+      return {
+        ok: true,
+        status: 200,
+        json: async () => (Array.isArray(payload)
+          ? { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Batch requests are not supported' } }
+          : { jsonrpc: '2.0', id: payload.id, result: payload.method === 'eth_chainId' ? '0x38' : '0x10' })
+      };
+    });
+
+    const results = await Promise.all([
+      client.call(bsc.rpcUrls, 'eth_chainId'),
+      client.call(bsc.rpcUrls, 'eth_blockNumber')
+    ]);
+
+    expect(results).toEqual(['0x38', '0x10']);
+    expect(requestBodies().map(body => Array.isArray(body))).toEqual([true, false, false]);
+  });
+
+  it('should refuse methods outside the allowlist without sending anything', async () => {
+    await expect(client.call(bsc.rpcUrls, 'eth_sendRawTransaction', ['0x00'])).rejects.toMatchObject({
+      message: 'RPC method eth_sendRawTransaction is not allowed'
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('Retry-After', () => {
+  let tracker: RpcEndpointTracker;
+
+  beforeEach(() => {
+    (global.fetch as any).mockReset();
+    tracker = new RpcEndpointTracker();
+  });
+
+  const rateLimit = (retryAfter: string) => {
+    (global.fetch as any).mockImplementation(async (url: string, init: RequestInit) => {
+      if (url === PRIMARY) {
+        return { ok: false, status: 429, statusText: 'Too Many Requests', headers: new Headers({ 'Retry-After': retryAfter }), json: async () => ({}) };
+      }
+      const { id } = JSON.parse(init.body as string);
+      return { ok: true, status: 200, json: async () => ({ jsonrpc: '2.0', id, result: '0x10' }) };
+    });
+  };
+
+  it('should skip a rate limited endpoint until Retry-After has passed', async () => {
+    const client = new JsonRpcClient(tracker);
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    rateLimit('30');
+
+    try {
+      expect(await client.call(bsc.rpcUrls, 'eth_blockNumber')).toBe('0x10');
+      expect(await client.call(bsc.rpcUrls, 'eth_blockNumber')).toBe('0x10');
+
+      const calledUrls = (global.fetch as any).mock.calls.map(([url]: [string]) => url);
+      expect(calledUrls).toEqual([PRIMARY, SECONDARY, SECONDARY]);
+      expect(tracker.getHealth(PRIMARY)).toMatchObject({ status: 'down', retryAt: now + 30000 });
+      await expect(client.call([PRIMARY], 'eth_gasPrice')).rejects.toMatchObject({
+        message: expect.stringContaining('rate limited for 30s')
+      });
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+
+      clock.mockReturnValue(now + 30001);
+      expect(tracker.getHealth(PRIMARY).retryAt).toBeUndefined();
+      expect(tracker.getHealth(PRIMARY).status).not.toBe('down');
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  it('should accept an HTTP date and cap long waits', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const payload = { jsonrpc: '2.0', method: 'eth_blockNumber', params: [], id: 1 };
+
+    try {
+      rateLimit(new Date(now + 120000).toUTCString());
+      await tracker.request(bsc.rpcUrls, payload);
+      // HTTP dates only carry whole seconds
+      expect(tracker.getHealth(PRIMARY).retryAt).toBeGreaterThan(now + 118000);
+      expect(tracker.getHealth(PRIMARY).retryAt).toBeLessThanOrEqual(now + 120000);
+
+      tracker.reset();
+      rateLimit('86400');
+      await tracker.request(bsc.rpcUrls, payload);
+      expect(tracker.getHealth(PRIMARY).retryAt).toBe(now + 5 * 60 * 1000);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,134 @@
+import { RpcEndpointTracker } from '@/utils/rpc';
+import { JsonRpcClient, rpcClient } from '@/utils/rpcClient';
+import { ConfiguredNetworkStrategy } from '@/strategies/NetworkStrategy';
+import { NetworkService } from '@/services/implementations/NetworkService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { getChainDefinition } from '@/config/chains';
+import { getRpcProxyUrl } from '@/utils/chains';
+
+// jsdom does not implement AbortSignal.timeout
+if (typeof AbortSignal.timeout !== 'function') {
+  (AbortSignal as any).timeout = () => new AbortController().signal;
+}
+
+const bsc = getChainDefinition(56)!;
+const [PRIMARY, SECONDARY, TERTIARY] = bsc.rpcUrls;
+// Strategies try the app's RPC proxy before the public endpoints
+const PROXY = getRpcProxyUrl(56)!;
+
+const payload = { jsonrpc: '2.0', method: 'eth_blockNumber', params: [], id: 1 };
+
+type EndpointBehaviour = 'ok' | 'timeout' | number;
+
+// Answers as a healthy BSC node would
+const respond = (method: string) => {
+  if (method === 'eth_chainId') return '0x38';
+  if (method === 'eth_getBlockByNumber') return { number: '0x10', timestamp: `0x${Math.floor(Date.now() / 1000).toString(16)}` };
+  return '0x10';
+};
+
+// Each URL answers, times out, or fails with the given HTTP status
+const mockEndpoints = (behaviours: Record<string, EndpointBehaviour>) => {
+  (global.fetch as any).mockImplementation(async (url: string, init: RequestInit) => {
+    const behaviour = behaviours[url] ?? 'ok';
+    if (behaviour === 'timeout') {
+      throw Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' });
+    }
+    if (typeof behaviour === 'number') {
+      return { ok: false, status: behaviour, statusText: 'Error', json: async () => ({}) };
+    }
+    const payload = JSON.parse(init.body as string);
+    const answer = ({ method, id }: { method: string; id: number }) => ({ jsonrpc: '2.0', id, result: respond(method) });
+    return { ok: true, status: 200, json: async () => (Array.isArray(payload) ? payload.map(answer) : answer(payload)) };
+  });
+};
+
+const calledUrls = (): string[] => (global.fetch as any).mock.calls.map(([url]: [string]) => url);
+
+describe('RPC endpoint failover', () => {
+  let tracker: RpcEndpointTracker;
+
+  beforeEach(() => {
+    (global.fetch as any).mockReset();
+    tracker = new RpcEndpointTracker();
+    rpcClient.reset();
+  });
+
+  it('should fail over to the next endpoint on HTTP 5xx', async () => {
+    mockEndpoints({ [PRIMARY]: 503 });
+
+    const data = await tracker.request(bsc.rpcUrls, payload);
+
+    expect(data.result).toBe('0x10');
+    expect(calledUrls()).toEqual([PRIMARY, SECONDARY]);
+    expect(tracker.getHealth(PRIMARY)).toMatchObject({ errorRate: 1, lastError: 'HTTP 503' });
+  });
+
+  it('should fail over on timeouts and report every failure when all endpoints are down', async () => {
+    mockEndpoints({ [PRIMARY]: 'timeout', [SECONDARY]: 502, [TERTIARY]: 'timeout' });
+
+    await expect(tracker.request(bsc.rpcUrls, payload, { chainId: 56, timeout: 1000 })).rejects.toMatchObject({
+      name: 'NetworkError',
+      chainId: 56,
+      message: expect.stringContaining(`${PRIMARY}: timed out after 1000ms`)
+    });
+    expect(calledUrls()).toEqual([PRIMARY, SECONDARY, TERTIARY]);
+  });
+
+  it('should not fail over on client errors', async () => {
+    mockEndpoints({ [PRIMARY]: 400 });
+
+    await expect(tracker.request(bsc.rpcUrls, payload)).rejects.toMatchObject({ name: 'NetworkError', rpcUrl: PRIMARY });
+    expect(calledUrls()).toEqual([PRIMARY]);
+  });
+
+  it('should rank endpoints by latency and error rate', () => {
+    tracker.recordSuccess(PRIMARY, 900);
+    tracker.recordSuccess(SECONDARY, 100);
+    tracker.recordSuccess(TERTIARY, 80);
+    tracker.recordFailure(TERTIARY, 'HTTP 500');
+
+    expect(tracker.rank(bsc.rpcUrls).map(endpoint => [endpoint.rank, endpoint.url])).toEqual([
+      [1, SECONDARY],
+      [2, TERTIARY],
+      [3, PRIMARY]
+    ]);
+  });
+
+  it('should keep the configured order for endpoints without samples', () => {
+    expect(tracker.getRankedUrls(bsc.rpcUrls)).toEqual(bsc.rpcUrls);
+    expect(tracker.rank(bsc.rpcUrls)[0].status).toBe('unknown');
+  });
+
+  it('should move an endpoint to the back while it cools down after repeated failures', () => {
+    const coolingTracker = new RpcEndpointTracker({ maxConsecutiveFailures: 2, cooldown: 60000 });
+    coolingTracker.recordSuccess(PRIMARY, 10);
+    coolingTracker.recordFailure(PRIMARY, 'HTTP 500');
+    coolingTracker.recordFailure(PRIMARY, 'HTTP 500');
+
+    const ranking = coolingTracker.rank(bsc.rpcUrls);
+    expect(ranking[2]).toMatchObject({ url: PRIMARY, status: 'down' });
+
+    coolingTracker.recordSuccess(PRIMARY, 10);
+    expect(coolingTracker.getRankedUrls(bsc.rpcUrls)[0]).toBe(PRIMARY);
+  });
+
+  it('should validate a network while the proxy is rate limited and its primary endpoint is down', async () => {
+    mockEndpoints({ [PROXY]: 429, [PRIMARY]: 500 });
+    const strategy = new ConfiguredNetworkStrategy(bsc, new JsonRpcClient(tracker));
+
+    await expect(strategy.validateConnection()).resolves.toMatchObject({ healthy: true, rpcUrl: SECONDARY, chainId: 56 });
+    expect(strategy.rpcUrl).toBe(SECONDARY);
+  });
+
+  it('should expose the endpoint ranking through checkNetworkHealth', async () => {
+    mockEndpoints({ [PROXY]: 'timeout' });
+    const networkService = new NetworkService(new WalletErrorHandler(), {} as any);
+
+    const health = await networkService.checkNetworkHealth(56);
+
+    expect(health.isHealthy).toBe(true);
+    expect(health.endpoints.map(endpoint => endpoint.url)).toEqual([PRIMARY, SECONDARY, TERTIARY, PROXY]);
+    expect(health.endpoints[3]).toMatchObject({ rank: 4, lastError: expect.stringContaining('timed out') });
+  });
+});
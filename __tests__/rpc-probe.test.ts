@@ -0,0 +1,167 @@
+import { RpcEndpointTracker } from '@/utils/rpc';
+import { JsonRpcClient, rpcClient } from '@/utils/rpcClient';
+import { RpcProbe } from '@/utils/rpcProbe';
+import { NetworkService } from '@/services/implementations/NetworkService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { getChainDefinition } from '@/config/chains';
+
+// jsdom does not implement AbortSignal.timeout
+if (typeof AbortSignal.timeout !== 'function') {
+  (AbortSignal as any).timeout = () => new AbortController().signal;
+}
+
+const bsc = getChainDefinition(56)!;
+const [PRIMARY, SECONDARY] = bsc.rpcUrls;
+
+interface NodeState {
+  chainId: number;
+  blockNumber: number;
+  blockAge: number; // seconds
+}
+
+const toHex = (value: number) => `0x${value.toString(16)}`;
+
+// Every endpoint answers as the node described for its URL, or times out when none is given
+const mockNodes = (nodes: Record<string, NodeState>) => {
+  (global.fetch as any).mockImplementation(async (url: string, init: RequestInit) => {
+    const node = nodes[url];
+    if (!node) {
+      throw Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' });
+    }
+
+    const payload = JSON.parse(init.body as string);
+    const answer = ({ method, id }: { method: string; id: number }) => ({
+      jsonrpc: '2.0',
+      id,
+      result: method === 'eth_chainId'
+        ? toHex(node.chainId)
+        : { number: toHex(node.blockNumber), timestamp: toHex(Math.floor(Date.now() / 1000) - node.blockAge) }
+    });
+    return { ok: true, status: 200, json: async () => (Array.isArray(payload) ? payload.map(answer) : answer(payload)) };
+  });
+};
+
+describe('RpcProbe', () => {
+  let tracker: RpcEndpointTracker;
+  let probe: RpcProbe;
+
+  beforeEach(() => {
+    (global.fetch as any).mockReset();
+    tracker = new RpcEndpointTracker();
+    probe = new RpcProbe(new JsonRpcClient(tracker), { maxBlockAge: 60000, stallTimeout: 30000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should report a node on the right chain with a recent block as healthy', async () => {
+    mockNodes({ [PRIMARY]: { chainId: 56, blockNumber: 100, blockAge: 3 } });
+
+    const result = await probe.probe(bsc.rpcUrls, 56);
+
+    expect(result).toMatchObject({ healthy: true, rpcUrl: PRIMARY, chainId: 56, blockNumber: 100, failures: [] });
+    expect(result.blockTimestamp).toBeGreaterThan(0);
+  });
+
+  it('should fail an endpoint that answers for another chain', async () => {
+    mockNodes({
+      [PRIMARY]: { chainId: 1, blockNumber: 100, blockAge: 3 },
+      [SECONDARY]: { chainId: 56, blockNumber: 100, blockAge: 3 }
+    });
+
+    const result = await probe.probe(bsc.rpcUrls, 56);
+
+    expect(result.healthy).toBe(false);
+    expect(result.chainId).toBe(1);
+    expect(result.failures).toEqual([{
+      reason: 'chain-id-mismatch',
+      message: `${PRIMARY} reports chain ID 1, expected 56`
+    }]);
+    expect(tracker.getHealth(PRIMARY)).toMatchObject({ consecutiveFailures: 1, lastError: 'chain ID mismatch' });
+  });
+
+  it('should notice an endpoint that starts serving another chain', async () => {
+    const nodes = { [PRIMARY]: { chainId: 56, blockNumber: 100, blockAge: 3 } };
+    mockNodes(nodes);
+    expect((await probe.probe([PRIMARY], 56)).healthy).toBe(true);
+
+    nodes[PRIMARY] = { chainId: 1, blockNumber: 200, blockAge: 3 };
+    const result = await probe.probe([PRIMARY], 56);
+
+    expect(result.healthy).toBe(false);
+    expect(result.failures.map(failure => failure.reason)).toEqual(['chain-id-mismatch']);
+  });
+
+  it('should fail a node whose latest block is old', async () => {
+    mockNodes({ [PRIMARY]: { chainId: 56, blockNumber: 100, blockAge: 600 } });
+
+    const result = await probe.probe(bsc.rpcUrls, 56);
+
+    expect(result.healthy).toBe(false);
+    expect(result.failures.map(failure => failure.reason)).toEqual(['stale-block']);
+  });
+
+  it('should fail a node whose block number stops moving between probes', async () => {
+    const nodes = { [PRIMARY]: { chainId: 56, blockNumber: 100, blockAge: 3 } };
+    mockNodes(nodes);
+    const startedAt = Date.now();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(startedAt);
+
+    expect((await probe.probe(bsc.rpcUrls, 56)).healthy).toBe(true);
+
+    // Still on the same block, but not for long enough to call it stalled
+    now.mockReturnValue(startedAt + 10000);
+    expect((await probe.probe(bsc.rpcUrls, 56)).healthy).toBe(true);
+
+    now.mockReturnValue(startedAt + 40000);
+    const stalled = await probe.probe(bsc.rpcUrls, 56);
+    expect(stalled.failures.map(failure => failure.reason)).toEqual(['block-not-advancing']);
+
+    nodes[PRIMARY].blockNumber = 101;
+    expect((await probe.probe(bsc.rpcUrls, 56)).healthy).toBe(true);
+  });
+
+  it('should fail over unreachable endpoints and list them when none answers', async () => {
+    mockNodes({ [SECONDARY]: { chainId: 56, blockNumber: 100, blockAge: 3 } });
+    expect(await probe.probe(bsc.rpcUrls, 56)).toMatchObject({ healthy: true, rpcUrl: SECONDARY });
+
+    mockNodes({});
+    const result = await probe.probe(bsc.rpcUrls, 56);
+
+    expect(result).toMatchObject({ healthy: false, rpcUrl: null, chainId: null });
+    expect(result.failures).toHaveLength(bsc.rpcUrls.length);
+    expect(result.failures.every(failure => failure.reason === 'unreachable')).toBe(true);
+  });
+
+  it('should give the failure reasons through checkNetworkHealth', async () => {
+    rpcClient.reset();
+    mockNodes(Object.fromEntries(bsc.rpcUrls.map(url => [url, { chainId: 97, blockNumber: 100, blockAge: 3 }])));
+    const networkService = new NetworkService(new WalletErrorHandler(), {} as any);
+
+    const health = await networkService.checkNetworkHealth(56);
+
+    expect(health.isHealthy).toBe(false);
+    expect(health.failures?.[0].reason).toBe('chain-id-mismatch');
+    expect(health.error).toContain('reports chain ID 97, expected 56');
+  });
+
+  it('should refuse to validate a network whose RPC fails the probe', async () => {
+    rpcClient.reset();
+    const nodes = Object.fromEntries(bsc.rpcUrls.map(url => [url, { chainId: 97, blockNumber: 100, blockAge: 3 }]));
+    mockNodes(nodes);
+    const networkService = new NetworkService(new WalletErrorHandler(), {} as any);
+
+    const validation = await networkService.validateNetwork(56);
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.failures[0].reason).toBe('chain-id-mismatch');
+    expect(validation.error).toContain('reports chain ID 97, expected 56');
+
+    bsc.rpcUrls.forEach(url => {
+      nodes[url] = { chainId: 56, blockNumber: 100, blockAge: 3 };
+    });
+    await expect(networkService.validateNetwork(56)).resolves.toEqual({ isValid: true, failures: [] });
+    await expect(networkService.validateNetwork(11155111)).resolves.toMatchObject({ isValid: false, failures: [] });
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import handler from '@/pages/api/rpc/[chainId]';
+import { RpcProxyService, configureRpcProxy } from '@/services/implementations/RpcProxyService';
+import { SecurityUtils } from '@/utils/security';
+import { env } from '@/config/environment';
+
+interface MockUpstream {
+  url: string;
+  received: any[];
+  close: () => Promise<void>;
+}
+
+// A local JSON-RPC node that answers as BSC would
+const startUpstream = (path: string = '/'): Promise<MockUpstream> => {
+  const received: any[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const payload = JSON.parse(body);
+      received.push(payload);
+      const response = payload.method === 'eth_getBalance'
+        ? { jsonrpc: '2.0', id: payload.id, error: { code: -32602, message: 'invalid address' } }
+        : { jsonrpc: '2.0', id: payload.id, result: payload.method === 'eth_chainId' ? '0x38' : '0x10' };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}${path}`,
+        received,
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+};
+
+// jest.setup.js replaces fetch with a mock, so the proxy reaches the upstream through node's http client
+const httpFetch = (url: string, init: RequestInit) => new Promise((resolve, reject) => {
+  const request = http.request(url, {
+    method: init.method,
+    headers: init.headers as http.OutgoingHttpHeaders,
+    signal: init.signal ?? undefined
+  }, response => {
+    let body = '';
+    response.on('data', chunk => {
+      body += chunk;
+    });
+    response.on('end', () => resolve({
+      ok: response.statusCode! >= 200 && response.statusCode! < 300,
+      status: response.statusCode,
+      statusText: response.statusMessage,
+      json: async () => JSON.parse(body)
+    }));
+  });
+  request.on('error', reject);
+  request.end(init.body);
+});
+
+const rpc = (method: string, params: unknown[] = [], id: number = 1) => ({ jsonrpc: '2.0', method, params, id });
+
+const createResponse = () => {
+  const res: any = { headers: {} as Record<string, string> };
+  res.setHeader = jest.fn((name: string, value: string) => {
+    res.headers[name] = value;
+    return res;
+  });
+  res.status = jest.fn((status: number) => {
+    res.statusCode = status;
+    return res;
+  });
+  res.json = jest.fn((body: unknown) => {
+    res.body = body;
+    return res;
+  });
+  return res;
+};
+
+describe('RpcProxyService', () => {
+  let upstream: MockUpstream;
+
+  beforeEach(async () => {
+    (global.fetch as any).mockImplementation(httpFetch);
+    upstream = await startUpstream('/v3/secret-key');
+  });
+
+  afterEach(async () => {
+    await upstream.close();
+  });
+
+  it('should forward allowed requests to the configured upstream', async () => {
+    const proxy = new RpcProxyService({ upstreams: { 56: [upstream.url] } });
+
+    const response = await proxy.forward(56, rpc('eth_chainId', [], 7), 'client-a');
+
+    expect(response).toEqual({ status: 200, body: { jsonrpc: '2.0', id: 7, result: '0x38' } });
+    expect(upstream.received).toEqual([rpc('eth_chainId', [], 7)]);
+  });
+
+  it('should pass node errors through unchanged', async () => {
+    const proxy = new RpcProxyService({ upstreams: { 56: [upstream.url] } });
+
+    const response = await proxy.forward(56, rpc('eth_getBalance', ['0xnope', 'latest']), 'client-a');
+
+    expect(response.body).toEqual({ jsonrpc: '2.0', id: 1, error: { code: -32602, message: 'invalid address' } });
+  });
+
+  it('should refuse methods outside the allowlist without calling the upstream', async () => {
+    const proxy = new RpcProxyService({ upstreams: { 56: [upstream.url] } });
+
+    const response = await proxy.forward(56, rpc('eth_sendRawTransaction', ['0x00']), 'client-a');
+
+    expect(response.status).toBe(403);
+    expect(response.body).toMatchObject({ id: 1, error: { code: -32601, message: 'Method eth_sendRawTransaction is not allowed' } });
+    expect(upstream.received).toHaveLength(0);
+  });
+
+  it('should only forward log scans over a bounded block range', async () => {
+    const proxy = new RpcProxyService({ upstreams: { 56: [upstream.url] } });
+    const blockHash = `0x${'ab'.repeat(32)}`;
+
+    const response = await proxy.forward(56, [
+      rpc('eth_getLogs', [{ address: '0xca11bde05977b3631167028862be2a173976ca11' }], 1),
+      rpc('eth_getLogs', [{ fromBlock: '0x0', toBlock: 'latest' }], 2),
+      rpc('eth_getLogs', [{ fromBlock: '0x1', toBlock: '0x5000' }], 3),
+      rpc('eth_getLogs', [{ fromBlock: '0x100', toBlock: '0x1ff' }], 4),
+      rpc('eth_getLogs', [{ blockHash }], 5)
+    ], 'client-a');
+
+    const refused = { code: -32602, message: 'eth_getLogs needs a blockHash or a fromBlock/toBlock range of at most 1000 blocks' };
+    expect(response.body).toEqual([
+      { jsonrpc: '2.0', id: 1, error: refused },
+      { jsonrpc: '2.0', id: 2, error: refused },
+      { jsonrpc: '2.0', id: 3, error: refused },
+      { jsonrpc: '2.0', id: 4, result: '0x10' },
+      { jsonrpc: '2.0', id: 5, result: '0x10' }
+    ]);
+    expect(upstream.received.map(payload => payload.id)).toEqual([4, 5]);
+  });
+
+  it('should answer batches request by request', async () => {
+    const proxy = new RpcProxyService({ upstreams: { 56: [upstream.url] } });
+
+    const response = await proxy.forward(56, [rpc('eth_blockNumber', [], 1), rpc('personal_sign', [], 2), { id: 3 }], 'client-a');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([
+      { jsonrpc: '2.0', id: 1, result: '0x10' },
+      { jsonrpc: '2.0', id: 2, error: { code: -32601, message: 'Method personal_sign is not allowed' } },
+      { jsonrpc: '2.0', id: 3, error: { code: -32600, message: 'Invalid JSON-RPC request' } }
+    ]);
+    expect(upstream.received.map(payload => payload.method)).toEqual(['eth_blockNumber']);
+  });
+
+  it('should fail over between upstreams and never reveal their URLs', async () => {
+    const down = await startUpstream('/v3/other-key');
+    await down.close();
+    const proxy = new RpcProxyService({ upstreams: { 56: [down.url, upstream.url] }, timeout: 1000 });
+
+    expect((await proxy.forward(56, rpc('eth_blockNumber'), 'client-a')).body).toMatchObject({ result: '0x10' });
+
+    await upstream.close();
+    const response = await proxy.forward(56, rpc('eth_blockNumber'), 'client-a');
+    upstream = await startUpstream();
+
+    expect(response).toEqual({
+      status: 502,
+      body: { jsonrpc: '2.0', id: 1, error: { code: -32603, message: 'Upstream RPC unavailable' } }
+    });
+    expect(JSON.stringify(response.body)).not.toContain('key');
+  });
+
+  it('should answer 502 for a batch that no upstream answered', async () => {
+    const down = await startUpstream('/v3/other-key');
+    await down.close();
+    const proxy = new RpcProxyService({ upstreams: { 56: [down.url] }, timeout: 1000 });
+
+    const response = await proxy.forward(56, [rpc('eth_blockNumber', [], 1), rpc('personal_sign', [], 2)], 'client-a');
+
+    expect(response).toEqual({
+      status: 502,
+      body: { jsonrpc: '2.0', id: null, error: { code: -32603, message: 'Upstream RPC unavailable' } }
+    });
+
+    // JSON-RPC errors from a live upstream stay with their entry
+    const answered = await new RpcProxyService({ upstreams: { 56: [upstream.url] } })
+      .forward(56, [rpc('eth_getBalance', ['0xnope', 'latest'], 1), rpc('eth_blockNumber', [], 2)], 'client-a');
+    expect(answered.status).toBe(200);
+    expect(answered.body).toEqual([
+      { jsonrpc: '2.0', id: 1, error: { code: -32602, message: 'invalid address' } },
+      { jsonrpc: '2.0', id: 2, result: '0x10' }
+    ]);
+  });
+
+  it('should rate limit each client separately', async () => {
+    const proxy = new RpcProxyService({
+      upstreams: { 56: [upstream.url] },
+      rateLimiter: SecurityUtils.createRateLimiter(2, 60000)
+    });
+
+    await proxy.forward(56, rpc('eth_blockNumber'), 'client-a');
+    await proxy.forward(56, rpc('eth_blockNumber'), 'client-a');
+    const limited = await proxy.forward(56, rpc('eth_blockNumber'), 'client-a');
+
+    expect(limited).toEqual({
+      status: 429,
+      body: { jsonrpc: '2.0', id: null, error: { code: -32005, message: 'Too many requests' } },
+      headers: { 'Retry-After': '60' }
+    });
+    expect((await proxy.forward(56, rpc('eth_blockNumber'), 'client-b')).status).toBe(200);
+    expect(upstream.received).toHaveLength(3);
+  });
+
+  it('should count every entry of a batch against the limit', async () => {
+    const proxy = new RpcProxyService({
+      upstreams: { 56: [upstream.url] },
+      rateLimiter: SecurityUtils.createRateLimiter(3, 60000)
+    });
+
+    const batch = [rpc('eth_blockNumber', [], 1), rpc('eth_chainId', [], 2)];
+    expect((await proxy.forward(56, batch, 'client-a')).status).toBe(200);
+    expect((await proxy.forward(56, batch, 'client-a')).status).toBe(429);
+    expect((await proxy.forward(56, rpc('eth_blockNumber'), 'client-a')).status).toBe(200);
+    expect(upstream.received).toHaveLength(3);
+  });
+
+  it('should read upstreams from server-only environment variables', async () => {
+    process.env.BSC_RPC_URL = ` ${upstream.url} , not-a-url`;
+    try {
+      const proxy = new RpcProxyService();
+
+      expect(proxy.getUpstreamUrls(56)).toEqual([upstream.url]);
+      expect((await proxy.forward(56, rpc('eth_chainId'), 'client-a')).body).toMatchObject({ result: '0x38' });
+      // Chains without their own variable use the public endpoints from the chain list
+      expect(proxy.getUpstreamUrls(137)[0]).toBe('https://polygon-rpc.com');
+    } finally {
+      delete process.env.BSC_RPC_URL;
+    }
+  });
+
+  it('should refuse chains outside the chain list', async () => {
+    const response = await new RpcProxyService().forward(8453, rpc('eth_chainId'), 'client-a');
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('/api/rpc/[chainId]', () => {
+  let upstream: MockUpstream;
+
+  const request = (overrides: Partial<NextApiRequest>): NextApiRequest => ({
+    method: 'POST',
+    query: { chainId: '56' },
+    headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'jest' },
+    socket: { remoteAddress: '198.51.100.4' },
+    body: rpc('eth_blockNumber'),
+    ...overrides
+  } as NextApiRequest);
+
+  beforeEach(async () => {
+    (global.fetch as any).mockImplementation(httpFetch);
+    upstream = await startUpstream();
+  });
+
+  afterEach(async () => {
+    await upstream.close();
+  });
+
+  it('should proxy JSON-RPC and count requests against the socket address alone, not X-Forwarded-For or User-Agent', async () => {
+    const rateLimiter = jest.fn<(identifier: string, cost: number) => boolean>().mockReturnValue(true);
+    configureRpcProxy({ upstreams: { 56: [upstream.url] }, rateLimiter });
+    const res = createResponse();
+
+    await handler(request({}), res as NextApiResponse);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ jsonrpc: '2.0', id: 1, result: '0x10' });
+    expect(res.headers['Cache-Control']).toBe('no-store');
+    expect(rateLimiter).toHaveBeenCalledWith('198.51.100.4', 1);
+  });
+
+  it('should only trust the hop appended by a configured reverse proxy', async () => {
+    const rateLimiter = jest.fn<(identifier: string, cost: number) => boolean>().mockReturnValue(true);
+    configureRpcProxy({ upstreams: { 56: [upstream.url] }, rateLimiter });
+    env.TRUST_PROXY = true;
+
+    try {
+      await handler(request({}), createResponse() as NextApiResponse);
+    } finally {
+      env.TRUST_PROXY = false;
+    }
+
+    // The first entry is whatever the caller sent; the last one was added by the proxy
+    expect(rateLimiter).toHaveBeenCalledWith('10.0.0.1', 1);
+  });
+
+  it('should tell rate limited clients when to retry', async () => {
+    configureRpcProxy({ upstreams: { 56: [upstream.url] }, rateLimiter: () => false });
+    const res = createResponse();
+
+    await handler(request({}), res as NextApiResponse);
+
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe('60');
+    expect(upstream.received).toHaveLength(0);
+  });
+
+  it('should only accept POST requests for a numeric chain', async () => {
+    configureRpcProxy({ upstreams: { 56: [upstream.url] } });
+
+    const get = createResponse();
+    await handler(request({ method: 'GET' }), get as NextApiResponse);
+    expect(get.statusCode).toBe(405);
+    expect(get.headers.Allow).toBe('POST');
+
+    const invalid = createResponse();
+    await handler(request({ query: { chainId: 'bsc' } }), invalid as NextApiResponse);
+    expect(invalid.statusCode).toBe(400);
+    expect(upstream.received).toHaveLength(0);
+  });
+});
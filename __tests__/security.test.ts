@@ -1,4 +1,5 @@
-import { SecurityUtils, networkRateLimiter, walletRateLimiter } from '@/utils/security';
+import { SecurityUtils, authRateLimiter, networkRateLimiter, walletRateLimiter } from '@/utils/security';
+import { APP_CONFIG } from '@/config/constants';
 
 describe('SecurityUtils', () => {
   describe('sanitizeInput', () => {
@@ -104,6 +105,17 @@ describe('SecurityUtils', () => {
       expect(SecurityUtils.validateRPCRequest(maliciousRequest)).toBe(false);
     });
 
+    it('should only accept eth_getLogs over a bounded block range', () => {
+      const getLogs = (filter: unknown) => ({ jsonrpc: '2.0', method: 'eth_getLogs', params: [filter], id: 1 });
+
+      expect(SecurityUtils.validateRPCRequest(getLogs({ fromBlock: '0x10', toBlock: '0x20' }))).toBe(true);
+      expect(SecurityUtils.validateRPCRequest(getLogs({ blockHash: `0x${'ab'.repeat(32)}` }))).toBe(true);
+      expect(SecurityUtils.validateRPCRequest(getLogs({}))).toBe(false);
+      expect(SecurityUtils.validateRPCRequest(getLogs({ fromBlock: '0x10', toBlock: 'latest' }))).toBe(false);
+      expect(SecurityUtils.validateRPCRequest(getLogs({ fromBlock: '0x20', toBlock: '0x10' }))).toBe(false);
+      expect(SecurityUtils.validateRPCRequest(getLogs({ fromBlock: '0x0', toBlock: '0x3e8' }))).toBe(false);
+    });
+
     it('should reject invalid RPC requests', () => {
       expect(SecurityUtils.validateRPCRequest(null)).toBe(false);
       expect(SecurityUtils.validateRPCRequest({})).toBe(false);
@@ -179,6 +191,27 @@ describe('Rate Limiters', () => {
     });
   });
 
+  describe('createRateLimiter', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should forget identifiers once their requests leave the window', () => {
+      const startedAt = Date.now();
+      const now = jest.spyOn(Date, 'now').mockReturnValue(startedAt);
+      const limiter = SecurityUtils.createRateLimiter(2, 1000);
+
+      for (let i = 0; i < 50; i++) {
+        limiter(`client-${i}`);
+      }
+      expect(limiter.size()).toBe(50);
+
+      now.mockReturnValue(startedAt + 1000);
+      expect(limiter('client-0')).toBe(true);
+      expect(limiter.size()).toBe(1);
+    });
+  });
+
   describe('walletRateLimiter', () => {
     it('should allow wallet connections within limit', () => {
       const identifier = 'test-wallet-user';
@@ -201,4 +234,15 @@ describe('Rate Limiters', () => {
       expect(walletRateLimiter(identifier)).toBe(false);
     });
   });
+
+  describe('authRateLimiter', () => {
+    it('should allow several sign-ins a minute, unlike wallet connections', () => {
+      const identifier = '203.0.113.7';
+
+      for (let i = 0; i < APP_CONFIG.AUTH.RATE_LIMIT; i++) {
+        expect(authRateLimiter(identifier)).toBe(true);
+      }
+      expect(authRateLimiter(identifier)).toBe(false);
+    });
+  });
 });
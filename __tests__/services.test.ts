@@ -9,14 +9,27 @@ import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandle
 class MockWalletService implements IWalletService {
   connect = jest.fn();
   disconnect = jest.fn();
+  activateConnector = jest.fn();
   getAccount = jest.fn();
   isConnected = jest.fn();
+  signMessage = jest.fn();
+  signTypedData = jest.fn();
+  sendTransaction = jest.fn();
+  getWalletCapabilities = jest.fn();
+  sendCalls = jest.fn();
+  getCallsStatus = jest.fn();
+  getPermissions = jest.fn();
+  requestPermissions = jest.fn();
+  revokePermissions = jest.fn();
   getConnectors = jest.fn();
   getAvailableConnectors = jest.fn();
   getConnectionState = jest.fn();
   saveLastConnectedWallet = jest.fn();
   getLastConnectedWallet = jest.fn();
   clearConnectionState = jest.fn();
+  onAccountChanged = jest.fn();
+  onChainChanged = jest.fn();
+  onDisconnect = jest.fn();
 }
 
 class MockNetworkService implements INetworkService {
@@ -25,6 +38,12 @@ class MockNetworkService implements INetworkService {
   validateNetwork = jest.fn();
   getSupportedNetworks = jest.fn();
   checkNetworkHealth = jest.fn();
+  getNetworkMode = jest.fn();
+  setNetworkMode = jest.fn();
+  isNetworkModeAllowed = jest.fn();
+  onAccountChanged = jest.fn();
+  onChainChanged = jest.fn();
+  onDisconnect = jest.fn();
 }
 
 class MockStorageService implements IStorageService {
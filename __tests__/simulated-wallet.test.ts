@@ -0,0 +1,212 @@
+import {
+  SimulatedWalletProvider,
+  createSimulatedSignature,
+  getSimulatedWallet,
+  resetSimulatedWallet
+} from '@/services/implementations/SimulatedWalletProvider';
+import { ProviderEventBus } from '@/services/implementations/ProviderEventBus';
+import { NetworkService } from '@/services/implementations/NetworkService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { ProviderDiscovery } from '@/strategies/ProviderDiscovery';
+import { SimulatedWalletStrategy, WalletRegistry } from '@/strategies/WalletStrategy';
+import { SIMULATED_ACCOUNTS, parseMockWalletParam } from '@/utils/mockWallet';
+import { addChainToMetaMask } from '@/utils/chains';
+
+const [ACCOUNT, OTHER_ACCOUNT] = SIMULATED_ACCOUNTS;
+
+const context = {
+  component: 'WagmiWalletService',
+  action: 'connect',
+  walletType: 'simulatedWallet',
+  timestamp: Date.now()
+};
+
+describe('SimulatedWalletProvider', () => {
+  afterEach(() => {
+    delete (window as any).ethereum;
+    jest.useRealTimers();
+  });
+
+  it('should only expose accounts once the site is authorized', async () => {
+    const wallet = new SimulatedWalletProvider({ chainId: 137 });
+    const onAccounts = jest.fn();
+    wallet.on('accountsChanged', onAccounts);
+
+    await expect(wallet.request({ method: 'eth_accounts' })).resolves.toEqual([]);
+    await expect(wallet.request({ method: 'eth_requestAccounts' })).resolves.toEqual([ACCOUNT]);
+    await expect(wallet.request({ method: 'eth_accounts' })).resolves.toEqual([ACCOUNT]);
+    await expect(wallet.request({ method: 'eth_chainId' })).resolves.toBe('0x89');
+
+    expect(onAccounts).toHaveBeenCalledTimes(1);
+    expect(wallet.selectedAddress).toBe(ACCOUNT);
+  });
+
+  it('should answer 4902 for unknown chains until they are added', async () => {
+    const wallet = new SimulatedWalletProvider();
+    const onChain = jest.fn();
+    wallet.on('chainChanged', onChain);
+    (window as any).ethereum = wallet;
+
+    await expect(wallet.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x89' }] }))
+      .rejects.toMatchObject({ code: 4902 });
+
+    await addChainToMetaMask(137);
+    await wallet.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x89' }] });
+
+    expect(wallet.getChainId()).toBe(137);
+    expect(onChain).toHaveBeenCalledWith('0x89');
+    expect(wallet.getRequests().map(request => request.method)).toEqual([
+      'wallet_switchEthereumChain',
+      'wallet_addEthereumChain',
+      'wallet_switchEthereumChain'
+    ]);
+  });
+
+  it('should inject failures once, a set number of times or for every method', async () => {
+    const wallet = new SimulatedWalletProvider();
+    wallet.failNext('eth_requestAccounts', 4001);
+    wallet.setFailure({ method: 'eth_chainId', code: -32603, times: 2 });
+
+    await expect(wallet.request({ method: 'eth_requestAccounts' })).rejects.toMatchObject({ code: 4001, message: 'User rejected the request.' });
+    await expect(wallet.request({ method: 'eth_requestAccounts' })).resolves.toEqual([ACCOUNT]);
+    await expect(wallet.request({ method: 'eth_chainId' })).rejects.toMatchObject({ code: -32603 });
+    await expect(wallet.request({ method: 'eth_chainId' })).rejects.toMatchObject({ code: -32603 });
+    await expect(wallet.request({ method: 'eth_chainId' })).resolves.toBe('0x1');
+
+    wallet.setFailure({ method: '*', code: -32002 });
+    await expect(wallet.request({ method: 'eth_accounts' })).rejects.toMatchObject({ code: -32002 });
+    wallet.clearFailures();
+    await expect(wallet.request({ method: 'eth_accounts' })).resolves.toEqual([ACCOUNT]);
+
+    expect(wallet.getRequests('eth_chainId').map(request => request.error?.code)).toEqual([-32603, -32603, undefined]);
+  });
+
+  it('should hold every request for the configured latency', async () => {
+    jest.useFakeTimers();
+    const wallet = new SimulatedWalletProvider({ latency: 500 });
+    const settled = jest.fn();
+
+    wallet.request({ method: 'eth_chainId' }).then(settled);
+    await jest.advanceTimersByTimeAsync(499);
+    expect(settled).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(settled).toHaveBeenCalledWith('0x1');
+  });
+
+  it('should sign and send only for authorized accounts', async () => {
+    const wallet = new SimulatedWalletProvider({ accounts: [ACCOUNT, OTHER_ACCOUNT] });
+
+    await expect(wallet.request({ method: 'personal_sign', params: ['0x68656c6c6f', ACCOUNT] })).rejects.toMatchObject({ code: 4100 });
+
+    await wallet.request({ method: 'eth_requestAccounts' });
+    await expect(wallet.request({ method: 'personal_sign', params: ['0x68656c6c6f', OTHER_ACCOUNT] }))
+      .resolves.toBe(createSimulatedSignature(`${OTHER_ACCOUNT}:0x68656c6c6f`));
+
+    const hash = await wallet.request({ method: 'eth_sendTransaction', params: [{ from: ACCOUNT, to: OTHER_ACCOUNT, value: '0x1' }] });
+    expect(hash).toMatch(/^0x[0-9a-f]{64}$/);
+
+    await expect(wallet.request({ method: 'eth_sign', params: [ACCOUNT, '0x00'] })).rejects.toMatchObject({ code: 4200 });
+  });
+
+  it('should refuse requests while disconnected', async () => {
+    const wallet = new SimulatedWalletProvider();
+    const onDisconnect = jest.fn();
+    const onConnect = jest.fn();
+    wallet.on('disconnect', onDisconnect);
+    wallet.on('connect', onConnect);
+
+    wallet.disconnect();
+    await expect(wallet.request({ method: 'eth_chainId' })).rejects.toMatchObject({ code: 4900 });
+    expect(onDisconnect).toHaveBeenCalledWith(expect.objectContaining({ code: 4900 }));
+
+    wallet.reconnect();
+    expect(onConnect).toHaveBeenCalledWith({ chainId: '0x1' });
+    await expect(wallet.request({ method: 'eth_chainId' })).resolves.toBe('0x1');
+  });
+});
+
+describe('Simulated wallet with the services', () => {
+  it('should drive the event bus and network service through wallet events', async () => {
+    const bus = new ProviderEventBus(new WalletRegistry(new ProviderDiscovery()));
+    const wallet = new SimulatedWalletProvider({ authorized: true });
+    bus.attach('simulatedWallet', wallet);
+    const networkService = new NetworkService(new WalletErrorHandler(), {} as any, undefined, { allowTestnets: false, eventBus: bus });
+    const onAccount = jest.fn();
+    bus.onAccountChanged(onAccount);
+
+    wallet.setChainId(137);
+    expect(networkService.getCurrentNetwork()).toMatchObject({ id: 137, name: 'Polygon' });
+
+    wallet.setAccounts([OTHER_ACCOUNT]);
+    wallet.lock();
+    expect(onAccount.mock.calls.map(([event]: any[]) => event.address)).toEqual([OTHER_ACCOUNT, null]);
+
+    wallet.disconnect();
+    expect(networkService.getCurrentNetwork()).toBeNull();
+  });
+
+  it('should surface rejected and pending requests through the error handler', async () => {
+    const errorHandler = new WalletErrorHandler(new WalletRegistry(new ProviderDiscovery()));
+    const wallet = new SimulatedWalletProvider({
+      failures: [
+        { method: 'eth_requestAccounts', code: 4001, times: 1 },
+        { method: 'eth_requestAccounts', code: -32002, times: 1 }
+      ]
+    });
+
+    const rejected = await wallet.request({ method: 'eth_requestAccounts' }).catch(error => error);
+    expect(errorHandler.handle(rejected, context)).toMatchObject({
+      message: 'The simulated wallet rejected the request.',
+      shouldRetry: false
+    });
+
+    const pending = await wallet.request({ method: 'eth_requestAccounts' }).catch(error => error);
+    expect(pending.code).toBe(-32002);
+    expect(errorHandler.handle(pending, context).message).toContain('already processing a request');
+  });
+});
+
+describe('Mock wallet mode', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+    resetSimulatedWallet();
+  });
+
+  it('should parse the mockWallet query parameter', () => {
+    expect(parseMockWalletParam('?foo=bar')).toBeNull();
+    expect(parseMockWalletParam('?mockWallet')).toEqual({});
+    expect(parseMockWalletParam('?mockWallet=chain:137,latency:500,accounts:2,fail:eth_requestAccounts:4001')).toEqual({
+      chainId: 137,
+      latency: 500,
+      accounts: SIMULATED_ACCOUNTS.slice(0, 2),
+      failures: [{ method: 'eth_requestAccounts', code: 4001 }]
+    });
+    expect(parseMockWalletParam(`?mockWallet=chains:56|0xe708,authorized,accounts:${OTHER_ACCOUNT},fail:personal_sign:-32603:2`)).toEqual({
+      chains: [56, 59144],
+      authorized: true,
+      accounts: [OTHER_ACCOUNT],
+      failures: [{ method: 'personal_sign', code: -32603, times: 2 }]
+    });
+    expect(parseMockWalletParam('?mockWallet=chain:abc,latency:-1,accounts:0,fail:eth_chainId')).toEqual({});
+  });
+
+  it('should configure the shared wallet from the page URL', async () => {
+    window.history.replaceState(null, '', '/?mockWallet=chain:56,authorized');
+
+    const wallet = getSimulatedWallet();
+    expect(getSimulatedWallet()).toBe(wallet);
+    await expect(wallet.request({ method: 'eth_chainId' })).resolves.toBe('0x38');
+    await expect(wallet.request({ method: 'eth_accounts' })).resolves.toEqual([ACCOUNT]);
+  });
+
+  it('should register the simulated wallet outside production builds', () => {
+    const registry = new WalletRegistry(new ProviderDiscovery());
+    const strategy = registry.getStrategy('simulatedWallet');
+
+    expect(strategy).toBeInstanceOf(SimulatedWalletStrategy);
+    expect(strategy!.isInstalled()).toBe(true);
+    expect(strategy!.getProvider()).toBe(getSimulatedWallet());
+    expect(registry.getAvailableStrategies()).toContain(strategy);
+  });
+});
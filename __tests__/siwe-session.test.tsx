@@ -0,0 +1,83 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { SignInPanel } from '@/components/SignInPanel';
+import { useWalletConnection } from '@/hooks/useWalletConnection';
+import { useWagmiWalletService } from '@/hooks/useWagmiWalletService';
+import { parseSiweMessage } from '@/utils/siwe';
+
+jest.mock('wagmi', () => ({
+  useNetwork: () => ({ chain: { id: 137 } })
+}));
+
+jest.mock('@/hooks/useWalletConnection', () => ({
+  useWalletConnection: jest.fn()
+}));
+
+jest.mock('@/hooks/useWagmiWalletService', () => ({
+  useWagmiWalletService: jest.fn()
+}));
+
+const ACCOUNT = '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+
+const jsonResponse = (status: number, body: unknown) => ({ ok: status < 400, status, json: async () => body });
+
+describe('SignInPanel', () => {
+  const signMessage = jest.fn<ReturnType<typeof useWagmiWalletService>['signMessage']>();
+
+  const connect = (isWatchOnly = false) => {
+    jest.mocked(useWalletConnection).mockReturnValue({
+      isConnected: true,
+      isWatchOnly,
+      address: ACCOUNT
+    } as ReturnType<typeof useWalletConnection>);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    signMessage.mockResolvedValue({ success: true, signature: '0xsigned' });
+    jest.mocked(useWagmiWalletService).mockReturnValue({ signMessage } as unknown as ReturnType<typeof useWagmiWalletService>);
+
+    (global.fetch as any).mockImplementation(async (url: string, init?: RequestInit) => {
+      if (url === '/api/auth/session') return jsonResponse(200, { session: null });
+      if (url === '/api/auth/nonce') return jsonResponse(200, { nonce: 'abcdef1234567890' });
+      if (url === '/api/auth/verify') {
+        const { message } = JSON.parse(init!.body as string);
+        const fields = parseSiweMessage(message)!;
+        return jsonResponse(200, { session: { address: fields.address, chainId: fields.chainId, issuedAt: 0, expiresAt: Date.now() + 60000 } });
+      }
+      return jsonResponse(404, {});
+    });
+  });
+
+  it('should sign in the connected account on its current chain', async () => {
+    connect();
+    render(<SignInPanel />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    await waitFor(() => expect(screen.getByText('0xf39f...2266')).toBeTruthy());
+    expect(parseSiweMessage(signMessage.mock.calls[0][0])).toMatchObject({ address: ACCOUNT, chainId: 137 });
+    expect(screen.getByRole('button', { name: 'Sign out' })).toBeTruthy();
+  });
+
+  it('should show the verification error', async () => {
+    (global.fetch as any).mockImplementation(async (url: string) =>
+      url === '/api/auth/verify'
+        ? jsonResponse(401, { error: 'Signature does not match the sign-in message' })
+        : jsonResponse(200, { session: null, nonce: 'abcdef1234567890' })
+    );
+    connect();
+    render(<SignInPanel />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    await waitFor(() => expect(screen.getByText('Signature does not match the sign-in message')).toBeTruthy());
+  });
+
+  it('should not offer sign-in for a watched address', () => {
+    connect(true);
+    const { container } = render(<SignInPanel />);
+
+    expect(container.innerHTML).toBe('');
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * @jest-environment node
+ */
+import { privateKeyToAccount } from 'viem/accounts';
+import { createSiweMessage, parseSiweMessage } from '@/utils/siwe';
+import { InMemoryNonceStore } from '@/services/implementations/InMemoryNonceStore';
+import { SignatureVerifier, SiweAuthService } from '@/services/implementations/SiweAuthService';
+import { SiweMessageFields } from '@/types/auth';
+
+const account = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const DOMAIN = 'localhost:3000';
+const SMART_ACCOUNT = '0x4337000c2828f5260d8921fd25829f606b9e8680';
+
+const buildFields = (overrides: Partial<SiweMessageFields> = {}): SiweMessageFields => ({
+  domain: DOMAIN,
+  address: account.address,
+  statement: 'Sign in to the Web3 wallet demo.',
+  uri: 'http://localhost:3000',
+  version: '1',
+  chainId: 137,
+  nonce: 'abcdef1234567890',
+  issuedAt: new Date().toISOString(),
+  ...overrides
+});
+
+describe('SIWE message format', () => {
+  it('should round-trip a full EIP-4361 message', () => {
+    const fields = buildFields({
+      expirationTime: '2099-01-01T00:00:00.000Z',
+      notBefore: '2020-01-01T00:00:00.000Z',
+      requestId: 'req-1',
+      resources: ['https://example.com/terms', 'ipfs://bafy']
+    });
+
+    expect(parseSiweMessage(createSiweMessage(fields))).toEqual(fields);
+  });
+
+  it('should round-trip a message without a statement', () => {
+    const fields = buildFields({ statement: undefined });
+    const message = createSiweMessage(fields);
+
+    expect(message).toContain(`${account.address}\n\n\nURI:`);
+    expect(parseSiweMessage(message)).toEqual(fields);
+  });
+
+  it('should reject malformed messages', () => {
+    const message = createSiweMessage(buildFields());
+
+    expect(parseSiweMessage('hello')).toBeNull();
+    expect(parseSiweMessage(message.replace('Version: 1', 'Version: 2'))).toBeNull();
+    expect(parseSiweMessage(message.replace(account.address, '0x123'))).toBeNull();
+    expect(parseSiweMessage(`${message}\nunexpected`)).toBeNull();
+  });
+});
+
+describe('InMemoryNonceStore', () => {
+  it('should only allow a nonce to be consumed once', async () => {
+    const store = new InMemoryNonceStore();
+    await store.create('nonce123', Date.now() + 1000);
+
+    await expect(store.consume('nonce123')).resolves.toBe(true);
+    await expect(store.consume('nonce123')).resolves.toBe(false);
+  });
+
+  it('should reject expired nonces', async () => {
+    const store = new InMemoryNonceStore();
+    await store.create('nonce123', Date.now() - 1);
+
+    await expect(store.consume('nonce123')).resolves.toBe(false);
+  });
+});
+
+describe('SiweAuthService', () => {
+  let service: SiweAuthService;
+  const verifier = { verifyMessage: jest.fn<SignatureVerifier['verifyMessage']>() };
+  const getVerifier = jest.fn<(chainId: number) => SignatureVerifier>();
+
+  beforeEach(() => {
+    // The chain knows no contract accounts unless a test says so
+    verifier.verifyMessage.mockReset().mockResolvedValue(false);
+    getVerifier.mockReset().mockReturnValue(verifier);
+    service = new SiweAuthService({ nonceStore: new InMemoryNonceStore(), secret: 'test-secret', getVerifier });
+  });
+
+  const cookieValue = (cookie: string): string => cookie.split(';')[0].split('=')[1];
+
+  const signIn = async (overrides: Partial<SiweMessageFields> = {}) => {
+    const nonce = await service.createNonce();
+    const nonceToken = cookieValue(service.createNonceCookie(nonce));
+    const message = createSiweMessage(buildFields({ nonce, ...overrides }));
+    const signature = await account.signMessage({ message });
+    return { message, signature, nonceToken };
+  };
+
+  it('should verify a signed message and issue a session', async () => {
+    const { message, signature, nonceToken } = await signIn();
+
+    const result = await service.verify(message, signature, DOMAIN, nonceToken);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.session.address).toBe(account.address);
+      expect(result.session.chainId).toBe(137);
+    }
+    expect(getVerifier).not.toHaveBeenCalled();
+  });
+
+  it('should ask the message chain about smart contract accounts', async () => {
+    verifier.verifyMessage.mockResolvedValue(true);
+    const { message, signature, nonceToken } = await signIn({ address: SMART_ACCOUNT, chainId: 59144 });
+
+    const result = await service.verify(message, signature, DOMAIN, nonceToken);
+
+    expect(result).toMatchObject({ success: true, session: { address: SMART_ACCOUNT, chainId: 59144 } });
+    expect(getVerifier).toHaveBeenCalledWith(59144);
+    expect(verifier.verifyMessage).toHaveBeenCalledWith({ address: SMART_ACCOUNT, message, signature });
+  });
+
+  it('should reject a contract account signature when the chain cannot be asked', async () => {
+    verifier.verifyMessage.mockRejectedValue(new Error('All RPC endpoints failed'));
+    const { message, signature, nonceToken } = await signIn({ address: SMART_ACCOUNT });
+
+    const result = await service.verify(message, signature, DOMAIN, nonceToken);
+
+    expect(result).toMatchObject({ success: false, reason: 'invalid_signature' });
+  });
+
+  it('should reject a replayed nonce', async () => {
+    const { message, signature, nonceToken } = await signIn();
+
+    await service.verify(message, signature, DOMAIN, nonceToken);
+    const replay = await service.verify(message, signature, DOMAIN, nonceToken);
+
+    expect(replay).toMatchObject({ success: false, reason: 'invalid_nonce' });
+  });
+
+  it('should reject a nonce issued to another browser without using it up', async () => {
+    const { message, signature, nonceToken } = await signIn();
+    const other = await signIn();
+
+    expect(await service.verify(message, signature, DOMAIN, other.nonceToken)).toMatchObject({ success: false, reason: 'invalid_nonce' });
+    expect(await service.verify(message, signature, DOMAIN, undefined)).toMatchObject({ success: false, reason: 'invalid_nonce' });
+    expect((await service.verify(message, signature, DOMAIN, nonceToken)).success).toBe(true);
+  });
+
+  it('should reject a nonce cookie signed with another secret', async () => {
+    const { message, signature, nonceToken } = await signIn();
+    const [nonce] = nonceToken.split('.');
+    const forged = cookieValue(new SiweAuthService({ secret: 'another-secret' }).createNonceCookie(nonce));
+
+    expect(await service.verify(message, signature, DOMAIN, forged)).toMatchObject({ success: false, reason: 'invalid_nonce' });
+  });
+
+  it('should reject a message for another domain', async () => {
+    const { message, signature, nonceToken } = await signIn();
+
+    const result = await service.verify(message, signature, 'evil.example', nonceToken);
+
+    expect(result).toMatchObject({ success: false, reason: 'domain_mismatch' });
+  });
+
+  it('should reject a signature from a different account', async () => {
+    const { message, nonceToken } = await signIn();
+    const other = privateKeyToAccount('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+    const signature = await other.signMessage({ message });
+
+    const result = await service.verify(message, signature, DOMAIN, nonceToken);
+
+    expect(result).toMatchObject({ success: false, reason: 'invalid_signature' });
+  });
+
+  it('should reject an expired message', async () => {
+    const { message, signature, nonceToken } = await signIn({ expirationTime: new Date(Date.now() - 1000).toISOString() });
+
+    const result = await service.verify(message, signature, DOMAIN, nonceToken);
+
+    expect(result).toMatchObject({ success: false, reason: 'expired' });
+  });
+
+  it('should issue an HttpOnly cookie that reads back only with the right secret', async () => {
+    const session = { address: account.address, chainId: 137, issuedAt: Date.now(), expiresAt: Date.now() + 60000 };
+    const cookie = service.createSessionCookie(session);
+    const token = cookieValue(cookie);
+
+    expect(cookie).toContain('HttpOnly');
+    expect(cookie).toContain('SameSite=Strict');
+    expect(service.readSessionToken(token)).toEqual(session);
+
+    const otherService = new SiweAuthService({ secret: 'another-secret' });
+    expect(otherService.readSessionToken(token)).toBeNull();
+  });
+});
+
+describe('Session secret', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  const loadAuthService = (overrides: Record<string, string | undefined>) => {
+    process.env = { ...originalEnv, ...overrides };
+    let module: typeof import('@/services/implementations/SiweAuthService') | undefined;
+    jest.isolateModules(() => {
+      module = require('@/services/implementations/SiweAuthService');
+    });
+    return module!;
+  };
+
+  it('should refuse to sign sessions in production without SESSION_SECRET', () => {
+    const { SiweAuthService: ProductionService, getSiweAuthService } = loadAuthService({ NODE_ENV: 'production', SESSION_SECRET: undefined });
+
+    expect(() => new ProductionService()).toThrow('SESSION_SECRET must be set in production');
+    expect(() => getSiweAuthService()).toThrow('SESSION_SECRET must be set in production');
+  });
+
+  it('should sign production sessions with the configured secret', () => {
+    const { SiweAuthService: ProductionService } = loadAuthService({ NODE_ENV: 'production', SESSION_SECRET: 'configured-secret' });
+    const session = { address: account.address, chainId: 137, issuedAt: Date.now(), expiresAt: Date.now() + 60000 };
+
+    const token = new ProductionService().createSessionToken(session);
+
+    expect(new SiweAuthService({ secret: 'configured-secret' }).readSessionToken(token)).toEqual(session);
+  });
+
+  it('should fall back to the development secret outside production', () => {
+    const { SiweAuthService: TestService } = loadAuthService({ NODE_ENV: 'test', SESSION_SECRET: undefined });
+
+    expect(() => new TestService()).not.toThrow();
+  });
+});
@@ -2,6 +2,28 @@ import { walletRegistry } from '@/strategies/WalletStrategy';
 import { networkRegistry } from '@/strategies/NetworkStrategy';
 import { WalletStrategy } from '@/strategies/WalletStrategy';
 import { NetworkStrategy } from '@/strategies/NetworkStrategy';
+import { ConnectionValidation, FeeEstimate } from '@/types/chain';
+
+const healthyValidation = (chainId: number, rpcUrl: string): ConnectionValidation => ({
+  healthy: true,
+  rpcUrl,
+  chainId,
+  blockNumber: 100,
+  blockTimestamp: Math.floor(Date.now() / 1000),
+  latency: 10,
+  failures: [],
+  checkedAt: Date.now()
+});
+
+const GWEI = BigInt('1000000000');
+
+const legacyFees = (): FeeEstimate => ({
+  type: 'legacy',
+  source: 'fallback',
+  slow: { gasPrice: GWEI },
+  standard: { gasPrice: GWEI * BigInt(2) },
+  fast: { gasPrice: GWEI * BigInt(3) }
+});
 
 // Mock strategies for testing
 class MockWalletStrategy implements WalletStrategy {
@@ -38,8 +60,8 @@ class MockNetworkStrategy implements NetworkStrategy {
   name = 'Mock Network';
   rpcUrl = 'https://mock.network';
   
-  validateConnection(): boolean {
-    return true;
+  async validateConnection(): Promise<ConnectionValidation> {
+    return healthyValidation(this.id, this.rpcUrl);
   }
   
   getBlockExplorer(): string {
@@ -58,8 +80,8 @@ class MockNetworkStrategy implements NetworkStrategy {
     return false;
   }
   
-  getGasEstimate(): number {
-    return 21000;
+  async getGasEstimate(): Promise<FeeEstimate> {
+    return legacyFees();
   }
 }
 
@@ -231,12 +253,12 @@ describe('Strategy Pattern - SOLID Principles', () => {
         id: 888,
         name: 'Validation Only',
         rpcUrl: 'https://validation-only.network',
-        validateConnection: () => true,
+        validateConnection: async () => healthyValidation(888, 'https://validation-only.network'),
         getBlockExplorer: () => '',
         getNativeCurrency: () => ({ name: '', symbol: '', decimals: 18 }),
         getChainId: () => 888,
         isTestnet: () => false,
-        getGasEstimate: () => 0
+        getGasEstimate: async () => legacyFees()
       };
 
       expect(errorOnlyStrategy.getErrorMessage).toBeDefined();
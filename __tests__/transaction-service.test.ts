@@ -0,0 +1,257 @@
+import { TransactionService } from '@/services/implementations/TransactionService';
+import { WagmiWalletService } from '@/services/implementations/WagmiWalletService';
+import { NetworkService } from '@/services/implementations/NetworkService';
+import { BrowserStorageService } from '@/services/implementations/BrowserStorageService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { MockWagmiAdapter } from '@/services/implementations/WagmiAdapter';
+import { TrackedTransaction } from '@/services/interfaces/ITransactionService';
+import { APP_CONFIG } from '@/config/constants';
+import { createMemoryStorage } from './fixtures/storage';
+
+jest.mock('@/utils/toast', () => ({
+  walletConnectionToast: {
+    failed: jest.fn(),
+    connected: jest.fn(),
+    disconnected: jest.fn()
+  },
+  networkToast: {
+    switchError: jest.fn(),
+    switchSuccess: jest.fn()
+  },
+  signatureToast: {
+    failed: jest.fn()
+  },
+  transactionToast: {
+    submitted: jest.fn(),
+    confirmed: jest.fn(),
+    failed: jest.fn(),
+    replaced: jest.fn(),
+    dropped: jest.fn()
+  }
+}));
+
+// jsdom does not implement AbortSignal.timeout
+if (typeof AbortSignal.timeout !== 'function') {
+  (AbortSignal as any).timeout = () => new AbortController().signal;
+}
+
+const RECIPIENT = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const SENDER = '0x1234567890123456789012345678901234567890';
+
+type RpcHandler = (params: any[]) => unknown;
+
+const mockRpc = (handlers: Record<string, RpcHandler>) => {
+  (global.fetch as any).mockImplementation(async (_url: string, init: RequestInit) => {
+    const payload = JSON.parse(init.body as string);
+    const answer = ({ method, params, id }: any) => handlers[method]
+      ? { jsonrpc: '2.0', id, result: handlers[method](params) }
+      : { jsonrpc: '2.0', id, error: { code: -32601, message: `Unhandled ${method}` } };
+    return {
+      ok: true,
+      json: async () => (Array.isArray(payload) ? payload.map(answer) : answer(payload))
+    };
+  });
+};
+
+const pendingTransaction = (overrides: Partial<TrackedTransaction> = {}): TrackedTransaction => ({
+  hash: '0xfeed',
+  chainId: 137,
+  from: SENDER,
+  to: RECIPIENT,
+  nonce: 7,
+  value: '1000',
+  status: 'pending',
+  submittedAt: Date.now(),
+  updatedAt: Date.now(),
+  ...overrides
+});
+
+describe('TransactionService', () => {
+  let storage: Storage;
+  let adapter: MockWagmiAdapter;
+  let errorHandler: WalletErrorHandler;
+  let walletService: WagmiWalletService;
+  let networkService: NetworkService;
+  let service: TransactionService;
+
+  const createService = (options = {}) => new TransactionService(
+    walletService,
+    networkService,
+    new BrowserStorageService(storage),
+    errorHandler,
+    options
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storage = createMemoryStorage();
+    adapter = new MockWagmiAdapter();
+    errorHandler = new WalletErrorHandler();
+    walletService = new WagmiWalletService(new BrowserStorageService(storage), errorHandler, adapter);
+    networkService = new NetworkService(errorHandler, {
+      useNetwork: () => ({} as any),
+      useSwitchNetwork: () => ({} as any)
+    });
+    service = createService();
+  });
+
+  afterEach(() => {
+    service.stopTracking();
+  });
+
+  it('should build a transaction with the pending nonce and a gas estimate', async () => {
+    adapter.simulateMetaMaskConnection();
+    mockRpc({
+      eth_getTransactionCount: () => '0x7',
+      eth_estimateGas: () => '0x5208'
+    });
+
+    const prepared = await service.buildTransaction({ chainId: 137, to: RECIPIENT, value: BigInt(1000) });
+
+    expect(prepared).toMatchObject({ from: SENDER, nonce: 7, gas: BigInt(21000), chainId: 137 });
+  });
+
+  it('should refuse to send without a connected wallet', async () => {
+    const result = await service.sendTransaction({ chainId: 137, to: RECIPIENT });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Connect a wallet');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should send, track and persist a pending transaction', async () => {
+    adapter.simulateMetaMaskConnection();
+    mockRpc({
+      eth_getTransactionCount: () => '0x7',
+      eth_estimateGas: () => '0x5208'
+    });
+    const listener = jest.fn();
+    service.subscribe(listener);
+
+    const result = await service.sendTransaction({ chainId: 137, to: RECIPIENT, value: BigInt(1000) });
+
+    expect(result.success).toBe(true);
+    expect(result.transaction).toMatchObject({ status: 'pending', nonce: 7, value: '1000' });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ hash: result.hash }));
+
+    const stored = JSON.parse(storage.getItem(APP_CONFIG.STORAGE_KEYS.PENDING_TRANSACTIONS) as string);
+    expect(stored).toHaveLength(1);
+    expect(stored[0].hash).toBe(result.hash);
+  });
+
+  it('should restore pending transactions after a reload', () => {
+    service.trackTransaction(pendingTransaction());
+    service.stopTracking();
+
+    const reloaded = createService();
+
+    expect(reloaded.getPendingTransactions()).toHaveLength(1);
+    expect(reloaded.getTransaction('0xfeed')?.nonce).toBe(7);
+    reloaded.stopTracking();
+  });
+
+  it('should mark a transaction confirmed once its receipt succeeds', async () => {
+    service.trackTransaction(pendingTransaction());
+    mockRpc({
+      eth_getTransactionReceipt: () => ({ status: '0x1', blockNumber: '0x10' })
+    });
+
+    await service.pollPendingTransactions();
+
+    expect(service.getTransaction('0xfeed')).toMatchObject({ status: 'confirmed', blockNumber: 16 });
+    expect(service.getPendingTransactions()).toHaveLength(0);
+    expect(JSON.parse(storage.getItem(APP_CONFIG.STORAGE_KEYS.PENDING_TRANSACTIONS) as string)).toEqual([]);
+  });
+
+  it('should keep tracking transactions on chains of the other network mode', async () => {
+    service.trackTransaction(pendingTransaction({ chainId: 11155111 }));
+    mockRpc({
+      eth_getTransactionReceipt: () => ({ status: '0x1', blockNumber: '0x10' })
+    });
+
+    await service.pollPendingTransactions();
+
+    expect(networkService.getNetworkMode()).toBe('mainnet');
+    expect(service.getTransaction('0xfeed')).toMatchObject({ status: 'confirmed', blockNumber: 16 });
+  });
+
+  it('should tell subscribers about cleared transactions', async () => {
+    service.trackTransaction(pendingTransaction());
+    mockRpc({
+      eth_getTransactionReceipt: () => ({ status: '0x1', blockNumber: '0x10' })
+    });
+    await service.pollPendingTransactions();
+    const listener = jest.fn();
+    service.subscribe(listener);
+
+    service.clearCompleted();
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ hash: '0xfeed', status: 'confirmed' }));
+    expect(service.getTransactions()).toEqual([]);
+  });
+
+  it('should mark a reverted transaction as failed', async () => {
+    service.trackTransaction(pendingTransaction());
+    mockRpc({
+      eth_getTransactionReceipt: () => ({ status: '0x0', blockNumber: '0x10' })
+    });
+
+    await service.pollPendingTransactions();
+
+    expect(service.getTransaction('0xfeed')).toMatchObject({ status: 'failed', error: 'Transaction reverted' });
+  });
+
+  it('should mark a transaction replaced when its nonce is used by another', async () => {
+    service.trackTransaction(pendingTransaction());
+    mockRpc({
+      eth_getTransactionReceipt: () => null,
+      eth_getTransactionByHash: () => null,
+      eth_getTransactionCount: () => '0x8'
+    });
+
+    await service.pollPendingTransactions();
+
+    expect(service.getTransaction('0xfeed')?.status).toBe('replaced');
+  });
+
+  it('should not mark a transaction replaced when it was mined while the nonce was checked', async () => {
+    service.trackTransaction(pendingTransaction());
+    let receipts = 0;
+    mockRpc({
+      eth_getTransactionReceipt: () => (receipts++ === 0 ? null : { status: '0x1', blockNumber: '0x10' }),
+      eth_getTransactionByHash: () => null,
+      eth_getTransactionCount: () => '0x8'
+    });
+
+    await service.pollPendingTransactions();
+
+    expect(service.getTransaction('0xfeed')).toMatchObject({ status: 'confirmed', blockNumber: 16 });
+    expect(receipts).toBe(2);
+  });
+
+  it('should mark a long-missing transaction as dropped', async () => {
+    service = createService({ dropTimeout: 1000 });
+    service.trackTransaction(pendingTransaction({ submittedAt: Date.now() - 5000 }));
+    mockRpc({
+      eth_getTransactionReceipt: () => null,
+      eth_getTransactionByHash: () => null,
+      eth_getTransactionCount: () => '0x7'
+    });
+
+    await service.pollPendingTransactions();
+
+    expect(service.getTransaction('0xfeed')?.status).toBe('dropped');
+  });
+
+  it('should keep a transaction pending while the node still knows it', async () => {
+    service.trackTransaction(pendingTransaction());
+    mockRpc({
+      eth_getTransactionReceipt: () => null,
+      eth_getTransactionByHash: () => ({ hash: '0xfeed' })
+    });
+
+    await service.pollPendingTransactions();
+
+    expect(service.getTransaction('0xfeed')?.status).toBe('pending');
+  });
+});
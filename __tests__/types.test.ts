@@ -197,7 +197,7 @@ describe('Wallet Types', () => {
 
     it('should validate provider functionality', () => {
       const mockProvider: WalletProvider = {
-        request: jest.fn().mockResolvedValue('0x1'),
+        request: jest.fn<WalletProvider['request']>().mockResolvedValue('0x1'),
         on: jest.fn(),
         removeListener: jest.fn(),
         isMetaMask: true
@@ -208,7 +208,7 @@ describe('Wallet Types', () => {
 
     it('should reject provider with invalid request method', () => {
       const invalidProvider: WalletProvider = {
-        request: jest.fn().mockReturnValue('not a promise'),
+        request: jest.fn<WalletProvider['request']>().mockReturnValue('not a promise' as unknown as Promise<any>),
         on: jest.fn(),
         removeListener: jest.fn(),
         isMetaMask: true
@@ -220,28 +220,28 @@ describe('Wallet Types', () => {
 
   describe('Provider type guards', () => {
     const mockMetaMaskProvider: WalletProvider = {
-      request: jest.fn(),
+      request: jest.fn<WalletProvider['request']>(),
       on: jest.fn(),
       removeListener: jest.fn(),
       isMetaMask: true
     };
 
     const mockTokenPocketProvider: WalletProvider = {
-      request: jest.fn(),
+      request: jest.fn<WalletProvider['request']>(),
       on: jest.fn(),
       removeListener: jest.fn(),
       isTokenPocket: true
     };
 
     const mockBitgetWalletProvider: WalletProvider = {
-      request: jest.fn(),
+      request: jest.fn<WalletProvider['request']>(),
       on: jest.fn(),
       removeListener: jest.fn(),
       isBitgetWallet: true
     };
 
     const mockWalletConnectProvider: WalletProvider = {
-      request: jest.fn(),
+      request: jest.fn<WalletProvider['request']>(),
       on: jest.fn(),
       removeListener: jest.fn(),
       isWalletConnect: true
@@ -271,7 +271,7 @@ describe('Wallet Types', () => {
   describe('WalletProvider interface', () => {
     it('should have required methods', () => {
       const provider: WalletProvider = {
-        request: jest.fn(),
+        request: jest.fn<WalletProvider['request']>(),
         on: jest.fn(),
         removeListener: jest.fn()
       };
@@ -283,7 +283,7 @@ describe('Wallet Types', () => {
 
     it('should support optional properties', () => {
       const provider: WalletProvider = {
-        request: jest.fn(),
+        request: jest.fn<WalletProvider['request']>(),
         on: jest.fn(),
         removeListener: jest.fn(),
         isMetaMask: true,
@@ -0,0 +1,259 @@
+import { Connector } from 'wagmi';
+import { TransactionService } from '@/services/implementations/TransactionService';
+import { WagmiWalletService } from '@/services/implementations/WagmiWalletService';
+import { NetworkService } from '@/services/implementations/NetworkService';
+import { BrowserStorageService } from '@/services/implementations/BrowserStorageService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { MockWagmiAdapter } from '@/services/implementations/WagmiAdapter';
+import { SimulatedWalletProvider } from '@/services/implementations/SimulatedWalletProvider';
+import { getAtomicStatus, pickChainCapabilities } from '@/utils/capabilities';
+
+jest.mock('@/utils/toast', () => ({
+  walletConnectionToast: {
+    failed: jest.fn(),
+    connected: jest.fn(),
+    disconnected: jest.fn()
+  },
+  transactionToast: {
+    submitted: jest.fn(),
+    confirmed: jest.fn(),
+    failed: jest.fn(),
+    replaced: jest.fn(),
+    dropped: jest.fn()
+  }
+}));
+
+// jsdom does not implement AbortSignal.timeout
+if (typeof AbortSignal.timeout !== 'function') {
+  (AbortSignal as any).timeout = () => new AbortController().signal;
+}
+
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+const TOKEN = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const SPENDER = '0x00000000000000000000000000000000000000aa';
+
+type RpcHandler = (params: any[]) => unknown;
+
+const mockRpc = (handlers: Record<string, RpcHandler>) => {
+  (global.fetch as any).mockImplementation(async (_url: string, init: RequestInit) => {
+    const payload = JSON.parse(init.body as string);
+    const answer = ({ method, params, id }: any) => handlers[method]
+      ? { jsonrpc: '2.0', id, result: handlers[method](params) }
+      : { jsonrpc: '2.0', id, error: { code: -32601, message: `Unhandled ${method}` } };
+    return {
+      ok: true,
+      json: async () => (Array.isArray(payload) ? payload.map(answer) : answer(payload))
+    };
+  });
+};
+
+// Each send sees the next pending nonce, as a node would
+const mockSendRpc = () => {
+  let nonce = 7;
+  mockRpc({
+    eth_getTransactionCount: () => `0x${(nonce++).toString(16)}`,
+    eth_estimateGas: () => '0x5208'
+  });
+};
+
+const withWallet = (adapter: MockWagmiAdapter, wallet: SimulatedWalletProvider) => {
+  jest.spyOn(adapter, 'request').mockImplementation((method, params) => wallet.request({ method, params }));
+};
+
+const CALLS = [
+  { to: TOKEN, data: '0x095ea7b3' },
+  { to: SPENDER, value: BigInt(1000) }
+];
+
+describe('capability helpers', () => {
+  it('should merge the shared 0x0 entry into the chain entry', () => {
+    const capabilities = pickChainCapabilities({
+      '0x0': { paymasterService: { supported: true } },
+      '0x89': { atomic: { status: 'ready' } }
+    }, 137);
+
+    expect(capabilities).toEqual({ paymasterService: { supported: true }, atomic: { status: 'ready' } });
+    expect(getAtomicStatus(capabilities)).toBe('ready');
+  });
+
+  it('should read the atomicBatch flag of earlier drafts', () => {
+    expect(getAtomicStatus({ atomicBatch: { supported: true } })).toBe('supported');
+    expect(getAtomicStatus({})).toBe('unsupported');
+    expect(getAtomicStatus(null)).toBe('unsupported');
+  });
+});
+
+describe('Wallet capabilities and batched calls (EIP-5792)', () => {
+  let adapter: MockWagmiAdapter;
+  let wallet: SimulatedWalletProvider;
+  let errorHandler: WalletErrorHandler;
+  let walletService: WagmiWalletService;
+  let service: TransactionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adapter = new MockWagmiAdapter();
+    adapter.simulateMetaMaskConnection();
+    wallet = new SimulatedWalletProvider({ accounts: [ACCOUNT], authorized: true, chainId: 137 });
+    errorHandler = new WalletErrorHandler();
+    walletService = new WagmiWalletService(new BrowserStorageService(window.localStorage), errorHandler, adapter);
+    const networkService = new NetworkService(errorHandler, {
+      useNetwork: () => ({} as any),
+      useSwitchNetwork: () => ({} as any)
+    });
+    service = new TransactionService(walletService, networkService, new BrowserStorageService(window.localStorage), errorHandler);
+  });
+
+  afterEach(() => {
+    service.stopTracking();
+    window.localStorage.clear();
+  });
+
+  it('should merge what the wallet reports with the static capabilities and cache it', async () => {
+    withWallet(adapter, wallet);
+
+    const capabilities = await walletService.getWalletCapabilities(137);
+    await walletService.getWalletCapabilities(137);
+
+    expect(capabilities).toMatchObject({
+      chainId: 137,
+      supportsChain: true,
+      supportsPersonalSign: true,
+      atomicBatch: 'supported',
+      supportsPaymaster: false,
+      reported: { atomic: { status: 'supported' } }
+    });
+    expect(wallet.getRequests('wallet_getCapabilities')).toHaveLength(1);
+    expect(wallet.getRequests('wallet_getCapabilities')[0].params).toEqual([ACCOUNT, ['0x89']]);
+  });
+
+  it('should ask again after a disconnect', async () => {
+    withWallet(adapter, wallet);
+    await walletService.getWalletCapabilities(137);
+
+    await walletService.disconnect();
+    adapter.simulateMetaMaskConnection();
+    await wallet.request({ method: 'eth_requestAccounts' });
+    await walletService.getWalletCapabilities(137);
+
+    expect(wallet.getRequests('wallet_getCapabilities')).toHaveLength(2);
+  });
+
+  it('should fall back to the static capabilities for wallets without EIP-5792', async () => {
+    const capabilities = await walletService.getWalletCapabilities(137);
+
+    expect(capabilities).toMatchObject({ supportsChain: true, atomicBatch: 'unsupported', reported: null });
+  });
+
+  it('should check the strategy network flags', async () => {
+    // Without the extension Coinbase connects the smart wallet, which is not deployed on BSC
+    await adapter.switchConnector({ id: 'coinbaseWallet' } as Connector);
+
+    expect((await walletService.getWalletCapabilities(56)).supportsChain).toBe(false);
+    expect((await walletService.getWalletCapabilities(137)).supportsChain).toBe(true);
+
+    const result = await walletService.sendTransaction({ chainId: 56, from: ACCOUNT, to: TOKEN, nonce: 0, gas: BigInt(21000) });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Coinbase Wallet does not support BSC');
+  });
+
+  it('should hand the whole batch to a wallet that supports it', async () => {
+    withWallet(adapter, wallet);
+
+    const result = await service.sendCalls({ chainId: 137, calls: CALLS, atomicRequired: true });
+
+    expect(result).toMatchObject({ success: true, mode: 'wallet', supported: true });
+    expect(wallet.getRequests('wallet_sendCalls')[0].params).toEqual([{
+      version: '2.0.0',
+      from: ACCOUNT,
+      chainId: '0x89',
+      atomicRequired: true,
+      calls: [
+        { to: TOKEN, value: undefined, data: '0x095ea7b3' },
+        { to: SPENDER, value: '0x3e8', data: undefined }
+      ]
+    }]);
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    const status = await service.getCallsStatus(result.id!);
+    expect(status).toMatchObject({ success: true, status: 'confirmed', atomic: true });
+    expect(status.receipts).toEqual([expect.objectContaining({ status: 'success' })]);
+  });
+
+  it('should send the calls one by one when the wallet cannot batch', async () => {
+    mockSendRpc();
+
+    const result = await service.sendCalls({ chainId: 137, calls: CALLS });
+
+    expect(result.success).toBe(true);
+    expect(result.mode).toBe('sequential');
+    expect(result.hashes).toHaveLength(2);
+    expect(result.id).toBe(`sequential:137:${result.hashes!.join(',')}`);
+    expect(service.getPendingTransactions()).toHaveLength(2);
+  });
+
+  it('should fall back when the wallet refuses wallet_sendCalls', async () => {
+    withWallet(adapter, wallet);
+    wallet.failNext('wallet_sendCalls', 4200);
+    jest.spyOn(adapter, 'sendTransaction');
+    mockSendRpc();
+
+    const result = await service.sendCalls({ chainId: 137, calls: CALLS });
+
+    expect(result).toMatchObject({ success: true, mode: 'sequential' });
+    expect(adapter.sendTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refuse a required atomic batch instead of splitting it', async () => {
+    jest.spyOn(adapter, 'sendTransaction');
+
+    const result = await service.sendCalls({ chainId: 137, calls: CALLS, atomicRequired: true });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('one atomic batch');
+    expect(adapter.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should report the calls already sent when a later one fails', async () => {
+    mockSendRpc();
+    jest.spyOn(adapter, 'sendTransaction')
+      .mockResolvedValueOnce('0xaaa')
+      .mockRejectedValueOnce(Object.assign(new Error('User rejected the request.'), { code: 4001 }));
+
+    const result = await service.sendCalls({ chainId: 137, calls: CALLS });
+
+    expect(result).toMatchObject({ success: false, mode: 'sequential', hashes: ['0xaaa'], id: 'sequential:137:0xaaa' });
+    expect(result.error).toBeTruthy();
+  });
+
+  it('should combine the receipts of a sequential batch', async () => {
+    mockRpc({
+      eth_getTransactionReceipt: ([hash]) => hash === '0xaaa'
+        ? { status: '0x1', blockNumber: '0x10' }
+        : { status: '0x0', blockNumber: '0x11' }
+    });
+
+    const status = await service.getCallsStatus('sequential:137:0xaaa,0xbbb');
+
+    expect(status).toEqual({
+      success: true,
+      status: 'partially-reverted',
+      atomic: false,
+      receipts: [
+        { hash: '0xaaa', status: 'success', blockNumber: 16 },
+        { hash: '0xbbb', status: 'reverted', blockNumber: 17 }
+      ]
+    });
+  });
+
+  it('should stay pending until every call is mined', async () => {
+    mockRpc({
+      eth_getTransactionReceipt: ([hash]) => hash === '0xaaa' ? { status: '0x1', blockNumber: '0x10' } : null
+    });
+
+    const status = await service.getCallsStatus('sequential:137:0xaaa,0xbbb');
+
+    expect(status.status).toBe('pending');
+    expect(status.receipts).toHaveLength(1);
+  });
+});
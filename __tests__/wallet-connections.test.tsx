@@ -0,0 +1,230 @@
+import React from 'react';
+import { EventEmitter } from 'events';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { Connector } from 'wagmi';
+import { WalletConnectionsService } from '@/services/implementations/WalletConnectionsService';
+import { WagmiWalletService } from '@/services/implementations/WagmiWalletService';
+import { MockWagmiAdapter } from '@/services/implementations/WagmiAdapter';
+import { BrowserStorageService } from '@/services/implementations/BrowserStorageService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { AccountSwitcher } from '@/components/wallet/AccountSwitcher';
+import { CoinbaseWalletStrategy, MetaMaskStrategy, WalletConnectStrategy } from '@/strategies/WalletStrategy';
+import { APP_CONFIG } from '@/config/constants';
+import { WalletConnection } from '@/types/wallet';
+import { createMemoryStorage } from './fixtures/storage';
+
+jest.mock('@/utils/toast', () => ({
+  walletConnectionToast: {
+    connected: jest.fn(),
+    disconnected: jest.fn(),
+    failed: jest.fn()
+  }
+}));
+
+const HOT_WALLET = '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+const MOBILE_WALLET = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8';
+const { WALLET_CONNECTION_PREFIX, ACTIVE_WALLET_CONNECTION } = APP_CONFIG.STORAGE_KEYS;
+
+class FakeConnector extends EventEmitter {
+  ready = true;
+  authorized = false;
+
+  constructor(public id: string, public name: string, private account: string, private chainId: number) {
+    super();
+  }
+
+  connect = jest.fn(async () => {
+    this.authorized = true;
+    return { account: this.account, chain: { id: this.chainId, unsupported: false } };
+  });
+
+  disconnect = jest.fn(async () => {
+    this.authorized = false;
+  });
+
+  getAccount = jest.fn(async () => this.account);
+  getChainId = jest.fn(async () => this.chainId);
+  isAuthorized = jest.fn(async () => this.authorized);
+}
+
+describe('WalletConnectionsService', () => {
+  let storage: Storage;
+  let adapter: MockWagmiAdapter;
+  let metaMask: FakeConnector;
+  let walletConnect: FakeConnector;
+
+  const createService = () => {
+    const storageService = new BrowserStorageService(storage);
+    const walletService = new WagmiWalletService(storageService, new WalletErrorHandler(), adapter);
+    return new WalletConnectionsService(storageService, new WalletErrorHandler(), walletService);
+  };
+
+  const savedConnection = (id: string) => JSON.parse(storage.getItem(`${WALLET_CONNECTION_PREFIX}${id}`) || 'null');
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    metaMask = new FakeConnector('metaMask', 'MetaMask', HOT_WALLET, 1);
+    walletConnect = new FakeConnector('walletConnect', 'WalletConnect', MOBILE_WALLET, 137);
+
+    adapter = new MockWagmiAdapter();
+    jest.spyOn(adapter, 'getConnectors').mockReturnValue([metaMask, walletConnect] as unknown as Connector[]);
+    // wagmi connects the connector it is given and makes it the active one
+    jest.spyOn(adapter, 'switchConnector').mockImplementation(async connector => {
+      await (connector as unknown as FakeConnector).connect();
+      (adapter as any).mockState = { ...(adapter as any).mockState, isConnected: true, connector: { id: connector.id } };
+      return { success: true };
+    });
+    jest.spyOn(adapter, 'connect').mockImplementation(connector => adapter.switchConnector(connector));
+  });
+
+  it('should hold several connections, each on its own chain', async () => {
+    const service = createService();
+    const listener = jest.fn();
+    service.subscribe(listener);
+
+    await expect(service.connect('metaMask')).resolves.toMatchObject({ success: true, connection: { address: HOT_WALLET, chainId: 1 } });
+    await expect(service.connect('walletConnect')).resolves.toMatchObject({ success: true, connection: { address: MOBILE_WALLET, chainId: 137 } });
+
+    expect(service.getConnections().map(({ id, chainId }) => ({ id, chainId }))).toEqual([
+      { id: 'metaMask', chainId: 1 },
+      { id: 'walletConnect', chainId: 137 }
+    ]);
+    expect(service.getActiveConnection()?.id).toBe('walletConnect');
+    expect(adapter.getAccount().connector.id).toBe('walletConnect');
+    expect(metaMask.disconnect).not.toHaveBeenCalled();
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ activeId: 'walletConnect' }));
+
+    expect(savedConnection('metaMask')).toMatchObject({ address: HOT_WALLET, chainId: 1 });
+    expect(savedConnection('walletConnect')).toMatchObject({ address: MOBILE_WALLET, chainId: 137 });
+    expect(storage.getItem(ACTIVE_WALLET_CONNECTION)).toBe('walletConnect');
+  });
+
+  it('should make the selected connection the signing one', async () => {
+    const service = createService();
+    await service.connect('metaMask');
+    await service.connect('walletConnect');
+
+    await expect(service.setActive('metaMask')).resolves.toMatchObject({ success: true, connection: { id: 'metaMask' } });
+    expect(adapter.getAccount().connector.id).toBe('metaMask');
+    expect(storage.getItem(ACTIVE_WALLET_CONNECTION)).toBe('metaMask');
+
+    await expect(service.setActive('coinbaseWallet')).resolves.toEqual({ success: false, error: 'coinbaseWallet is not connected' });
+    expect(service.getActiveConnection()?.id).toBe('metaMask');
+  });
+
+  it('should follow account and chain changes of every connection', async () => {
+    const service = createService();
+    await service.connect('metaMask');
+    await service.connect('walletConnect');
+
+    metaMask.emit('change', { chain: { id: 56, unsupported: false } });
+    walletConnect.emit('change', { account: HOT_WALLET });
+
+    expect(service.getConnection('metaMask')).toMatchObject({ address: HOT_WALLET, chainId: 56 });
+    expect(service.getConnection('walletConnect')).toMatchObject({ address: HOT_WALLET, chainId: 137 });
+    expect(savedConnection('metaMask').chainId).toBe(56);
+  });
+
+  it('should hand signing to the remaining wallet when the active one disconnects', async () => {
+    const service = createService();
+    await service.connect('metaMask');
+    await service.connect('walletConnect');
+    await service.setActive('metaMask');
+
+    await service.disconnect('metaMask');
+    expect(service.getActiveConnection()?.id).toBe('walletConnect');
+    expect(adapter.getAccount().connector.id).toBe('walletConnect');
+    expect(savedConnection('metaMask')).toBeNull();
+
+    // The wallet ends the session itself
+    walletConnect.emit('disconnect');
+    await waitFor(() => expect(service.getConnections()).toEqual([]));
+    expect(service.getActiveConnection()).toBeNull();
+    expect(storage.getItem(ACTIVE_WALLET_CONNECTION)).toBeNull();
+  });
+
+  it('should restore each saved connection on its own', async () => {
+    const saved = (id: string, address: string, chainId: number, connectedAt: number): WalletConnection => ({
+      id, walletType: id, address, chainId, connectedAt, lastActivity: connectedAt
+    });
+    storage.setItem(`${WALLET_CONNECTION_PREFIX}metaMask`, JSON.stringify(saved('metaMask', HOT_WALLET, 1, 1000)));
+    storage.setItem(`${WALLET_CONNECTION_PREFIX}walletConnect`, JSON.stringify(saved('walletConnect', MOBILE_WALLET, 137, 2000)));
+    storage.setItem(ACTIVE_WALLET_CONNECTION, 'metaMask');
+    metaMask.authorized = true;
+
+    const service = createService();
+    const restored = await service.restore();
+
+    // The mobile session is gone, so only its own record is dropped
+    expect(restored.map(connection => connection.id)).toEqual(['metaMask']);
+    expect(restored[0].connectedAt).toBe(1000);
+    expect(savedConnection('walletConnect')).toBeNull();
+    expect(service.getActiveConnection()?.id).toBe('metaMask');
+    expect(adapter.getAccount().connector.id).toBe('metaMask');
+    await expect(service.restore()).resolves.toBe(restored);
+  });
+
+  it('should close every connection on disconnect all', async () => {
+    const service = createService();
+    await service.connect('metaMask');
+    await service.connect('walletConnect');
+
+    await service.disconnectAll();
+
+    expect(metaMask.disconnect).toHaveBeenCalled();
+    expect(adapter.getAccount().isConnected).toBe(false);
+    expect(service.getConnections()).toEqual([]);
+    expect(storage.getItem(`${WALLET_CONNECTION_PREFIX}walletConnect`)).toBeNull();
+  });
+});
+
+describe('AccountSwitcher', () => {
+  const connections: WalletConnection[] = [
+    { id: 'metaMask', walletType: 'metaMask', address: HOT_WALLET, chainId: 1, connectedAt: 1, lastActivity: 1 },
+    { id: 'walletConnect', walletType: 'walletConnect', address: MOBILE_WALLET, chainId: 137, connectedAt: 2, lastActivity: 2 }
+  ];
+
+  const renderSwitcher = () => {
+    const props = {
+      onSwitch: jest.fn<(connectionId: string) => Promise<void>>().mockResolvedValue(undefined),
+      onDisconnect: jest.fn<(connectionId: string) => Promise<void>>().mockResolvedValue(undefined),
+      onAdd: jest.fn<(walletType: string) => Promise<void>>().mockResolvedValue(undefined)
+    };
+    render(
+      <AccountSwitcher
+        connections={connections}
+        activeConnectionId="metaMask"
+        availableWallets={[new MetaMaskStrategy(), new WalletConnectStrategy(), new CoinbaseWalletStrategy()]}
+        isConnecting={false}
+        {...props}
+      />
+    );
+    return props;
+  };
+
+  it('should list every connection with its network and mark the active one', () => {
+    const { onSwitch } = renderSwitcher();
+    const [metaMask, walletConnect] = screen.getAllByRole('radio');
+
+    expect(metaMask.getAttribute('aria-checked')).toBe('true');
+    expect(walletConnect.getAttribute('aria-checked')).toBe('false');
+    expect(walletConnect.textContent).toContain('Polygon');
+
+    fireEvent.click(walletConnect);
+    expect(onSwitch).toHaveBeenCalledWith('walletConnect');
+  });
+
+  it('should disconnect one wallet and only offer unconnected wallets to add', async () => {
+    const { onDisconnect, onAdd } = renderSwitcher();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Disconnect WalletConnect' }));
+    expect(onDisconnect).toHaveBeenCalledWith('walletConnect');
+
+    const select = screen.getByLabelText('Add another wallet') as HTMLSelectElement;
+    expect(Array.from(select.options).map(option => option.value)).toEqual(['', 'coinbaseWallet']);
+
+    fireEvent.change(select, { target: { value: 'coinbaseWallet' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add' }));
+    await waitFor(() => expect(onAdd).toHaveBeenCalledWith('coinbaseWallet'));
+  });
+});
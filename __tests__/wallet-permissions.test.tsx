@@ -0,0 +1,154 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { WagmiWalletService } from '@/services/implementations/WagmiWalletService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { BrowserStorageService } from '@/services/implementations/BrowserStorageService';
+import { MockWagmiAdapter } from '@/services/implementations/WagmiAdapter';
+import { SimulatedWalletProvider } from '@/services/implementations/SimulatedWalletProvider';
+import { PermissionsPanel } from '@/components/PermissionsPanel';
+import { useWalletConnection } from '@/hooks/useWalletConnection';
+import { ServiceContextType, ServiceProvider } from '@/contexts/ServiceContext';
+import { walletConnectionToast } from '@/utils/toast';
+
+jest.mock('@/utils/toast', () => ({
+  walletConnectionToast: {
+    failed: jest.fn(),
+    connected: jest.fn(),
+    disconnected: jest.fn()
+  }
+}));
+
+jest.mock('@/hooks/useWalletConnection', () => ({
+  useWalletConnection: jest.fn()
+}));
+
+const ACCOUNT = '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+
+// Routes the adapter's raw requests to an in-memory wallet
+const withWallet = (adapter: MockWagmiAdapter, wallet: SimulatedWalletProvider) => {
+  jest.spyOn(adapter, 'request').mockImplementation((method, params) => wallet.request({ method, params }));
+};
+
+const createService = (adapter: MockWagmiAdapter) => new WagmiWalletService(
+  new BrowserStorageService(window.localStorage),
+  new WalletErrorHandler(),
+  adapter
+);
+
+describe('Wallet permissions (EIP-2255)', () => {
+  let adapter: MockWagmiAdapter;
+  let wallet: SimulatedWalletProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adapter = new MockWagmiAdapter();
+    adapter.simulateMetaMaskConnection();
+    wallet = new SimulatedWalletProvider({ accounts: [ACCOUNT], authorized: true });
+  });
+
+  it('should list the permissions the site holds', async () => {
+    withWallet(adapter, wallet);
+    const result = await createService(adapter).getPermissions();
+
+    expect(result).toMatchObject({ success: true, supported: true });
+    expect(result.permissions).toEqual([
+      expect.objectContaining({
+        parentCapability: 'eth_accounts',
+        caveats: [{ type: 'restrictReturnedAccounts', value: [ACCOUNT] }]
+      })
+    ]);
+  });
+
+  it('should revoke account access in the wallet on disconnect', async () => {
+    withWallet(adapter, wallet);
+    await createService(adapter).disconnect();
+
+    expect(wallet.getRequests('wallet_revokePermissions')[0].params).toEqual([{ eth_accounts: {} }]);
+    expect(wallet.isAuthorized()).toBe(false);
+    expect(adapter.getAccount().isConnected).toBe(false);
+  });
+
+  it('should ask for account access again after a revoke', async () => {
+    withWallet(adapter, wallet);
+    const service = createService(adapter);
+
+    await expect(service.revokePermissions()).resolves.toEqual({ success: true, supported: true });
+    await expect(service.getPermissions()).resolves.toMatchObject({ permissions: [] });
+
+    const granted = await service.requestPermissions(['eth_accounts']);
+    expect(granted.success).toBe(true);
+    expect(granted.permissions?.[0].parentCapability).toBe('eth_accounts');
+    expect(wallet.isAuthorized()).toBe(true);
+  });
+
+  it('should report a rejected permission request', async () => {
+    withWallet(adapter, wallet);
+    wallet.failNext('wallet_requestPermissions', 4001);
+
+    const result = await createService(adapter).requestPermissions();
+    expect(result.success).toBe(false);
+    expect(result.supported).toBeUndefined();
+  });
+
+  it('should fall back quietly for wallets without EIP-2255', async () => {
+    const service = createService(adapter);
+
+    await expect(service.getPermissions()).resolves.toEqual({ success: true, supported: false, permissions: [] });
+    await expect(service.revokePermissions()).resolves.toMatchObject({ success: false, supported: false });
+
+    // Disconnect still clears the local session without an error
+    await service.disconnect();
+    expect(adapter.getAccount().isConnected).toBe(false);
+    expect(walletConnectionToast.failed).not.toHaveBeenCalled();
+    expect(walletConnectionToast.disconnected).toHaveBeenCalled();
+  });
+
+  it('should refuse permission calls without a connected wallet', async () => {
+    withWallet(adapter, wallet);
+    await adapter.disconnect();
+
+    const result = await createService(adapter).getPermissions();
+    expect(result.success).toBe(false);
+    expect(wallet.getRequests('wallet_getPermissions')).toHaveLength(0);
+  });
+});
+
+describe('PermissionsPanel', () => {
+  const renderPanel = (walletService: WagmiWalletService) => {
+    jest.mocked(useWalletConnection).mockReturnValue({
+      isConnected: true,
+      isWatchOnly: false,
+      address: ACCOUNT,
+      walletType: 'metaMask'
+    } as ReturnType<typeof useWalletConnection>);
+
+    render(
+      <ServiceProvider services={{ walletService } as unknown as ServiceContextType}>
+        <PermissionsPanel />
+      </ServiceProvider>
+    );
+  };
+
+  it('should show the granted accounts and revoke them', async () => {
+    const adapter = new MockWagmiAdapter();
+    adapter.simulateMetaMaskConnection();
+    const wallet = new SimulatedWalletProvider({ accounts: [ACCOUNT], authorized: true });
+    withWallet(adapter, wallet);
+    renderPanel(createService(adapter));
+
+    await waitFor(() => expect(screen.getByText('0xf39f...2266')).toBeTruthy());
+    fireEvent.click(screen.getByRole('button', { name: 'Revoke eth_accounts' }));
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Grant access' })).toBeTruthy());
+    expect(wallet.isAuthorized()).toBe(false);
+  });
+
+  it('should explain when the wallet cannot report permissions', async () => {
+    const adapter = new MockWagmiAdapter();
+    adapter.simulateMetaMaskConnection();
+    renderPanel(createService(adapter));
+
+    await waitFor(() => expect(screen.getByText(/does not report site permissions/)).toBeTruthy());
+    expect(screen.queryByRole('button', { name: 'Grant access' })).toBeNull();
+  });
+});
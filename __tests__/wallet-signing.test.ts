@@ -0,0 +1,135 @@
+import { WagmiWalletService } from '@/services/implementations/WagmiWalletService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { BrowserStorageService } from '@/services/implementations/BrowserStorageService';
+import { MockWagmiAdapter } from '@/services/implementations/WagmiAdapter';
+import { TypedDataPayload } from '@/services/interfaces/IWalletService';
+import { walletRegistry } from '@/strategies/WalletStrategy';
+import { ErrorCode, ErrorFactory } from '@/types/errors';
+
+jest.mock('@/utils/toast', () => ({
+  walletConnectionToast: {
+    failed: jest.fn(),
+    connected: jest.fn(),
+    disconnected: jest.fn()
+  },
+  networkToast: {
+    switchError: jest.fn()
+  },
+  signatureToast: {
+    failed: jest.fn()
+  }
+}));
+
+const typedData: TypedDataPayload = {
+  domain: { name: 'Demo', version: '1', chainId: 1 },
+  types: {
+    Login: [
+      { name: 'wallet', type: 'address' },
+      { name: 'nonce', type: 'string' }
+    ]
+  },
+  primaryType: 'Login',
+  message: {
+    wallet: '0x1234567890123456789012345678901234567890',
+    nonce: 'abc123'
+  }
+};
+
+describe('Wallet message signing', () => {
+  let adapter: MockWagmiAdapter;
+  let service: WagmiWalletService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adapter = new MockWagmiAdapter();
+    service = new WagmiWalletService(
+      new BrowserStorageService(window.localStorage),
+      new WalletErrorHandler(),
+      adapter
+    );
+  });
+
+  it('should refuse to sign when no wallet is connected', async () => {
+    const result = await service.signMessage('hello');
+
+    expect(result.success).toBe(false);
+    expect(result.signature).toBeUndefined();
+  });
+
+  it('should sign a personal message with the connected wallet', async () => {
+    adapter.simulateMetaMaskConnection();
+
+    const result = await service.signMessage('hello');
+
+    expect(result.success).toBe(true);
+    expect(result.signature).toMatch(/^0x[0-9a-f]{130}$/);
+  });
+
+  it('should sign EIP-712 typed data with the connected wallet', async () => {
+    adapter.simulateMetaMaskConnection();
+
+    const result = await service.signTypedData(typedData);
+
+    expect(result.success).toBe(true);
+    expect(result.signature).toMatch(/^0x[0-9a-f]{130}$/);
+  });
+
+  it('should reject typed data without its primary type definition', async () => {
+    adapter.simulateMetaMaskConnection();
+
+    const result = await service.signTypedData({ ...typedData, primaryType: 'Missing' });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should check the wallet capability flags before signing', async () => {
+    adapter.simulateMetaMaskConnection();
+    const strategy = walletRegistry.getStrategy('metaMask')!;
+    const spy = jest.spyOn(strategy, 'getCapabilities').mockReturnValue({
+      ...strategy.getCapabilities(),
+      supportsTypedSign: false
+    });
+    jest.spyOn(adapter, 'getAccount').mockReturnValue({
+      address: '0x1234567890123456789012345678901234567890',
+      isConnected: true,
+      connector: { id: 'metaMask' }
+    });
+    const signSpy = jest.spyOn(adapter, 'signTypedData');
+
+    const result = await service.signTypedData(typedData);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('MetaMask does not support eth_signTypedData_v4');
+    expect(signSpy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+
+  it('should report user rejection through the error handler', async () => {
+    adapter.simulateMetaMaskConnection();
+    jest.spyOn(adapter, 'signMessage').mockRejectedValue({ code: 4001, message: 'User rejected the request.' });
+
+    const result = await service.signMessage('hello');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Signature request was rejected in the wallet.');
+  });
+});
+
+describe('WalletErrorHandler - signature category', () => {
+  const errorHandler = new WalletErrorHandler();
+
+  it('should categorize signature errors', () => {
+    const error = ErrorFactory.createSignatureError('Signing failed', 'personal_sign', ErrorCode.SIGNATURE_FAILED);
+
+    expect(errorHandler.categorizeError(error).type).toBe('signature');
+    expect(errorHandler.getRecoveryAction(error).action).toBe('retry');
+  });
+
+  it('should not retry rejected or unsupported signatures', () => {
+    const rejected = ErrorFactory.createSignatureError('Rejected', 'personal_sign', 4001);
+    const unsupported = ErrorFactory.createSignatureError('Unsupported', 'eth_signTypedData_v4', ErrorCode.SIGNATURE_UNSUPPORTED);
+
+    expect(errorHandler.getRecoveryAction(rejected).action).toBe('none');
+    expect(errorHandler.getRecoveryAction(unsupported).action).toBe('none');
+  });
+});
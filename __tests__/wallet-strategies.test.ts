@@ -0,0 +1,151 @@
+import { CoinbaseWalletStrategy, ParticleNetworkStrategy, WalletRegistry } from '@/strategies/WalletStrategy';
+import { ProviderDiscovery, providerDiscovery } from '@/strategies/ProviderDiscovery';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { EIP6963ProviderDetail, EIP6963_ANNOUNCE_EVENT, WalletProvider } from '@/types/wallet';
+
+const createProvider = (flags: Partial<WalletProvider> = {}): WalletProvider => ({
+  request: jest.fn(),
+  on: jest.fn(),
+  removeListener: jest.fn(),
+  ...flags
+}) as unknown as WalletProvider;
+
+const context = (walletType?: string) => ({
+  component: 'WagmiWalletService',
+  action: 'connect',
+  walletType,
+  timestamp: Date.now()
+});
+
+describe('CoinbaseWalletStrategy', () => {
+  let strategy: CoinbaseWalletStrategy;
+
+  beforeEach(() => {
+    strategy = new CoinbaseWalletStrategy();
+  });
+
+  afterEach(() => {
+    delete (window as any).coinbaseWalletExtension;
+    delete (window as any).ethereum;
+    providerDiscovery.stop();
+    providerDiscovery.clear();
+  });
+
+  it('should fall back to the smart wallet when no extension is present', () => {
+    expect(strategy.getProvider()).toBeNull();
+    expect(strategy.hasExtension()).toBe(false);
+    expect(strategy.isInstalled()).toBe(true);
+    expect(strategy.getConnectionSteps()[0]).toBe('Allow pop-ups for this site');
+    expect(strategy.getCapabilities()).toMatchObject({ supportsCoinbaseWallet: true, supportsBSC: false, supportsLinea: false });
+  });
+
+  it('should detect the extension from window.coinbaseWalletExtension', () => {
+    const extension = createProvider({ isCoinbaseWallet: true });
+    (window as any).coinbaseWalletExtension = extension;
+
+    expect(strategy.getProvider()).toBe(extension);
+    expect(strategy.getConnectionSteps()[0]).toBe('Unlock the Coinbase Wallet extension');
+    expect(strategy.getCapabilities()).toMatchObject({ supportsBSC: true, supportsLinea: true });
+  });
+
+  it('should pick Coinbase Wallet out of window.ethereum.providers', () => {
+    const metaMask = createProvider({ isMetaMask: true });
+    const coinbase = createProvider({ isCoinbaseWallet: true });
+    (window as any).ethereum = { ...createProvider(), providers: [metaMask, coinbase] };
+
+    expect(strategy.getProvider()).toBe(coinbase);
+  });
+
+  it('should prefer the provider announced over EIP-6963', () => {
+    const announced = createProvider();
+    (window as any).ethereum = createProvider({ isCoinbaseWallet: true });
+
+    providerDiscovery.start();
+    const detail: EIP6963ProviderDetail = {
+      info: { uuid: 'coinbase-uuid', name: 'Coinbase Wallet', icon: 'data:image/svg+xml;base64,PHN2Zy8+', rdns: 'com.coinbase.wallet' },
+      provider: announced
+    };
+    window.dispatchEvent(new CustomEvent(EIP6963_ANNOUNCE_EVENT, { detail }));
+
+    expect(strategy.getProvider()).toBe(announced);
+  });
+
+  it('should map Coinbase Wallet error codes', () => {
+    expect(strategy.getErrorMessage({ code: 4001, message: 'User denied' } as any)).toBe('Connection was rejected in Coinbase Wallet.');
+    expect(strategy.getErrorMessage({ code: 4100, message: 'Unauthorized' } as any)).toContain('has not authorized this site');
+    expect(strategy.getErrorMessage({ code: -32603, message: 'Pop up window failed to open' } as any)).toContain('allow pop-ups');
+    expect(strategy.getErrorMessage({ code: 5000, message: 'Boom' } as any)).toBe('Coinbase Smart Wallet connection failed. Please try again.');
+  });
+});
+
+describe('ParticleNetworkStrategy', () => {
+  const keys = ['NEXT_PUBLIC_PARTICLE_PROJECT_ID', 'NEXT_PUBLIC_PARTICLE_CLIENT_KEY', 'NEXT_PUBLIC_PARTICLE_APP_ID'];
+
+  afterEach(() => {
+    keys.forEach(key => delete process.env[key]);
+  });
+
+  it('should only be offered once the project keys are configured', () => {
+    expect(new ParticleNetworkStrategy().isInstalled()).toBe(false);
+
+    keys.forEach(key => {
+      process.env[key] = `${key.toLowerCase()}-value`;
+    });
+    jest.isolateModules(() => {
+      const { ParticleNetworkStrategy: ConfiguredStrategy } = require('@/strategies/WalletStrategy');
+      expect(new ConfiguredStrategy().isInstalled()).toBe(true);
+    });
+  });
+
+  it('should map Particle login and chain error codes', () => {
+    const strategy = new ParticleNetworkStrategy();
+
+    expect(strategy.getErrorMessage({ code: 4011, message: 'The user cancel the operation' } as any)).toBe('Particle Network login was cancelled.');
+    expect(strategy.getErrorMessage({ code: 4100, message: 'Unauthorized' } as any)).toContain('session has expired');
+    expect(strategy.getErrorMessage({ code: 4201, message: 'The Provider does not support the chain' } as any)).toContain('not available');
+    expect(strategy.getErrorMessage({ code: 5000, message: 'Boom' } as any)).toBe('Particle Network is not configured for this site.');
+  });
+
+  it('should leave provider creation to the connector', () => {
+    const strategy = new ParticleNetworkStrategy();
+
+    expect(strategy.getProvider()).toBeNull();
+    expect(strategy.getConnectionSteps()).toHaveLength(3);
+    expect(strategy.getCapabilities().supportsParticleNetwork).toBe(true);
+  });
+});
+
+describe('Wallet registry and error handling for SDK wallets', () => {
+  it('should register both strategies', () => {
+    const registry = new WalletRegistry(new ProviderDiscovery());
+
+    expect(registry.getStrategy('coinbaseWallet')).toBeInstanceOf(CoinbaseWalletStrategy);
+    expect(registry.getStrategy('particleNetwork')).toBeInstanceOf(ParticleNetworkStrategy);
+    expect(registry.getAvailableStrategies().map(strategy => strategy.id)).toContain('coinbaseWallet');
+    expect(registry.getAvailableStrategies().map(strategy => strategy.id)).not.toContain('particleNetwork');
+  });
+
+  it('should use the wallet strategy message instead of the generic fallback', () => {
+    const errorHandler = new WalletErrorHandler(new WalletRegistry(new ProviderDiscovery()));
+
+    const rejected = errorHandler.handle({ code: 4001, message: 'User denied account authorization' }, context('coinbaseWallet'));
+    expect(rejected).toMatchObject({ message: 'Connection was rejected in Coinbase Wallet.', shouldRetry: false });
+
+    const cancelled = errorHandler.handle({ code: 4011, message: 'The user cancel the operation' }, context('particleNetwork'));
+    expect(cancelled).toMatchObject({ message: 'Particle Network login was cancelled.', shouldRetry: false });
+
+    const failed = errorHandler.handle({ code: 4100, message: 'Unauthorized' }, context('coinbaseWallet'));
+    expect(failed).toMatchObject({ shouldRetry: true, retryDelay: 2000 });
+  });
+
+  it('should use the catalogue message for errors without a known wallet', () => {
+    const errorHandler = new WalletErrorHandler(new WalletRegistry(new ProviderDiscovery()));
+
+    expect(errorHandler.handle({ code: 4001, message: 'User denied' }, context())).toMatchObject({
+      message: 'Connection was rejected in your wallet.',
+      shouldRetry: false
+    });
+    expect(errorHandler.handle({ code: 4001, message: 'User denied' }, context('unknownWallet')).message).toBe('Connection was rejected in your wallet.');
+    expect(errorHandler.handle({ code: 1234, message: 'Boom' }, context('unknownWallet')).message).toBe('An unexpected error occurred. Please try again.');
+  });
+});
@@ -0,0 +1,336 @@
+import { WalletConnectSessionService } from '@/services/implementations/WalletConnectSessionService';
+import { BrowserStorageService } from '@/services/implementations/BrowserStorageService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import {
+  WalletConnectClient,
+  WalletConnectClientEvent,
+  WalletConnectClientSession,
+  WalletConnectNamespace,
+  WalletConnectPeer
+} from '@/services/interfaces/IWalletConnectService';
+import { APP_CONFIG } from '@/config/constants';
+import { walletConnectToast } from '@/utils/toast';
+import {
+  WALLETCONNECT_MOBILE_WALLETS,
+  buildWalletConnectDeepLink,
+  parseCaip10Account,
+  parsePairingUri
+} from '@/utils/walletconnect';
+import { createMemoryStorage } from './fixtures/storage';
+
+jest.mock('@/utils/toast', () => ({
+  walletConnectionToast: {
+    failed: jest.fn()
+  },
+  networkToast: {
+    switchError: jest.fn()
+  },
+  walletConnectToast: {
+    sessionApproved: jest.fn(),
+    sessionExpiring: jest.fn(),
+    sessionEnded: jest.fn()
+  }
+}));
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const ACCOUNT = '0x1234567890123456789012345678901234567890';
+
+const WALLET: WalletConnectPeer = {
+  name: 'Rainbow',
+  description: 'Rainbow mobile wallet',
+  url: 'https://rainbow.me',
+  icons: ['https://rainbow.me/icon.png']
+};
+
+const randomHex = (bytes: number): string =>
+  Array.from({ length: bytes }, () => Math.floor(Math.random() * 256).toString(16).padStart(2, '0')).join('');
+
+interface Proposal {
+  pairingTopic: string;
+  namespaces: Record<string, WalletConnectNamespace>;
+  settle: (session: WalletConnectClientSession) => void;
+  fail: (error: { code: number; message: string }) => void;
+}
+
+// Local stand-in for the WalletConnect relay. It keeps the sessions the way the
+// relay-backed sign client stores them, routes proposals to the test acting as the
+// wallet, and pushes wallet-side session events to every connected client
+class LocalRelay {
+  sessions: Map<string, WalletConnectClientSession> = new Map();
+  proposals: Map<string, Proposal> = new Map();
+  disconnects: { topic: string; reason: { code: number; message: string } }[] = [];
+  private clients: Map<WalletConnectClientEvent, Set<(args: { topic: string }) => void>>[] = [];
+
+  createClient(): WalletConnectClient {
+    const handlers = new Map<WalletConnectClientEvent, Set<(args: { topic: string }) => void>>();
+    this.clients.push(handlers);
+
+    return {
+      connect: async ({ optionalNamespaces = {} }) => {
+        const pairingTopic = randomHex(32);
+        const expiryTimestamp = Math.floor(Date.now() / 1000) + 300;
+        const approval = new Promise<WalletConnectClientSession>((settle, fail) => {
+          this.proposals.set(pairingTopic, { pairingTopic, namespaces: optionalNamespaces, settle, fail });
+        });
+        return {
+          uri: `wc:${pairingTopic}@2?relay-protocol=irn&symKey=${randomHex(32)}&expiryTimestamp=${expiryTimestamp}`,
+          approval: () => approval
+        };
+      },
+      disconnect: async ({ topic, reason }) => {
+        if (!this.sessions.has(topic)) {
+          throw new Error(`No matching key. session topic doesn't exist: ${topic}`);
+        }
+        this.sessions.delete(topic);
+        this.disconnects.push({ topic, reason });
+      },
+      session: {
+        getAll: () => Array.from(this.sessions.values())
+      },
+      on: (event, listener) => {
+        if (!handlers.has(event)) handlers.set(event, new Set());
+        handlers.get(event)!.add(listener);
+      }
+    };
+  }
+
+  // Wallet side: scan the URI and approve with the given accounts
+  approve(uri: string, chainIds: number[] = [1], lifetime = 7 * DAY): WalletConnectClientSession {
+    const proposal = this.takeProposal(uri);
+    const session: WalletConnectClientSession = {
+      topic: randomHex(32),
+      pairingTopic: proposal.pairingTopic,
+      expiry: Math.floor((Date.now() + lifetime) / 1000),
+      namespaces: {
+        eip155: {
+          accounts: chainIds.map(chainId => `eip155:${chainId}:${ACCOUNT}`),
+          methods: proposal.namespaces.eip155?.methods || [],
+          events: proposal.namespaces.eip155?.events || []
+        }
+      },
+      peer: { metadata: WALLET }
+    };
+    this.sessions.set(session.topic, session);
+    proposal.settle(session);
+    return session;
+  }
+
+  reject(uri: string, error = { code: 5000, message: 'User rejected.' }): void {
+    this.takeProposal(uri).fail(error);
+  }
+
+  proposalFor(uri: string): Proposal | undefined {
+    return this.proposals.get(parsePairingUri(uri)!.topic);
+  }
+
+  // Wallet side: end or extend a session
+  deleteSession(topic: string): void {
+    this.sessions.delete(topic);
+    this.emit('session_delete', topic);
+  }
+
+  extendSession(topic: string, lifetime: number): void {
+    const session = this.sessions.get(topic)!;
+    this.sessions.set(topic, { ...session, expiry: Math.floor((Date.now() + lifetime) / 1000) });
+    this.emit('session_extend', topic);
+  }
+
+  private takeProposal(uri: string): Proposal {
+    const proposal = this.proposalFor(uri);
+    if (!proposal) throw new Error(`No proposal for ${uri}`);
+    this.proposals.delete(proposal.pairingTopic);
+    return proposal;
+  }
+
+  private emit(event: WalletConnectClientEvent, topic: string): void {
+    this.clients.forEach(handlers => handlers.get(event)?.forEach(listener => listener({ topic })));
+  }
+}
+
+let storage: Storage;
+
+const savedTopics = (): string[] | null =>
+  JSON.parse(storage.getItem(APP_CONFIG.STORAGE_KEYS.WALLETCONNECT_SESSIONS) || 'null');
+
+describe('WalletConnectSessionService', () => {
+  let relay: LocalRelay;
+  let service: WalletConnectSessionService;
+
+  const createService = (options = {}) => new WalletConnectSessionService(
+    new BrowserStorageService(storage),
+    new WalletErrorHandler(),
+    async () => relay.createClient(),
+    { chainIds: [1, 137], ...options }
+  );
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    jest.clearAllMocks();
+    relay = new LocalRelay();
+    service = createService();
+  });
+
+  afterEach(() => {
+    service.stop();
+    jest.useRealTimers();
+  });
+
+  it('should create a pairing URI that proposes the configured chains and methods', async () => {
+    const result = await service.createPairing();
+
+    expect(result.success).toBe(true);
+    const uri = result.pairing!.uri;
+    expect(parsePairingUri(uri)).toMatchObject({ version: 2, relayProtocol: 'irn' });
+    expect(result.pairing!.deepLink).toBeUndefined();
+    expect(relay.proposalFor(uri)!.namespaces.eip155).toEqual({
+      chains: ['eip155:1', 'eip155:137'],
+      methods: [...APP_CONFIG.WALLETCONNECT.METHODS],
+      events: [...APP_CONFIG.WALLETCONNECT.EVENTS]
+    });
+  });
+
+  it('should build a deep link when a mobile wallet is chosen', async () => {
+    const result = await service.createPairing('rainbow');
+
+    expect(result.pairing!.deepLink).toBe(`https://rnbwapp.com/wc?uri=${encodeURIComponent(result.pairing!.uri)}`);
+  });
+
+  it('should list the approved session with peer metadata and save its topic', async () => {
+    const listener = jest.fn();
+    service.subscribe(listener);
+    const { pairing } = await service.createPairing();
+
+    const settled = relay.approve(pairing!.uri, [1, 137]);
+    const approval = await pairing!.approval;
+
+    expect(approval.success).toBe(true);
+    expect(service.getSessions()).toEqual([{
+      topic: settled.topic,
+      pairingTopic: settled.pairingTopic,
+      peer: WALLET,
+      accounts: [ACCOUNT],
+      chainIds: [1, 137],
+      expiresAt: settled.expiry * 1000
+    }]);
+    expect(savedTopics()).toEqual([settled.topic]);
+    expect(listener).toHaveBeenLastCalledWith(service.getSessions());
+    expect(walletConnectToast.sessionApproved).toHaveBeenCalledWith('Rainbow');
+  });
+
+  it('should report a rejected proposal with the WalletConnect message', async () => {
+    const { pairing } = await service.createPairing();
+
+    relay.reject(pairing!.uri);
+
+    await expect(pairing!.approval).resolves.toEqual({ success: false, error: 'Connection was rejected by the user.' });
+    expect(service.getSessions()).toEqual([]);
+  });
+
+  it('should restore sessions from the client and drop saved topics it no longer knows', async () => {
+    const { pairing } = await service.createPairing();
+    const settled = relay.approve(pairing!.uri);
+    await pairing!.approval;
+    storage.setItem(APP_CONFIG.STORAGE_KEYS.WALLETCONNECT_SESSIONS, JSON.stringify([settled.topic, 'stale-topic']));
+
+    const restored = createService();
+    const sessions = await restored.restoreSessions();
+    restored.stop();
+
+    expect(sessions.map(session => session.topic)).toEqual([settled.topic]);
+    expect(savedTopics()).toEqual([settled.topic]);
+  });
+
+  it('should disconnect a chosen session on the relay', async () => {
+    const first = await service.createPairing();
+    const kept = relay.approve(first.pairing!.uri);
+    await first.pairing!.approval;
+    const second = await service.createPairing();
+    const ended = relay.approve(second.pairing!.uri);
+    await second.pairing!.approval;
+
+    const result = await service.disconnectSession(ended.topic);
+
+    expect(result).toEqual({ success: true });
+    expect(relay.disconnects).toEqual([{ topic: ended.topic, reason: { code: 6000, message: 'User disconnected.' } }]);
+    expect(service.getSessions().map(session => session.topic)).toEqual([kept.topic]);
+    expect(savedTopics()).toEqual([kept.topic]);
+    await expect(service.disconnectSession('unknown-topic')).resolves.toEqual({ success: false, error: 'WalletConnect session not found' });
+  });
+
+  it('should drop sessions the wallet ends', async () => {
+    const { pairing } = await service.createPairing();
+    const settled = relay.approve(pairing!.uri);
+    await pairing!.approval;
+
+    relay.deleteSession(settled.topic);
+
+    expect(service.getSessions()).toEqual([]);
+    expect(savedTopics()).toEqual([]);
+    expect(walletConnectToast.sessionEnded).toHaveBeenCalledWith('Rainbow');
+  });
+
+  it('should warn once before a session expires and again after it is extended', async () => {
+    jest.useFakeTimers();
+    const expiring = jest.fn();
+    service.onSessionExpiring(expiring);
+    const { pairing } = await service.createPairing();
+    const settled = relay.approve(pairing!.uri, [1], DAY + 2 * HOUR);
+    await pairing!.approval;
+
+    jest.advanceTimersByTime(HOUR);
+    expect(expiring).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(HOUR);
+    expect(expiring).toHaveBeenCalledTimes(1);
+    expect(expiring).toHaveBeenCalledWith(expect.objectContaining({ topic: settled.topic }));
+    expect(walletConnectToast.sessionExpiring).toHaveBeenCalledWith('Rainbow', 24);
+
+    jest.advanceTimersByTime(HOUR);
+    expect(expiring).toHaveBeenCalledTimes(1);
+
+    relay.extendSession(settled.topic, DAY + HOUR);
+    jest.advanceTimersByTime(HOUR);
+    expect(expiring).toHaveBeenCalledTimes(2);
+  });
+
+  it('should warn straight away about restored sessions inside the warning window', async () => {
+    const { pairing } = await service.createPairing();
+    relay.approve(pairing!.uri, [1], 2 * HOUR);
+    const expiring = jest.fn();
+
+    const restored = createService();
+    restored.onSessionExpiring(expiring);
+    await restored.restoreSessions();
+    restored.stop();
+
+    expect(expiring).toHaveBeenCalledTimes(1);
+  });
+
+  it('should surface a missing project ID and retry the client on the next call', async () => {
+    const factory = jest.fn<() => Promise<WalletConnectClient>>()
+      .mockRejectedValueOnce(new Error('WalletConnect project ID is not configured'))
+      .mockImplementation(async () => relay.createClient());
+    const unconfigured = new WalletConnectSessionService(new BrowserStorageService(storage), new WalletErrorHandler(), factory);
+
+    await expect(unconfigured.createPairing()).resolves.toEqual({ success: false, error: 'WalletConnect is not configured for this site.' });
+    await expect(unconfigured.createPairing()).resolves.toMatchObject({ success: true });
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('WalletConnect helpers', () => {
+  it('should fall back to the native scheme for wallets without a universal link', () => {
+    const tokenPocket = WALLETCONNECT_MOBILE_WALLETS.find(wallet => wallet.id === 'tokenPocket')!;
+
+    expect(buildWalletConnectDeepLink('wc:abc@2?relay-protocol=irn&symKey=def', tokenPocket))
+      .toBe('tpoutside://wc?uri=wc%3Aabc%402%3Frelay-protocol%3Dirn%26symKey%3Ddef');
+  });
+
+  it('should reject malformed pairing URIs and accounts', () => {
+    expect(parsePairingUri('wc:abc@2?relay-protocol=irn')).toBeNull();
+    expect(parsePairingUri('https://example.com')).toBeNull();
+    expect(parseCaip10Account(`eip155:137:${ACCOUNT}`)).toEqual({ chainId: 137, address: ACCOUNT });
+    expect(parseCaip10Account(`solana:mainnet:${ACCOUNT}`)).toBeNull();
+  });
+});
@@ -0,0 +1,177 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { WatchOnlyService } from '@/services/implementations/WatchOnlyService';
+import { BrowserStorageService } from '@/services/implementations/BrowserStorageService';
+import { WalletErrorHandler } from '@/services/implementations/WalletErrorHandler';
+import { ProviderDiscovery } from '@/strategies/ProviderDiscovery';
+import { MetaMaskStrategy, WalletRegistry, WatchOnlyStrategy } from '@/strategies/WalletStrategy';
+import { WalletConnectionUI } from '@/components/wallet/WalletConnectionUI';
+import { APP_CONFIG } from '@/config/constants';
+import { isEnsName } from '@/utils/ens';
+import { createMemoryStorage } from './fixtures/storage';
+
+jest.mock('@/utils/toast', () => ({
+  walletConnectionToast: {
+    failed: jest.fn(),
+    retryAttempt: jest.fn(),
+    maxRetriesExceeded: jest.fn()
+  }
+}));
+
+// The switcher needs wagmi; these tests only care about what surrounds it
+jest.mock('@/components/status/NetworkSwitcher', () => ({
+  NetworkSwitcher: () => <div>Network switcher</div>
+}));
+
+const ADDRESS = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+
+describe('WatchOnlyService', () => {
+  const resolveName = jest.fn<(name: string) => Promise<string | null>>();
+  let storage: Storage;
+
+  const createService = (options: { allowTestnets?: boolean } = {}) => new WatchOnlyService(
+    new BrowserStorageService(storage),
+    new WalletErrorHandler(),
+    { resolveName, allowTestnets: false, ...options }
+  );
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    resolveName.mockReset();
+  });
+
+  it('should watch a checked address and keep it across reloads', async () => {
+    const service = createService();
+    const listener = jest.fn();
+    service.subscribe(listener);
+
+    const result = await service.watch(` ${ADDRESS} `, 137);
+
+    expect(result).toMatchObject({ success: true, account: { address: ADDRESS, chainId: 137 } });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ address: ADDRESS }));
+    expect(resolveName).not.toHaveBeenCalled();
+    expect(createService().getWatchedAccount()).toMatchObject({ address: ADDRESS, chainId: 137 });
+  });
+
+  it('should resolve ENS names before checking the address', async () => {
+    resolveName.mockImplementation(async (name: string) => (name === 'vitalik.eth' ? ADDRESS : null));
+    const service = createService();
+
+    await expect(service.watch('Vitalik.eth')).resolves.toMatchObject({
+      success: true,
+      account: { address: ADDRESS, ensName: 'vitalik.eth', chainId: 1 }
+    });
+    await expect(service.watch('nobody.eth')).resolves.toEqual({ success: false, error: 'nobody.eth does not resolve to an address' });
+    expect(service.getWatchedAccount()?.ensName).toBe('vitalik.eth');
+  });
+
+  it('should reject addresses that fail validation and unsupported networks', async () => {
+    const service = createService();
+
+    await expect(service.watch('0x1234')).resolves.toEqual({ success: false, error: 'Enter a valid address or ENS name' });
+    await expect(service.watch('<script>alert(1)</script>')).resolves.toMatchObject({ success: false });
+    await expect(service.watch(ADDRESS, 999999)).resolves.toEqual({ success: false, error: 'Network 999999 is not supported' });
+    await expect(service.watch(ADDRESS, 11155111)).resolves.toMatchObject({ success: false });
+    expect(service.isWatching()).toBe(false);
+
+    await expect(createService({ allowTestnets: true }).watch(ADDRESS, 11155111)).resolves.toMatchObject({ success: true });
+  });
+
+  it('should move the watched address between networks and stop watching', async () => {
+    const service = createService();
+    const listener = jest.fn();
+
+    expect(service.setChain(137)).toEqual({ success: false, error: 'No address is being watched' });
+
+    await service.watch(ADDRESS);
+    service.subscribe(listener);
+
+    expect(service.setChain(56)).toMatchObject({ success: true, account: { chainId: 56 } });
+    expect(service.setChain(999999)).toMatchObject({ success: false });
+    expect(service.getWatchedAccount()?.chainId).toBe(56);
+
+    service.stopWatching();
+    expect(listener).toHaveBeenLastCalledWith(null);
+    expect(storage.getItem(APP_CONFIG.STORAGE_KEYS.WATCH_ONLY_ACCOUNT)).toBeNull();
+  });
+
+  it('should report resolver failures through the error handler', async () => {
+    resolveName.mockRejectedValue(new Error('All RPC endpoints failed'));
+    const result = await createService().watch('vitalik.eth');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+
+  it('should only treat dotted names as ENS names', () => {
+    expect(isEnsName('vitalik.eth')).toBe(true);
+    expect(isEnsName('pay.example.xyz')).toBe(true);
+    expect(isEnsName(ADDRESS)).toBe(false);
+    expect(isEnsName('vitalik')).toBe(false);
+    expect(isEnsName('vitalik .eth')).toBe(false);
+  });
+});
+
+describe('Watch-only connection type', () => {
+  it('should be registered with every signing capability switched off', () => {
+    const strategy = new WalletRegistry(new ProviderDiscovery()).getStrategy('watchOnly');
+
+    expect(strategy).toBeInstanceOf(WatchOnlyStrategy);
+    expect(strategy!.isInstalled()).toBe(true);
+    expect(strategy!.getProvider()).toBeNull();
+    expect(strategy!.getCapabilities()).toMatchObject({
+      supportsPersonalSign: false,
+      supportsTypedSign: false,
+      supportsTransactionSign: false
+    });
+  });
+
+  const props = {
+    isConnected: false,
+    isConnecting: false,
+    address: null,
+    walletType: null,
+    error: null,
+    availableWallets: [new MetaMaskStrategy(), new WatchOnlyStrategy()],
+    lastConnectedWallet: null,
+    onConnect: jest.fn<(walletType: string) => Promise<void>>(),
+    onDisconnect: jest.fn<() => Promise<void>>(),
+    onRetry: jest.fn<() => Promise<void>>()
+  };
+
+  it('should offer a watch form instead of a connect button', async () => {
+    const onWatch = jest.fn<(addressOrName: string) => Promise<boolean>>().mockResolvedValue(true);
+    render(<WalletConnectionUI {...props} onWatch={onWatch} />);
+
+    expect(screen.queryByRole('button', { name: /Watch an address/ })).toBeNull();
+
+    fireEvent.change(screen.getByLabelText('Or watch an address without a wallet'), { target: { value: 'vitalik.eth' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Watch' }));
+
+    await waitFor(() => expect(onWatch).toHaveBeenCalledWith('vitalik.eth'));
+  });
+
+  it('should disable every signing action while watching', () => {
+    const onDisconnect = jest.fn<() => Promise<void>>();
+    render(
+      <WalletConnectionUI
+        {...props}
+        isConnected
+        address={ADDRESS}
+        walletType="watchOnly"
+        isWatchOnly
+        watchedAccount={{ address: ADDRESS, ensName: 'vitalik.eth', chainId: 1, startedAt: Date.now() }}
+        onDisconnect={onDisconnect}
+      />
+    );
+
+    expect(screen.getByText('Watch-only')).toBeTruthy();
+    expect(screen.getByText(/vitalik\.eth/)).toBeTruthy();
+    ['Sign message', 'Sign typed data', 'Send transaction'].forEach(action => {
+      expect(screen.getByRole<HTMLButtonElement>('button', { name: action }).disabled).toBe(true);
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Stop watching' }));
+    expect(onDisconnect).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,84 @@
+import React from 'react';
+import { useNetwork } from 'wagmi';
+import { useWalletConnection } from '@/hooks/useWalletConnection';
+import { useBalances } from '@/hooks/useBalances';
+import { Button } from '@/components/ui/button';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { TokenBalance } from '@/services/interfaces/IBalanceService';
+import { formatDisplayAmount } from '@/utils/units';
+
+interface BalancePanelProps {
+  className?: string;
+}
+
+const BalanceRow: React.FC<{ balance: TokenBalance; isNative?: boolean }> = ({ balance, isNative = false }) => (
+  <div className="flex items-center justify-between text-sm">
+    <div className="flex items-center gap-2">
+      <span className="font-medium">{balance.symbol}</span>
+      <span className="text-xs text-gray-500">{isNative ? 'Native' : balance.name}</span>
+    </div>
+    <span className="font-mono" title={balance.formatted}>
+      {formatDisplayAmount(balance.formatted)}
+    </span>
+  </div>
+);
+
+export const BalancePanel: React.FC<BalancePanelProps> = ({ className = '' }) => {
+  const { isConnected, address, isWatchOnly, watchedAccount } = useWalletConnection();
+  const { chain } = useNetwork();
+  // Watched addresses are read on the chain picked for them, not the wallet's chain
+  const chainId = isWatchOnly ? watchedAccount?.chainId : chain?.id;
+  const { balances, isLoading, error, refresh } = useBalances(isConnected ? address : null, chainId);
+
+  if (!isConnected) {
+    return null;
+  }
+
+  return (
+    <ErrorBoundary>
+      <div className={`p-4 border rounded-lg ${className}`}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">
+            Balances
+            {isWatchOnly && <span className="ml-2 text-xs font-normal text-amber-700">read-only</span>}
+          </h3>
+          <Button onClick={refresh} variant="ghost" size="sm" loading={isLoading} disabled={isLoading}>
+            Refresh
+          </Button>
+        </div>
+
+        {isLoading && !balances && (
+          <div className="space-y-2">
+            <div className="h-4 bg-gray-200 rounded animate-pulse"></div>
+            <div className="h-4 bg-gray-200 rounded animate-pulse"></div>
+          </div>
+        )}
+
+        {balances && (
+          <div className="space-y-2">
+            <BalanceRow balance={balances.native} isNative />
+            {balances.tokens.map(token => (
+              <BalanceRow key={token.address} balance={token} />
+            ))}
+            {balances.tokens.length === 0 && (
+              <p className="text-xs text-gray-500">No tokens configured for this network</p>
+            )}
+          </div>
+        )}
+
+        {balances && (
+          <div className="mt-3 text-xs text-gray-500">
+            {balances.blockNumber !== undefined ? `Block ${balances.blockNumber}` : 'Latest block'}
+            {balances.batched && ' • batched via Multicall3'}
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-3 text-sm text-red-600 bg-red-50 px-3 py-2 rounded-md">
+            {error}
+          </div>
+        )}
+      </div>
+    </ErrorBoundary>
+  );
+};
@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
+import { useNetwork } from 'wagmi';
 import { useHealthStatus } from '@/hooks/useHealthStatus';
 import { useWalletConnection } from '@/hooks/useWalletConnection';
 import { Button } from '@/components/ui/button';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { RpcEndpointHealth } from '@/types/chain';
 
 interface ConnectionHealthMonitorProps {
   className?: string;
@@ -116,12 +118,43 @@ const IssuesList: React.FC<{ issues: string[] }> = ({ issues }) => {
   );
 };
 
+const EndpointRanking: React.FC<{ endpoints: RpcEndpointHealth[] }> = ({ endpoints }) => {
+  if (endpoints.length === 0) {
+    return (
+      <div className="text-sm text-gray-500">
+        No RPC endpoints checked yet
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-2">
+      {endpoints.map(endpoint => (
+        <li key={endpoint.url} className="flex items-center justify-between gap-2 text-sm">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="text-xs text-gray-500">#{endpoint.rank}</span>
+            <span className="truncate" title={endpoint.lastError || endpoint.url}>
+              {new URL(endpoint.url).host}
+            </span>
+          </div>
+          <div className="flex items-center gap-3 shrink-0 text-xs">
+            <span>{endpoint.latency !== null ? `${endpoint.latency}ms` : '—'}</span>
+            <span>{Math.round(endpoint.errorRate * 100)}% errors</span>
+            <HealthStatusIndicator status={endpoint.status === 'down' ? 'unhealthy' : endpoint.status} />
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
 export const ConnectionHealthMonitor: React.FC<ConnectionHealthMonitorProps> = ({
   className,
   showAdvanced = false
 }) => {
   const { isConnected } = useWalletConnection();
-  const health = useHealthStatus();
+  const { chain } = useNetwork();
+  const health = useHealthStatus(chain?.id);
 
   const [showDetails, setShowDetails] = useState(showAdvanced);
 
@@ -156,6 +189,11 @@ export const ConnectionHealthMonitor: React.FC<ConnectionHealthMonitorProps> = (
           <IssuesList issues={health.issues} />
         </div>
 
+        <div className="mb-4">
+          <label className="block text-xs text-gray-500 mb-2">RPC Endpoints</label>
+          <EndpointRanking endpoints={health.endpoints} />
+        </div>
+
         <div className="flex gap-2 mb-4">
           <Button
             onClick={() => setShowDetails(!showDetails)}
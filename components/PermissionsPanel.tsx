@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { useWalletConnection } from '@/hooks/useWalletConnection';
+import { useWalletPermissions } from '@/hooks/useWalletPermissions';
+import { Button } from '@/components/ui/button';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { WalletPermission } from '@/services/interfaces/IWalletService';
+
+interface PermissionsPanelProps {
+  className?: string;
+}
+
+const CAPABILITY_LABELS: Record<string, string> = {
+  eth_accounts: 'See account addresses and ask for signatures',
+  'endowment:permitted-chains': 'Use the permitted networks'
+};
+
+// Accounts and chains live in caveats; wallets differ in which they attach
+const getCaveatValues = (permission: WalletPermission, type: string): string[] => {
+  const value = permission.caveats?.find(caveat => caveat.type === type)?.value;
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+};
+
+const PermissionRow: React.FC<{
+  permission: WalletPermission;
+  onRevoke: (capability: string) => Promise<boolean>;
+}> = ({ permission, onRevoke }) => {
+  const [isRevoking, setIsRevoking] = useState(false);
+  const accounts = getCaveatValues(permission, 'restrictReturnedAccounts');
+  const chains = getCaveatValues(permission, 'restrictNetworkSwitching');
+
+  const handleRevoke = async () => {
+    setIsRevoking(true);
+    await onRevoke(permission.parentCapability);
+    setIsRevoking(false);
+  };
+
+  return (
+    <li className="p-3 border rounded-md">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="text-sm font-medium">
+            {CAPABILITY_LABELS[permission.parentCapability] || permission.parentCapability}
+          </div>
+          <div className="text-xs text-gray-500 font-mono truncate">{permission.parentCapability}</div>
+        </div>
+        <Button
+          onClick={handleRevoke}
+          variant="outline"
+          size="sm"
+          loading={isRevoking}
+          disabled={isRevoking}
+          aria-label={`Revoke ${permission.parentCapability}`}
+        >
+          Revoke
+        </Button>
+      </div>
+      <div className="mt-2 text-xs text-gray-600 space-y-1">
+        {accounts.map(account => (
+          <div key={account} className="font-mono" title={account}>{account.slice(0, 6)}...{account.slice(-4)}</div>
+        ))}
+        {chains.length > 0 && <div>Chains: {chains.join(', ')}</div>}
+        {permission.date && <div>Granted {new Date(permission.date).toLocaleString()}</div>}
+      </div>
+    </li>
+  );
+};
+
+// What the connected wallet has authorised this site to do (EIP-2255)
+export const PermissionsPanel: React.FC<PermissionsPanelProps> = ({ className = '' }) => {
+  const { isConnected, isWatchOnly, address, walletType } = useWalletConnection();
+  const {
+    permissions,
+    isSupported,
+    isLoading,
+    error,
+    refresh,
+    requestPermission,
+    revokePermission
+  } = useWalletPermissions(isConnected && !isWatchOnly ? address : null, walletType);
+
+  if (!isConnected || isWatchOnly) {
+    return null;
+  }
+
+  const hasAccountAccess = permissions.some(permission => permission.parentCapability === 'eth_accounts');
+
+  return (
+    <ErrorBoundary>
+      <div className={`p-4 border rounded-lg ${className}`}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Site permissions</h3>
+          <Button onClick={refresh} variant="ghost" size="sm" loading={isLoading} disabled={isLoading}>
+            Refresh
+          </Button>
+        </div>
+
+        {!isSupported && (
+          <p className="text-xs text-gray-600">
+            This wallet does not report site permissions. Disconnecting ends the session here, but the
+            site stays in the wallet&apos;s connected sites until you remove it there.
+          </p>
+        )}
+
+        {isSupported && (
+          <ul className="space-y-2">
+            {permissions.map(permission => (
+              <PermissionRow key={permission.parentCapability} permission={permission} onRevoke={revokePermission} />
+            ))}
+          </ul>
+        )}
+
+        {isSupported && !isLoading && !hasAccountAccess && (
+          <div className="flex items-center justify-between gap-2 mt-2">
+            <p className="text-xs text-gray-500">This site cannot see any of your accounts</p>
+            <Button onClick={() => requestPermission('eth_accounts')} variant="outline" size="sm">
+              Grant access
+            </Button>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-3 text-sm text-red-600 bg-red-50 px-3 py-2 rounded-md">
+            {error}
+          </div>
+        )}
+      </div>
+    </ErrorBoundary>
+  );
+};
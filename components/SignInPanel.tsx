@@ -0,0 +1,63 @@
+import React from 'react';
+import { useNetwork } from 'wagmi';
+import { useWalletConnection } from '@/hooks/useWalletConnection';
+import { useSiweSession } from '@/hooks/useSiweSession';
+import { Button } from '@/components/ui/button';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+
+interface SignInPanelProps {
+  className?: string;
+}
+
+const shortAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Sign-In with Ethereum for the connected account; a watched address cannot sign
+export const SignInPanel: React.FC<SignInPanelProps> = ({ className = '' }) => {
+  const { isConnected, isWatchOnly, address } = useWalletConnection();
+  const { chain } = useNetwork();
+  const canSign = isConnected && !isWatchOnly;
+  const { session, isSignedIn, isSigningIn, error, signIn, signOut } = useSiweSession({
+    address: canSign ? address : null,
+    chainId: canSign ? chain?.id ?? null : null
+  });
+
+  if (!canSign) {
+    return null;
+  }
+
+  return (
+    <ErrorBoundary>
+      <div className={`p-4 border rounded-lg ${className}`}>
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-lg font-semibold">Sign-in</h3>
+          {isSignedIn ? (
+            <Button onClick={signOut} variant="outline" size="sm">
+              Sign out
+            </Button>
+          ) : (
+            <Button onClick={signIn} size="sm" loading={isSigningIn} disabled={isSigningIn}>
+              Sign in
+            </Button>
+          )}
+        </div>
+
+        {session ? (
+          <p className="mt-2 text-xs text-gray-600">
+            Signed in as <span className="font-mono" title={session.address}>{shortAddress(session.address)}</span> until{' '}
+            {new Date(session.expiresAt).toLocaleString()}
+          </p>
+        ) : (
+          <p className="mt-2 text-xs text-gray-500">
+            Sign a message with your wallet to start a session. Signing costs no gas.
+          </p>
+        )}
+
+        {error && (
+          <div className="mt-3 text-sm text-red-600 bg-red-50 px-3 py-2 rounded-md">
+            {error}
+          </div>
+        )}
+      </div>
+    </ErrorBoundary>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { useWalletConnectSessions } from '@/hooks/useWalletConnectSessions';
+import { Button } from '@/components/ui/button';
+import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { WalletConnectSession } from '@/services/interfaces/IWalletConnectService';
+import { getChainDefinition } from '@/config/chains';
+import { WALLETCONNECT_MOBILE_WALLETS } from '@/utils/walletconnect';
+import { isMobileUserAgent } from '@/utils/mobile';
+
+interface WalletConnectPanelProps {
+  className?: string;
+}
+
+const formatExpiry = (expiresAt: number): string => {
+  const hours = Math.max(0, Math.round((expiresAt - Date.now()) / (60 * 60 * 1000)));
+  return hours >= 48 ? `${Math.round(hours / 24)} days` : `${hours} hours`;
+};
+
+const SessionRow: React.FC<{
+  session: WalletConnectSession;
+  isExpiring: boolean;
+  onDisconnect: (topic: string) => Promise<void>;
+}> = ({ session, isExpiring, onDisconnect }) => {
+  const [isDisconnecting, setIsDisconnecting] = useState(false);
+  const chainNames = session.chainIds.map(chainId => getChainDefinition(chainId)?.name || `Chain ${chainId}`);
+
+  const handleDisconnect = async () => {
+    setIsDisconnecting(true);
+    await onDisconnect(session.topic);
+    setIsDisconnecting(false);
+  };
+
+  return (
+    <div className={`p-3 border rounded-md ${isExpiring ? 'border-yellow-400 bg-yellow-50' : ''}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 min-w-0">
+          {session.peer.icons[0] && (
+            <img src={session.peer.icons[0]} alt="" className="w-6 h-6 rounded" />
+          )}
+          <div className="min-w-0">
+            <div className="text-sm font-medium truncate">{session.peer.name}</div>
+            <div className="text-xs text-gray-500 truncate">{session.peer.url}</div>
+          </div>
+        </div>
+        <Button onClick={handleDisconnect} variant="outline" size="sm" loading={isDisconnecting} disabled={isDisconnecting}>
+          Disconnect
+        </Button>
+      </div>
+      <div className="mt-2 text-xs text-gray-600 space-y-1">
+        {session.accounts.map(account => (
+          <div key={account} className="font-mono">{account.slice(0, 6)}...{account.slice(-4)}</div>
+        ))}
+        {chainNames.length > 0 && <div>{chainNames.join(', ')}</div>}
+        <div className={isExpiring ? 'text-yellow-700 font-medium' : ''}>
+          Expires in {formatExpiry(session.expiresAt)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Pairs mobile wallets over WalletConnect: a QR code on desktop, wallet deep links on phones
+export const WalletConnectPanel: React.FC<WalletConnectPanelProps> = ({ className = '' }) => {
+  const { sessions, pairing, isPairing, expiringTopics, error, startPairing, cancelPairing, disconnect } = useWalletConnectSessions();
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [isMobile, setIsMobile] = useState(false);
+
+  useEffect(() => {
+    setIsMobile(isMobileUserAgent());
+  }, []);
+
+  useEffect(() => {
+    if (!pairing) {
+      setQrCode(null);
+      return;
+    }
+
+    let cancelled = false;
+    QRCode.toDataURL(pairing.uri, { margin: 1, width: 220 })
+      .then(dataUrl => {
+        if (!cancelled) setQrCode(dataUrl);
+      })
+      .catch(() => {
+        if (!cancelled) setQrCode(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pairing]);
+
+  const openInWallet = async (walletId: string) => {
+    const created = await startPairing(walletId);
+    if (created?.deepLink) {
+      window.location.href = created.deepLink;
+    }
+  };
+
+  return (
+    <ErrorBoundary>
+      <div className={`p-4 border rounded-lg ${className}`}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">WalletConnect</h3>
+          {!isMobile && !pairing && (
+            <Button onClick={() => startPairing()} variant="ghost" size="sm" loading={isPairing} disabled={isPairing}>
+              Pair wallet
+            </Button>
+          )}
+        </div>
+
+        {isMobile && (
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            {WALLETCONNECT_MOBILE_WALLETS.map(wallet => (
+              <Button key={wallet.id} onClick={() => openInWallet(wallet.id)} variant="outline" size="sm" disabled={isPairing}>
+                {wallet.name}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {pairing && !isMobile && (
+          <div className="flex flex-col items-center gap-2 mb-4">
+            {qrCode && <img src={qrCode} alt="WalletConnect pairing QR code" className="w-56 h-56" />}
+            <p className="text-xs text-gray-500">Scan with a WalletConnect compatible wallet</p>
+            <div className="flex gap-2">
+              <Button onClick={() => navigator.clipboard?.writeText(pairing.uri)} variant="outline" size="sm">
+                Copy link
+              </Button>
+              <Button onClick={cancelPairing} variant="ghost" size="sm">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {sessions.map(session => (
+            <SessionRow
+              key={session.topic}
+              session={session}
+              isExpiring={expiringTopics.includes(session.topic)}
+              onDisconnect={disconnect}
+            />
+          ))}
+          {sessions.length === 0 && !pairing && (
+            <p className="text-xs text-gray-500">No active WalletConnect sessions</p>
+          )}
+        </div>
+
+        {error && (
+          <div className="mt-3 text-sm text-red-600 bg-red-50 px-3 py-2 rounded-md">
+            {error}
+          </div>
+        )}
+      </div>
+    </ErrorBoundary>
+  );
+};
@@ -4,8 +4,14 @@ import { useNetworkManagement } from '@/hooks/useNetworkManagement';
 import { useHealthStatus } from '@/hooks/useHealthStatus';
 import { WalletConnectionManager } from '@/components/wallet/WalletConnectionManager';
 import { NetworkStatusManager } from '@/components/status/NetworkStatusManager';
+import { NetworkSwitcher } from '@/components/status/NetworkSwitcher';
+import { WatchOnlyNotice } from '@/components/wallet/WatchOnlyNotice';
+import { AccountIdentity } from '@/components/wallet/AccountIdentity';
+import { useEnsIdentity } from '@/hooks/useEnsIdentity';
+import { Button } from '@/components/ui/button';
 import { ConnectionHealthMonitor } from '@/components/ConnectionHealthMonitor';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { getChainDefinition } from '@/config/chains';
 
 export interface Web3StatusImprovedProps {
   className?: string;
@@ -18,9 +24,14 @@ export const Web3StatusImproved: React.FC<Web3StatusImprovedProps> = ({
   showHealthMonitor = true,
   showAdvanced = false
 }) => {
-  const { isConnected, address, walletType, isConnecting } = useWalletConnection();
+  const { isConnected, address, walletType, isConnecting, isWatchOnly, watchedAccount, disconnect } = useWalletConnection();
   const { currentNetwork } = useNetworkManagement();
+  // A watched address is read on the chain picked for it rather than a wallet's chain
+  const networkName = isWatchOnly && watchedAccount
+    ? getChainDefinition(watchedAccount.chainId)?.name
+    : currentNetwork?.name;
   const health = useHealthStatus();
+  const identity = useEnsIdentity(address);
   const [isHydrated, setIsHydrated] = useState(false);
   const [connectionProgress, setConnectionProgress] = useState(0);
 
@@ -64,13 +75,13 @@ export const Web3StatusImproved: React.FC<Web3StatusImprovedProps> = ({
       <div className={`p-4 border rounded-lg ${className}`}>
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-lg font-semibold" id="wallet-connect-title">
-            {isConnected ? 'Wallet Status' : 'Connect Wallet'}
+            {isWatchOnly ? 'Watching Address' : isConnected ? 'Wallet Status' : 'Connect Wallet'}
           </h3>
           <div className="flex items-center gap-4">
             {/* Network Status Indicator */}
-            {isConnected && currentNetwork && (
+            {isConnected && networkName && (
               <div className="text-sm text-gray-600 bg-gray-100 px-2 py-1 rounded">
-                🌐 {currentNetwork.name}
+                🌐 {networkName}
               </div>
             )}
             <div className="text-sm text-gray-500" aria-live="polite">
@@ -79,7 +90,7 @@ export const Web3StatusImproved: React.FC<Web3StatusImprovedProps> = ({
                   <div className="w-3 h-3 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
                   Connecting...
                 </div>
-              ) : isConnected ? 'Connected' : 'Not Connected'}
+              ) : isWatchOnly ? 'Watch-only' : isConnected ? 'Connected' : 'Not Connected'}
             </div>
           </div>
         </div>
@@ -123,7 +134,38 @@ export const Web3StatusImproved: React.FC<Web3StatusImprovedProps> = ({
           </div>
         )}
 
-        {isConnected && (
+        {isConnected && isWatchOnly && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between p-3 bg-amber-50 rounded-lg">
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-amber-500 rounded-full"></div>
+                <span className="text-sm font-medium">
+                  Watching {watchedAccount?.ensName || 'address'} without a wallet
+                </span>
+              </div>
+              {address && (
+                <AccountIdentity address={address} identity={identity} className="text-xs text-gray-600" />
+              )}
+            </div>
+
+            <WatchOnlyNotice />
+
+            <NetworkSwitcher />
+
+            <Button onClick={disconnect} variant="outline" size="sm" className="w-full">
+              Stop watching
+            </Button>
+
+            {showHealthMonitor && (
+              <ConnectionHealthMonitor 
+                showAdvanced={showAdvanced}
+                className="mt-4"
+              />
+            )}
+          </div>
+        )}
+
+        {isConnected && !isWatchOnly && (
           <div className="space-y-3">
             <div className="flex items-center justify-between p-3 bg-green-50 rounded-lg">
               <div className="flex items-center gap-2">
@@ -132,9 +174,9 @@ export const Web3StatusImproved: React.FC<Web3StatusImprovedProps> = ({
                   Successfully connected to {walletType}
                 </span>
               </div>
-              <span className="text-xs text-gray-600">
-                {address?.slice(0, 6)}...{address?.slice(-4)}
-              </span>
+              {address && (
+                <AccountIdentity address={address} identity={identity} className="text-xs text-gray-600" />
+              )}
             </div>
 
             <NetworkStatusManager />
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { CustomNetworkInput } from '@/services/interfaces/ICustomNetworkService';
+
+export interface AddNetworkFormProps {
+  // Resolves to true once the network is verified and saved
+  onAdd: (input: CustomNetworkInput) => Promise<boolean>;
+  onCancel: () => void;
+  isVerifying: boolean;
+  error: string | null;
+  testnet?: boolean;
+}
+
+const EMPTY_FORM = { name: '', rpcUrl: '', chainId: '', currencySymbol: '', explorerUrl: '' };
+
+const FIELDS: Array<{ key: keyof typeof EMPTY_FORM; label: string; placeholder: string; required: boolean }> = [
+  { key: 'name', label: 'Network name', placeholder: 'My Network', required: true },
+  { key: 'rpcUrl', label: 'RPC URL', placeholder: 'https://rpc.example.org', required: true },
+  { key: 'chainId', label: 'Chain ID', placeholder: '8453', required: true },
+  { key: 'currencySymbol', label: 'Currency symbol', placeholder: 'ETH', required: true },
+  { key: 'explorerUrl', label: 'Block explorer URL', placeholder: 'https://explorer.example.org', required: false }
+];
+
+// The RPC is asked for its chain id before the network is saved
+export const AddNetworkForm: React.FC<AddNetworkFormProps> = ({
+  onAdd,
+  onCancel,
+  isVerifying,
+  error,
+  testnet = false
+}) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const added = await onAdd({
+      name: form.name,
+      rpcUrl: form.rpcUrl,
+      chainId: Number(form.chainId.trim()),
+      currencySymbol: form.currencySymbol,
+      explorerUrl: form.explorerUrl || undefined,
+      testnet
+    });
+    if (added) {
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  const isComplete = FIELDS.every(field => !field.required || form[field.key].trim());
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 px-2 pt-2 border-t border-gray-200" aria-label="Add network">
+      {FIELDS.map(field => (
+        <div key={field.key}>
+          <label htmlFor={`custom-network-${field.key}`} className="block text-xs font-medium text-gray-500">
+            {field.label}{!field.required && ' (optional)'}
+          </label>
+          <input
+            id={`custom-network-${field.key}`}
+            type={field.key === 'chainId' ? 'number' : 'text'}
+            inputMode={field.key === 'chainId' ? 'numeric' : undefined}
+            value={form[field.key]}
+            onChange={event => setForm(prev => ({ ...prev, [field.key]: event.target.value }))}
+            placeholder={field.placeholder}
+            autoComplete="off"
+            spellCheck={false}
+            className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md"
+          />
+        </div>
+      ))}
+
+      {error && (
+        <div className="text-xs text-red-600 bg-red-50 px-2 py-1 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isVerifying}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={isVerifying || !isComplete}>
+          {isVerifying ? 'Checking RPC...' : 'Add network'}
+        </Button>
+      </div>
+    </form>
+  );
+};
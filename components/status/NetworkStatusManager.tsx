@@ -1,5 +1,6 @@
 import React from 'react';
 import { useNetworkManagement } from '@/hooks/useNetworkManagement';
+import { useLiveBlockNumber } from '@/hooks/useLiveBlockNumber';
 import { useNetworkService } from '@/contexts/ServiceContext';
 import { NetworkStatusUI } from './NetworkStatusUI';
 
@@ -22,6 +23,7 @@ export const NetworkStatusManager: React.FC<NetworkStatusManagerProps> = ({
   } = useNetworkManagement();
 
   const networkService = useNetworkService();
+  const latestBlock = useLiveBlockNumber(currentNetwork?.id);
 
   React.useEffect(() => {
     if (currentNetwork) {
@@ -34,7 +36,7 @@ export const NetworkStatusManager: React.FC<NetworkStatusManagerProps> = ({
   };
 
   const handleValidateNetwork = async (networkId: number) => {
-    return await validateNetwork(networkId);
+    return (await validateNetwork(networkId)).isValid;
   };
 
   return (
@@ -44,6 +46,7 @@ export const NetworkStatusManager: React.FC<NetworkStatusManagerProps> = ({
       supportedNetworks={supportedNetworks}
       error={error}
       isValidating={isValidating}
+      latestBlock={latestBlock}
       onSwitchNetwork={handleSwitchNetwork}
       onValidateNetwork={handleValidateNetwork}
       getNetworkStatus={getNetworkStatus}
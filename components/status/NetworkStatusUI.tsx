@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Network } from '@/services/interfaces/INetworkService';
+import { LiveBlockState } from '@/hooks/useLiveBlockNumber';
 import { networkToast } from '@/utils/toast';
 
 export interface NetworkStatusUIProps {
@@ -9,6 +10,7 @@ export interface NetworkStatusUIProps {
   supportedNetworks: Network[];
   error: string | null;
   isValidating?: boolean;
+  latestBlock?: LiveBlockState;
   onSwitchNetwork: (networkId: number) => Promise<void>;
   onValidateNetwork: (networkId: number) => Promise<boolean>;
   getNetworkStatus: (networkId: number) => {
@@ -24,6 +26,7 @@ export const NetworkStatusUI: React.FC<NetworkStatusUIProps> = ({
   supportedNetworks,
   error,
   isValidating = false,
+  latestBlock,
   onSwitchNetwork,
   onValidateNetwork,
   getNetworkStatus
@@ -143,6 +146,17 @@ export const NetworkStatusUI: React.FC<NetworkStatusUIProps> = ({
         <p className="text-sm text-gray-600">
           {currentNetwork.name} (ID: {currentNetwork.id})
         </p>
+
+        {/* Latest block, pushed over WebSocket or polled over HTTP */}
+        {latestBlock && latestBlock.blockNumber !== null && (
+          <div className="mt-1 flex items-center gap-2 text-xs text-gray-500">
+            <div className={`w-2 h-2 rounded-full ${
+              latestBlock.transport === 'websocket' ? 'bg-green-500' : 'bg-yellow-500'
+            }`}></div>
+            <span>Block #{latestBlock.blockNumber}</span>
+            <span>{latestBlock.transport === 'websocket' ? 'Live' : 'Polling'}</span>
+          </div>
+        )}
         
         {/* Network Validation Status */}
         <div className="mt-2 flex items-center gap-2">
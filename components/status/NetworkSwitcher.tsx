@@ -1,49 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { useNetworkManagement } from '@/hooks/useNetworkManagement';
+import { useWalletConnection } from '@/hooks/useWalletConnection';
 import { useAccount, useSwitchNetwork, useNetwork } from 'wagmi';
-import { APP_CONFIG } from '@/config/constants';
-
-// Function to add chain to MetaMask
-const addChainToMetaMask = async (networkId: number) => {
-  const network = Object.values(APP_CONFIG.NETWORKS).find(n => n.id === networkId);
-  if (!network) {
-    throw new Error(`Network ${networkId} not found in configuration`);
-  }
-
-  const chainParams = {
-    chainId: `0x${networkId.toString(16)}`, // Convert to hex
-    chainName: network.name,
-    nativeCurrency: {
-      name: network.name === 'BSC' ? 'BNB' : network.name === 'Polygon' ? 'MATIC' : 'ETH',
-      symbol: network.name === 'BSC' ? 'BNB' : network.name === 'Polygon' ? 'MATIC' : 'ETH',
-      decimals: 18,
-    },
-    rpcUrls: [network.rpcUrl],
-    blockExplorerUrls: [
-      network.name === 'BSC' ? 'https://bscscan.com' :
-      network.name === 'Polygon' ? 'https://polygonscan.com' :
-      network.name === 'Linea' ? 'https://lineascan.build' :
-      'https://etherscan.io'
-    ],
-  };
-
-  try {
-    // Check if MetaMask is available
-    if (typeof window !== 'undefined' && window.ethereum) {
-      await window.ethereum.request({
-        method: 'wallet_addEthereumChain',
-        params: [chainParams],
-      });
-      return true;
-    } else {
-      throw new Error('MetaMask not available');
-    }
-  } catch (error) {
-    console.error('Failed to add chain to MetaMask:', error);
-    throw error;
-  }
-};
+import { getChainDefinition, getChainDefinitionByName } from '@/config/chains';
+import { addChainToMetaMask } from '@/utils/chains';
+import { useCustomNetworks } from '@/hooks/useCustomNetworks';
+import { CustomNetworkInput } from '@/services/interfaces/ICustomNetworkService';
+import { AddNetworkForm } from './AddNetworkForm';
 
 export const NetworkSwitcher: React.FC = () => {
   // Use the complex service architecture for business logic
@@ -55,15 +19,32 @@ export const NetworkSwitcher: React.FC = () => {
     switchNetwork: serviceSwitchNetwork,
     validateNetwork,
     getNetworkStatus,
-    refreshSupportedNetworks 
+    refreshSupportedNetworks,
+    networkMode,
+    canUseTestnets,
+    setNetworkMode
   } = useNetworkManagement();
   
   // Use wagmi hooks directly for real-time chain information and switching
   const { chain } = useAccount();
   const { chains } = useNetwork();
   const { switchNetwork: wagmiSwitchNetwork, isPending: isWagmiSwitching } = useSwitchNetwork();
+
+  // A watched address has no wallet; the switcher only picks the chain its data is read from
+  const { isWatchOnly, watchedAccount, setWatchedChain } = useWalletConnection();
+  const currentChainId = isWatchOnly ? watchedAccount?.chainId : chain?.id;
   
+  const {
+    customNetworks,
+    isVerifying,
+    error: customNetworkError,
+    addNetwork,
+    removeNetwork,
+    isCustomNetwork
+  } = useCustomNetworks();
+
   const [isOpen, setIsOpen] = useState(false);
+  const [isAddingNetwork, setIsAddingNetwork] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
 
   // Sync current network with wagmi chain
@@ -77,11 +58,23 @@ export const NetworkSwitcher: React.FC = () => {
   const handleNetworkSwitch = async (networkId: number) => {
     try {
       setLocalError(null);
+
+      if (isWatchOnly) {
+        setWatchedChain(networkId);
+        setIsOpen(false);
+        return;
+      }
       
-      // First validate the network through the service layer
-      const isValid = await validateNetwork(networkId);
-      if (!isValid) {
-        throw new Error(`Network ${networkId} validation failed`);
+      // First validate the network through the service layer, which probes its RPC
+      const validation = await validateNetwork(networkId);
+      if (!validation.isValid) {
+        throw new Error(validation.error || `Network ${networkId} validation failed`);
+      }
+
+      // wagmi only knows the built-in chains, so the wallet is given a user-added network first
+      const customNetwork = customNetworks.find(network => network.id === networkId);
+      if (customNetwork && wagmiSwitchNetwork) {
+        await addChainToMetaMask(networkId, customNetwork);
       }
 
       // Try to switch network using wagmi first
@@ -102,7 +95,7 @@ export const NetworkSwitcher: React.FC = () => {
               await wagmiSwitchNetwork(networkId);
             } catch (addChainError) {
               console.error('Failed to add chain to MetaMask:', addChainError);
-              throw new Error(`Please add ${APP_CONFIG.NETWORKS[networkId as keyof typeof APP_CONFIG.NETWORKS]?.name || `Network ${networkId}`} to MetaMask manually and try again.`);
+              throw new Error(`Please add ${getChainDefinition(networkId)?.name || `Network ${networkId}`} to MetaMask manually and try again.`);
             }
           } else {
             // Re-throw other errors
@@ -130,6 +123,9 @@ export const NetworkSwitcher: React.FC = () => {
   };
 
   const getCurrentNetworkName = () => {
+    if (isWatchOnly && watchedAccount) {
+      return getChainDefinition(watchedAccount.chainId)?.name || `Network ${watchedAccount.chainId}`;
+    }
     if (chain) {
       return chain.name;
     }
@@ -140,28 +136,33 @@ export const NetworkSwitcher: React.FC = () => {
   };
 
   const getCurrentNetworkIcon = (networkName: string) => {
-    const icons: Record<string, string> = {
-      'Polygon': '🔷',
-      'Linea': '🔵',
-      'BSC': '🟡',
-      'Ethereum': '💎',
-      'Polygon Mumbai': '🔷',
-      'Linea Goerli': '🔵',
-      'BSC Testnet': '🟡'
-    };
-    return icons[networkName] || '🌐';
+    return getChainDefinitionByName(networkName)?.icons.emoji || '🌐';
   };
 
   const getNetworkStatusColor = (networkId: number) => {
-    if (chain?.id === networkId) {
+    if (currentChainId === networkId) {
       return 'bg-green-100 text-green-800 border-green-300';
     }
     return 'bg-gray-50 text-gray-700 border-gray-200 hover:bg-gray-100';
   };
 
+  const handleAddNetwork = async (input: CustomNetworkInput) => {
+    const added = await addNetwork(input);
+    if (added) {
+      await refreshSupportedNetworks();
+      setIsAddingNetwork(false);
+    }
+    return added;
+  };
+
+  const handleRemoveNetwork = async (networkId: number) => {
+    removeNetwork(networkId);
+    await refreshSupportedNetworks();
+  };
+
   const isNetworkSupported = (networkId: number) => {
-    // Check both wagmi chains and service layer networks
-    const wagmiSupported = chains.some(chain => chain.id === networkId);
+    // Check both wagmi chains and service layer networks; user-added networks are not in the wagmi config
+    const wagmiSupported = chains.some(chain => chain.id === networkId) || isCustomNetwork(networkId);
     const serviceSupported = supportedNetworks.some(network => network.id === networkId);
     return wagmiSupported && serviceSupported;
   };
@@ -206,12 +207,30 @@ export const NetworkSwitcher: React.FC = () => {
       {isOpen && (
         <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-50">
           <div className="p-2">
-            <div className="text-xs font-medium text-gray-500 mb-2 px-2">
-              Switch Network
+            <div className="flex items-center justify-between mb-2 px-2">
+              <div className="text-xs font-medium text-gray-500">
+                Switch Network
+              </div>
+              {canUseTestnets && (
+                <div className="flex rounded-md border border-gray-200 text-xs" role="group" aria-label="Network mode">
+                  {(['mainnet', 'testnet'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setNetworkMode(mode)}
+                      aria-pressed={networkMode === mode}
+                      className={`px-2 py-0.5 capitalize first:rounded-l-md last:rounded-r-md ${
+                        networkMode === mode ? 'bg-gray-800 text-white' : 'text-gray-600 hover:bg-gray-100'
+                      }`}
+                    >
+                      {mode}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
             {supportedNetworks.map((network) => {
               const isSupported = isNetworkSupported(network.id);
-              const isCurrentNetwork = chain?.id === network.id;
+              const isCurrentNetwork = currentChainId === network.id;
               const networkStatus = getNetworkStatus(network.id);
               
               return (
@@ -240,7 +259,7 @@ export const NetworkSwitcher: React.FC = () => {
                       </div>
                     </div>
                     {isCurrentNetwork && (
-                      <span className="text-green-600 text-sm">✓ Connected</span>
+                      <span className="text-green-600 text-sm">{isWatchOnly ? '✓ Watching' : '✓ Connected'}</span>
                     )}
                     {!isSupported && (
                       <span className="text-gray-400 text-sm">Not Available</span>
@@ -249,6 +268,48 @@ export const NetworkSwitcher: React.FC = () => {
                 </button>
               );
             })}
+
+            {customNetworks.some(network => supportedNetworks.some(supported => supported.id === network.id)) && (
+              <div className="mt-2 px-2 space-y-1">
+                <div className="text-xs font-medium text-gray-500">Your networks</div>
+                {customNetworks
+                  .filter(network => supportedNetworks.some(supported => supported.id === network.id))
+                  .map(network => (
+                    <div key={network.id} className="flex items-center justify-between text-xs text-gray-600">
+                      <span>{network.name} ({network.id})</span>
+                      <button
+                        onClick={() => handleRemoveNetwork(network.id)}
+                        disabled={currentChainId === network.id}
+                        className="text-red-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+                        aria-label={`Remove ${network.name}`}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+              </div>
+            )}
+
+            {isAddingNetwork ? (
+              <div className="mt-2">
+                <AddNetworkForm
+                  onAdd={handleAddNetwork}
+                  onCancel={() => setIsAddingNetwork(false)}
+                  isVerifying={isVerifying}
+                  error={customNetworkError}
+                  testnet={networkMode === 'testnet'}
+                />
+              </div>
+            ) : (
+              <Button
+                onClick={() => setIsAddingNetwork(true)}
+                variant="ghost"
+                size="sm"
+                className="w-full mt-2"
+              >
+                + Add network
+              </Button>
+            )}
           </div>
         </div>
       )}
@@ -284,6 +345,7 @@ export const NetworkSwitcher: React.FC = () => {
       {/* Debug Info (remove in production) */}
       {process.env.NODE_ENV === 'development' && (
         <div className="mt-2 text-xs text-gray-500 space-y-1">
+          <div>Network Mode: {networkMode}</div>
           <div>Service Networks: {supportedNetworks.length}</div>
           <div>Wagmi Chains: {chains.map(c => c.name).join(', ')}</div>
           <div>Current Chain: {chain?.name || 'None'}</div>
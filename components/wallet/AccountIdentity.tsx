@@ -0,0 +1,31 @@
+import React from 'react';
+import { EnsIdentity } from '@/services/interfaces/IIdentityService';
+
+export interface AccountIdentityProps {
+  address: string;
+  identity?: EnsIdentity | null;
+  className?: string;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// An address shown by its ENS name and avatar when it has them, with the full address on hover
+export const AccountIdentity: React.FC<AccountIdentityProps> = ({ address, identity, className = '' }) => {
+  const name = identity?.name ?? null;
+  const avatar = identity?.avatar ?? null;
+
+  return (
+    <span className={`inline-flex items-center gap-1.5 min-w-0 align-middle ${className}`} title={address}>
+      {avatar && (
+        <img
+          src={avatar}
+          alt=""
+          className="w-5 h-5 rounded-full object-cover flex-shrink-0"
+          referrerPolicy="no-referrer"
+        />
+      )}
+      {name && <span className="font-medium truncate">{name}</span>}
+      <span className={`font-mono ${name ? 'text-xs text-gray-500' : ''}`}>{shortAddress(address)}</span>
+    </span>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { WalletStrategy } from '@/strategies/WalletStrategy';
+import { WalletConnection } from '@/types/wallet';
+import { getChainDefinition } from '@/config/chains';
+import { EnsIdentity } from '@/services/interfaces/IIdentityService';
+import { AccountIdentity } from './AccountIdentity';
+
+export interface AccountSwitcherProps {
+  connections: WalletConnection[];
+  activeConnectionId: string | null;
+  // Wallets that can still be added; ones already connected are left out
+  availableWallets: WalletStrategy[];
+  isConnecting: boolean;
+  onSwitch: (connectionId: string) => Promise<void>;
+  onDisconnect: (connectionId: string) => Promise<void>;
+  onAdd: (walletType: string) => Promise<void>;
+  // ENS identities keyed by lowercased address
+  identities?: Record<string, EnsIdentity>;
+}
+
+// Lists the open wallet connections; the selected one is the account that signs
+export const AccountSwitcher: React.FC<AccountSwitcherProps> = ({
+  connections,
+  activeConnectionId,
+  availableWallets,
+  isConnecting,
+  onSwitch,
+  onDisconnect,
+  onAdd,
+  identities = {}
+}) => {
+  const [walletToAdd, setWalletToAdd] = useState('');
+  const connectedIds = new Set(connections.map(connection => connection.id));
+  const addableWallets = availableWallets.filter(wallet => !connectedIds.has(wallet.id));
+  const walletName = (walletType: string) =>
+    availableWallets.find(wallet => wallet.id === walletType)?.name ?? walletType;
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!walletToAdd) return;
+
+    await onAdd(walletToAdd);
+    setWalletToAdd('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs font-medium text-gray-500" id="active-account-label">Active account</div>
+
+      <ul role="radiogroup" aria-labelledby="active-account-label" className="space-y-1">
+        {connections.map(connection => {
+          const isActive = connection.id === activeConnectionId;
+          const chainName = connection.chainId !== null
+            ? getChainDefinition(connection.chainId)?.name ?? `Chain ${connection.chainId}`
+            : 'Unknown network';
+
+          return (
+            <li
+              key={connection.id}
+              className={`flex items-center gap-2 p-2 rounded border text-sm ${isActive ? 'border-blue-300 bg-blue-50' : 'border-gray-200'}`}
+            >
+              <button
+                type="button"
+                role="radio"
+                aria-checked={isActive}
+                onClick={() => !isActive && onSwitch(connection.id)}
+                disabled={isConnecting}
+                className="flex-1 min-w-0 text-left"
+              >
+                <span className="font-medium">{walletName(connection.walletType)}</span>{' '}
+                <AccountIdentity
+                  address={connection.address}
+                  identity={identities[connection.address.toLowerCase()]}
+                  className="text-gray-600"
+                />
+                <span className="block text-xs text-gray-500">{chainName}</span>
+              </button>
+
+              {isActive && (
+                <span className="text-xs font-medium text-blue-800 bg-blue-100 px-2 py-0.5 rounded">
+                  Active
+                </span>
+              )}
+
+              <Button
+                onClick={() => onDisconnect(connection.id)}
+                variant="ghost"
+                size="sm"
+                disabled={isConnecting}
+                aria-label={`Disconnect ${walletName(connection.walletType)}`}
+              >
+                Disconnect
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {addableWallets.length > 0 && (
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <label htmlFor="add-wallet" className="sr-only">Add another wallet</label>
+          <select
+            id="add-wallet"
+            value={walletToAdd}
+            onChange={event => setWalletToAdd(event.target.value)}
+            className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-md"
+          >
+            <option value="">Add another wallet…</option>
+            {addableWallets.map(wallet => (
+              <option key={wallet.id} value={wallet.id}>{wallet.name}</option>
+            ))}
+          </select>
+          <Button type="submit" variant="outline" size="sm" disabled={isConnecting || !walletToAdd}>
+            {isConnecting ? 'Connecting...' : 'Add'}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { AddressResolution } from '@/services/interfaces/IIdentityService';
+import { isEnsName } from '@/utils/ens';
+
+export interface AddressInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  // Looks up name.eth while the user types; without it the field takes hex addresses only
+  resolveAddress?: (value: string) => Promise<AddressResolution>;
+}
+
+const RESOLVE_DELAY = 400;
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Text field for an address or ENS name that previews what a typed name resolves to
+export const AddressInput: React.FC<AddressInputProps> = ({
+  id,
+  value,
+  onChange,
+  placeholder = '0x… or name.eth',
+  className = '',
+  resolveAddress
+}) => {
+  const [resolution, setResolution] = useState<AddressResolution | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+
+  useEffect(() => {
+    setResolution(null);
+    const input = value.trim();
+    if (!resolveAddress || !isEnsName(input)) {
+      setIsResolving(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsResolving(true);
+    // Wait for a pause in typing so every keystroke is not a lookup
+    const timer = setTimeout(async () => {
+      const result = await resolveAddress(input);
+      if (cancelled) return;
+      setResolution(result);
+      setIsResolving(false);
+    }, RESOLVE_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value, resolveAddress]);
+
+  const hintId = `${id}-hint`;
+
+  return (
+    <div className="flex-1 min-w-0">
+      <input
+        id={id}
+        type="text"
+        value={value}
+        onChange={event => onChange(event.target.value)}
+        placeholder={placeholder}
+        autoComplete="off"
+        spellCheck={false}
+        aria-describedby={hintId}
+        aria-invalid={resolution ? !resolution.success : undefined}
+        className={`w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md font-mono ${className}`}
+      />
+      <div id={hintId} aria-live="polite" className="mt-1 text-xs">
+        {isResolving && <span className="text-gray-500">Looking up name…</span>}
+        {!isResolving && resolution?.success && resolution.address && (
+          <span className="text-gray-600 font-mono" title={resolution.address}>
+            → {shortAddress(resolution.address)}
+          </span>
+        )}
+        {!isResolving && resolution && !resolution.success && (
+          <span className="text-red-600">{resolution.error}</span>
+        )}
+      </div>
+    </div>
+  );
+};
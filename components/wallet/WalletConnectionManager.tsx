@@ -1,6 +1,9 @@
 import React from 'react';
 import { useWalletConnection } from '@/hooks/useWalletConnection';
-import { useWalletService } from '@/contexts/ServiceContext';
+import { useWalletService, useIdentityService } from '@/contexts/ServiceContext';
+import { useWalletDiscovery } from '@/hooks/useWalletDiscovery';
+import { useEnsIdentities } from '@/hooks/useEnsIdentity';
+import { useMobileEnvironment } from '@/hooks/useMobileEnvironment';
 import { walletRegistry } from '@/strategies/WalletStrategy';
 import { WalletConnectionUI } from './WalletConnectionUI';
 
@@ -19,14 +22,30 @@ export const WalletConnectionManager: React.FC<WalletConnectionManagerProps> = (
     error,
     connect,
     disconnect,
-    retryConnection
+    retryConnection,
+    isWatchOnly,
+    watchedAccount,
+    watchAddress,
+    connections,
+    activeConnectionId,
+    addConnection,
+    switchAccount,
+    disconnectConnection
   } = useWalletConnection();
 
   const walletService = useWalletService();
   const availableConnectors = walletService.getAvailableConnectors?.() || [];
   const lastConnectedWallet = walletService.getLastConnectedWallet?.() || null;
 
-  const availableWallets = walletRegistry.getAvailableStrategies();
+  const availableWallets = useWalletDiscovery();
+  const mobile = useMobileEnvironment();
+  const deepLinkWallets = React.useMemo(() => walletRegistry.getDeepLinkStrategies(), []);
+
+  const identityService = useIdentityService();
+  const identities = useEnsIdentities([
+    ...(address ? [address] : []),
+    ...connections.map(connection => connection.address)
+  ]);
 
   React.useEffect(() => {
     onConnectionChange?.(isConnected);
@@ -44,6 +63,15 @@ export const WalletConnectionManager: React.FC<WalletConnectionManagerProps> = (
     await retryConnection();
   };
 
+  const handleWatch = async (addressOrName: string) => {
+    return await watchAddress(addressOrName);
+  };
+
+  const resolveAddress = React.useCallback(
+    (value: string) => identityService.resolveAddressInput(value),
+    [identityService]
+  );
+
   return (
     <WalletConnectionUI
       isConnected={isConnected}
@@ -56,6 +84,18 @@ export const WalletConnectionManager: React.FC<WalletConnectionManagerProps> = (
       onConnect={handleConnect}
       onDisconnect={handleDisconnect}
       onRetry={handleRetry}
+      isWatchOnly={isWatchOnly}
+      watchedAccount={watchedAccount}
+      onWatch={handleWatch}
+      connections={connections}
+      activeConnectionId={activeConnectionId}
+      onSwitchAccount={switchAccount}
+      onDisconnectConnection={disconnectConnection}
+      onAddConnection={addConnection}
+      identities={identities}
+      resolveAddress={resolveAddress}
+      mobile={mobile}
+      deepLinkWallets={deepLinkWallets}
     />
   );
 };
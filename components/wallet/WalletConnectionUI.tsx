@@ -1,8 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { WalletStrategy } from '@/strategies/WalletStrategy';
+import { WalletStrategy, InjectedWalletStrategy, WatchOnlyStrategy } from '@/strategies/WalletStrategy';
+import { WatchedAccount } from '@/services/interfaces/IWatchOnlyService';
 import { walletConnectionToast } from '@/utils/toast';
 import { NetworkSwitcher } from '@/components/status/NetworkSwitcher';
+import { WatchOnlyNotice } from './WatchOnlyNotice';
+import { AccountSwitcher } from './AccountSwitcher';
+import { AccountIdentity } from './AccountIdentity';
+import { AddressInput } from './AddressInput';
+import { WalletConnection } from '@/types/wallet';
+import { AddressResolution, EnsIdentity } from '@/services/interfaces/IIdentityService';
+import { MobileEnvironmentState } from '@/hooks/useMobileEnvironment';
 
 export interface WalletConnectionUIProps {
   isConnected: boolean;
@@ -15,6 +23,20 @@ export interface WalletConnectionUIProps {
   onConnect: (walletType: string) => Promise<void>;
   onDisconnect: () => Promise<void>;
   onRetry: () => Promise<void>;
+  isWatchOnly?: boolean;
+  watchedAccount?: WatchedAccount | null;
+  onWatch?: (addressOrName: string) => Promise<boolean>;
+  connections?: WalletConnection[];
+  activeConnectionId?: string | null;
+  onSwitchAccount?: (connectionId: string) => Promise<void>;
+  onDisconnectConnection?: (connectionId: string) => Promise<void>;
+  onAddConnection?: (walletType: string) => Promise<void>;
+  // ENS identities keyed by lowercased address
+  identities?: Record<string, EnsIdentity>;
+  resolveAddress?: (value: string) => Promise<AddressResolution>;
+  mobile?: MobileEnvironmentState;
+  // Wallets that can reopen this page in their in-app browser
+  deepLinkWallets?: WalletStrategy[];
 }
 
 export const WalletConnectionUI: React.FC<WalletConnectionUIProps> = ({
@@ -27,9 +49,22 @@ export const WalletConnectionUI: React.FC<WalletConnectionUIProps> = ({
   lastConnectedWallet,
   onConnect,
   onDisconnect,
-  onRetry
+  onRetry,
+  isWatchOnly = false,
+  watchedAccount = null,
+  onWatch,
+  connections = [],
+  activeConnectionId = null,
+  onSwitchAccount,
+  onDisconnectConnection,
+  onAddConnection,
+  identities = {},
+  resolveAddress,
+  mobile,
+  deepLinkWallets = []
 }) => {
   const [retryCount, setRetryCount] = useState<Record<string, number>>({});
+  const [watchInput, setWatchInput] = useState('');
   const [isRetrying, setIsRetrying] = useState(false);
   const [retryingWallet, setRetryingWallet] = useState<string | null>(null);
   const MAX_RETRIES = 3;
@@ -47,7 +82,9 @@ export const WalletConnectionUI: React.FC<WalletConnectionUIProps> = ({
       'metaMask': 'Please install MetaMask extension or check if it\'s unlocked',
       'tokenPocket': 'Please install TokenPocket or check if it\'s unlocked',
       'bitgetWallet': 'Please install Bitget Wallet or check if it\'s unlocked',
+      'coinbaseWallet': 'Coinbase Wallet connection failed. Please allow pop-ups or unlock the extension',
       'particleNetwork': 'Particle Network connection failed. Please try again.',
+      'simulatedWallet': 'Simulated wallet request failed. Check the mockWallet settings.',
       'walletConnect': 'WalletConnect connection failed. Please try again.'
     };
     
@@ -123,12 +160,87 @@ export const WalletConnectionUI: React.FC<WalletConnectionUIProps> = ({
     }
   };
 
+  const handleWatch = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!onWatch || !watchInput.trim()) return;
+
+    if (await onWatch(watchInput)) {
+      setWatchInput('');
+    }
+  };
+
+  const identity = address ? identities[address.toLowerCase()] ?? null : null;
+
+  if (isConnected && isWatchOnly) {
+    // The name the user typed stands in until the reverse lookup finishes
+    const watchedIdentity = identity?.name || !watchedAccount?.ensName || !address
+      ? identity
+      : { address, name: watchedAccount.ensName, avatar: identity?.avatar ?? null };
+
+    return (
+      <div className="flex flex-col gap-4">
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span className="flex items-center gap-1 min-w-0">
+            Watching:
+            {address && <AccountIdentity address={address} identity={watchedIdentity} />}
+          </span>
+          <span className="text-xs font-medium text-amber-800 bg-amber-100 px-2 py-0.5 rounded">
+            Watch-only
+          </span>
+        </div>
+
+        <WatchOnlyNotice />
+
+        {/* Picks the network the watched address is read from */}
+        <div className="space-y-2">
+          <div className="text-xs font-medium text-gray-500">Network</div>
+          <NetworkSwitcher />
+        </div>
+
+        <Button
+          onClick={onDisconnect}
+          variant="outline"
+          size="sm"
+        >
+          Stop watching
+        </Button>
+      </div>
+    );
+  }
+
+  // Watching an address is offered as a form rather than a connect button
+  const watchStrategy = availableWallets.find(wallet => wallet instanceof WatchOnlyStrategy);
+  const wallets = availableWallets.filter(wallet => !(wallet instanceof WatchOnlyStrategy));
+
+  // A phone browser has no extensions, so wallet apps are opened through deep links instead.
+  // Inside a wallet's own browser its provider is injected and the usual connect buttons apply.
+  const showDeepLinks = !!mobile?.isMobile && !mobile.inAppWallet && !!mobile.dappUrl;
+  const deepLinks = showDeepLinks
+    ? deepLinkWallets
+        .filter(wallet => wallet.getDeepLink && !wallets.some(installed => installed.id === wallet.id))
+        .map(wallet => ({ wallet, href: wallet.getDeepLink?.(mobile.dappUrl) ?? '' }))
+    : [];
+
   if (isConnected) {
     return (
       <div className="flex flex-col gap-4">
-        <div className="text-sm text-gray-600">
-          Connected: {address?.slice(0, 6)}...{address?.slice(-4)}
+        <div className="flex items-center gap-1 text-sm text-gray-600">
+          Connected:
+          {address && <AccountIdentity address={address} identity={identity} />}
         </div>
+
+        {connections.length > 0 && onSwitchAccount && onDisconnectConnection && onAddConnection && (
+          <AccountSwitcher
+            connections={connections}
+            activeConnectionId={activeConnectionId}
+            availableWallets={wallets}
+            isConnecting={isConnecting}
+            onSwitch={onSwitchAccount}
+            onDisconnect={onDisconnectConnection}
+            onAdd={onAddConnection}
+            identities={identities}
+          />
+        )}
         
         {/* Network Switcher */}
         <div className="space-y-2">
@@ -142,7 +254,7 @@ export const WalletConnectionUI: React.FC<WalletConnectionUIProps> = ({
           size="sm"
           disabled={isConnecting}
         >
-          Disconnect
+          {connections.length > 1 ? 'Disconnect all' : 'Disconnect'}
         </Button>
       </div>
     );
@@ -178,10 +290,11 @@ export const WalletConnectionUI: React.FC<WalletConnectionUIProps> = ({
         </div>
       )}
 
-      {availableWallets.map((wallet) => {
+      {wallets.map((wallet) => {
         const walletRetryCount = retryCount[wallet.id] || 0;
         const isMaxRetriesReached = walletRetryCount >= MAX_RETRIES;
         const isThisWalletRetrying = retryingWallet === wallet.id;
+        const isGenericInjected = wallet instanceof InjectedWalletStrategy;
         
         return (
           <div key={wallet.id} className="space-y-2">
@@ -192,8 +305,17 @@ export const WalletConnectionUI: React.FC<WalletConnectionUIProps> = ({
               variant={isMaxRetriesReached ? "destructive" : "default"}
               aria-label={`Connect to ${wallet.name} wallet`}
             >
+              {wallet.icon && (
+                <img src={wallet.icon} alt="" className="w-5 h-5 mr-2" />
+              )}
               {isConnecting || isThisWalletRetrying ? 'Connecting...' : `Connect ${wallet.name}`}
             </Button>
+
+            {isGenericInjected && (
+              <div className="text-xs text-gray-500 text-center">
+                Detected browser wallet
+              </div>
+            )}
             
             {walletRetryCount > 0 && (
               <div className="text-xs text-gray-500 text-center">
@@ -218,11 +340,50 @@ export const WalletConnectionUI: React.FC<WalletConnectionUIProps> = ({
         </div>
       )}
 
-      {availableWallets.length === 0 && (
+      {deepLinks.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-xs font-medium text-gray-500">
+            Open this page in a wallet app
+          </div>
+          {deepLinks.map(({ wallet, href }) => (
+            <a
+              key={wallet.id}
+              href={href}
+              className="flex w-full items-center justify-center rounded-md border border-gray-300 px-4 py-2 text-sm font-medium hover:bg-gray-50"
+            >
+              {wallet.icon && (
+                <img src={wallet.icon} alt="" className="w-5 h-5 mr-2" />
+              )}
+              Open in {wallet.name}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {wallets.length === 0 && deepLinks.length === 0 && (
         <div className="text-sm text-gray-500 text-center p-3 bg-gray-50 rounded border border-gray-200">
           No wallets available. Please install a supported wallet.
         </div>
       )}
+
+      {watchStrategy && onWatch && (
+        <form onSubmit={handleWatch} className="mt-2 pt-3 border-t border-gray-200 space-y-2">
+          <label htmlFor="watch-address" className="block text-xs font-medium text-gray-500">
+            Or watch an address without a wallet
+          </label>
+          <div className="flex gap-2">
+            <AddressInput
+              id="watch-address"
+              value={watchInput}
+              onChange={setWatchInput}
+              resolveAddress={resolveAddress}
+            />
+            <Button type="submit" variant="outline" size="sm" className="self-start" disabled={isConnecting || !watchInput.trim()}>
+              Watch
+            </Button>
+          </div>
+        </form>
+      )}
     </div>
   );
 };
@@ -0,0 +1,22 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+
+export interface WatchOnlyNoticeProps {
+  className?: string;
+}
+
+const SIGNING_ACTIONS = ['Sign message', 'Sign typed data', 'Send transaction'];
+
+// Shows the signing actions as switched off while an address is only being watched
+export const WatchOnlyNotice: React.FC<WatchOnlyNoticeProps> = ({ className = '' }) => (
+  <div role="note" className={`text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded p-2 ${className}`}>
+    <div className="font-medium mb-2">Read-only: signing is disabled for watched addresses</div>
+    <div className="flex flex-wrap gap-2">
+      {SIGNING_ACTIONS.map(action => (
+        <Button key={action} variant="outline" size="sm" disabled title="Connect a wallet to sign">
+          {action}
+        </Button>
+      ))}
+    </div>
+  </div>
+);
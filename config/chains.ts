@@ -0,0 +1,111 @@
+import chainList from './chains.json';
+import { ChainDefinition, NetworkMode } from '@/types/chain';
+
+const isHttpUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+const isWebSocketUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'wss:' || protocol === 'ws:';
+  } catch {
+    return false;
+  }
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isGasLevels = (value: any): boolean => {
+  return !!value && ['fast', 'standard', 'slow'].every(level => typeof value[level] === 'number' && value[level] > 0);
+};
+
+// Returns a list of problems; an empty list means the definition is usable
+export const validateChainDefinition = (chain: any): string[] => {
+  const errors: string[] = [];
+  const label = chain?.name || chain?.id || 'unknown chain';
+
+  if (!chain || typeof chain !== 'object') {
+    return ['Chain definition must be an object'];
+  }
+  if (!Number.isInteger(chain.id) || chain.id <= 0) errors.push(`${label}: id must be a positive integer`);
+  if (!isNonEmptyString(chain.key)) errors.push(`${label}: key is required`);
+  if (!isNonEmptyString(chain.name)) errors.push(`${label}: name is required`);
+  if (!isNonEmptyString(chain.network)) errors.push(`${label}: network is required`);
+
+  const currency = chain.nativeCurrency;
+  if (!currency || !isNonEmptyString(currency.name) || !isNonEmptyString(currency.symbol) || !Number.isInteger(currency.decimals)) {
+    errors.push(`${label}: nativeCurrency needs name, symbol and integer decimals`);
+  }
+
+  if (!Array.isArray(chain.rpcUrls) || chain.rpcUrls.length === 0 || !chain.rpcUrls.every(isHttpUrl)) {
+    errors.push(`${label}: rpcUrls must be a non-empty list of http(s) URLs`);
+  }
+
+  if (chain.wsUrls !== undefined && (!Array.isArray(chain.wsUrls) || !chain.wsUrls.every(isWebSocketUrl))) {
+    errors.push(`${label}: wsUrls must be a list of ws(s) URLs`);
+  }
+
+  if (!Array.isArray(chain.blockExplorers) || !chain.blockExplorers.every((explorer: any) => isNonEmptyString(explorer?.name) && isHttpUrl(explorer?.url))) {
+    errors.push(`${label}: blockExplorers must be a list of { name, url }`);
+  }
+
+  if (typeof chain.testnet !== 'boolean') errors.push(`${label}: testnet must be a boolean`);
+  if (!chain.icons || !isNonEmptyString(chain.icons.emoji) || (chain.icons.url !== undefined && !isHttpUrl(chain.icons.url))) {
+    errors.push(`${label}: icons needs an emoji and an optional http(s) url`);
+  }
+
+  if (!chain.gas || !isGasLevels(chain.gas.fallback)) {
+    errors.push(`${label}: gas.fallback needs positive fast, standard and slow values`);
+  } else if (chain.gas.oracle && (!['polygon-gas-station', 'etherscan'].includes(chain.gas.oracle.provider) || !isHttpUrl(chain.gas.oracle.url))) {
+    errors.push(`${label}: gas.oracle needs a known provider and an http(s) url`);
+  }
+
+  const multicall3 = chain.contracts?.multicall3;
+  if (multicall3 && !/^0x[a-fA-F0-9]{40}$/.test(multicall3.address)) {
+    errors.push(`${label}: contracts.multicall3.address must be an address`);
+  }
+
+  return errors;
+};
+
+export const loadChainDefinitions = (raw: unknown): ChainDefinition[] => {
+  const chains = (raw as { chains?: unknown })?.chains;
+  if (!Array.isArray(chains)) {
+    throw new Error('Chain list must contain a "chains" array');
+  }
+
+  const errors = chains.reduce<string[]>((all, chain) => all.concat(validateChainDefinition(chain)), []);
+  const ids = chains.map(chain => chain?.id);
+  const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    errors.push(`Duplicate chain ids: ${duplicates.join(', ')}`);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid chain list:\n${errors.join('\n')}`);
+  }
+
+  return chains as ChainDefinition[];
+};
+
+export const CHAIN_DEFINITIONS: ChainDefinition[] = loadChainDefinitions(chainList);
+
+export const getChainDefinition = (id: number): ChainDefinition | undefined => {
+  return CHAIN_DEFINITIONS.find(chain => chain.id === id);
+};
+
+export const getChainDefinitionByName = (name: string): ChainDefinition | undefined => {
+  return CHAIN_DEFINITIONS.find(chain => chain.name === name);
+};
+
+export const getChainDefinitionsForMode = (mode: NetworkMode): ChainDefinition[] => {
+  return CHAIN_DEFINITIONS.filter(chain => chain.testnet === (mode === 'testnet'));
+};
@@ -1,31 +1,15 @@
+import { CHAIN_DEFINITIONS } from './chains';
+
 // Application Constants
 export const APP_CONFIG = {
-  // Network Configuration
-  NETWORKS: {
-    ETHEREUM: {
-      id: 1,
-      name: 'Ethereum',
-      rpcUrl: process.env.NEXT_PUBLIC_ETHEREUM_RPC_URL || 'https://mainnet.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161'
-    },
-    POLYGON: {
-      id: 137,
-      name: 'Polygon',
-      rpcUrl: process.env.NEXT_PUBLIC_POLYGON_RPC_URL || 'https://polygon-rpc.com'
-    },
-    LINEA: {
-      id: 59144,
-      name: 'Linea',
-      rpcUrl: process.env.NEXT_PUBLIC_LINEA_RPC_URL || 'https://rpc.linea.build'
-    },
-    BSC: {
-      id: 56,
-      name: 'BSC',
-      rpcUrl: process.env.NEXT_PUBLIC_BSC_RPC_URL || 'https://bsc-dataseed1.binance.org'
-    }
-  },
+  // Network Configuration, derived from config/chains.json
+  NETWORKS: CHAIN_DEFINITIONS.reduce<Record<string, { id: number; name: string; rpcUrl: string }>>((networks, chain) => {
+    networks[chain.key] = { id: chain.id, name: chain.name, rpcUrl: chain.rpcUrls[0] };
+    return networks;
+  }, {}),
   
   // Default Network IDs (for backward compatibility)
-  DEFAULT_NETWORK_IDS: [1, 137, 59144, 56] as number[],
+  DEFAULT_NETWORK_IDS: CHAIN_DEFINITIONS.map(chain => chain.id),
   
   // Timeout Configuration
   TIMEOUTS: {
@@ -43,6 +27,13 @@ export const APP_CONFIG = {
     MAX_CONNECTION_AGE: 24 * 60 * 60 * 1000, // 24 hours
     TOAST_DURATION: 4000, // 4 seconds
     RECONNECT_DELAY: 1000, // 1 second
+    TRANSACTION_POLL_INTERVAL: 4000, // 4 seconds
+    TRANSACTION_DROP_TIMEOUT: 10 * 60 * 1000, // 10 minutes
+    RPC_REQUEST: 5000, // 5 seconds
+    BALANCE_CACHE_TTL: 30000, // 30 seconds
+    ENS_CACHE_TTL: 60 * 60 * 1000, // 1 hour
+    ENS_MISS_CACHE_TTL: 5 * 60 * 1000, // 5 minutes for names and addresses without a record
+    WALLETCONNECT_EXPIRY_WARNING: 24 * 60 * 60 * 1000, // 24 hours
   },
   
   // UI Configuration
@@ -67,7 +58,16 @@ export const APP_CONFIG = {
     LAST_CONNECTED_WALLET: 'lastConnectedWallet',
     CONNECTION_STATE: 'walletConnectionState',
     USER_PREFERENCES: 'userWalletPreferences',
-    CONNECTION_START_TIME: 'connectionStartTime'
+    CONNECTION_START_TIME: 'connectionStartTime',
+    PENDING_TRANSACTIONS: 'pendingTransactions',
+    WALLETCONNECT_SESSIONS: 'walletConnectSessions',
+    WATCH_ONLY_ACCOUNT: 'watchOnlyAccount',
+    // Each connection is saved under its own key: walletConnection:<connector id>
+    WALLET_CONNECTION_PREFIX: 'walletConnection:',
+    ACTIVE_WALLET_CONNECTION: 'activeWalletConnection',
+    // ensCache:name:<name> and ensCache:address:<address>
+    ENS_CACHE_PREFIX: 'ensCache:',
+    CUSTOM_NETWORKS: 'customNetworks'
   },
   
   // Error Codes
@@ -82,13 +82,74 @@ export const APP_CONFIG = {
     MAX_ERROR_COUNT: 3,
     AUTO_RECONNECT: true,
     HEALTH_THRESHOLD: 80, // percentage
-    MAX_RECONNECT_ATTEMPTS: 3
+    MAX_RECONNECT_ATTEMPTS: 3,
+    RPC_SAMPLE_SIZE: 20, // requests remembered per RPC endpoint
+    RPC_MAX_CONSECUTIVE_FAILURES: 3,
+    RPC_ENDPOINT_COOLDOWN: 30000, // 30 seconds
+    RPC_MAX_RETRY_AFTER: 5 * 60 * 1000, // longest Retry-After honoured, 5 minutes
+    MAX_BLOCK_AGE: 120000, // 2 minutes; an older latest block means the node has fallen behind
+    BLOCK_STALL_TIMEOUT: 60000 // 60 seconds without a new block between probes
+  },
+
+  // Fee Suggestion Configuration
+  FEES: {
+    HISTORY_BLOCKS: 5, // blocks sampled by eth_feeHistory
+    REWARD_PERCENTILES: { slow: 10, standard: 50, fast: 90 },
+    BASE_FEE_HEADROOM: { slow: 110, standard: 125, fast: 200 }, // percent of the next base fee
+    GAS_PRICE_MARKUP: { slow: 100, standard: 110, fast: 125 } // percent of eth_gasPrice on legacy chains
+  },
+
+  // Sign-In with Ethereum Configuration
+  AUTH: {
+    SESSION_COOKIE: 'siwe_session',
+    NONCE_COOKIE: 'siwe_nonce', // binds a nonce to the browser that asked for it
+    NONCE_TTL: 5 * 60 * 1000, // 5 minutes
+    SESSION_TTL: 24 * 60 * 60 * 1000, // 24 hours
+    RATE_LIMIT: 20, // auth requests per client address per window; a sign-in takes three
+    RATE_LIMIT_WINDOW: 60000, // 1 minute
+    STATEMENT: 'Sign in to the Web3 wallet demo.'
+  },
+
+  // Server-side JSON-RPC proxy; upstream URLs come from <chain key>_RPC_URL on the server
+  RPC_PROXY: {
+    PATH: '/api/rpc',
+    ENV_SUFFIX: '_RPC_URL',
+    MAX_BATCH_SIZE: 20,
+    MAX_LOG_BLOCK_RANGE: 1000, // blocks an eth_getLogs fromBlock..toBlock range may span
+    RATE_LIMIT: 600, // JSON-RPC requests per client per window; each batch entry counts
+    RATE_LIMIT_WINDOW: 60000 // 1 minute
+  },
+
+  // Shared JSON-RPC client used by the network strategies and services
+  RPC_CLIENT: {
+    MAX_BATCH_SIZE: 20, // calls per JSON-RPC batch; the RPC proxy refuses larger ones
+    CACHE_SIZE: 500 // immutable results kept (chain ids, contract code, blocks by hash)
+  },
+
+  // eth_subscribe over the chain's wsUrls, with HTTP polling while no socket is open
+  SUBSCRIPTIONS: {
+    RECONNECT_DELAY: 1000, // first reconnect; doubles on each failed attempt
+    MAX_RECONNECT_DELAY: 30000, // 30 seconds
+    POLL_INTERVAL: 5000, // 5 seconds
+    STALL_TIMEOUT: 60000 // 60 seconds without a new head before falling back to polling
+  },
+
+  // WalletConnect v2 Configuration
+  WALLETCONNECT: {
+    METHODS: ['eth_sendTransaction', 'personal_sign', 'eth_signTypedData_v4'],
+    EVENTS: ['chainChanged', 'accountsChanged'],
+    METADATA: {
+      name: 'Blockchain Wallet Connection Demo',
+      description: 'Enhanced blockchain wallet connection demo',
+      url: 'https://localhost:3000',
+      icons: ['https://localhost:3000/favicon.ico']
+    }
   }
 } as const;
 
 // Type definitions for better type safety
-export type NetworkId = typeof APP_CONFIG.NETWORKS[keyof typeof APP_CONFIG.NETWORKS]['id'];
-export type NetworkName = typeof APP_CONFIG.NETWORKS[keyof typeof APP_CONFIG.NETWORKS]['name'];
+export type NetworkId = number;
+export type NetworkName = string;
 
 // Helper functions
 export const getNetworkById = (id: number) => {
@@ -8,14 +8,21 @@ interface EnvironmentConfig {
   // WalletConnect configuration
   NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID: string;
   
-  // RPC URLs
-  NEXT_PUBLIC_POLYGON_RPC_URL: string;
-  NEXT_PUBLIC_LINEA_RPC_URL: string;
-  NEXT_PUBLIC_BSC_RPC_URL: string;
+  // Particle Network configuration (all three are needed to offer Particle)
+  NEXT_PUBLIC_PARTICLE_PROJECT_ID: string;
+  NEXT_PUBLIC_PARTICLE_CLIENT_KEY: string;
+  NEXT_PUBLIC_PARTICLE_APP_ID: string;
+  
+  // Session signing secret (server only); read it through getSessionSecret()
+  SESSION_SECRET: string;
+  
+  // Set when a reverse proxy appends the client address to X-Forwarded-For (server only)
+  TRUST_PROXY: boolean;
   
   // Feature flags
   ENABLE_HEALTH_CHECKS: boolean;
   ENABLE_LOGGING: boolean;
+  ENABLE_TESTNETS: boolean;
 }
 
 // Environment validation
@@ -28,14 +35,19 @@ const validateEnvironment = (): EnvironmentConfig => {
     // WalletConnect - required for production
     NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID: process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'demo-project-id',
     
-    // RPC URLs with fallbacks
-    NEXT_PUBLIC_POLYGON_RPC_URL: process.env.NEXT_PUBLIC_POLYGON_RPC_URL || 'https://polygon-rpc.com',
-    NEXT_PUBLIC_LINEA_RPC_URL: process.env.NEXT_PUBLIC_LINEA_RPC_URL || 'https://rpc.linea.build',
-    NEXT_PUBLIC_BSC_RPC_URL: process.env.NEXT_PUBLIC_BSC_RPC_URL || 'https://bsc-dataseed1.binance.org',
+    // Particle Network - optional, the wallet is hidden until it is configured
+    NEXT_PUBLIC_PARTICLE_PROJECT_ID: process.env.NEXT_PUBLIC_PARTICLE_PROJECT_ID || '',
+    NEXT_PUBLIC_PARTICLE_CLIENT_KEY: process.env.NEXT_PUBLIC_PARTICLE_CLIENT_KEY || '',
+    NEXT_PUBLIC_PARTICLE_APP_ID: process.env.NEXT_PUBLIC_PARTICLE_APP_ID || '',
+    
+    SESSION_SECRET: process.env.SESSION_SECRET || '',
+    TRUST_PROXY: process.env.TRUST_PROXY === 'true',
     
     // Feature flags
     ENABLE_HEALTH_CHECKS: process.env.ENABLE_HEALTH_CHECKS !== 'false',
     ENABLE_LOGGING: process.env.ENABLE_LOGGING !== 'false',
+    // Testnet mode is always available outside production; production builds need this flag
+    ENABLE_TESTNETS: process.env.NEXT_PUBLIC_ENABLE_TESTNETS === 'true',
   };
 
   // Validation
@@ -43,19 +55,6 @@ const validateEnvironment = (): EnvironmentConfig => {
     if (config.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID === 'demo-project-id') {
       console.warn('⚠️  Using demo WalletConnect project ID in production. Please set NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID.');
     }
-    
-    // Only warn about RPC URLs if they're not set and we're using fallbacks
-    if (!process.env.NEXT_PUBLIC_POLYGON_RPC_URL && config.NEXT_PUBLIC_POLYGON_RPC_URL === 'https://polygon-rpc.com') {
-      console.warn('⚠️  Using fallback Polygon RPC URL in production. Please set NEXT_PUBLIC_POLYGON_RPC_URL.');
-    }
-    
-    if (!process.env.NEXT_PUBLIC_LINEA_RPC_URL && config.NEXT_PUBLIC_LINEA_RPC_URL === 'https://rpc.linea.build') {
-      console.warn('⚠️  Using fallback Linea RPC URL in production. Please set NEXT_PUBLIC_LINEA_RPC_URL.');
-    }
-    
-    if (!process.env.NEXT_PUBLIC_BSC_RPC_URL && config.NEXT_PUBLIC_BSC_RPC_URL === 'https://bsc-dataseed1.binance.org') {
-      console.warn('⚠️  Using fallback BSC RPC URL in production. Please set NEXT_PUBLIC_BSC_RPC_URL.');
-    }
   }
 
   return config;
@@ -68,5 +67,28 @@ export const env = validateEnvironment();
 export const isProduction = (): boolean => env.NODE_ENV === 'production';
 export const isDevelopment = (): boolean => env.NODE_ENV === 'development';
 export const isTest = (): boolean => env.NODE_ENV === 'test';
+export const areTestnetsAllowed = (): boolean => !isProduction() || env.ENABLE_TESTNETS;
+
+// Sessions signed with a well-known secret could be forged, so production refuses to run without one
+const DEVELOPMENT_SESSION_SECRET = 'development-session-secret';
 
+export const getSessionSecret = (): string => {
+  if (env.SESSION_SECRET) return env.SESSION_SECRET;
+  if (isDevelopment() || isTest()) return DEVELOPMENT_SESSION_SECRET;
+  throw new Error('SESSION_SECRET must be set in production');
+};
 
+export const getParticleConfig = (): { projectId: string; clientKey: string; appId: string } | null => {
+  const projectId = env.NEXT_PUBLIC_PARTICLE_PROJECT_ID;
+  const clientKey = env.NEXT_PUBLIC_PARTICLE_CLIENT_KEY;
+  const appId = env.NEXT_PUBLIC_PARTICLE_APP_ID;
+  return projectId && clientKey && appId ? { projectId, clientKey, appId } : null;
+};
+
+// Placeholder IDs shipped in examples never reach the WalletConnect relay
+const PLACEHOLDER_WALLETCONNECT_PROJECT_IDS = ['demo-project-id', 'your-actual-project-id-here', '8c4f79cc821944d9680842e34466bfbd9'];
+
+export const getWalletConnectProjectId = (): string | null => {
+  const projectId = env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID;
+  return projectId && !PLACEHOLDER_WALLETCONNECT_PROJECT_IDS.includes(projectId) ? projectId : null;
+};
@@ -0,0 +1,218 @@
+import { ErrorCategory, ErrorCode, ErrorSeverity, RecoveryAction } from '@/types/errors';
+
+export type ErrorSource = 'eip1193' | 'json-rpc' | 'wallet' | 'walletconnect' | 'eip5792' | 'app';
+
+export type ErrorMessageKey =
+  | 'userRejected'
+  | 'unauthorized'
+  | 'unsupportedMethod'
+  | 'disconnected'
+  | 'unrecognizedChain'
+  | 'requestPending'
+  | 'walletLocked'
+  | 'methodNotFound'
+  | 'invalidRequest'
+  | 'internalError'
+  | 'invalidInput'
+  | 'resourceNotFound'
+  | 'rateLimited'
+  | 'sessionRejected'
+  | 'sessionScopeRejected'
+  | 'sessionScopeUnsupported'
+  | 'sessionDisconnected'
+  | 'sessionExpired'
+  | 'callsUnsupported'
+  | 'callsInvalid'
+  | 'callsUpgradeRejected'
+  | 'walletNotInstalled'
+  | 'walletUnsupported'
+  | 'connectionFailed'
+  | 'networkUnsupported'
+  | 'networkSwitchFailed'
+  | 'networkValidationFailed'
+  | 'storageFull'
+  | 'storageDenied'
+  | 'signatureUnsupported'
+  | 'signatureFailed'
+  | 'transactionUnsupported'
+  | 'transactionFailed'
+  | 'transactionReverted'
+  | 'validationFailed'
+  | 'unexpected';
+
+export interface ErrorCatalogueEntry {
+  source: ErrorSource;
+  category: ErrorCategory;
+  severity: ErrorSeverity;
+  // Whether asking again can succeed without the user changing anything
+  retryable: boolean;
+  recovery: RecoveryAction;
+  messageKey: ErrorMessageKey;
+}
+
+// {wallet} is replaced with the wallet's display name
+export const ERROR_MESSAGES: Record<ErrorMessageKey, string> = {
+  userRejected: 'Connection was rejected in {wallet}.',
+  unauthorized: '{wallet} has not authorized this site. Please connect again.',
+  unsupportedMethod: '{wallet} does not support this request.',
+  disconnected: '{wallet} is disconnected. Please reconnect.',
+  unrecognizedChain: 'This network is not available in {wallet}.',
+  requestPending: '{wallet} is already processing a request. Please wait.',
+  walletLocked: '{wallet} is locked. Please unlock your wallet.',
+  methodNotFound: '{wallet} does not support this request. Please update {wallet}.',
+  invalidRequest: '{wallet} could not process the request.',
+  internalError: 'Network error occurred. Please check your connection and try again.',
+  invalidInput: 'The request was refused by the network. Please check the details and try again.',
+  resourceNotFound: 'The requested data is not available on this network yet.',
+  rateLimited: 'Too many requests to the network. Please wait a moment and try again.',
+  sessionRejected: 'Connection was rejected by the user.',
+  sessionScopeRejected: 'The wallet did not approve the requested networks or methods.',
+  sessionScopeUnsupported: 'The wallet does not support the requested networks or methods.',
+  sessionDisconnected: 'The {wallet} session was disconnected.',
+  sessionExpired: 'Session expired. Please try connecting again.',
+  callsUnsupported: '{wallet} cannot run these calls as one batch.',
+  callsInvalid: '{wallet} could not accept this batch of calls.',
+  callsUpgradeRejected: 'The account upgrade needed for batched calls was rejected in {wallet}.',
+  walletNotInstalled: '{wallet} is not installed.',
+  walletUnsupported: 'This wallet is not supported.',
+  connectionFailed: '{wallet} connection failed. Please try again.',
+  networkUnsupported: 'This network is not supported.',
+  networkSwitchFailed: 'Switching networks failed. Please try again.',
+  networkValidationFailed: 'The network could not be verified. Please try again.',
+  storageFull: 'Browser storage is full. Please clear some site data.',
+  storageDenied: 'Storage error occurred. Please check your browser settings.',
+  signatureUnsupported: '{wallet} does not support this signing method.',
+  signatureFailed: 'Signing failed. Please try again.',
+  transactionUnsupported: '{wallet} cannot send this transaction.',
+  transactionFailed: 'Transaction could not be sent. Please try again.',
+  transactionReverted: 'The transaction was reverted.',
+  validationFailed: 'Please check the details you entered and try again.',
+  unexpected: 'An unexpected error occurred. Please try again.'
+};
+
+const rejected = (source: ErrorSource, messageKey: ErrorMessageKey = 'userRejected'): ErrorCatalogueEntry => ({
+  source,
+  category: 'wallet',
+  severity: 'low',
+  retryable: false,
+  recovery: 'none',
+  messageKey
+});
+
+const unsupported = (source: ErrorSource, category: ErrorCategory, messageKey: ErrorMessageKey): ErrorCatalogueEntry => ({
+  source,
+  category,
+  severity: 'medium',
+  retryable: false,
+  recovery: 'none',
+  messageKey
+});
+
+// Every ErrorCode, keyed by its value. Codes shared by several names (-32601) have one entry.
+export const ERROR_CATALOGUE: Record<string, ErrorCatalogueEntry> = {
+  [ErrorCode.PROVIDER_USER_REJECTED]: rejected('eip1193'),
+  [ErrorCode.PROVIDER_UNAUTHORIZED]: { source: 'eip1193', category: 'connection', severity: 'medium', retryable: true, recovery: 'reconnect', messageKey: 'unauthorized' },
+  [ErrorCode.PROVIDER_UNSUPPORTED_METHOD]: unsupported('eip1193', 'wallet', 'unsupportedMethod'),
+  [ErrorCode.PROVIDER_DISCONNECTED]: { source: 'eip1193', category: 'connection', severity: 'high', retryable: true, recovery: 'reconnect', messageKey: 'disconnected' },
+  [ErrorCode.PROVIDER_CHAIN_DISCONNECTED]: { source: 'eip1193', category: 'network', severity: 'medium', retryable: true, recovery: 'switch_network', messageKey: 'unrecognizedChain' },
+  [ErrorCode.PROVIDER_UNRECOGNIZED_CHAIN]: { source: 'eip1193', category: 'network', severity: 'medium', retryable: false, recovery: 'switch_network', messageKey: 'unrecognizedChain' },
+
+  [ErrorCode.METAMASK_PENDING_REQUEST]: { source: 'wallet', category: 'wallet', severity: 'low', retryable: true, recovery: 'retry', messageKey: 'requestPending' },
+  [ErrorCode.METAMASK_LOCKED]: { source: 'wallet', category: 'connection', severity: 'medium', retryable: true, recovery: 'reconnect', messageKey: 'walletLocked' },
+  [ErrorCode.PARTICLE_USER_CANCELLED]: rejected('wallet'),
+  [ErrorCode.PARTICLE_UNSUPPORTED_CHAIN]: { source: 'wallet', category: 'network', severity: 'medium', retryable: false, recovery: 'switch_network', messageKey: 'unrecognizedChain' },
+
+  [ErrorCode.RPC_PARSE_ERROR]: { source: 'json-rpc', category: 'wallet', severity: 'critical', retryable: false, recovery: 'reconnect', messageKey: 'invalidRequest' },
+  [ErrorCode.RPC_INVALID_REQUEST]: { source: 'json-rpc', category: 'wallet', severity: 'critical', retryable: false, recovery: 'none', messageKey: 'invalidRequest' },
+  [ErrorCode.RPC_METHOD_NOT_FOUND]: { source: 'json-rpc', category: 'wallet', severity: 'critical', retryable: false, recovery: 'reconnect', messageKey: 'methodNotFound' },
+  [ErrorCode.RPC_INVALID_PARAMS]: { source: 'json-rpc', category: 'validation', severity: 'high', retryable: false, recovery: 'none', messageKey: 'invalidRequest' },
+  [ErrorCode.RPC_INTERNAL_ERROR]: { source: 'json-rpc', category: 'network', severity: 'medium', retryable: true, recovery: 'switch_network', messageKey: 'internalError' },
+  [ErrorCode.RPC_INVALID_INPUT]: { source: 'json-rpc', category: 'transaction', severity: 'low', retryable: false, recovery: 'none', messageKey: 'invalidInput' },
+  [ErrorCode.RPC_RESOURCE_NOT_FOUND]: { source: 'json-rpc', category: 'network', severity: 'low', retryable: true, recovery: 'retry', messageKey: 'resourceNotFound' },
+  [ErrorCode.RPC_METHOD_NOT_SUPPORTED]: unsupported('json-rpc', 'wallet', 'unsupportedMethod'),
+  [ErrorCode.RPC_LIMIT_EXCEEDED]: { source: 'json-rpc', category: 'network', severity: 'medium', retryable: true, recovery: 'retry', messageKey: 'rateLimited' },
+
+  [ErrorCode.WALLETCONNECT_USER_REJECTED]: rejected('walletconnect', 'sessionRejected'),
+  [ErrorCode.WALLETCONNECT_USER_REJECTED_CHAINS]: rejected('walletconnect', 'sessionScopeRejected'),
+  [ErrorCode.WALLETCONNECT_USER_REJECTED_METHODS]: rejected('walletconnect', 'sessionScopeRejected'),
+  [ErrorCode.WALLETCONNECT_USER_REJECTED_EVENTS]: rejected('walletconnect', 'sessionScopeRejected'),
+  [ErrorCode.WALLETCONNECT_UNSUPPORTED_CHAINS]: unsupported('walletconnect', 'connection', 'sessionScopeUnsupported'),
+  [ErrorCode.WALLETCONNECT_UNSUPPORTED_METHODS]: unsupported('walletconnect', 'connection', 'sessionScopeUnsupported'),
+  [ErrorCode.WALLETCONNECT_UNSUPPORTED_EVENTS]: unsupported('walletconnect', 'connection', 'sessionScopeUnsupported'),
+  [ErrorCode.WALLETCONNECT_USER_DISCONNECTED]: { source: 'walletconnect', category: 'connection', severity: 'low', retryable: true, recovery: 'reconnect', messageKey: 'sessionDisconnected' },
+
+  [ErrorCode.CALLS_UNSUPPORTED_CAPABILITY]: unsupported('eip5792', 'transaction', 'callsUnsupported'),
+  [ErrorCode.CALLS_UNSUPPORTED_CHAIN]: unsupported('eip5792', 'transaction', 'callsUnsupported'),
+  [ErrorCode.CALLS_DUPLICATE_ID]: unsupported('eip5792', 'transaction', 'callsInvalid'),
+  [ErrorCode.CALLS_UNKNOWN_BUNDLE]: unsupported('eip5792', 'transaction', 'callsInvalid'),
+  [ErrorCode.CALLS_BUNDLE_TOO_LARGE]: unsupported('eip5792', 'transaction', 'callsInvalid'),
+  [ErrorCode.CALLS_UPGRADE_REJECTED]: rejected('eip5792', 'callsUpgradeRejected'),
+  [ErrorCode.CALLS_ATOMICITY_UNSUPPORTED]: unsupported('eip5792', 'transaction', 'callsUnsupported'),
+
+  // The string USER_REJECTED some SDKs raise means the same as EIP-1193 4001
+  [ErrorCode.WALLET_USER_REJECTED]: rejected('app'),
+  [ErrorCode.WALLET_SESSION_EXPIRED]: { source: 'app', category: 'connection', severity: 'low', retryable: true, recovery: 'reconnect', messageKey: 'sessionExpired' },
+  [ErrorCode.WALLET_NOT_INSTALLED]: unsupported('app', 'wallet', 'walletNotInstalled'),
+
+  [ErrorCode.NETWORK_UNSUPPORTED]: { source: 'app', category: 'network', severity: 'medium', retryable: false, recovery: 'switch_network', messageKey: 'networkUnsupported' },
+  [ErrorCode.NETWORK_SWITCH_FAILED]: { source: 'app', category: 'network', severity: 'medium', retryable: true, recovery: 'switch_network', messageKey: 'networkSwitchFailed' },
+  [ErrorCode.NETWORK_VALIDATION_FAILED]: { source: 'app', category: 'network', severity: 'medium', retryable: true, recovery: 'retry', messageKey: 'networkValidationFailed' },
+
+  [ErrorCode.STORAGE_QUOTA_EXCEEDED]: { source: 'app', category: 'storage', severity: 'high', retryable: false, recovery: 'clear_storage', messageKey: 'storageFull' },
+  [ErrorCode.STORAGE_ACCESS_DENIED]: { source: 'app', category: 'storage', severity: 'high', retryable: false, recovery: 'none', messageKey: 'storageDenied' },
+
+  [ErrorCode.SIGNATURE_UNSUPPORTED]: unsupported('app', 'signature', 'signatureUnsupported'),
+  [ErrorCode.SIGNATURE_FAILED]: { source: 'app', category: 'signature', severity: 'low', retryable: true, recovery: 'retry', messageKey: 'signatureFailed' },
+
+  // Transactions are never re-submitted automatically; the user decides whether to send again
+  [ErrorCode.TRANSACTION_UNSUPPORTED]: unsupported('app', 'transaction', 'transactionUnsupported'),
+  [ErrorCode.TRANSACTION_FAILED]: { source: 'app', category: 'transaction', severity: 'low', retryable: false, recovery: 'none', messageKey: 'transactionFailed' },
+  [ErrorCode.TRANSACTION_REVERTED]: { source: 'app', category: 'transaction', severity: 'low', retryable: false, recovery: 'none', messageKey: 'transactionReverted' },
+
+  [ErrorCode.UNSUPPORTED_WALLET_TYPE]: unsupported('app', 'wallet', 'walletUnsupported'),
+  [ErrorCode.CONNECTION_FAILED]: { source: 'app', category: 'connection', severity: 'medium', retryable: true, recovery: 'reconnect', messageKey: 'connectionFailed' },
+  [ErrorCode.VALIDATION_FAILED]: { source: 'app', category: 'validation', severity: 'low', retryable: false, recovery: 'none', messageKey: 'validationFailed' }
+};
+
+// Delay and attempt budget for each recovery action
+export const RECOVERY_POLICIES: Record<RecoveryAction, { delay?: number; maxAttempts?: number }> = {
+  retry: { delay: 1000, maxAttempts: 2 },
+  reconnect: { delay: 2000, maxAttempts: 3 },
+  switch_network: { delay: 1000, maxAttempts: 2 },
+  clear_storage: { delay: 0, maxAttempts: 1 },
+  none: {}
+};
+
+// Wrapped errors (viem, our own SignatureError and TransactionError) keep the wallet's code on the cause;
+// DOMException storage errors only carry a name
+export const getErrorCode = (error: any): number | string | undefined => {
+  return error?.code ?? error?.cause?.code ?? (typeof error?.name === 'string' && ERROR_CATALOGUE[error.name] ? error.name : undefined);
+};
+
+export const getErrorEntry = (error: any): ErrorCatalogueEntry | undefined => {
+  const code = getErrorCode(error);
+  return code !== undefined ? ERROR_CATALOGUE[String(code)] : undefined;
+};
+
+export const formatErrorMessage = (key: ErrorMessageKey, wallet = 'your wallet'): string => {
+  const message = ERROR_MESSAGES[key].replace(/\{wallet\}/g, wallet);
+  return message.charAt(0).toUpperCase() + message.slice(1);
+};
+
+export interface DescribeErrorOptions {
+  // Wording a strategy uses instead of the catalogue's
+  overrides?: Partial<Record<ErrorMessageKey, string>>;
+  // WalletConnect SDK codes only mean something for WalletConnect sessions
+  includeWalletConnect?: boolean;
+}
+
+// Catalogue message for a wallet; undefined for codes the catalogue does not know
+export const describeWalletError = (
+  error: any,
+  wallet: string,
+  { overrides = {}, includeWalletConnect = false }: DescribeErrorOptions = {}
+): string | undefined => {
+  const entry = getErrorEntry(error);
+  if (!entry || (entry.source === 'walletconnect' && !includeWalletConnect)) return undefined;
+  return overrides[entry.messageKey] ?? formatErrorMessage(entry.messageKey, wallet);
+};
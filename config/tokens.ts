@@ -0,0 +1,68 @@
+import tokenList from './tokens.json';
+import { CHAIN_DEFINITIONS } from './chains';
+import { TokenDefinition } from '@/types/chain';
+
+// Returns a list of problems; an empty list means the token is usable
+export const validateTokenDefinition = (token: any, chainId: number): string[] => {
+  const errors: string[] = [];
+  const label = `${chainId}/${token?.symbol || token?.address || 'unknown token'}`;
+
+  if (!token || typeof token !== 'object') {
+    return [`${label}: token definition must be an object`];
+  }
+  if (typeof token.address !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(token.address)) {
+    errors.push(`${label}: address must be an address`);
+  }
+  if (typeof token.symbol !== 'string' || token.symbol.trim().length === 0) errors.push(`${label}: symbol is required`);
+  if (typeof token.name !== 'string' || token.name.trim().length === 0) errors.push(`${label}: name is required`);
+  if (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 36) {
+    errors.push(`${label}: decimals must be an integer between 0 and 36`);
+  }
+
+  return errors;
+};
+
+export const loadTokenLists = (raw: unknown, knownChainIds: number[] = CHAIN_DEFINITIONS.map(chain => chain.id)): Record<number, TokenDefinition[]> => {
+  const tokens = (raw as { tokens?: unknown })?.tokens;
+  if (!tokens || typeof tokens !== 'object' || Array.isArray(tokens)) {
+    throw new Error('Token list must contain a "tokens" object keyed by chain id');
+  }
+
+  const errors: string[] = [];
+  const lists: Record<number, TokenDefinition[]> = {};
+
+  Object.keys(tokens).forEach(key => {
+    const chainId = Number(key);
+    const list = (tokens as Record<string, unknown>)[key];
+
+    if (!knownChainIds.includes(chainId)) {
+      errors.push(`${key}: chain is not in the chain list`);
+      return;
+    }
+    if (!Array.isArray(list)) {
+      errors.push(`${key}: tokens must be a list`);
+      return;
+    }
+
+    list.forEach(token => errors.push(...validateTokenDefinition(token, chainId)));
+    const addresses = list.map(token => String(token?.address).toLowerCase());
+    const duplicates = addresses.filter((address, index) => addresses.indexOf(address) !== index);
+    if (duplicates.length > 0) {
+      errors.push(`${key}: duplicate token addresses: ${duplicates.join(', ')}`);
+    }
+
+    lists[chainId] = list as TokenDefinition[];
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid token list:\n${errors.join('\n')}`);
+  }
+
+  return lists;
+};
+
+export const TOKEN_LISTS: Record<number, TokenDefinition[]> = loadTokenLists(tokenList);
+
+export const getTokensForChain = (chainId: number): TokenDefinition[] => {
+  return TOKEN_LISTS[chainId] || [];
+};
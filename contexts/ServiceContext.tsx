@@ -3,12 +3,26 @@ import { IWalletService } from '@/services/interfaces/IWalletService';
 import { INetworkService } from '@/services/interfaces/INetworkService';
 import { IStorageService } from '@/services/interfaces/IStorageService';
 import { IErrorHandler } from '@/services/interfaces/IErrorHandler';
+import { ITransactionService } from '@/services/interfaces/ITransactionService';
+import { IBalanceService } from '@/services/interfaces/IBalanceService';
+import { IWalletConnectService } from '@/services/interfaces/IWalletConnectService';
+import { IWatchOnlyService } from '@/services/interfaces/IWatchOnlyService';
+import { IWalletConnectionsService } from '@/services/interfaces/IWalletConnectionsService';
+import { IIdentityService } from '@/services/interfaces/IIdentityService';
+import { ICustomNetworkService } from '@/services/interfaces/ICustomNetworkService';
 
 export interface ServiceContextType {
   walletService: IWalletService;
   networkService: INetworkService;
   storageService: IStorageService;
   errorHandler: IErrorHandler;
+  transactionService: ITransactionService;
+  balanceService: IBalanceService;
+  walletConnectService: IWalletConnectService;
+  watchOnlyService: IWatchOnlyService;
+  walletConnectionsService: IWalletConnectionsService;
+  identityService: IIdentityService;
+  customNetworkService: ICustomNetworkService;
 }
 
 const ServiceContext = createContext<ServiceContextType | null>(null);
@@ -54,3 +68,38 @@ export const useErrorHandler = (): IErrorHandler => {
   const { errorHandler } = useServiceContext();
   return errorHandler;
 };
+
+export const useTransactionService = (): ITransactionService => {
+  const { transactionService } = useServiceContext();
+  return transactionService;
+};
+
+export const useBalanceService = (): IBalanceService => {
+  const { balanceService } = useServiceContext();
+  return balanceService;
+};
+
+export const useWalletConnectService = (): IWalletConnectService => {
+  const { walletConnectService } = useServiceContext();
+  return walletConnectService;
+};
+
+export const useWatchOnlyService = (): IWatchOnlyService => {
+  const { watchOnlyService } = useServiceContext();
+  return watchOnlyService;
+};
+
+export const useWalletConnectionsService = (): IWalletConnectionsService => {
+  const { walletConnectionsService } = useServiceContext();
+  return walletConnectionsService;
+};
+
+export const useIdentityService = (): IIdentityService => {
+  const { identityService } = useServiceContext();
+  return identityService;
+};
+
+export const useCustomNetworkService = (): ICustomNetworkService => {
+  const { customNetworkService } = useServiceContext();
+  return customNetworkService;
+};
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useBlockNumber } from 'wagmi';
+import { useBalanceService } from '@/contexts/ServiceContext';
+import { BalanceSnapshot } from '@/services/interfaces/IBalanceService';
+
+export interface BalanceState {
+  balances: BalanceSnapshot | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface BalanceActions {
+  refresh: () => Promise<void>;
+}
+
+// Reads balances for the connected account, re-reading on new blocks and
+// whenever the account or chain changes
+export const useBalances = (address?: string | null, chainId?: number): BalanceState & BalanceActions => {
+  const balanceService = useBalanceService();
+  const isEnabled = !!address && !!chainId;
+  const { data: blockNumber } = useBlockNumber({ chainId, watch: true, enabled: isEnabled });
+
+  const [state, setState] = useState<BalanceState>({
+    balances: null,
+    isLoading: false,
+    error: null
+  });
+
+  // Drop the previous account's balances straight away so they are never shown for the new one
+  useEffect(() => {
+    setState({
+      balances: address && chainId ? balanceService.getCachedBalances(address, chainId) : null,
+      isLoading: false,
+      error: null
+    });
+  }, [balanceService, address, chainId]);
+
+  useEffect(() => {
+    if (!address || !chainId) return;
+
+    let cancelled = false;
+    const loadBalances = async () => {
+      setState(prev => ({ ...prev, isLoading: !prev.balances }));
+      const result = await balanceService.getBalances(address, chainId, {
+        blockNumber: blockNumber !== undefined ? Number(blockNumber) : undefined
+      });
+      if (cancelled) return;
+
+      setState(prev => ({
+        balances: result.balances ?? prev.balances,
+        isLoading: false,
+        error: result.success ? null : result.error || 'Failed to load balances'
+      }));
+    };
+
+    loadBalances();
+    return () => {
+      cancelled = true;
+    };
+  }, [balanceService, address, chainId, blockNumber]);
+
+  const refresh = useCallback(async () => {
+    if (!address || !chainId) return;
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    const result = await balanceService.getBalances(address, chainId, { force: true });
+    setState(prev => ({
+      balances: result.balances ?? prev.balances,
+      isLoading: false,
+      error: result.success ? null : result.error || 'Failed to load balances'
+    }));
+  }, [balanceService, address, chainId]);
+
+  return {
+    ...state,
+    refresh
+  };
+};
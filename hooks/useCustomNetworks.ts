@@ -0,0 +1,55 @@
+import { useState, useCallback } from 'react';
+import { useCustomNetworkService } from '@/contexts/ServiceContext';
+import { CustomNetworkInput } from '@/services/interfaces/ICustomNetworkService';
+import { ChainDefinition } from '@/types/chain';
+
+export interface CustomNetworksState {
+  customNetworks: ChainDefinition[];
+  // True while the RPC is asked for its chain id
+  isVerifying: boolean;
+  error: string | null;
+}
+
+export interface CustomNetworksActions {
+  addNetwork: (input: CustomNetworkInput) => Promise<boolean>;
+  removeNetwork: (chainId: number) => void;
+  isCustomNetwork: (chainId: number) => boolean;
+}
+
+export const useCustomNetworks = (): CustomNetworksState & CustomNetworksActions => {
+  const customNetworkService = useCustomNetworkService();
+  const [state, setState] = useState<CustomNetworksState>(() => ({
+    customNetworks: customNetworkService.getCustomNetworks(),
+    isVerifying: false,
+    error: null
+  }));
+
+  const addNetwork = useCallback(async (input: CustomNetworkInput) => {
+    setState(prev => ({ ...prev, isVerifying: true, error: null }));
+
+    const result = await customNetworkService.addCustomNetwork(input);
+    setState({
+      customNetworks: customNetworkService.getCustomNetworks(),
+      isVerifying: false,
+      error: result.success ? null : result.error || 'The network could not be added'
+    });
+    return result.success;
+  }, [customNetworkService]);
+
+  const removeNetwork = useCallback((chainId: number) => {
+    customNetworkService.removeCustomNetwork(chainId);
+    setState(prev => ({ ...prev, customNetworks: customNetworkService.getCustomNetworks() }));
+  }, [customNetworkService]);
+
+  const isCustomNetwork = useCallback(
+    (chainId: number) => customNetworkService.isCustomNetwork(chainId),
+    [customNetworkService]
+  );
+
+  return {
+    ...state,
+    addNetwork,
+    removeNetwork,
+    isCustomNetwork
+  };
+};
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { useIdentityService } from '@/contexts/ServiceContext';
+import { EnsIdentity } from '@/services/interfaces/IIdentityService';
+
+// ENS identities keyed by lowercased address. Cached identities show straight away and
+// the rest fill in as their lookups finish.
+export const useEnsIdentities = (addresses: string[]): Record<string, EnsIdentity> => {
+  const identityService = useIdentityService();
+  const addressKey = addresses.map(address => address.toLowerCase()).sort().join(',');
+
+  const [identities, setIdentities] = useState<Record<string, EnsIdentity>>({});
+
+  useEffect(() => {
+    const wanted = addressKey ? addressKey.split(',') : [];
+    const cached: Record<string, EnsIdentity> = {};
+    wanted.forEach(address => {
+      const identity = identityService.getCachedIdentity(address);
+      if (identity) cached[address] = identity;
+    });
+    setIdentities(cached);
+
+    let cancelled = false;
+    wanted
+      .filter(address => !cached[address])
+      .forEach(async address => {
+        const identity = await identityService.lookupAddress(address);
+        if (cancelled) return;
+        setIdentities(prev => ({ ...prev, [address]: identity }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [identityService, addressKey]);
+
+  return identities;
+};
+
+export const useEnsIdentity = (address?: string | null): EnsIdentity | null => {
+  const identities = useEnsIdentities(address ? [address] : []);
+  return address ? identities[address.toLowerCase()] ?? null : null;
+};
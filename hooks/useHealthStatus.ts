@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useWalletService } from '@/contexts/ServiceContext';
 import { useNetworkService } from '@/contexts/ServiceContext';
 import { env } from '@/config/environment';
+import { RpcEndpointHealth } from '@/types/chain';
 
 export interface HealthStatus {
   isHealthy: boolean;
@@ -11,9 +12,11 @@ export interface HealthStatus {
   errorCount: number;
   status: 'healthy' | 'degraded' | 'unhealthy' | 'disconnected';
   issues: string[];
+  endpoints: RpcEndpointHealth[];
 }
 
-export const useHealthStatus = (): HealthStatus => {
+// Pass the connected chain id to include its RPC endpoint ranking; otherwise the chain the wallet last reported is used
+export const useHealthStatus = (chainId?: number): HealthStatus => {
   const walletService = useWalletService();
   const networkService = useNetworkService();
   
@@ -24,13 +27,18 @@ export const useHealthStatus = (): HealthStatus => {
     networkLatency: 0,
     errorCount: 0,
     status: 'healthy',
-    issues: []
+    issues: [],
+    endpoints: []
   });
 
   useEffect(() => {
-    const updateHealth = () => {
-      const isConnected = walletService.isConnected();
+    let cancelled = false;
+
+    const updateHealth = async (walletDisconnected: boolean = false) => {
+      // A disconnect event can arrive before the wallet state catches up
+      const isConnected = !walletDisconnected && walletService.isConnected();
       const currentNetwork = networkService.getCurrentNetwork();
+      const activeChainId = chainId ?? currentNetwork?.id;
       
       const issues: string[] = [];
       let isHealthy = true;
@@ -45,6 +53,20 @@ export const useHealthStatus = (): HealthStatus => {
         isHealthy = false;
       }
 
+      let networkLatency: number | undefined;
+      let endpoints: RpcEndpointHealth[] = [];
+      if (isConnected && activeChainId) {
+        const networkHealth = await networkService.checkNetworkHealth(activeChainId);
+        networkLatency = networkHealth.latency;
+        endpoints = networkHealth.endpoints;
+        if (!networkHealth.isHealthy) {
+          issues.push(networkHealth.error || 'RPC endpoints unreachable');
+          isHealthy = false;
+        }
+      }
+
+      if (cancelled) return;
+
       let status: HealthStatus['status'] = 'healthy';
       if (!isHealthy) {
         status = issues.length >= 2 ? 'unhealthy' : 'degraded';
@@ -57,22 +79,31 @@ export const useHealthStatus = (): HealthStatus => {
         ...prev,
         isHealthy,
         lastCheck: Date.now(),
+        networkLatency: networkLatency ?? prev.networkLatency,
         status,
-        issues
+        issues,
+        endpoints
       }));
     };
 
     updateHealth();
 
-    // Only run health checks if enabled
-    if (!env.ENABLE_HEALTH_CHECKS) {
-      return;
-    }
+    // Wallet and chain changes arrive as provider events rather than being polled
+    const unsubscribers = [
+      walletService.onAccountChanged(() => updateHealth()),
+      walletService.onDisconnect(() => updateHealth(true)),
+      networkService.onChainChanged(() => updateHealth())
+    ];
 
-    const interval = setInterval(updateHealth, 30000);
+    // RPC endpoints have no events, so their health is still probed when checks are enabled
+    const interval = env.ENABLE_HEALTH_CHECKS ? setInterval(() => updateHealth(), 30000) : undefined;
 
-    return () => clearInterval(interval);
-  }, [walletService, networkService]);
+    return () => {
+      cancelled = true;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      if (interval) clearInterval(interval);
+    };
+  }, [walletService, networkService, chainId]);
 
   return health;
 };
@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+import { SubscriptionTransport } from '@/types/chain';
+import { SubscriptionManager, subscriptionManager } from '@/utils/subscriptions';
+
+export interface LiveBlockState {
+  blockNumber: number | null;
+  blockTimestamp: number | null; // seconds, as in the block header
+  // 'websocket' while newHeads is streaming, 'polling' while falling back to HTTP
+  transport: SubscriptionTransport | null;
+}
+
+const EMPTY_STATE: LiveBlockState = { blockNumber: null, blockTimestamp: null, transport: null };
+
+// Latest block of the given chain, pushed over eth_subscribe newHeads where the chain has a wss endpoint
+export const useLiveBlockNumber = (chainId?: number, manager: SubscriptionManager = subscriptionManager): LiveBlockState => {
+  const [state, setState] = useState<LiveBlockState>(EMPTY_STATE);
+
+  useEffect(() => {
+    setState(EMPTY_STATE);
+    if (!chainId) return;
+
+    // Listen before subscribing, which may switch the transport straight away
+    const stopWatchingTransport = manager.onTransportChange(change => {
+      if (change.chainId === chainId) {
+        setState(prev => ({ ...prev, transport: change.transport }));
+      }
+    });
+    const unsubscribe = manager.subscribeNewHeads(chainId, head => {
+      setState(prev => ({ ...prev, blockNumber: head.number, blockTimestamp: head.timestamp }));
+    });
+    setState(prev => ({ ...prev, transport: manager.getTransport(chainId) }));
+
+    return () => {
+      stopWatchingTransport();
+      unsubscribe();
+    };
+  }, [chainId, manager]);
+
+  return state;
+};
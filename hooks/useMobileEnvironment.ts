@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { getMobileEnvironment, MobileEnvironment } from '@/utils/mobile';
+
+export interface MobileEnvironmentState extends MobileEnvironment {
+  // Current page URL, handed to wallet deep links
+  dappUrl: string;
+}
+
+// Starts as desktop so the server render matches the first client render
+export const useMobileEnvironment = (): MobileEnvironmentState => {
+  const [environment, setEnvironment] = useState<MobileEnvironmentState>({
+    isMobile: false,
+    inAppWallet: null,
+    dappUrl: ''
+  });
+
+  useEffect(() => {
+    setEnvironment({ ...getMobileEnvironment(), dappUrl: window.location.href });
+  }, []);
+
+  return environment;
+};
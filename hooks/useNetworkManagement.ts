@@ -2,8 +2,9 @@ import { useState, useCallback, useEffect } from 'react';
 import { useNetworkService } from '@/contexts/ServiceContext';
 import { useErrorHandler } from '@/contexts/ServiceContext';
 import { networkRegistry } from '@/strategies/NetworkStrategy';
-import { Network } from '@/services/interfaces/INetworkService';
+import { Network, NetworkValidationResult } from '@/services/interfaces/INetworkService';
 import { APP_CONFIG } from '@/config/constants';
+import { NetworkMode } from '@/types/chain';
 
 export interface NetworkState {
   currentNetwork: Network | null;
@@ -11,45 +12,54 @@ export interface NetworkState {
   supportedNetworks: Network[];
   error: string | null;
   isValidating: boolean;
+  networkMode: NetworkMode;
+  canUseTestnets: boolean;
 }
 
 export interface NetworkActions {
   switchNetwork: (networkId: number) => Promise<void>;
-  validateNetwork: (networkId: number) => Promise<boolean>;
+  validateNetwork: (networkId: number) => Promise<NetworkValidationResult>;
   getNetworkStatus: (networkId: number) => {
     isSupported: boolean;
     name: string;
     status: 'supported' | 'unsupported';
   };
   refreshSupportedNetworks: () => Promise<void>;
+  setNetworkMode: (mode: NetworkMode) => void;
 }
 
+const getNetworksForMode = (mode: NetworkMode): Network[] => {
+  const strategies = mode === 'testnet' ? networkRegistry.getTestnetStrategies() : networkRegistry.getMainnetStrategies();
+  return strategies.map(strategy => ({
+    id: strategy.id,
+    name: strategy.name,
+    rpcUrl: strategy.rpcUrl,
+    chainId: strategy.getChainId(),
+    nativeCurrency: strategy.getNativeCurrency(),
+    blockExplorer: strategy.getBlockExplorer(),
+    isTestnet: strategy.isTestnet()
+  }));
+};
+
 export const useNetworkManagement = (): NetworkState & NetworkActions => {
   const networkService = useNetworkService();
   const errorHandler = useErrorHandler();
   
   const [state, setState] = useState<NetworkState>({
-    currentNetwork: null,
+    currentNetwork: networkService.getCurrentNetwork(),
     isSwitching: false,
     supportedNetworks: [],
     error: null,
-    isValidating: false
+    isValidating: false,
+    networkMode: networkService.getNetworkMode(),
+    canUseTestnets: networkService.isNetworkModeAllowed('testnet')
   });
 
   // Initialize supported networks from registry
   useEffect(() => {
     const initializeNetworks = async () => {
       try {
-        const strategies = networkRegistry.getAllStrategies();
-        const networks: Network[] = strategies.map(strategy => ({
-          id: strategy.id,
-          name: strategy.name,
-          rpcUrl: strategy.rpcUrl,
-          chainId: strategy.getChainId(),
-          nativeCurrency: strategy.getNativeCurrency(),
-          blockExplorer: strategy.getBlockExplorer(),
-          isTestnet: strategy.isTestnet()
-        }));
+        const networks = getNetworksForMode(networkService.getNetworkMode());
 
         setState(prev => ({
           ...prev,
@@ -70,7 +80,21 @@ export const useNetworkManagement = (): NetworkState & NetworkActions => {
     };
 
     initializeNetworks();
-  }, [errorHandler]);
+  }, [networkService, errorHandler]);
+
+  // The wallet reports chain switches, including ones made from the wallet itself
+  useEffect(() => {
+    const unsubscribers = [
+      networkService.onChainChanged(() => {
+        setState(prev => ({ ...prev, currentNetwork: networkService.getCurrentNetwork(), isSwitching: false }));
+      }),
+      networkService.onDisconnect(() => {
+        setState(prev => ({ ...prev, currentNetwork: null }));
+      })
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [networkService]);
 
   const switchNetwork = useCallback(async (networkId: number) => {
     setState(prev => ({ ...prev, isSwitching: true, error: null }));
@@ -110,7 +134,7 @@ export const useNetworkManagement = (): NetworkState & NetworkActions => {
     }
   }, [networkService, errorHandler, state.supportedNetworks]);
 
-  const validateNetwork = useCallback(async (networkId: number): Promise<boolean> => {
+  const validateNetwork = useCallback(async (networkId: number): Promise<NetworkValidationResult> => {
     setState(prev => ({ ...prev, isValidating: true, error: null }));
 
     try {
@@ -130,7 +154,7 @@ export const useNetworkManagement = (): NetworkState & NetworkActions => {
         isValidating: false,
         error: errorResult.message
       }));
-      return false;
+      return { isValid: false, error: errorResult.message, failures: [] };
     }
   }, [networkService, errorHandler]);
 
@@ -148,20 +172,12 @@ export const useNetworkManagement = (): NetworkState & NetworkActions => {
 
   const refreshSupportedNetworks = useCallback(async () => {
     try {
-      const strategies = networkRegistry.getAllStrategies();
-      const networks: Network[] = strategies.map(strategy => ({
-        id: strategy.id,
-        name: strategy.name,
-        rpcUrl: strategy.rpcUrl,
-        chainId: strategy.getChainId(),
-        nativeCurrency: strategy.getNativeCurrency(),
-        blockExplorer: strategy.getBlockExplorer(),
-        isTestnet: strategy.isTestnet()
-      }));
+      const networks = getNetworksForMode(networkService.getNetworkMode());
 
       setState(prev => ({
         ...prev,
         supportedNetworks: networks,
+        networkMode: networkService.getNetworkMode(),
         error: null
       }));
     } catch (error) {
@@ -176,13 +192,31 @@ export const useNetworkManagement = (): NetworkState & NetworkActions => {
         error: errorResult.message
       }));
     }
-  }, [errorHandler]);
+  }, [networkService, errorHandler]);
+
+  const setNetworkMode = useCallback((mode: NetworkMode) => {
+    const result = networkService.setNetworkMode(mode);
+    if (!result.success) {
+      setState(prev => ({ ...prev, error: result.error || 'Network mode change failed' }));
+      return;
+    }
+
+    const networks = getNetworksForMode(result.mode);
+
+    setState(prev => ({
+      ...prev,
+      networkMode: result.mode,
+      supportedNetworks: networks,
+      error: null
+    }));
+  }, [networkService]);
 
   return {
     ...state,
     switchNetwork,
     validateNetwork,
     getNetworkStatus,
-    refreshSupportedNetworks
+    refreshSupportedNetworks,
+    setNetworkMode
   };
 };
@@ -0,0 +1,140 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useWagmiWalletService } from './useWagmiWalletService';
+import { SiweSession } from '@/types/auth';
+import { createSiweMessage } from '@/utils/siwe';
+import { APP_CONFIG } from '@/config/constants';
+
+export interface SiweSessionOptions {
+  address: string | null;
+  chainId: number | null;
+}
+
+export interface SiweSessionState {
+  session: SiweSession | null;
+  isSignedIn: boolean;
+  isSigningIn: boolean;
+  error: string | null;
+}
+
+export interface SiweSessionActions {
+  signIn: () => Promise<boolean>;
+  signOut: () => Promise<void>;
+  refreshSession: () => Promise<void>;
+}
+
+const readError = async (response: Response, fallback: string): Promise<string> => {
+  try {
+    const data = await response.json();
+    return data?.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Pairs the connected account from useWalletConnection with a server-side SIWE session
+export const useSiweSession = ({ address, chainId }: SiweSessionOptions): SiweSessionState & SiweSessionActions => {
+  const walletService = useWagmiWalletService();
+  const [session, setSession] = useState<SiweSession | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const previousAddress = useRef<string | null>(address);
+
+  const refreshSession = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/session', { credentials: 'same-origin' });
+      if (!response.ok) return;
+      const data = await response.json();
+      setSession(data.session || null);
+    } catch (err) {
+      console.warn('Failed to load sign-in session:', err);
+    }
+  }, []);
+
+  const signOut = useCallback(async () => {
+    setSession(null);
+    try {
+      await fetch('/api/auth/logout', { method: 'POST', credentials: 'same-origin' });
+    } catch (err) {
+      console.warn('Failed to clear sign-in session:', err);
+    }
+  }, []);
+
+  const signIn = useCallback(async (): Promise<boolean> => {
+    if (!address || !chainId) {
+      setError('Connect a wallet before signing in');
+      return false;
+    }
+
+    setIsSigningIn(true);
+    setError(null);
+
+    try {
+      const nonceResponse = await fetch('/api/auth/nonce', { credentials: 'same-origin' });
+      if (!nonceResponse.ok) {
+        throw new Error(await readError(nonceResponse, 'Failed to get sign-in nonce'));
+      }
+      const { nonce } = await nonceResponse.json();
+
+      const message = createSiweMessage({
+        domain: window.location.host,
+        address,
+        statement: APP_CONFIG.AUTH.STATEMENT,
+        uri: window.location.origin,
+        version: '1',
+        chainId,
+        nonce,
+        issuedAt: new Date().toISOString()
+      });
+
+      const signed = await walletService.signMessage(message);
+      if (!signed.success || !signed.signature) {
+        throw new Error(signed.error || 'Signature request failed');
+      }
+
+      const verifyResponse = await fetch('/api/auth/verify', {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature: signed.signature })
+      });
+      if (!verifyResponse.ok) {
+        throw new Error(await readError(verifyResponse, 'Sign-in verification failed'));
+      }
+
+      const data = await verifyResponse.json();
+      setSession(data.session);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+      return false;
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, [address, chainId, walletService]);
+
+  useEffect(() => {
+    refreshSession();
+  }, [refreshSession]);
+
+  // A session belongs to one account; drop it when the wallet switches or disconnects.
+  // A null address on first render is wagmi still reconnecting, not a disconnect.
+  useEffect(() => {
+    const wasConnected = previousAddress.current !== null;
+    previousAddress.current = address;
+
+    if (!session) return;
+    if (address ? session.address.toLowerCase() !== address.toLowerCase() : wasConnected) {
+      signOut();
+    }
+  }, [address, session, signOut]);
+
+  return {
+    session,
+    isSignedIn: !!session,
+    isSigningIn,
+    error,
+    signIn,
+    signOut,
+    refreshSession
+  };
+};
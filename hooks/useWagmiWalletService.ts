@@ -1,7 +1,11 @@
 import { useMemo } from 'react';
 import { useAccount, useConnect, useDisconnect, Connector } from 'wagmi';
+import { signMessage, signTypedData, sendTransaction } from 'wagmi/actions';
 import { useServiceContext } from '@/contexts/ServiceContext';
 import { IWagmiAdapter } from '@/services/implementations/WagmiWalletService';
+import { toSignTypedDataArgs } from '@/services/implementations/WagmiAdapter';
+import { TypedDataPayload } from '@/services/interfaces/IWalletService';
+import { PreparedTransaction } from '@/services/interfaces/ITransactionService';
 
 export const useWagmiWalletService = () => {
   const { walletService } = useServiceContext();
@@ -43,6 +47,17 @@ export const useWagmiWalletService = () => {
       }
     },
     
+    switchConnector: async (connector: Connector) => {
+      try {
+        return await connectAsync({ connector });
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('already connected')) {
+          return { success: true };
+        }
+        throw error;
+      }
+    },
+
     disconnect: async () => {
       try {
         await disconnectAsync();
@@ -54,6 +69,33 @@ export const useWagmiWalletService = () => {
     
     getConnectors: () => {
       return connectors;
+    },
+
+    signMessage: async (message: string) => {
+      return await signMessage({ message });
+    },
+
+    signTypedData: async (typedData: TypedDataPayload) => {
+      return await signTypedData(toSignTypedDataArgs(typedData));
+    },
+
+    sendTransaction: async (transaction: PreparedTransaction) => {
+      const { hash } = await sendTransaction({
+        chainId: transaction.chainId,
+        to: transaction.to,
+        value: transaction.value,
+        data: transaction.data as `0x${string}` | undefined,
+        gas: transaction.gas,
+        nonce: transaction.nonce
+      });
+      return hash;
+    },
+    request: async <T = unknown>(method: string, params?: unknown[]): Promise<T> => {
+      const provider = await connector?.getProvider();
+      if (!provider?.request) {
+        throw new Error('No wallet provider is connected');
+      }
+      return await provider.request({ method, params });
     }
   }), [address, isConnected, connector, connectAsync, isLoading, connectError, disconnectAsync, connectors]);
 
@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useWalletConnectService } from '@/contexts/ServiceContext';
+import { WalletConnectPairing, WalletConnectSession } from '@/services/interfaces/IWalletConnectService';
+
+export interface WalletConnectSessionsState {
+  sessions: WalletConnectSession[];
+  pairing: WalletConnectPairing | null;
+  isPairing: boolean;
+  // Topics of sessions inside the expiry warning window
+  expiringTopics: string[];
+  error: string | null;
+}
+
+export interface WalletConnectSessionsActions {
+  startPairing: (walletId?: string) => Promise<WalletConnectPairing | null>;
+  cancelPairing: () => void;
+  disconnect: (topic: string) => Promise<void>;
+}
+
+export const useWalletConnectSessions = (): WalletConnectSessionsState & WalletConnectSessionsActions => {
+  const walletConnectService = useWalletConnectService();
+  const [state, setState] = useState<WalletConnectSessionsState>({
+    sessions: walletConnectService.getSessions(),
+    pairing: null,
+    isPairing: false,
+    expiringTopics: [],
+    error: null
+  });
+
+  useEffect(() => {
+    const unsubscribe = walletConnectService.subscribe(sessions => {
+      const topics = sessions.map(session => session.topic);
+      setState(prev => ({
+        ...prev,
+        sessions,
+        expiringTopics: prev.expiringTopics.filter(topic => topics.includes(topic))
+      }));
+    });
+    const unsubscribeExpiring = walletConnectService.onSessionExpiring(session => {
+      setState(prev => ({
+        ...prev,
+        expiringTopics: prev.expiringTopics.includes(session.topic) ? prev.expiringTopics : [...prev.expiringTopics, session.topic]
+      }));
+    });
+
+    walletConnectService.restoreSessions();
+    return () => {
+      unsubscribe();
+      unsubscribeExpiring();
+    };
+  }, [walletConnectService]);
+
+  const startPairing = useCallback(async (walletId?: string) => {
+    setState(prev => ({ ...prev, isPairing: true, pairing: null, error: null }));
+    const result = await walletConnectService.createPairing(walletId);
+    if (!result.success || !result.pairing) {
+      setState(prev => ({ ...prev, isPairing: false, error: result.error || 'Failed to start WalletConnect pairing' }));
+      return null;
+    }
+
+    const pairing = result.pairing;
+    setState(prev => ({ ...prev, pairing }));
+
+    // Clear the pairing once the wallet answers, unless a newer pairing replaced it
+    pairing.approval.then(approval => {
+      setState(prev => prev.pairing !== pairing ? prev : {
+        ...prev,
+        pairing: null,
+        isPairing: false,
+        error: approval.success ? null : approval.error || 'WalletConnect pairing failed'
+      });
+    });
+
+    return pairing;
+  }, [walletConnectService]);
+
+  const cancelPairing = useCallback(() => {
+    setState(prev => ({ ...prev, pairing: null, isPairing: false }));
+  }, []);
+
+  const disconnect = useCallback(async (topic: string) => {
+    const result = await walletConnectService.disconnectSession(topic);
+    if (!result.success) {
+      setState(prev => ({ ...prev, error: result.error || 'Failed to disconnect the session' }));
+    }
+  }, [walletConnectService]);
+
+  return {
+    ...state,
+    startPairing,
+    cancelPairing,
+    disconnect
+  };
+};
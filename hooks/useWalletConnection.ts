@@ -1,55 +1,13 @@
-import { useState, useCallback, useEffect } from 'react';
-import { useWalletService } from '@/contexts/ServiceContext';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useWalletService, useWatchOnlyService, useWalletConnectionsService } from '@/contexts/ServiceContext';
 import { useErrorHandler } from '@/contexts/ServiceContext';
 import { walletRegistry } from '@/strategies/WalletStrategy';
+import { WatchedAccount } from '@/services/interfaces/IWatchOnlyService';
+import { WalletConnection } from '@/types/wallet';
 import { useWagmiWalletService } from './useWagmiWalletService';
 import { APP_CONFIG } from '@/config/constants';
 import { walletConnectionToast } from '@/utils/toast';
-
-// Function to add chain to MetaMask
-const addChainToMetaMask = async (networkId: number) => {
-  const network = Object.values(APP_CONFIG.NETWORKS).find(n => n.id === networkId);
-  if (!network) {
-    throw new Error(`Network ${networkId} not found in configuration`);
-  }
-
-  const chainParams = {
-    chainId: `0x${networkId.toString(16)}`,
-    chainName: network.name,
-    nativeCurrency: {
-      name: network.name === 'BSC' ? 'BNB' : 
-            network.name === 'Polygon' ? 'MATIC' : 
-            network.name === 'Ethereum' ? 'ETH' : 'ETH',
-      symbol: network.name === 'BSC' ? 'BNB' : 
-              network.name === 'Polygon' ? 'MATIC' : 
-              network.name === 'Ethereum' ? 'ETH' : 'ETH',
-      decimals: 18,
-    },
-    rpcUrls: [network.rpcUrl],
-    blockExplorerUrls: [
-      network.name === 'BSC' ? 'https://bscscan.com' :
-      network.name === 'Polygon' ? 'https://polygonscan.com' :
-      network.name === 'Linea' ? 'https://lineascan.build' :
-      network.name === 'Ethereum' ? 'https://etherscan.io' :
-      'https://etherscan.io'
-    ],
-  };
-
-  try {
-    if (typeof window !== 'undefined' && window.ethereum) {
-      await window.ethereum.request({
-        method: 'wallet_addEthereumChain',
-        params: [chainParams],
-      });
-      return true;
-    } else {
-      throw new Error('MetaMask not available');
-    }
-  } catch (error) {
-    console.error('Failed to add chain to MetaMask:', error);
-    throw error;
-  }
-};
+import { addChainToMetaMask, toHexChainId } from '@/utils/chains';
 
 // Function to switch network
 const switchNetwork = async (networkId: number) => {
@@ -58,7 +16,7 @@ const switchNetwork = async (networkId: number) => {
       // Try to switch network
       await window.ethereum.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: `0x${networkId.toString(16)}` }],
+        params: [{ chainId: toHexChainId(networkId) }],
       });
     }
   } catch (error: any) {
@@ -68,7 +26,7 @@ const switchNetwork = async (networkId: number) => {
       // Try switching again
       await window.ethereum?.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: `0x${networkId.toString(16)}` }],
+        params: [{ chainId: toHexChainId(networkId) }],
       });
     } else {
       throw error;
@@ -84,10 +42,21 @@ export interface WalletConnectionState {
   error: string | null;
   connectionTime: number | null;
   lastActivity: number | null;
+  // Watch-only mode: an address followed without a wallet, with signing disabled
+  isWatchOnly: boolean;
+  watchedAccount: WatchedAccount | null;
+  // Every open wallet connection; address and walletType follow the active one
+  connections: WalletConnection[];
+  activeConnectionId: string | null;
 }
 
 export interface WalletConnectionActions {
   connect: (walletType: string) => Promise<void>;
+  addConnection: (walletType: string) => Promise<void>;
+  switchAccount: (connectionId: string) => Promise<void>;
+  disconnectConnection: (connectionId: string) => Promise<void>;
+  watchAddress: (addressOrName: string, chainId?: number) => Promise<boolean>;
+  setWatchedChain: (chainId: number) => void;
   disconnect: () => Promise<void>;
   retryConnection: () => Promise<void>;
   refreshConnection: () => Promise<void>;
@@ -95,21 +64,134 @@ export interface WalletConnectionActions {
   getPreferredNetwork: () => number | null;
 }
 
+const DISCONNECTED_STATE: WalletConnectionState = {
+  isConnected: false,
+  isConnecting: false,
+  address: null,
+  walletType: null,
+  error: null,
+  connectionTime: null,
+  lastActivity: null,
+  isWatchOnly: false,
+  watchedAccount: null,
+  connections: [],
+  activeConnectionId: null
+};
+
+const WATCH_ONLY_WALLET_TYPE = 'watchOnly';
+
+const toWatchOnlyState = (account: WatchedAccount): WalletConnectionState => ({
+  ...DISCONNECTED_STATE,
+  isConnected: true,
+  address: account.address,
+  walletType: WATCH_ONLY_WALLET_TYPE,
+  connectionTime: account.startedAt,
+  lastActivity: Date.now(),
+  isWatchOnly: true,
+  watchedAccount: account
+});
+
+// Events from a wallet that is connected but not the active one are left to the connections service
+const isInactiveConnection = (state: WalletConnectionState, walletType: string): boolean =>
+  state.connections.some(connection => connection.id === walletType && connection.id !== state.activeConnectionId);
+
+const hasOtherConnection = (state: WalletConnectionState, walletType: string): boolean =>
+  state.connections.some(connection => connection.id !== walletType);
+
 export const useWalletConnection = (): WalletConnectionState & WalletConnectionActions => {
   const walletService = useWalletService();
   const wagmiWalletService = useWagmiWalletService();
   const errorHandler = useErrorHandler();
+  const watchOnlyService = useWatchOnlyService();
+  const walletConnectionsService = useWalletConnectionsService();
   
-  const [state, setState] = useState<WalletConnectionState>({
-    isConnected: false,
-    isConnecting: false,
-    address: null,
-    walletType: null,
-    error: null,
-    connectionTime: null,
-    lastActivity: null
+  const [state, setState] = useState<WalletConnectionState>(() => {
+    const watched = watchOnlyService.getWatchedAccount();
+    if (watched) return toWatchOnlyState(watched);
+
+    return {
+      ...DISCONNECTED_STATE,
+      connections: walletConnectionsService.getConnections(),
+      activeConnectionId: walletConnectionsService.getActiveConnection()?.id ?? null
+    };
   });
 
+  // Follow the watched address, which every component using this hook shares
+  useEffect(() => {
+    return watchOnlyService.subscribe(account => {
+      setState(prev => {
+        if (account) return toWatchOnlyState(account);
+        return prev.isWatchOnly ? { ...DISCONNECTED_STATE } : prev;
+      });
+    });
+  }, [watchOnlyService]);
+
+  // Follow the open wallet connections; the active one is the account shown everywhere
+  useEffect(() => {
+    return walletConnectionsService.subscribe(({ connections, activeId }) => {
+      setState(prev => {
+        if (prev.isWatchOnly) return prev;
+
+        const active = connections.find(connection => connection.id === activeId);
+        if (!active) {
+          return connections.length === 0 && prev.connections.length > 0
+            ? { ...DISCONNECTED_STATE }
+            : { ...prev, connections, activeConnectionId: null };
+        }
+
+        return {
+          ...prev,
+          isConnected: true,
+          address: active.address,
+          walletType: active.walletType,
+          connectionTime: prev.connectionTime || active.connectedAt,
+          lastActivity: Date.now(),
+          connections,
+          activeConnectionId: active.id
+        };
+      });
+    });
+  }, [walletConnectionsService]);
+
+  // Reopen the wallet connections saved in the last session
+  useEffect(() => {
+    if (watchOnlyService.isWatching()) return;
+
+    walletConnectionsService.restore().catch(error => {
+      console.warn('Failed to restore wallet connections:', error);
+    });
+  }, [walletConnectionsService, watchOnlyService]);
+
+  // Last chain reported by the wallet's chainChanged event
+  const chainIdRef = useRef<number | null>(null);
+
+  // Follow account switches, chain switches and disconnects reported by the wallet
+  useEffect(() => {
+    const unsubscribers = [
+      walletService.onAccountChanged(({ walletType, address }) => {
+        setState(prev => {
+          if (!prev.isConnected || prev.isWatchOnly || isInactiveConnection(prev, walletType)) return prev;
+          // An empty account list means the wallet was locked or revoked access
+          if (!address) return hasOtherConnection(prev, walletType) ? prev : { ...DISCONNECTED_STATE };
+          return { ...prev, address, lastActivity: Date.now() };
+        });
+      }),
+      walletService.onChainChanged(({ chainId }) => {
+        chainIdRef.current = chainId;
+      }),
+      walletService.onDisconnect(({ walletType }) => {
+        chainIdRef.current = null;
+        setState(prev => {
+          if (!prev.isConnected || prev.isWatchOnly || isInactiveConnection(prev, walletType)) return prev;
+          // Signing moves to another open connection when there is one
+          return hasOtherConnection(prev, walletType) ? prev : { ...DISCONNECTED_STATE };
+        });
+      })
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [walletService]);
+
   // Load connection state on mount
   useEffect(() => {
     const loadConnectionState = async () => {
@@ -117,8 +199,10 @@ export const useWalletConnection = (): WalletConnectionState & WalletConnectionA
         // Check if there's a stored connection
         const lastConnectedWallet = localStorage.getItem(APP_CONFIG.STORAGE_KEYS.LAST_CONNECTED_WALLET);
         const connectionStartTime = localStorage.getItem(APP_CONFIG.STORAGE_KEYS.CONNECTION_START_TIME);
+        // Saved wallet connections are reopened by the connections service instead
+        const hasSavedConnections = !!localStorage.getItem(APP_CONFIG.STORAGE_KEYS.ACTIVE_WALLET_CONNECTION);
         
-        if (lastConnectedWallet && connectionStartTime) {
+        if (lastConnectedWallet && connectionStartTime && !hasSavedConnections && !watchOnlyService.isWatching()) {
           const connectionAge = Date.now() - parseInt(connectionStartTime);
           if (connectionAge < APP_CONFIG.TIMEOUTS.MAX_CONNECTION_AGE) {
             // Check if already connected before attempting auto-reconnect
@@ -166,7 +250,7 @@ export const useWalletConnection = (): WalletConnectionState & WalletConnectionA
     };
 
     loadConnectionState();
-  }, [walletService, wagmiWalletService, state.isConnecting]);
+  }, [walletService, wagmiWalletService, watchOnlyService, state.isConnecting]);
 
   // Sync state with wagmi wallet service on mount and when it changes
   useEffect(() => {
@@ -195,11 +279,41 @@ export const useWalletConnection = (): WalletConnectionState & WalletConnectionA
       }
     };
 
-    // Only sync if not currently connecting to avoid conflicts
-    if (!state.isConnecting) {
+    // Only sync if not currently connecting to avoid conflicts; a watched address has no wallet to sync with
+    if (!state.isConnecting && !state.isWatchOnly) {
       syncState();
     }
-  }, [wagmiWalletService, state.isConnected, state.address, state.walletType, state.isConnecting]);
+  }, [wagmiWalletService, state.isConnected, state.address, state.walletType, state.isConnecting, state.isWatchOnly]);
+
+  const addConnection = useCallback(async (walletType: string) => {
+    if (state.isConnecting || state.isWatchOnly) return;
+
+    setState(prev => ({ ...prev, isConnecting: true, error: null }));
+    const result = await walletConnectionsService.connect(walletType);
+
+    // On success the subscription has already made the new wallet the active account
+    setState(prev => ({
+      ...prev,
+      isConnecting: false,
+      error: result.success ? null : result.error || 'Connection failed'
+    }));
+  }, [walletConnectionsService, state.isConnecting, state.isWatchOnly]);
+
+  const switchAccount = useCallback(async (connectionId: string) => {
+    const result = await walletConnectionsService.setActive(connectionId);
+    if (!result.success) {
+      setState(prev => ({ ...prev, error: result.error || 'Failed to switch account' }));
+    }
+  }, [walletConnectionsService]);
+
+  const disconnectConnection = useCallback(async (connectionId: string) => {
+    await walletConnectionsService.disconnect(connectionId);
+
+    if (walletConnectionsService.getConnections().length === 0) {
+      localStorage.removeItem(APP_CONFIG.STORAGE_KEYS.CONNECTION_START_TIME);
+      setState({ ...DISCONNECTED_STATE });
+    }
+  }, [walletConnectionsService]);
 
   const connect = useCallback(async (walletType: string) => {
     // Check if already connected to prevent multiple connection attempts
@@ -214,6 +328,20 @@ export const useWalletConnection = (): WalletConnectionState & WalletConnectionA
       return;
     }
 
+    if (walletType === WATCH_ONLY_WALLET_TYPE) {
+      setState(prev => ({ ...prev, error: 'Enter an address or ENS name to watch' }));
+      return;
+    }
+
+    // Another wallet joins the open connections instead of replacing the active one
+    if (state.isConnected && !state.isWatchOnly) {
+      await addConnection(walletType);
+      return;
+    }
+
+    // Connecting a real wallet replaces the watched address
+    watchOnlyService.stopWatching();
+
     setState(prev => ({ ...prev, isConnecting: true, error: null }));
 
     try {
@@ -266,6 +394,9 @@ export const useWalletConnection = (): WalletConnectionState & WalletConnectionA
           lastActivity: now
         }));
 
+        // The first wallet opens the list of connections others can be added to
+        await walletConnectionsService.track(walletType);
+
         // Auto-switch to Ethereum network after successful connection
         try {
           const currentChainId = await getCurrentChainId();
@@ -319,24 +450,54 @@ export const useWalletConnection = (): WalletConnectionState & WalletConnectionA
         error: errorResult.message
       }));
     }
-  }, [walletService, errorHandler, state.isConnected, state.isConnecting, state.walletType, wagmiWalletService]);
+  }, [walletService, walletConnectionsService, errorHandler, watchOnlyService, addConnection, state.isConnected, state.isConnecting, state.isWatchOnly, state.walletType, wagmiWalletService]);
+
+  const watchAddress = useCallback(async (addressOrName: string, chainId?: number): Promise<boolean> => {
+    if (state.isConnecting) return false;
+
+    // A connected wallet is disconnected first so its signer cannot be used by mistake
+    if (state.isConnected && !state.isWatchOnly) {
+      try {
+        await walletConnectionsService.disconnectAll();
+        localStorage.removeItem(APP_CONFIG.STORAGE_KEYS.CONNECTION_START_TIME);
+      } catch (error) {
+        console.warn('Failed to disconnect wallet before watching an address:', error);
+      }
+    }
+
+    setState(prev => ({ ...prev, isConnecting: true, error: null }));
+    const result = await watchOnlyService.watch(addressOrName, chainId);
+    if (!result.success) {
+      setState(prev => ({ ...prev, isConnecting: false, error: result.error || 'Failed to watch address' }));
+      return false;
+    }
+
+    // The subscription has already switched the state to the watched account
+    setState(prev => ({ ...prev, isConnecting: false }));
+    return true;
+  }, [walletConnectionsService, watchOnlyService, state.isConnecting, state.isConnected, state.isWatchOnly]);
+
+  const setWatchedChain = useCallback((chainId: number) => {
+    const result = watchOnlyService.setChain(chainId);
+    if (!result.success) {
+      setState(prev => ({ ...prev, error: result.error || 'Network switch failed' }));
+    }
+  }, [watchOnlyService]);
 
   const disconnect = useCallback(async () => {
+    if (state.isWatchOnly) {
+      watchOnlyService.stopWatching();
+      return;
+    }
+
     try {
-      await walletService.disconnect();
+      // Every open connection is closed, not only the active one
+      await walletConnectionsService.disconnectAll();
       
       // Clear connection state from localStorage
       localStorage.removeItem(APP_CONFIG.STORAGE_KEYS.CONNECTION_START_TIME);
       
-      setState({
-        isConnected: false,
-        isConnecting: false,
-        address: null,
-        walletType: null,
-        error: null,
-        connectionTime: null,
-        lastActivity: null
-      });
+      setState({ ...DISCONNECTED_STATE });
     } catch (error) {
       const errorResult = errorHandler.handle(error, {
         component: 'useWalletConnection',
@@ -349,15 +510,17 @@ export const useWalletConnection = (): WalletConnectionState & WalletConnectionA
         error: errorResult.message
       }));
     }
-  }, [walletService, errorHandler]);
+  }, [walletConnectionsService, errorHandler, watchOnlyService, state.isWatchOnly]);
 
   const retryConnection = useCallback(async () => {
-    if (state.walletType) {
+    if (state.walletType && state.walletType !== WATCH_ONLY_WALLET_TYPE) {
       await connect(state.walletType);
     }
   }, [connect, state.walletType]);
 
   const refreshConnection = useCallback(async () => {
+    if (state.isWatchOnly) return;
+
     try {
       const account = await walletService.getAccount();
       const now = Date.now();
@@ -371,7 +534,7 @@ export const useWalletConnection = (): WalletConnectionState & WalletConnectionA
     } catch (error) {
       console.error('Failed to refresh connection:', error);
     }
-  }, [walletService]);
+  }, [walletService, state.isWatchOnly]);
 
   const setPreferredNetwork = useCallback((networkId: number) => {
     localStorage.setItem('preferredNetwork', networkId.toString());
@@ -428,11 +591,11 @@ export const useWalletConnection = (): WalletConnectionState & WalletConnectionA
       }
     };
 
-    // Auto-switch when wallet connects
-    if (state.isConnected && !state.isConnecting) {
+    // Auto-switch when wallet connects; a watched address has no wallet to switch
+    if (state.isConnected && !state.isConnecting && !state.isWatchOnly) {
       autoSwitchToEthereum();
     }
-  }, [state.isConnected, state.isConnecting]);
+  }, [state.isConnected, state.isConnecting, state.isWatchOnly]);
 
   // Auto-switch to preferred network on page load if already connected
   useEffect(() => {
@@ -459,8 +622,12 @@ export const useWalletConnection = (): WalletConnectionState & WalletConnectionA
     loadPreferredNetwork();
   }, [wagmiWalletService]);
 
-  // Helper function to get current chain ID
+  // Helper function to get current chain ID; only asks the wallet before it has reported one
   const getCurrentChainId = async (): Promise<number | null> => {
+    if (chainIdRef.current !== null) {
+      return chainIdRef.current;
+    }
+
     try {
       if (typeof window !== 'undefined' && window.ethereum) {
         const chainId = await window.ethereum.request({ method: 'eth_chainId' });
@@ -476,6 +643,11 @@ export const useWalletConnection = (): WalletConnectionState & WalletConnectionA
   return {
     ...state,
     connect,
+    addConnection,
+    switchAccount,
+    disconnectConnection,
+    watchAddress,
+    setWatchedChain,
     disconnect,
     retryConnection,
     refreshConnection,
@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { walletRegistry, WalletStrategy } from '@/strategies/WalletStrategy';
+
+// Available wallets, including generic ones announced over EIP-6963
+export const useWalletDiscovery = (): WalletStrategy[] => {
+  const [availableWallets, setAvailableWallets] = useState<WalletStrategy[]>(() =>
+    walletRegistry.getAvailableStrategies()
+  );
+
+  useEffect(() => {
+    const unsubscribe = walletRegistry.onProvidersChanged(() => {
+      setAvailableWallets(walletRegistry.getAvailableStrategies());
+    });
+
+    walletRegistry.startProviderDiscovery();
+    setAvailableWallets(walletRegistry.getAvailableStrategies());
+
+    return unsubscribe;
+  }, []);
+
+  return availableWallets;
+};
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useWalletService } from '@/contexts/ServiceContext';
+import { WalletPermission } from '@/services/interfaces/IWalletService';
+
+export interface WalletPermissionsState {
+  permissions: WalletPermission[];
+  // false when the wallet does not implement EIP-2255
+  isSupported: boolean;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export interface WalletPermissionsActions {
+  refresh: () => Promise<void>;
+  requestPermission: (capability: string) => Promise<boolean>;
+  revokePermission: (capability: string) => Promise<boolean>;
+}
+
+// Reads the EIP-2255 permissions of the connected wallet, re-reading whenever the
+// account or wallet changes
+export const useWalletPermissions = (
+  address?: string | null,
+  walletType?: string | null
+): WalletPermissionsState & WalletPermissionsActions => {
+  const walletService = useWalletService();
+  const [state, setState] = useState<WalletPermissionsState>({
+    permissions: [],
+    isSupported: true,
+    isLoading: false,
+    error: null
+  });
+
+  const load = useCallback(async () => {
+    const result = await walletService.getPermissions();
+    setState(prev => ({
+      permissions: result.permissions ?? prev.permissions,
+      isSupported: result.supported ?? prev.isSupported,
+      isLoading: false,
+      error: result.success ? null : result.error || 'Failed to read wallet permissions'
+    }));
+  }, [walletService]);
+
+  useEffect(() => {
+    if (!address) {
+      setState({ permissions: [], isSupported: true, isLoading: false, error: null });
+      return;
+    }
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    load();
+  }, [load, address, walletType]);
+
+  const refresh = useCallback(async () => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+    await load();
+  }, [load]);
+
+  const requestPermission = useCallback(async (capability: string) => {
+    const result = await walletService.requestPermissions([capability]);
+    if (!result.success) {
+      setState(prev => ({
+        ...prev,
+        isSupported: result.supported ?? prev.isSupported,
+        error: result.error || 'Permission request failed'
+      }));
+      return false;
+    }
+
+    await load();
+    return true;
+  }, [walletService, load]);
+
+  const revokePermission = useCallback(async (capability: string) => {
+    const result = await walletService.revokePermissions([capability]);
+    if (!result.success) {
+      setState(prev => ({
+        ...prev,
+        isSupported: result.supported ?? prev.isSupported,
+        error: result.error || 'Failed to revoke the permission'
+      }));
+      return false;
+    }
+
+    setState(prev => ({
+      ...prev,
+      permissions: prev.permissions.filter(permission => permission.parentCapability !== capability)
+    }));
+    return true;
+  }, [walletService]);
+
+  return {
+    ...state,
+    refresh,
+    requestPermission,
+    revokePermission
+  };
+};
@@ -11,6 +11,8 @@ const customJestConfig = {
   testEnvironment: 'jsdom',
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/$1',
+    // viem's WebSocket shim only ships ES modules for the browser condition jsdom resolves
+    '^isows$': '<rootDir>/node_modules/isows/_cjs/index.js',
   },
   collectCoverageFrom: [
     'components/**/*.{js,jsx,ts,tsx}',
@@ -22,6 +24,8 @@ const customJestConfig = {
   testPathIgnorePatterns: [
     '<rootDir>/.next/',
     '<rootDir>/node_modules/',
+    // Shared fixtures and helpers, imported by the suites
+    '<rootDir>/__tests__/fixtures/',
   ],
   transform: {
     '^.+\\.(js|jsx|ts|tsx)$': ['babel-jest', { presets: ['next/babel'] }],
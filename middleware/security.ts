@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SecurityUtils, networkRateLimiter, walletRateLimiter } from '@/utils/security';
+import { SecurityUtils, authRateLimiter, networkRateLimiter, walletRateLimiter } from '@/utils/security';
+import { APP_CONFIG } from '@/config/constants';
 
 export function securityMiddleware(request: NextRequest) {
   const response = NextResponse.next();
@@ -31,11 +32,13 @@ export function securityMiddleware(request: NextRequest) {
   const userAgent = request.headers.get('user-agent') || 'unknown';
   const identifier = `${clientIP}:${userAgent}`;
   
-  if (!networkRateLimiter(identifier)) {
+  const path = request.nextUrl.pathname;
+
+  // The RPC proxy counts each JSON-RPC request against its own, larger budget
+  if (!path.startsWith(`${APP_CONFIG.RPC_PROXY.PATH}/`) && !networkRateLimiter(identifier)) {
     return new NextResponse('Too Many Requests', { status: 429 });
   }
   
-  const path = request.nextUrl.pathname;
   if (path.includes('..') || path.includes('//')) {
     return new NextResponse('Invalid Request', { status: 400 });
   }
@@ -91,6 +94,17 @@ export function walletSecurityMiddleware(request: NextRequest) {
   return NextResponse.next();
 }
 
+// Counted per client address only; the user agent is the caller's to choose
+export function authSecurityMiddleware(request: NextRequest) {
+  const clientIP = request.ip || request.headers.get('x-forwarded-for') || 'unknown';
+
+  if (!authRateLimiter(clientIP)) {
+    return new NextResponse('Auth Rate Limit Exceeded', { status: 429 });
+  }
+
+  return NextResponse.next();
+}
+
 export function apiSecurityMiddleware(request: NextRequest) {
   const response = NextResponse.next();
   
@@ -118,6 +132,11 @@ export function combinedSecurityMiddleware(request: NextRequest) {
     const walletResponse = walletSecurityMiddleware(request);
     if (walletResponse.status !== 200) return walletResponse;
   }
+
+  if (request.nextUrl.pathname.startsWith('/api/auth')) {
+    const authResponse = authSecurityMiddleware(request);
+    if (authResponse.status !== 200) return authResponse;
+  }
   
   if (request.nextUrl.pathname.startsWith('/api/')) {
     return apiSecurityMiddleware(request);
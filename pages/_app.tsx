@@ -1,86 +1,49 @@
 import React from 'react';
 import type { AppProps } from 'next/app';
-import { WagmiConfig, createConfig, configureChains } from 'wagmi';
-import { polygon, linea, mainnet } from 'wagmi/chains';
+import { WagmiConfig, createConfig, configureChains, Connector } from 'wagmi';
 import { publicProvider } from 'wagmi/providers/public';
+import { jsonRpcProvider } from 'wagmi/providers/jsonRpc';
 import { MetaMaskConnector } from 'wagmi/connectors/metaMask';
 import { WalletConnectConnector } from 'wagmi/connectors/walletConnect';
 import { ServiceProvider } from '@/contexts/ServiceContext';
 import { serviceFactory } from '@/services/ServiceFactory';
+import { EIP6963Connector } from '@/services/implementations/EIP6963Connector';
+import { CoinbaseWalletConnector } from '@/services/implementations/CoinbaseWalletConnector';
+import { ParticleNetworkConnector } from '@/services/implementations/ParticleNetworkConnector';
+import { SimulatedWalletConnector } from '@/services/implementations/SimulatedWalletConnector';
+import { walletRegistry } from '@/strategies/WalletStrategy';
+import { CHAIN_DEFINITIONS } from '@/config/chains';
 import { APP_CONFIG } from '@/config/constants';
+import { areTestnetsAllowed, getParticleConfig, getWalletConnectProjectId, isProduction } from '@/config/environment';
+import { getRpcProxyUrl, toWagmiChain } from '@/utils/chains';
 import '@/styles/globals.css';
 
-// Custom BSC chain configuration to match our RPC URL
-const bsc = {
-  id: 56,
-  name: 'BNB Smart Chain',
-  network: 'bsc',
-  nativeCurrency: {
-    decimals: 18,
-    name: 'BNB',
-    symbol: 'BNB',
-  },
-  rpcUrls: {
-    default: {
-      http: [APP_CONFIG.NETWORKS.BSC.rpcUrl],
-    },
-    public: {
-      http: [APP_CONFIG.NETWORKS.BSC.rpcUrl],
-    },
-  },
-  blockExplorers: {
-    default: { name: 'BscScan', url: 'https://bscscan.com' },
-  },
-  contracts: {
-    multicall3: {
-      address: '0xca11bde05977b3631167028862be2a173976ca11',
-      blockCreated: 15921452,
-    },
-  },
-} as const;
-
-// Custom Polygon chain configuration
-const customPolygon = {
-  ...polygon,
-  rpcUrls: {
-    default: {
-      http: [APP_CONFIG.NETWORKS.POLYGON.rpcUrl],
-    },
-    public: {
-      http: [APP_CONFIG.NETWORKS.POLYGON.rpcUrl],
-    },
-  },
-} as const;
-
-// Custom Linea chain configuration
-const customLinea = {
-  ...linea,
-  rpcUrls: {
-    default: {
-      http: [APP_CONFIG.NETWORKS.LINEA.rpcUrl],
-    },
-    public: {
-      http: [APP_CONFIG.NETWORKS.LINEA.rpcUrl],
-    },
-  },
-} as const;
-
-// Configure chains & providers
+// Configure chains & providers from the chain list; testnets are left out of
+// production builds unless NEXT_PUBLIC_ENABLE_TESTNETS is set. Reads go through
+// the RPC proxy in the browser, with the public endpoints as the fallback.
 const { chains, publicClient, webSocketPublicClient } = configureChains(
-  [customPolygon, customLinea, bsc, mainnet],
-  [publicProvider()]
+  CHAIN_DEFINITIONS.filter(chain => !chain.testnet || areTestnetsAllowed()).map(toWagmiChain),
+  [
+    jsonRpcProvider({
+      rpc: chain => {
+        const proxyUrl = getRpcProxyUrl(chain.id);
+        return proxyUrl ? { http: proxyUrl } : null;
+      }
+    }),
+    publicProvider()
+  ]
 );
 
 // Set up wagmi config
-const connectors = [
+const connectors: Connector[] = [
   new MetaMaskConnector({ chains }),
+  // Uses the Coinbase Wallet extension when installed, the smart wallet pop-up otherwise
+  new CoinbaseWalletConnector({ chains, appName: 'Blockchain Wallet Connection Demo' }),
 ];
 
 // Only add WalletConnect if project ID is provided and not the demo ID
-const walletConnectProjectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID;
-if (walletConnectProjectId && 
-    walletConnectProjectId !== 'your-actual-project-id-here' && 
-    walletConnectProjectId !== '8c4f79cc821944d9680842e34466bfbd9') {
+const walletConnectProjectId = getWalletConnectProjectId();
+if (walletConnectProjectId) {
   connectors.push(
     new WalletConnectConnector({
       chains,
@@ -94,16 +57,40 @@ if (walletConnectProjectId &&
           },
         },
         metadata: {
-          name: 'Blockchain Wallet Connection Demo',
-          description: 'Enhanced blockchain wallet connection demo',
-          url: 'https://localhost:3000',
-          icons: ['https://localhost:3000/favicon.ico']
+          ...APP_CONFIG.WALLETCONNECT.METADATA,
+          icons: [...APP_CONFIG.WALLETCONNECT.METADATA.icons]
         }
       },
     })
   );
 }
 
+// Particle Network needs its project keys; without them the wallet is not offered
+const particleConfig = getParticleConfig();
+if (particleConfig) {
+  connectors.push(new ParticleNetworkConnector({ chains, options: particleConfig }));
+}
+
+// Scripted in-memory wallet for development; configure it with ?mockWallet=
+if (!isProduction()) {
+  connectors.push(new SimulatedWalletConnector({ chains }));
+}
+
+// One connector per EIP-6963 announced wallet, keyed by its strategy id so an
+// announced MetaMask replaces the window.ethereum based MetaMaskConnector
+const buildConnectors = (): Connector[] => {
+  const announced = walletRegistry.getAnnouncedProviders()
+    .map(detail => ({ detail, strategy: walletRegistry.getStrategyForProvider(detail) }))
+    .filter(({ strategy }) => !!strategy)
+    .map(({ detail, strategy }) => new EIP6963Connector({ chains, id: strategy!.id, detail }));
+
+  const announcedIds = announced.map(connector => connector.id);
+  return [
+    ...connectors.filter(connector => !announcedIds.includes(connector.id)),
+    ...announced,
+  ];
+};
+
 const config = createConfig({
   autoConnect: true,
   connectors,
@@ -119,6 +106,16 @@ export default function App({ Component, pageProps }: AppProps) {
     setServices(serviceFactory.createAllServices());
   }, []);
 
+  // Keep wagmi connectors in sync with wallets announced over EIP-6963
+  React.useEffect(() => {
+    const unsubscribe = walletRegistry.onProvidersChanged(() => {
+      config.setConnectors(buildConnectors());
+    });
+    walletRegistry.startProviderDiscovery();
+
+    return unsubscribe;
+  }, []);
+
   // Don't render until services are created
   if (!services) {
     return null;
@@ -0,0 +1,12 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSiweAuthService } from '@/services/implementations/SiweAuthService';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  res.setHeader('Set-Cookie', getSiweAuthService().createLogoutCookie());
+  return res.status(200).json({ success: true });
+}
@@ -0,0 +1,20 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSiweAuthService } from '@/services/implementations/SiweAuthService';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const authService = getSiweAuthService();
+    const nonce = await authService.createNonce();
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('Set-Cookie', authService.createNonceCookie(nonce));
+    return res.status(200).json({ nonce });
+  } catch (error) {
+    console.error('Failed to issue SIWE nonce:', error);
+    return res.status(500).json({ error: 'Failed to issue nonce' });
+  }
+}
@@ -0,0 +1,14 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSiweAuthService } from '@/services/implementations/SiweAuthService';
+import { APP_CONFIG } from '@/config/constants';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const session = getSiweAuthService().readSessionToken(req.cookies[APP_CONFIG.AUTH.SESSION_COOKIE]);
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(200).json({ session });
+}
@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSiweAuthService } from '@/services/implementations/SiweAuthService';
+import { APP_CONFIG } from '@/config/constants';
+import { SiweVerifyRequest } from '@/types/auth';
+
+const isVerifyRequest = (body: any): body is SiweVerifyRequest => {
+  return !!body &&
+    typeof body.message === 'string' &&
+    typeof body.signature === 'string' &&
+    /^0x[a-fA-F0-9]+$/.test(body.signature);
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  if (!isVerifyRequest(req.body)) {
+    return res.status(400).json({ error: 'Expected a message and signature' });
+  }
+
+  const host = req.headers.host;
+  if (!host) {
+    return res.status(400).json({ error: 'Missing Host header' });
+  }
+
+  try {
+    const authService = getSiweAuthService();
+    const result = await authService.verify(req.body.message, req.body.signature, host, req.cookies[APP_CONFIG.AUTH.NONCE_COOKIE]);
+
+    // Each nonce is good for one attempt, so its cookie goes either way
+    if (!result.success) {
+      res.setHeader('Set-Cookie', authService.clearNonceCookie());
+      return res.status(401).json({ error: result.error, reason: result.reason });
+    }
+
+    res.setHeader('Set-Cookie', [authService.createSessionCookie(result.session), authService.clearNonceCookie()]);
+    return res.status(200).json({ session: result.session });
+  } catch (error) {
+    console.error('Failed to verify SIWE message:', error);
+    return res.status(500).json({ error: 'Failed to verify sign-in' });
+  }
+}
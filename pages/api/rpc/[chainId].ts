@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getRpcProxyService } from '@/services/implementations/RpcProxyService';
+import { env } from '@/config/environment';
+
+// Callers can write anything into X-Forwarded-For, so only the hop appended by our own
+// reverse proxy is used, and only when one is configured
+const getClientIP = (req: NextApiRequest): string | undefined => {
+  if (env.TRUST_PROXY) {
+    const forwardedFor = req.headers['x-forwarded-for'];
+    const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor || '').split(',');
+    const lastHop = hops[hops.length - 1].trim();
+    if (lastHop) return lastHop;
+  }
+  return req.socket?.remoteAddress;
+};
+
+// Rate limits are counted per client address; the user agent is the caller's to choose
+const getClientId = (req: NextApiRequest): string => getClientIP(req) || 'unknown';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const chainId = Number(req.query.chainId);
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    return res.status(400).json({ error: 'Invalid chain ID' });
+  }
+
+  try {
+    const { status, body, headers = {} } = await getRpcProxyService().forward(chainId, req.body, getClientId(req));
+    res.setHeader('Cache-Control', 'no-store');
+    Object.keys(headers).forEach(name => res.setHeader(name, headers[name]));
+    return res.status(status).json(body);
+  } catch (error) {
+    console.error('Failed to proxy RPC request:', error);
+    return res.status(500).json({ error: 'Failed to proxy RPC request' });
+  }
+}
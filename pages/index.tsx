@@ -1,6 +1,10 @@
 import React from 'react';
 import { Web3StatusImproved } from '@/components/Web3StatusImproved';
 import { NetworkSwitcher } from '@/components/status/NetworkSwitcher';
+import { BalancePanel } from '@/components/BalancePanel';
+import { WalletConnectPanel } from '@/components/WalletConnectPanel';
+import { PermissionsPanel } from '@/components/PermissionsPanel';
+import { SignInPanel } from '@/components/SignInPanel';
 import { Toaster } from 'react-hot-toast';
 
 export default function Home() {
@@ -26,6 +30,10 @@ export default function Home() {
               showHealthMonitor={true}
               showAdvanced={false}
             />
+            <BalancePanel className="mt-4 bg-white" />
+            <SignInPanel className="mt-4 bg-white" />
+            <PermissionsPanel className="mt-4 bg-white" />
+            <WalletConnectPanel className="mt-4 bg-white" />
           </div>
 
           {/* Network Status */}
@@ -8,6 +8,13 @@ const dev = process.env.NODE_ENV !== 'production';
 const hostname = process.env.HOSTNAME || 'localhost';
 const port = process.env.PORT || 3000;
 
+// Sessions cannot be signed safely without a secret of our own
+if (!dev && !process.env.SESSION_SECRET) {
+  console.error('❌ SESSION_SECRET is not set!');
+  console.error('Please run: npm run generate-secrets');
+  process.exit(1);
+}
+
 // Prepare the Next.js app
 const app = next({ dev, hostname, port });
 const handle = app.getRequestHandler();
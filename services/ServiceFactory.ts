@@ -2,10 +2,27 @@ import { IWalletService } from './interfaces/IWalletService';
 import { INetworkService } from './interfaces/INetworkService';
 import { IStorageService } from './interfaces/IStorageService';
 import { IErrorHandler } from './interfaces/IErrorHandler';
+import { ITransactionService } from './interfaces/ITransactionService';
+import { IBalanceService } from './interfaces/IBalanceService';
+import { IProviderEventBus } from './interfaces/IProviderEventBus';
+import { IWalletConnectService } from './interfaces/IWalletConnectService';
+import { IWatchOnlyService } from './interfaces/IWatchOnlyService';
+import { IWalletConnectionsService } from './interfaces/IWalletConnectionsService';
+import { IIdentityService } from './interfaces/IIdentityService';
+import { ICustomNetworkService } from './interfaces/ICustomNetworkService';
 import { WagmiWalletService } from './implementations/WagmiWalletService';
 import { NetworkService } from './implementations/NetworkService';
 import { BrowserStorageService } from './implementations/BrowserStorageService';
 import { WalletErrorHandler } from './implementations/WalletErrorHandler';
+import { TransactionService } from './implementations/TransactionService';
+import { BalanceService } from './implementations/BalanceService';
+import { ProviderEventBus } from './implementations/ProviderEventBus';
+import { WalletConnectSessionService } from './implementations/WalletConnectSessionService';
+import { createSignClient } from './implementations/WalletConnectClient';
+import { WatchOnlyService } from './implementations/WatchOnlyService';
+import { WalletConnectionsService } from './implementations/WalletConnectionsService';
+import { EnsIdentityService } from './implementations/EnsIdentityService';
+import { CustomNetworkService } from './implementations/CustomNetworkService';
 import { MockWagmiAdapter } from './implementations/WagmiAdapter';
 
 export interface ServiceFactoryConfig {
@@ -43,6 +60,16 @@ export class ServiceFactory {
     return this.services.get(key);
   }
 
+  createProviderEventBus(): IProviderEventBus {
+    const key = 'providerEventBus';
+    if (!this.services.has(key)) {
+      const eventBus = new ProviderEventBus();
+      eventBus.start();
+      this.services.set(key, eventBus);
+    }
+    return this.services.get(key);
+  }
+
   createWalletService(): IWalletService {
     const key = 'walletService';
     if (!this.services.has(key)) {
@@ -53,7 +80,8 @@ export class ServiceFactory {
       this.services.set(key, new WagmiWalletService(
         storageService,
         errorHandler,
-        new MockWagmiAdapter()
+        new MockWagmiAdapter(),
+        this.createProviderEventBus()
       ));
     }
     return this.services.get(key);
@@ -70,7 +98,93 @@ export class ServiceFactory {
         {
           useNetwork: () => ({} as any),
           useSwitchNetwork: () => ({} as any)
-        }
+        },
+        this.createStorageService(),
+        { eventBus: this.createProviderEventBus() }
+      ));
+    }
+    return this.services.get(key);
+  }
+
+  createTransactionService(): ITransactionService {
+    const key = 'transactionService';
+    if (!this.services.has(key)) {
+      this.services.set(key, new TransactionService(
+        this.createWalletService(),
+        this.createNetworkService(),
+        this.createStorageService(),
+        this.createErrorHandler()
+      ));
+    }
+    return this.services.get(key);
+  }
+
+  createBalanceService(): IBalanceService {
+    const key = 'balanceService';
+    if (!this.services.has(key)) {
+      this.services.set(key, new BalanceService(
+        this.createNetworkService(),
+        this.createErrorHandler()
+      ));
+    }
+    return this.services.get(key);
+  }
+
+  // The sign client is only created once sessions are restored or a pairing starts
+  createWalletConnectService(): IWalletConnectService {
+    const key = 'walletConnectService';
+    if (!this.services.has(key)) {
+      this.services.set(key, new WalletConnectSessionService(
+        this.createStorageService(),
+        this.createErrorHandler(),
+        createSignClient
+      ));
+    }
+    return this.services.get(key);
+  }
+
+  createWatchOnlyService(): IWatchOnlyService {
+    const key = 'watchOnlyService';
+    if (!this.services.has(key)) {
+      this.services.set(key, new WatchOnlyService(
+        this.createStorageService(),
+        this.createErrorHandler(),
+        // Share the ENS cache with the rest of the app
+        { resolveName: name => this.createIdentityService().resolveName(name) }
+      ));
+    }
+    return this.services.get(key);
+  }
+
+  createWalletConnectionsService(): IWalletConnectionsService {
+    const key = 'walletConnectionsService';
+    if (!this.services.has(key)) {
+      this.services.set(key, new WalletConnectionsService(
+        this.createStorageService(),
+        this.createErrorHandler(),
+        this.createWalletService()
+      ));
+    }
+    return this.services.get(key);
+  }
+
+  createIdentityService(): IIdentityService {
+    const key = 'identityService';
+    if (!this.services.has(key)) {
+      this.services.set(key, new EnsIdentityService(
+        this.createStorageService(),
+        this.createErrorHandler()
+      ));
+    }
+    return this.services.get(key);
+  }
+
+  createCustomNetworkService(): ICustomNetworkService {
+    const key = 'customNetworkService';
+    if (!this.services.has(key)) {
+      this.services.set(key, new CustomNetworkService(
+        this.createStorageService(),
+        this.createErrorHandler()
       ));
     }
     return this.services.get(key);
@@ -81,11 +195,24 @@ export class ServiceFactory {
       walletService: this.createWalletService(),
       networkService: this.createNetworkService(),
       storageService: this.createStorageService(),
-      errorHandler: this.createErrorHandler()
+      errorHandler: this.createErrorHandler(),
+      transactionService: this.createTransactionService(),
+      balanceService: this.createBalanceService(),
+      walletConnectService: this.createWalletConnectService(),
+      watchOnlyService: this.createWatchOnlyService(),
+      walletConnectionsService: this.createWalletConnectionsService(),
+      identityService: this.createIdentityService(),
+      customNetworkService: this.createCustomNetworkService()
     };
   }
 
   reset(): void {
+    const transactionService = this.services.get('transactionService') as ITransactionService | undefined;
+    transactionService?.stopTracking();
+    const eventBus = this.services.get('providerEventBus') as IProviderEventBus | undefined;
+    eventBus?.stop();
+    const walletConnectService = this.services.get('walletConnectService') as IWalletConnectService | undefined;
+    walletConnectService?.stop();
     this.services.clear();
   }
 
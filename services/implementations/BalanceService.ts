@@ -0,0 +1,246 @@
+import { formatUnits } from 'viem';
+import {
+  BalanceQueryOptions,
+  BalanceResult,
+  BalanceSnapshot,
+  IBalanceService,
+  TokenBalance
+} from '../interfaces/IBalanceService';
+import { INetworkService } from '../interfaces/INetworkService';
+import { IErrorHandler, ErrorContext } from '../interfaces/IErrorHandler';
+import { APP_CONFIG } from '@/config/constants';
+import { getChainDefinition } from '@/config/chains';
+import { getTokensForChain } from '@/config/tokens';
+import { networkRegistry } from '@/strategies/NetworkStrategy';
+import { ErrorFactory } from '@/types/errors';
+import { TokenDefinition } from '@/types/chain';
+import { SecurityUtils } from '@/utils/security';
+import { rpcClient } from '@/utils/rpcClient';
+import { decodeAggregate3, decodeUint256, encodeAggregate3, encodeBalanceOf } from '@/utils/multicall';
+
+export interface BalanceServiceOptions {
+  cacheTtl?: number;
+  getTokens?: (chainId: number) => TokenDefinition[];
+}
+
+interface CacheEntry {
+  snapshot: BalanceSnapshot;
+  expiresAt: number;
+}
+
+const cacheKey = (address: string, chainId: number): string => `${chainId}:${address.toLowerCase()}`;
+
+export class BalanceService implements IBalanceService {
+  private networkService: INetworkService;
+  private errorHandler: IErrorHandler;
+  private cacheTtl: number;
+  private getTokens: (chainId: number) => TokenDefinition[];
+  private cache: Map<string, CacheEntry> = new Map();
+  private inFlight: Map<string, Promise<BalanceResult>> = new Map();
+
+  constructor(
+    networkService: INetworkService,
+    errorHandler: IErrorHandler,
+    options: BalanceServiceOptions = {}
+  ) {
+    this.networkService = networkService;
+    this.errorHandler = errorHandler;
+    this.cacheTtl = options.cacheTtl ?? APP_CONFIG.TIMEOUTS.BALANCE_CACHE_TTL;
+    this.getTokens = options.getTokens ?? getTokensForChain;
+  }
+
+  async getBalances(address: string, chainId: number, options: BalanceQueryOptions = {}): Promise<BalanceResult> {
+    const context: ErrorContext = {
+      component: 'BalanceService',
+      action: 'getBalances',
+      chainId,
+      timestamp: Date.now()
+    };
+
+    if (!SecurityUtils.validateWalletAddress(address)) {
+      const errorResult = this.errorHandler.handle(
+        ErrorFactory.createValidationError(`Invalid wallet address: ${address}`, 'address', address, 'address'),
+        context
+      );
+      return { success: false, error: errorResult.message };
+    }
+
+    const key = cacheKey(address, chainId);
+    const cached = this.cache.get(key);
+    if (!options.force && cached && this.isFresh(cached, options.blockNumber)) {
+      return { success: true, balances: cached.snapshot };
+    }
+
+    // Components rendering at the same time share one read
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.readBalances(address, chainId, options.blockNumber, context);
+    this.inFlight.set(key, request);
+    try {
+      return await request;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  async getNativeBalance(address: string, chainId: number): Promise<TokenBalance> {
+    const strategy = networkRegistry.getStrategy(chainId);
+    if (!strategy) {
+      throw ErrorFactory.createNetworkError(`Network ${chainId} is not supported`, chainId, chainId);
+    }
+
+    const currency = strategy.getNativeCurrency();
+    const balance = await this.rpc<string>(chainId, 'eth_getBalance', [address, 'latest']);
+    const value = BigInt(balance);
+
+    return {
+      address: null,
+      symbol: currency.symbol,
+      name: currency.name,
+      decimals: currency.decimals,
+      value,
+      formatted: formatUnits(value, currency.decimals)
+    };
+  }
+
+  async getTokenBalances(
+    address: string,
+    chainId: number,
+    tokens: TokenDefinition[] = this.getTokenList(chainId)
+  ): Promise<{ balances: TokenBalance[]; batched: boolean }> {
+    if (tokens.length === 0) {
+      return { balances: [], batched: false };
+    }
+
+    const multicall3 = getChainDefinition(chainId)?.contracts?.multicall3;
+    const values = multicall3
+      ? await this.readTokensBatched(multicall3.address, address, chainId, tokens)
+      : await this.readTokensIndividually(address, chainId, tokens);
+
+    // Tokens whose read failed are left out rather than shown as a zero balance
+    const balances = tokens.reduce<TokenBalance[]>((all, token, index) => {
+      const value = values[index];
+      if (value === null) return all;
+      return all.concat({
+        address: token.address,
+        symbol: token.symbol,
+        name: token.name,
+        decimals: token.decimals,
+        value,
+        formatted: formatUnits(value, token.decimals)
+      });
+    }, []);
+
+    return { balances, batched: !!multicall3 };
+  }
+
+  getTokenList(chainId: number): TokenDefinition[] {
+    return this.getTokens(chainId);
+  }
+
+  getCachedBalances(address: string, chainId: number): BalanceSnapshot | null {
+    const cached = this.cache.get(cacheKey(address, chainId));
+    return cached && this.isFresh(cached) ? cached.snapshot : null;
+  }
+
+  invalidate(address?: string, chainId?: number): void {
+    if (!address && chainId === undefined) {
+      this.cache.clear();
+      return;
+    }
+
+    Array.from(this.cache.entries()).forEach(([key, entry]) => {
+      const matchesAddress = !address || entry.snapshot.address.toLowerCase() === address.toLowerCase();
+      const matchesChain = chainId === undefined || entry.snapshot.chainId === chainId;
+      if (matchesAddress && matchesChain) {
+        this.cache.delete(key);
+      }
+    });
+  }
+
+  private async readBalances(
+    address: string,
+    chainId: number,
+    blockNumber: number | undefined,
+    context: ErrorContext
+  ): Promise<BalanceResult> {
+    try {
+      const [native, tokens] = await Promise.all([
+        this.getNativeBalance(address, chainId),
+        this.getTokenBalances(address, chainId)
+      ]);
+
+      const snapshot: BalanceSnapshot = {
+        address,
+        chainId,
+        native,
+        tokens: tokens.balances,
+        batched: tokens.batched,
+        blockNumber,
+        fetchedAt: Date.now()
+      };
+
+      this.cache.set(cacheKey(address, chainId), { snapshot, expiresAt: Date.now() + this.cacheTtl });
+      return { success: true, balances: snapshot };
+    } catch (error) {
+      const errorResult = this.errorHandler.handle(error, context);
+      return { success: false, error: errorResult.message };
+    }
+  }
+
+  private async readTokensBatched(
+    multicallAddress: string,
+    owner: string,
+    chainId: number,
+    tokens: TokenDefinition[]
+  ): Promise<Array<bigint | null>> {
+    const callData = encodeAggregate3(tokens.map(token => ({
+      target: token.address,
+      allowFailure: true,
+      callData: encodeBalanceOf(owner)
+    })));
+
+    const result = await this.rpc<string>(chainId, 'eth_call', [{ to: multicallAddress, data: callData }, 'latest']);
+    const results = decodeAggregate3(result);
+
+    return tokens.map((_token, index) => {
+      const call = results[index];
+      return call?.success ? decodeUint256(call.returnData) : null;
+    });
+  }
+
+  private async readTokensIndividually(
+    owner: string,
+    chainId: number,
+    tokens: TokenDefinition[]
+  ): Promise<Array<bigint | null>> {
+    return Promise.all(tokens.map(async token => {
+      try {
+        const result = await this.rpc<string>(chainId, 'eth_call', [{ to: token.address, data: encodeBalanceOf(owner) }, 'latest']);
+        return decodeUint256(result);
+      } catch (error) {
+        console.warn(`Failed to read ${token.symbol} balance on chain ${chainId}:`, error);
+        return null;
+      }
+    }));
+  }
+
+  private isFresh(entry: CacheEntry, blockNumber?: number): boolean {
+    if (Date.now() >= entry.expiresAt) return false;
+    if (blockNumber === undefined) return true;
+    return entry.snapshot.blockNumber !== undefined && entry.snapshot.blockNumber >= blockNumber;
+  }
+
+  // Same registry getNativeBalance reads the currency from, whatever the current network mode
+  private async rpc<T>(chainId: number, method: string, params: unknown[]): Promise<T> {
+    const urls = networkRegistry.getRpcUrls(chainId);
+    if (urls.length === 0) {
+      throw ErrorFactory.createNetworkError(`Network ${chainId} is not supported`, chainId, chainId);
+    }
+
+    return rpcClient.call<T>(urls, method, params, { chainId });
+  }
+}
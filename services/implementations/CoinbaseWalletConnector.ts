@@ -0,0 +1,36 @@
+import { Chain } from 'wagmi';
+import { InjectedConnector } from 'wagmi/connectors/injected';
+import { createCoinbaseWalletSDK } from '@coinbase/wallet-sdk';
+import { toWindowProvider } from '@/types/wallet';
+
+// Injected connector backed by the Coinbase Wallet SDK. The SDK hands requests to the
+// extension when it is installed and opens the smart wallet pop-up otherwise
+export class CoinbaseWalletConnector extends InjectedConnector {
+  readonly id: string;
+
+  constructor({ chains, appName, appLogoUrl }: { chains?: Chain[]; appName: string; appLogoUrl?: string }) {
+    let provider: ReturnType<ReturnType<typeof createCoinbaseWalletSDK>['getProvider']> | undefined;
+
+    super({
+      chains,
+      options: {
+        name: 'Coinbase Wallet',
+        getProvider: () => {
+          if (typeof window === 'undefined') return undefined;
+          if (!provider) {
+            provider = createCoinbaseWalletSDK({
+              appName,
+              appLogoUrl: appLogoUrl ?? null,
+              appChainIds: chains?.map(chain => chain.id) ?? [],
+              preference: { options: 'all' }
+            }).getProvider();
+          }
+          return toWindowProvider(provider);
+        },
+        shimDisconnect: true
+      }
+    });
+    this.id = 'coinbaseWallet';
+    this.shimDisconnectKey = `${this.id}.shimDisconnect`;
+  }
+}
@@ -0,0 +1,249 @@
+import {
+  ChainIdVerification,
+  CustomNetworkInput,
+  CustomNetworkResult,
+  ICustomNetworkService
+} from '../interfaces/ICustomNetworkService';
+import { IStorageService } from '../interfaces/IStorageService';
+import { IErrorHandler, ErrorContext } from '../interfaces/IErrorHandler';
+import { APP_CONFIG } from '@/config/constants';
+import { validateChainDefinition } from '@/config/chains';
+import { ChainDefinition } from '@/types/chain';
+import { SecurityUtils } from '@/utils/security';
+import { parseChainId } from '@/utils/chains';
+import { ConfiguredNetworkStrategy, NetworkRegistry, networkRegistry } from '@/strategies/NetworkStrategy';
+
+export interface CustomNetworkServiceOptions {
+  registry?: NetworkRegistry;
+  timeout?: number;
+}
+
+// Gwei values used until the network's own RPC can be read
+const CUSTOM_NETWORK_GAS_FALLBACK = { fast: 3, standard: 2, slow: 1 };
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1'];
+
+// Plain http is only accepted for a node running on this machine
+const isRpcUrl = (value: string): boolean => {
+  try {
+    const { protocol, hostname } = new URL(value);
+    return protocol === 'https:' || (protocol === 'http:' && LOCAL_HOSTS.includes(hostname));
+  } catch {
+    return false;
+  }
+};
+
+const isExplorerUrl = (value: string): boolean => {
+  try {
+    return ['https:', 'http:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const getHostname = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+};
+
+export class CustomNetworkService implements ICustomNetworkService {
+  private storageService: IStorageService;
+  private errorHandler: IErrorHandler;
+  private registry: NetworkRegistry;
+  private timeout: number;
+  private networks: Map<number, ChainDefinition> = new Map();
+
+  constructor(
+    storageService: IStorageService,
+    errorHandler: IErrorHandler,
+    options: CustomNetworkServiceOptions = {}
+  ) {
+    this.storageService = storageService;
+    this.errorHandler = errorHandler;
+    this.registry = options.registry ?? networkRegistry;
+    this.timeout = options.timeout ?? APP_CONFIG.TIMEOUTS.NETWORK_HEALTH_CHECK;
+    this.loadNetworks().forEach(network => this.register(network));
+  }
+
+  getCustomNetworks(): ChainDefinition[] {
+    return Array.from(this.networks.values());
+  }
+
+  isCustomNetwork(chainId: number): boolean {
+    return this.networks.has(chainId);
+  }
+
+  async addCustomNetwork(input: CustomNetworkInput): Promise<CustomNetworkResult> {
+    const context: ErrorContext = {
+      component: 'CustomNetworkService',
+      action: 'addCustomNetwork',
+      chainId: input.chainId,
+      timestamp: Date.now()
+    };
+
+    try {
+      const name = SecurityUtils.sanitizeInput(input.name || '');
+      const symbol = SecurityUtils.sanitizeInput(input.currencySymbol || '');
+      const currencyName = SecurityUtils.sanitizeInput(input.currencyName || '') || symbol;
+      const decimals = input.currencyDecimals ?? 18;
+      const rpcUrl = (input.rpcUrl || '').trim();
+      const explorerUrl = (input.explorerUrl || '').trim();
+
+      if (!name) {
+        return { success: false, error: 'Enter a network name' };
+      }
+      if (!Number.isSafeInteger(input.chainId) || input.chainId <= 0) {
+        return { success: false, error: 'Chain ID must be a positive whole number' };
+      }
+      if (!isRpcUrl(rpcUrl)) {
+        return { success: false, error: 'RPC URL must use https (http is only allowed for localhost)' };
+      }
+      // EIP-3085 limits the currency symbol to 2-6 characters
+      if (symbol.length < 2 || symbol.length > 6) {
+        return { success: false, error: 'Currency symbol must be 2 to 6 characters' };
+      }
+      if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+        return { success: false, error: 'Currency decimals must be a whole number from 0 to 36' };
+      }
+      if (explorerUrl && !isExplorerUrl(explorerUrl)) {
+        return { success: false, error: 'Block explorer URL must be an http(s) URL' };
+      }
+
+      const existing = this.registry.getStrategy(input.chainId);
+      if (existing) {
+        return { success: false, error: `Chain ID ${input.chainId} is already configured as ${existing.name}` };
+      }
+
+      const verification = await this.verifyChainId(rpcUrl, input.chainId);
+      if (!verification.success) {
+        return { success: false, error: verification.error };
+      }
+
+      const network: ChainDefinition = {
+        id: input.chainId,
+        key: `CUSTOM_${input.chainId}`,
+        name,
+        network: name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || `chain-${input.chainId}`,
+        nativeCurrency: { name: currencyName, symbol, decimals },
+        rpcUrls: [rpcUrl],
+        blockExplorers: explorerUrl ? [{ name: `${name} Explorer`, url: explorerUrl }] : [],
+        testnet: input.testnet ?? false,
+        icons: { emoji: '🌐' },
+        gas: { fallback: { ...CUSTOM_NETWORK_GAS_FALLBACK } }
+      };
+
+      const errors = validateChainDefinition(network);
+      if (errors.length > 0) {
+        return { success: false, error: errors.join('; ') };
+      }
+
+      this.register(network);
+      this.saveNetworks();
+      return { success: true, network };
+    } catch (error) {
+      const errorResult = this.errorHandler.handle(error, context);
+      return { success: false, error: errorResult.message };
+    }
+  }
+
+  removeCustomNetwork(chainId: number): boolean {
+    const network = this.networks.get(chainId);
+    if (!network) return false;
+
+    this.networks.delete(chainId);
+    this.registry.unregister(chainId);
+
+    // Another custom network may still use the same host
+    const hostname = getHostname(network.rpcUrls[0]);
+    if (!this.getCustomNetworks().some(other => getHostname(other.rpcUrls[0]) === hostname)) {
+      SecurityUtils.untrustHost(hostname);
+    }
+
+    this.saveNetworks();
+    return true;
+  }
+
+  async verifyChainId(rpcUrl: string, chainId: number): Promise<ChainIdVerification> {
+    const payload = {
+      jsonrpc: '2.0',
+      method: 'eth_chainId',
+      params: [],
+      id: SecurityUtils.generateSecureToken(8)
+    };
+
+    if (!isRpcUrl(rpcUrl) || !SecurityUtils.validateRPCRequest(payload)) {
+      return { success: false, error: 'Invalid RPC URL' };
+    }
+
+    let data: any;
+    try {
+      const response = await fetch(rpcUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(this.timeout)
+      });
+
+      if (!response.ok) {
+        return { success: false, error: `The RPC answered with HTTP ${response.status}` };
+      }
+      data = await response.json();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { success: false, error: `Could not reach the RPC: ${reason}` };
+    }
+
+    if (data?.error) {
+      return { success: false, error: `The RPC refused eth_chainId: ${data.error.message || data.error.code}` };
+    }
+
+    const reported = parseChainId(data?.result);
+    if (reported === null) {
+      return { success: false, error: 'The RPC did not return a chain ID' };
+    }
+    if (reported !== chainId) {
+      return {
+        success: false,
+        chainId: reported,
+        error: `The RPC reports chain ID ${reported}, not ${chainId}`
+      };
+    }
+
+    return { success: true, chainId: reported };
+  }
+
+  private register(network: ChainDefinition): void {
+    this.networks.set(network.id, network);
+    this.registry.register(new ConfiguredNetworkStrategy(network));
+    SecurityUtils.trustHost(getHostname(network.rpcUrls[0]));
+  }
+
+  // Saved networks are checked again, and skipped if a built-in chain now uses their id
+  private loadNetworks(): ChainDefinition[] {
+    const saved = this.storageService.getJSON<ChainDefinition[]>(APP_CONFIG.STORAGE_KEYS.CUSTOM_NETWORKS);
+    if (!Array.isArray(saved)) return [];
+
+    return saved.filter(network => {
+      if (validateChainDefinition(network).length > 0 || !isRpcUrl(network.rpcUrls[0])) return false;
+
+      const existing = this.registry.getStrategy(network.id);
+      return !existing || (existing instanceof ConfiguredNetworkStrategy && existing.getDefinition().key === network.key);
+    });
+  }
+
+  private saveNetworks(): void {
+    try {
+      this.storageService.setJSON(APP_CONFIG.STORAGE_KEYS.CUSTOM_NETWORKS, this.getCustomNetworks());
+    } catch (error) {
+      const context: ErrorContext = {
+        component: 'CustomNetworkService',
+        action: 'saveNetworks',
+        timestamp: Date.now()
+      };
+      this.errorHandler.handle(error, context);
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { Chain } from 'wagmi';
+import { InjectedConnector } from 'wagmi/connectors/injected';
+import { EIP6963ProviderDetail, toWindowProvider } from '@/types/wallet';
+
+// Injected connector bound to a single EIP-6963 announced provider instead of window.ethereum
+export class EIP6963Connector extends InjectedConnector {
+  readonly id: string;
+
+  constructor({ chains, id, detail }: { chains?: Chain[]; id: string; detail: EIP6963ProviderDetail }) {
+    super({
+      chains,
+      options: {
+        name: detail.info.name,
+        getProvider: () => toWindowProvider(detail.provider),
+        shimDisconnect: true
+      }
+    });
+    this.id = id;
+  }
+}
@@ -0,0 +1,173 @@
+import {
+  AddressResolution,
+  EnsIdentity,
+  EnsResolver,
+  IIdentityService
+} from '../interfaces/IIdentityService';
+import { IStorageService } from '../interfaces/IStorageService';
+import { IErrorHandler, ErrorContext } from '../interfaces/IErrorHandler';
+import { APP_CONFIG } from '@/config/constants';
+import { SecurityUtils } from '@/utils/security';
+import { isEnsName, lookupEnsName, resolveEnsAvatar, resolveEnsName } from '@/utils/ens';
+
+export interface EnsIdentityServiceOptions {
+  resolver?: EnsResolver;
+  cacheTtl?: number;
+  missCacheTtl?: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// ENS lives on Ethereum mainnet whatever chain the wallet is on
+const mainnetResolver: EnsResolver = {
+  resolveName: name => resolveEnsName(name, 1),
+  lookupName: address => lookupEnsName(address, 1),
+  resolveAvatar: (name, owner) => resolveEnsAvatar(name, owner, 1)
+};
+
+const { ENS_CACHE_PREFIX } = APP_CONFIG.STORAGE_KEYS;
+const nameKey = (name: string) => `${ENS_CACHE_PREFIX}name:${name}`;
+const addressKey = (address: string) => `${ENS_CACHE_PREFIX}address:${address.toLowerCase()}`;
+
+// Forward and reverse ENS resolution with avatars. Results, including names and addresses
+// without a record, are cached in storage so a reload does not repeat the RPC calls.
+export class EnsIdentityService implements IIdentityService {
+  private storageService: IStorageService;
+  private errorHandler: IErrorHandler;
+  private resolver: EnsResolver;
+  private cacheTtl: number;
+  private missCacheTtl: number;
+  private inFlight: Map<string, Promise<any>> = new Map();
+
+  constructor(
+    storageService: IStorageService,
+    errorHandler: IErrorHandler,
+    options: EnsIdentityServiceOptions = {}
+  ) {
+    this.storageService = storageService;
+    this.errorHandler = errorHandler;
+    this.resolver = options.resolver ?? mainnetResolver;
+    this.cacheTtl = options.cacheTtl ?? APP_CONFIG.TIMEOUTS.ENS_CACHE_TTL;
+    this.missCacheTtl = options.missCacheTtl ?? APP_CONFIG.TIMEOUTS.ENS_MISS_CACHE_TTL;
+  }
+
+  async resolveName(name: string): Promise<string | null> {
+    const normalized = (name || '').trim().toLowerCase();
+    if (!isEnsName(normalized)) return null;
+
+    const key = nameKey(normalized);
+    const cached = this.readCache<string | null>(key);
+    if (cached !== undefined) return cached;
+
+    return this.dedupe(key, async () => {
+      const address = await this.resolver.resolveName(normalized);
+      const valid = address && SecurityUtils.validateWalletAddress(address) ? address : null;
+      this.writeCache(key, valid, valid ? this.cacheTtl : this.missCacheTtl);
+      return valid;
+    });
+  }
+
+  async lookupAddress(address: string): Promise<EnsIdentity> {
+    const empty: EnsIdentity = { address, name: null, avatar: null };
+    if (!SecurityUtils.validateWalletAddress(address)) return empty;
+
+    const cached = this.getCachedIdentity(address);
+    if (cached) return cached;
+
+    const key = addressKey(address);
+    return this.dedupe(key, async () => {
+      try {
+        const name = await this.resolver.lookupName(address);
+        // A broken avatar should not cost the name
+        const avatar = name
+          ? await this.resolver.resolveAvatar(name, address).catch(error => {
+            console.warn(`Failed to load the avatar for ${name}:`, error);
+            return null;
+          })
+          : null;
+
+        const identity: EnsIdentity = { address, name, avatar };
+        this.writeCache(key, identity, name ? this.cacheTtl : this.missCacheTtl);
+        if (name) {
+          this.writeCache(nameKey(name.toLowerCase()), address, this.cacheTtl);
+        }
+        return identity;
+      } catch (error) {
+        // Lookups run in the background for every address shown, so failures stay quiet
+        console.warn(`ENS lookup failed for ${address}:`, error);
+        return empty;
+      }
+    });
+  }
+
+  async resolveAddressInput(value: string): Promise<AddressResolution> {
+    const input = (value || '').trim();
+
+    if (SecurityUtils.validateWalletAddress(input)) {
+      return { success: true, address: input };
+    }
+    if (!isEnsName(input)) {
+      return { success: false, error: 'Enter a valid address or ENS name' };
+    }
+
+    const name = input.toLowerCase();
+    try {
+      const address = await this.resolveName(name);
+      return address
+        ? { success: true, address, name }
+        : { success: false, error: `${name} does not resolve to an address` };
+    } catch (error) {
+      const context: ErrorContext = {
+        component: 'EnsIdentityService',
+        action: 'resolveAddressInput',
+        chainId: 1,
+        timestamp: Date.now()
+      };
+      const errorResult = this.errorHandler.handle(error, context);
+      return { success: false, error: errorResult.message };
+    }
+  }
+
+  getCachedIdentity(address: string): EnsIdentity | null {
+    if (!SecurityUtils.validateWalletAddress(address)) return null;
+    return this.readCache<EnsIdentity>(addressKey(address)) ?? null;
+  }
+
+  clearCache(): void {
+    const keys = this.storageService.getKeys().filter(key => key.startsWith(ENS_CACHE_PREFIX));
+    this.storageService.removeMultiple(keys);
+  }
+
+  // undefined means "not cached"; null is a cached miss
+  private readCache<T>(key: string): T | undefined {
+    const entry = this.storageService.getJSON<CacheEntry<T>>(key);
+    if (!entry || typeof entry.expiresAt !== 'number') return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.storageService.removeItem(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  private writeCache<T>(key: string, value: T, ttl: number): void {
+    try {
+      this.storageService.setJSON<CacheEntry<T>>(key, { value, expiresAt: Date.now() + ttl });
+    } catch (error) {
+      console.warn('Failed to cache ENS result:', error);
+    }
+  }
+
+  // Components showing the same address share one lookup
+  private dedupe<T>(key: string, run: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = run().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return request;
+  }
+}
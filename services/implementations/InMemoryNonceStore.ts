@@ -0,0 +1,28 @@
+import { INonceStore } from '../interfaces/INonceStore';
+
+// Default nonce store; nonces live for the lifetime of the server process
+export class InMemoryNonceStore implements INonceStore {
+  private nonces: Map<string, number> = new Map();
+
+  async create(nonce: string, expiresAt: number): Promise<void> {
+    await this.purgeExpired();
+    this.nonces.set(nonce, expiresAt);
+  }
+
+  async consume(nonce: string): Promise<boolean> {
+    const expiresAt = this.nonces.get(nonce);
+    if (expiresAt === undefined) return false;
+
+    // Nonces are single use, even when the verification that follows fails
+    this.nonces.delete(nonce);
+    return expiresAt > Date.now();
+  }
+
+  async purgeExpired(now: number = Date.now()): Promise<void> {
+    this.nonces.forEach((expiresAt, nonce) => {
+      if (expiresAt <= now) {
+        this.nonces.delete(nonce);
+      }
+    });
+  }
+}
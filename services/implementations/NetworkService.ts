@@ -1,9 +1,23 @@
 import { useNetwork, useSwitchNetwork } from 'wagmi';
 import { polygon, linea } from 'wagmi/chains';
-import { INetworkService, Network, NetworkSwitchResult } from '../interfaces/INetworkService';
+import { INetworkService, Network, NetworkHealth, NetworkModeResult, NetworkSwitchResult, NetworkValidationResult } from '../interfaces/INetworkService';
 import { IErrorHandler, ErrorContext } from '../interfaces/IErrorHandler';
+import { IStorageService } from '../interfaces/IStorageService';
+import { AccountChangedEvent, ChainChangedEvent, DisconnectEvent, IProviderEventBus, Unsubscribe } from '../interfaces/IProviderEventBus';
+import { ProviderEventBus } from './ProviderEventBus';
 import { APP_CONFIG } from '@/config/constants';
+import { getChainDefinition } from '@/config/chains';
+import { areTestnetsAllowed } from '@/config/environment';
+import { NetworkMode } from '@/types/chain';
+import { getPrimaryExplorerUrl, getPrimaryRpcUrl, getRpcEndpoints } from '@/utils/chains';
 import { networkToast } from '@/utils/toast';
+import { rpcClient } from '@/utils/rpcClient';
+import { ConfiguredNetworkStrategy, networkRegistry } from '@/strategies/NetworkStrategy';
+
+export interface NetworkServiceOptions {
+  allowTestnets?: boolean;
+  eventBus?: IProviderEventBus;
+}
 
 export class NetworkService implements INetworkService {
   private errorHandler: IErrorHandler;
@@ -11,21 +25,101 @@ export class NetworkService implements INetworkService {
     useNetwork: typeof useNetwork;
     useSwitchNetwork: typeof useSwitchNetwork;
   };
+  private storageService?: IStorageService;
+  private allowTestnets: boolean;
+  private networkMode: NetworkMode = 'mainnet';
+  private eventBus: IProviderEventBus;
+  private currentChainId: number | null = null;
 
   constructor(
     errorHandler: IErrorHandler,
     hooks: {
       useNetwork: typeof useNetwork;
       useSwitchNetwork: typeof useSwitchNetwork;
-    }
+    },
+    storageService?: IStorageService,
+    options: NetworkServiceOptions = {}
   ) {
     this.errorHandler = errorHandler;
     this.hooks = hooks;
+    this.storageService = storageService;
+    this.allowTestnets = options.allowTestnets ?? areTestnetsAllowed();
+    this.networkMode = this.loadNetworkMode();
+    this.eventBus = options.eventBus ?? new ProviderEventBus();
+
+    // The wallet reports the chain it is on; nothing needs to poll eth_chainId
+    this.eventBus.onChainChanged(({ chainId }) => {
+      this.currentChainId = chainId;
+    });
+    this.eventBus.onDisconnect(() => {
+      this.currentChainId = null;
+    });
+  }
+
+  onAccountChanged(listener: (event: AccountChangedEvent) => void): Unsubscribe {
+    return this.eventBus.onAccountChanged(listener);
+  }
+
+  onChainChanged(listener: (event: ChainChangedEvent) => void): Unsubscribe {
+    return this.eventBus.onChainChanged(listener);
+  }
+
+  onDisconnect(listener: (event: DisconnectEvent) => void): Unsubscribe {
+    return this.eventBus.onDisconnect(listener);
+  }
+
+  getNetworkMode(): NetworkMode {
+    return this.networkMode;
+  }
+
+  isNetworkModeAllowed(mode: NetworkMode): boolean {
+    return mode === 'mainnet' || this.allowTestnets;
+  }
+
+  setNetworkMode(mode: NetworkMode): NetworkModeResult {
+    if (!this.isNetworkModeAllowed(mode)) {
+      return {
+        success: false,
+        mode: this.networkMode,
+        error: 'Testnet mode is disabled in this build'
+      };
+    }
+
+    this.networkMode = mode;
+    try {
+      const preferences = this.storageService?.getJSON<Record<string, unknown>>(APP_CONFIG.STORAGE_KEYS.USER_PREFERENCES);
+      this.storageService?.setJSON(APP_CONFIG.STORAGE_KEYS.USER_PREFERENCES, { ...preferences, networkMode: mode });
+    } catch (error) {
+      // The mode still applies for this session even if it cannot be saved
+      this.errorHandler.handle(error, {
+        component: 'NetworkService',
+        action: 'setNetworkMode',
+        timestamp: Date.now()
+      });
+    }
+
+    return { success: true, mode };
   }
 
+  // The chain the wallet last reported, whether or not it is supported in the current mode
   getCurrentNetwork(): Network | null {
     try {
-      return null;
+      if (this.currentChainId === null) {
+        return null;
+      }
+
+      const supported = this.getSupportedNetworks().find(network => network.id === this.currentChainId);
+      if (supported) {
+        return supported;
+      }
+
+      const chain = getChainDefinition(this.currentChainId);
+      return {
+        id: this.currentChainId,
+        name: chain?.name || `Chain ${this.currentChainId}`,
+        rpcUrl: chain ? getPrimaryRpcUrl(chain) : '',
+        isTestnet: chain?.testnet
+      };
     } catch (error) {
       const context: ErrorContext = {
         component: 'NetworkService',
@@ -73,54 +167,24 @@ export class NetworkService implements INetworkService {
     }
   }
 
+  // Built-in chains plus any the user added, for the current mode
   getSupportedNetworks(): Network[] {
     try {
-      return [
-        {
-          id: APP_CONFIG.NETWORKS.ETHEREUM.id,
-          name: APP_CONFIG.NETWORKS.ETHEREUM.name,
-          rpcUrl: APP_CONFIG.NETWORKS.ETHEREUM.rpcUrl,
-          blockExplorer: 'https://etherscan.io',
-          nativeCurrency: {
-            name: 'ETH',
-            symbol: 'ETH',
-            decimals: 18
-          }
-        },
-        {
-          id: APP_CONFIG.NETWORKS.POLYGON.id,
-          name: APP_CONFIG.NETWORKS.POLYGON.name,
-          rpcUrl: APP_CONFIG.NETWORKS.POLYGON.rpcUrl,
-          blockExplorer: 'https://polygonscan.com',
-          nativeCurrency: {
-            name: 'MATIC',
-            symbol: 'MATIC',
-            decimals: 18
-          }
-        },
-        {
-          id: APP_CONFIG.NETWORKS.LINEA.id,
-          name: APP_CONFIG.NETWORKS.LINEA.name,
-          rpcUrl: APP_CONFIG.NETWORKS.LINEA.rpcUrl,
-          blockExplorer: 'https://lineascan.build',
-          nativeCurrency: {
-            name: 'ETH',
-            symbol: 'ETH',
-            decimals: 18
-          }
-        },
-        {
-          id: APP_CONFIG.NETWORKS.BSC.id,
-          name: APP_CONFIG.NETWORKS.BSC.name,
-          rpcUrl: APP_CONFIG.NETWORKS.BSC.rpcUrl,
-          blockExplorer: 'https://bscscan.com',
-          nativeCurrency: {
-            name: 'BNB',
-            symbol: 'BNB',
-            decimals: 18
-          }
-        }
-      ];
+      const isTestnetMode = this.networkMode === 'testnet';
+      return networkRegistry.getAllStrategies()
+        .filter((strategy): strategy is ConfiguredNetworkStrategy =>
+          strategy instanceof ConfiguredNetworkStrategy && strategy.isTestnet() === isTestnetMode
+        )
+        .map(strategy => strategy.getDefinition())
+        .map(chain => ({
+          id: chain.id,
+          name: chain.name,
+          rpcUrl: getPrimaryRpcUrl(chain),
+          rpcUrls: rpcClient.tracker.getRankedUrls(getRpcEndpoints(chain)),
+          blockExplorer: getPrimaryExplorerUrl(chain),
+          isTestnet: chain.testnet,
+          nativeCurrency: { ...chain.nativeCurrency }
+        }));
     } catch (error) {
       const context: ErrorContext = {
         component: 'NetworkService',
@@ -134,7 +198,7 @@ export class NetworkService implements INetworkService {
 
   isNetworkSupported(networkId: number): boolean {
     try {
-      return APP_CONFIG.DEFAULT_NETWORK_IDS.includes(networkId);
+      return this.getSupportedNetworks().some(network => network.id === networkId);
     } catch (error) {
       const context: ErrorContext = {
         component: 'NetworkService',
@@ -147,7 +211,7 @@ export class NetworkService implements INetworkService {
     }
   }
 
-  async validateNetwork(networkId: number): Promise<boolean> {
+  async validateNetwork(networkId: number): Promise<NetworkValidationResult> {
     const context: ErrorContext = {
       component: 'NetworkService',
       action: 'validateNetwork',
@@ -156,14 +220,33 @@ export class NetworkService implements INetworkService {
     };
 
     try {
-      if (!this.isNetworkSupported(networkId)) {
-        return false;
+      const strategy = networkRegistry.getStrategy(networkId);
+      if (!strategy || !this.isNetworkSupported(networkId)) {
+        return {
+          isValid: false,
+          error: `Network ${networkId} is not supported`,
+          failures: []
+        };
+      }
+
+      // The RPC has to answer as the expected chain and keep up before anyone switches to it
+      const validation = await strategy.validateConnection();
+      if (validation.healthy) {
+        return { isValid: true, failures: [] };
       }
 
-      return true;
+      return {
+        isValid: false,
+        error: validation.failures.map(failure => failure.message).join('; '),
+        failures: validation.failures
+      };
     } catch (error) {
-      this.errorHandler.handle(error, context);
-      return false;
+      const errorResult = this.errorHandler.handle(error, context);
+      return {
+        isValid: false,
+        error: errorResult.message,
+        failures: []
+      };
     }
   }
 
@@ -197,11 +280,13 @@ export class NetworkService implements INetworkService {
     }
   }
 
-  async checkNetworkHealth(networkId: number): Promise<{
-    isHealthy: boolean;
-    latency: number;
-    error?: string;
-  }> {
+  private loadNetworkMode(): NetworkMode {
+    const preferences = this.storageService?.getJSON<{ networkMode?: NetworkMode }>(APP_CONFIG.STORAGE_KEYS.USER_PREFERENCES);
+    const mode = preferences?.networkMode;
+    return mode === 'testnet' && this.isNetworkModeAllowed(mode) ? 'testnet' : 'mainnet';
+  }
+
+  async checkNetworkHealth(networkId: number): Promise<NetworkHealth> {
     const context: ErrorContext = {
       component: 'NetworkService',
       action: 'checkNetworkHealth',
@@ -210,25 +295,34 @@ export class NetworkService implements INetworkService {
     };
 
     try {
-      const network = this.getSupportedNetworks().find(n => n.id === networkId);
-      if (!network) {
+      const strategy = networkRegistry.getStrategy(networkId);
+      if (!(strategy instanceof ConfiguredNetworkStrategy)) {
         return {
           isHealthy: false,
           latency: 0,
-          error: 'Network not supported'
+          error: 'Network not supported',
+          endpoints: []
         };
       }
 
+      const validation = await strategy.validateConnection();
+
       return {
-        isHealthy: true,
-        latency: 100
+        isHealthy: validation.healthy,
+        latency: validation.latency,
+        ...(!validation.healthy && {
+          error: validation.failures.map(failure => failure.message).join('; '),
+          failures: validation.failures
+        }),
+        endpoints: strategy.getEndpointHealth()
       };
     } catch (error) {
       const errorResult = this.errorHandler.handle(error, context);
       return {
         isHealthy: false,
         latency: 0,
-        error: errorResult.message
+        error: errorResult.message,
+        endpoints: []
       };
     }
   }
@@ -0,0 +1,44 @@
+import { Chain } from 'wagmi';
+import { InjectedConnector } from 'wagmi/connectors/injected';
+import { ParticleNetwork } from '@particle-network/auth';
+import { ParticleProvider } from '@particle-network/provider';
+import { toWindowProvider } from '@/types/wallet';
+
+export interface ParticleNetworkConnectorOptions {
+  projectId: string;
+  clientKey: string;
+  appId: string;
+}
+
+// Injected connector backed by a Particle Network MPC wallet. eth_requestAccounts
+// opens the Particle login pop-up, so no browser extension is involved
+export class ParticleNetworkConnector extends InjectedConnector {
+  readonly id: string;
+
+  constructor({ chains, options }: { chains?: Chain[]; options: ParticleNetworkConnectorOptions }) {
+    let provider: ParticleProvider | undefined;
+
+    super({
+      chains,
+      options: {
+        name: 'Particle Network',
+        getProvider: () => {
+          if (typeof window === 'undefined') return undefined;
+          if (!provider) {
+            const particle = new ParticleNetwork({
+              ...options,
+              chainName: 'Ethereum',
+              chainId: 1,
+              wallet: { displayWalletEntry: false }
+            });
+            provider = new ParticleProvider(particle.auth);
+          }
+          return toWindowProvider(provider);
+        },
+        shimDisconnect: true
+      }
+    });
+    this.id = 'particleNetwork';
+    this.shimDisconnectKey = `${this.id}.shimDisconnect`;
+  }
+}
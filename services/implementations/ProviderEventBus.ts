@@ -0,0 +1,134 @@
+import {
+  AccountChangedEvent,
+  ChainChangedEvent,
+  DisconnectEvent,
+  IProviderEventBus,
+  ProviderEventMap,
+  Unsubscribe
+} from '../interfaces/IProviderEventBus';
+import { WalletRegistry, walletRegistry } from '@/strategies/WalletStrategy';
+import { WalletProvider } from '@/types/wallet';
+import { SecurityUtils } from '@/utils/security';
+import { TypedEventEmitter } from '@/utils/events';
+import { parseChainId } from '@/utils/chains';
+
+interface AttachedProvider {
+  walletType: string;
+  handlers: Record<string, (...args: any[]) => void>;
+  address?: string | null;
+  chainId?: number;
+}
+
+// Some wallets pass a single address instead of a list
+const normaliseAccounts = (value: unknown): string[] => {
+  const accounts = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+  return accounts.filter((account): account is string => typeof account === 'string' && SecurityUtils.validateWalletAddress(account));
+};
+
+// Subscribes to accountsChanged, chainChanged and disconnect on wallet providers and
+// re-emits them as typed events tagged with the wallet they came from
+export class ProviderEventBus implements IProviderEventBus {
+  private emitter = new TypedEventEmitter<ProviderEventMap>();
+  private providers: Map<WalletProvider, AttachedProvider> = new Map();
+  private stopFollowingRegistry: Unsubscribe | null = null;
+
+  constructor(private readonly registry: WalletRegistry = walletRegistry) {}
+
+  onAccountChanged(listener: (event: AccountChangedEvent) => void): Unsubscribe {
+    return this.emitter.on('accountChanged', listener);
+  }
+
+  onChainChanged(listener: (event: ChainChangedEvent) => void): Unsubscribe {
+    return this.emitter.on('chainChanged', listener);
+  }
+
+  onDisconnect(listener: (event: DisconnectEvent) => void): Unsubscribe {
+    return this.emitter.on('disconnect', listener);
+  }
+
+  attach(walletType: string, provider: WalletProvider): void {
+    // A provider reachable through several strategies is only followed once
+    if (this.providers.has(provider) || typeof provider?.on !== 'function') return;
+
+    const attached: AttachedProvider = { walletType, handlers: {} };
+    attached.handlers = {
+      accountsChanged: (accounts: unknown) => this.handleAccountsChanged(attached, accounts),
+      chainChanged: (chainId: unknown) => this.handleChainChanged(attached, chainId),
+      connect: (info: { chainId?: unknown } | undefined) => this.handleChainChanged(attached, info?.chainId),
+      disconnect: (error: { code?: number; message?: string } | undefined) => this.handleDisconnect(attached, error)
+    };
+
+    Object.keys(attached.handlers).forEach(event => provider.on(event, attached.handlers[event]));
+    this.providers.set(provider, attached);
+  }
+
+  detach(provider: WalletProvider): void {
+    const attached = this.providers.get(provider);
+    if (!attached) return;
+
+    if (typeof provider.removeListener === 'function') {
+      Object.keys(attached.handlers).forEach(event => provider.removeListener(event, attached.handlers[event]));
+    }
+    this.providers.delete(provider);
+  }
+
+  start(): void {
+    if (this.stopFollowingRegistry) return;
+
+    this.syncWithRegistry();
+    this.stopFollowingRegistry = this.registry.onProvidersChanged(() => this.syncWithRegistry());
+  }
+
+  stop(): void {
+    this.stopFollowingRegistry?.();
+    this.stopFollowingRegistry = null;
+    Array.from(this.providers.keys()).forEach(provider => this.detach(provider));
+  }
+
+  private syncWithRegistry(): void {
+    const current = new Set<WalletProvider>();
+
+    this.registry.getAvailableStrategies().forEach(strategy => {
+      const provider = strategy.getProvider();
+      if (!provider) return;
+
+      current.add(provider);
+      this.attach(strategy.id, provider);
+    });
+
+    // Wallets that are no longer available stop reporting
+    Array.from(this.providers.keys())
+      .filter(provider => !current.has(provider))
+      .forEach(provider => this.detach(provider));
+  }
+
+  private handleAccountsChanged(attached: AttachedProvider, value: unknown): void {
+    const accounts = normaliseAccounts(value);
+    const address = accounts[0] ?? null;
+
+    // Wallets often repeat the event without an actual change
+    if (attached.address !== undefined && attached.address?.toLowerCase() === address?.toLowerCase()) return;
+    attached.address = address;
+
+    this.emitter.emit('accountChanged', { walletType: attached.walletType, accounts, address });
+  }
+
+  private handleChainChanged(attached: AttachedProvider, value: unknown): void {
+    const chainId = parseChainId(value);
+    if (chainId === null || attached.chainId === chainId) return;
+    attached.chainId = chainId;
+
+    this.emitter.emit('chainChanged', { walletType: attached.walletType, chainId });
+  }
+
+  private handleDisconnect(attached: AttachedProvider, error?: { code?: number; message?: string }): void {
+    attached.address = undefined;
+    attached.chainId = undefined;
+
+    this.emitter.emit('disconnect', {
+      walletType: attached.walletType,
+      ...(typeof error?.code === 'number' && { code: error.code }),
+      ...(error?.message && { message: error.message })
+    });
+  }
+}
@@ -0,0 +1,165 @@
+import { APP_CONFIG } from '@/config/constants';
+import { getChainDefinition } from '@/config/chains';
+import { ErrorCode } from '@/types/errors';
+import { RpcEndpointTracker } from '@/utils/rpc';
+import { SecurityUtils, rpcProxyRateLimiter } from '@/utils/security';
+
+export interface RpcProxyOptions {
+  // Upstream URLs per chain id; read from <chain key>_RPC_URL when not given
+  upstreams?: Record<number, string[]>;
+  tracker?: RpcEndpointTracker;
+  rateLimiter?: (identifier: string, cost: number) => boolean;
+  timeout?: number;
+}
+
+export interface RpcProxyResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+interface JsonRpcErrorResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  error: { code: number; message: string };
+}
+
+const toId = (payload: any): string | number | null => {
+  const id = payload?.id;
+  return typeof id === 'string' || typeof id === 'number' ? id : null;
+};
+
+const rpcError = (id: string | number | null, code: number, message: string): JsonRpcErrorResponse => ({
+  jsonrpc: '2.0',
+  id,
+  error: { code, message }
+});
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    return ['https:', 'http:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Comma-separated list of URLs, e.g. ETHEREUM_RPC_URL=https://mainnet.infura.io/v3/<key>,https://...
+const readUpstreamsFromEnv = (chainKey: string): string[] => {
+  const value = process.env[`${chainKey}${APP_CONFIG.RPC_PROXY.ENV_SUFFIX}`] || '';
+  return value.split(',').map(url => url.trim()).filter(isHttpUrl);
+};
+
+const getHostname = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+};
+
+// Forwards read-only JSON-RPC from the browser to upstreams that only the server knows,
+// so provider API keys never reach the client bundle; never import from client code
+export class RpcProxyService {
+  private upstreams: Record<number, string[]>;
+  private tracker: RpcEndpointTracker;
+  private rateLimiter: (identifier: string, cost: number) => boolean;
+  private timeout: number;
+
+  constructor(options: RpcProxyOptions = {}) {
+    this.upstreams = { ...options.upstreams };
+    this.tracker = options.tracker || new RpcEndpointTracker();
+    this.rateLimiter = options.rateLimiter || rpcProxyRateLimiter;
+    this.timeout = options.timeout ?? APP_CONFIG.TIMEOUTS.RPC_REQUEST;
+
+    // Configured upstreams are trusted even when their hosts are not in the chain list
+    Object.keys(this.upstreams).forEach(chainId => {
+      this.upstreams[Number(chainId)].forEach(url => SecurityUtils.trustHost(getHostname(url)));
+    });
+  }
+
+  // Configured upstreams, or the chain's public endpoints when none are set; empty for unknown chains
+  getUpstreamUrls(chainId: number): string[] {
+    const chain = getChainDefinition(chainId);
+    if (!chain) return [];
+
+    if (!this.upstreams[chainId]) {
+      this.upstreams[chainId] = readUpstreamsFromEnv(chain.key);
+      this.upstreams[chainId].forEach(url => SecurityUtils.trustHost(getHostname(url)));
+    }
+
+    return this.upstreams[chainId].length > 0 ? this.upstreams[chainId] : chain.rpcUrls;
+  }
+
+  // Accepts a single JSON-RPC request or a batch; each request must pass the method allowlist
+  async forward(chainId: number, body: unknown, clientId: string): Promise<RpcProxyResponse> {
+    const upstreams = this.getUpstreamUrls(chainId);
+    if (upstreams.length === 0) {
+      return { status: 404, body: rpcError(null, ErrorCode.RPC_INVALID_REQUEST, `Chain ${chainId} is not supported`) };
+    }
+
+    const isBatch = Array.isArray(body);
+    const requests: unknown[] = isBatch ? body as unknown[] : [body];
+    if (!body || typeof body !== 'object' || requests.length === 0 || requests.length > APP_CONFIG.RPC_PROXY.MAX_BATCH_SIZE) {
+      return { status: 400, body: rpcError(null, ErrorCode.RPC_INVALID_REQUEST, 'Invalid JSON-RPC request') };
+    }
+
+    // Each batch entry counts; a full window always frees the budget, so clients back off for one
+    if (!this.rateLimiter(clientId, requests.length)) {
+      return {
+        status: 429,
+        body: rpcError(null, ErrorCode.RPC_LIMIT_EXCEEDED, 'Too many requests'),
+        headers: { 'Retry-After': String(Math.ceil(APP_CONFIG.RPC_PROXY.RATE_LIMIT_WINDOW / 1000)) }
+      };
+    }
+
+    const responses = await Promise.all(requests.map(request => this.forwardOne(upstreams, request, chainId)));
+    if (!isBatch) return responses[0];
+
+    // A batch no upstream answered gets 502 as a whole, so clients fail over as they do for single
+    // requests; otherwise each entry carries its own result or JSON-RPC error
+    const unanswered = responses.some(response => response.status === 502);
+    if (unanswered && !responses.some(response => response.status === 200)) {
+      return { status: 502, body: rpcError(null, ErrorCode.RPC_INTERNAL_ERROR, 'Upstream RPC unavailable') };
+    }
+    return { status: 200, body: responses.map(response => response.body) };
+  }
+
+  private async forwardOne(upstreams: string[], request: any, chainId: number): Promise<RpcProxyResponse> {
+    const id = toId(request);
+
+    if (request?.method === 'eth_getLogs' && !SecurityUtils.isBoundedLogFilter(request.params?.[0])) {
+      const range = APP_CONFIG.RPC_PROXY.MAX_LOG_BLOCK_RANGE;
+      return { status: 400, body: rpcError(id, ErrorCode.RPC_INVALID_PARAMS, `eth_getLogs needs a blockHash or a fromBlock/toBlock range of at most ${range} blocks`) };
+    }
+
+    if (!SecurityUtils.validateRPCRequest(request)) {
+      return typeof request?.method === 'string' && request.jsonrpc === '2.0'
+        ? { status: 403, body: rpcError(id, ErrorCode.RPC_METHOD_NOT_FOUND, `Method ${request.method} is not allowed`) }
+        : { status: 400, body: rpcError(id, ErrorCode.RPC_INVALID_REQUEST, 'Invalid JSON-RPC request') };
+    }
+
+    const payload = { jsonrpc: '2.0', method: request.method, params: request.params, id };
+    try {
+      const data = await this.tracker.request(upstreams, payload, { chainId, timeout: this.timeout });
+      return {
+        status: 200,
+        body: data?.error
+          ? { jsonrpc: '2.0', id, error: data.error }
+          : { jsonrpc: '2.0', id, result: data?.result ?? null }
+      };
+    } catch {
+      // Upstream errors name the upstream URL, which may carry an API key
+      return { status: 502, body: rpcError(id, ErrorCode.RPC_INTERNAL_ERROR, 'Upstream RPC unavailable') };
+    }
+  }
+}
+
+let rpcProxyService = new RpcProxyService();
+
+export const getRpcProxyService = (): RpcProxyService => rpcProxyService;
+
+// Swap the upstreams or rate limiter without touching the API route
+export const configureRpcProxy = (options: RpcProxyOptions): RpcProxyService => {
+  rpcProxyService = new RpcProxyService(options);
+  return rpcProxyService;
+};
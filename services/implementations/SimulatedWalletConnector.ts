@@ -0,0 +1,22 @@
+import { Chain } from 'wagmi';
+import { InjectedConnector } from 'wagmi/connectors/injected';
+import { getSimulatedWallet } from './SimulatedWalletProvider';
+
+// Injected connector bound to the shared simulated wallet, for development builds
+// and ?mockWallet= demos
+export class SimulatedWalletConnector extends InjectedConnector {
+  readonly id: string;
+
+  constructor({ chains }: { chains?: Chain[] } = {}) {
+    super({
+      chains,
+      options: {
+        name: 'Simulated Wallet',
+        getProvider: () => (typeof window === 'undefined' ? undefined : getSimulatedWallet() as any),
+        shimDisconnect: true
+      }
+    });
+    this.id = 'simulatedWallet';
+    this.shimDisconnectKey = `${this.id}.shimDisconnect`;
+  }
+}
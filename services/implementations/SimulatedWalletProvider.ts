@@ -0,0 +1,444 @@
+import { WalletProvider } from '@/types/wallet';
+import { AddEthereumChainParameter } from '@/types/chain';
+import { parseChainId, toHexChainId } from '@/utils/chains';
+import { SIMULATED_ACCOUNTS, parseMockWalletParam } from '@/utils/mockWallet';
+
+type Handler = (...args: any[]) => void;
+
+export interface SimulatedFailure {
+  // Request method to fail, or '*' for every method
+  method: string;
+  code: number;
+  message?: string;
+  // Number of requests to fail; omitted means every request until cleared
+  times?: number;
+}
+
+export interface SimulatedWalletOptions {
+  accounts?: string[];
+  chainId?: number;
+  // Chains the wallet already knows; switching to any other answers 4902
+  chains?: number[];
+  // Milliseconds every request waits before it settles
+  latency?: number;
+  // Whether the site is already authorized, as after an earlier visit
+  authorized?: boolean;
+  // Balance reported by eth_getBalance, in wei
+  balance?: bigint;
+  // Whether the wallet implements EIP-5792 batched calls; on by default
+  batching?: boolean;
+  failures?: SimulatedFailure[];
+}
+
+export interface SimulatedRequest {
+  method: string;
+  params?: any[] | Record<string, any>;
+  timestamp: number;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+// EIP-1193 and JSON-RPC messages for the codes the simulator raises
+const PROVIDER_ERROR_MESSAGES: Record<number, string> = {
+  4001: 'User rejected the request.',
+  4100: 'The requested method and/or account has not been authorized by the user.',
+  4200: 'The Provider does not support the requested method.',
+  4900: 'The Provider is disconnected from all chains.',
+  4901: 'The Provider is not connected to the requested chain.',
+  4902: 'Unrecognized chain ID. Try adding the chain using wallet_addEthereumChain first.',
+  5710: 'Unsupported chain ID.',
+  5730: 'Unknown bundle ID.',
+  [-32002]: 'Request already pending. Please wait.',
+  [-32602]: 'Invalid method parameters.',
+  [-32603]: 'Internal JSON-RPC error.'
+};
+
+export const createProviderError = (code: number, message?: string): Error & { code: number } => {
+  return Object.assign(new Error(message || PROVIDER_ERROR_MESSAGES[code] || 'Simulated wallet error.'), { code });
+};
+
+// Scripted in-memory EIP-1193 wallet for development, demos and tests. It keeps
+// the wallet state itself, so flows such as 4902 -> add chain -> switch behave
+// like a real extension without one being installed.
+export class SimulatedWalletProvider implements WalletProvider {
+  readonly isSimulated = true;
+  selectedAddress?: string;
+  chainId?: string;
+  networkVersion?: string;
+
+  private accounts: string[];
+  private currentChainId: number;
+  private knownChains: Set<number>;
+  private latency: number;
+  private authorized: boolean;
+  private authorizedAt: number | null;
+  private connected = true;
+  private balance: bigint;
+  private batching: boolean;
+  // Batch id -> chain and the hash of the single transaction that ran it
+  private batches: Map<string, { chainId: number; hash: string }> = new Map();
+  private failures: SimulatedFailure[];
+  private requests: SimulatedRequest[] = [];
+  private handlers: Map<string, Set<Handler>> = new Map();
+  private nonce = 0;
+
+  constructor(options: SimulatedWalletOptions = {}) {
+    this.accounts = (options.accounts || SIMULATED_ACCOUNTS.slice(0, 1)).map(account => account.toLowerCase());
+    this.currentChainId = options.chainId ?? 1;
+    this.knownChains = new Set([1, this.currentChainId, ...(options.chains || [])]);
+    this.latency = options.latency ?? 0;
+    this.authorized = options.authorized ?? false;
+    this.authorizedAt = this.authorized ? Date.now() : null;
+    this.balance = options.balance ?? BigInt('10000000000000000000');
+    this.batching = options.batching ?? true;
+    this.failures = (options.failures || []).map(failure => ({ ...failure }));
+    this.syncLegacyFields();
+  }
+
+  async request({ method, params }: { method: string; params?: any[] | Record<string, any> }): Promise<any> {
+    const entry: SimulatedRequest = { method, params, timestamp: Date.now() };
+    this.requests.push(entry);
+
+    if (this.latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latency));
+    }
+
+    try {
+      const failure = this.takeFailure(method);
+      if (failure) {
+        throw createProviderError(failure.code, failure.message);
+      }
+      if (!this.connected) {
+        throw createProviderError(4900);
+      }
+
+      entry.result = this.handle(method, Array.isArray(params) ? params : params ? [params] : []);
+      return entry.result;
+    } catch (error: any) {
+      entry.error = { code: error.code, message: error.message };
+      throw error;
+    }
+  }
+
+  on(eventName: string, handler: Handler): void {
+    if (!this.handlers.has(eventName)) {
+      this.handlers.set(eventName, new Set());
+    }
+    this.handlers.get(eventName)!.add(handler);
+  }
+
+  removeListener(eventName: string, handler: Handler): void {
+    this.handlers.get(eventName)?.delete(handler);
+  }
+
+  // Failure injection
+  failNext(method: string, code: number, message?: string): void {
+    this.failures.push({ method, code, message, times: 1 });
+  }
+
+  setFailure(failure: SimulatedFailure): void {
+    this.failures.push({ ...failure });
+  }
+
+  clearFailures(): void {
+    this.failures = [];
+  }
+
+  setLatency(latency: number): void {
+    this.latency = latency;
+  }
+
+  // Wallet-side actions, as if the user changed something in the extension
+  setAccounts(accounts: string[]): void {
+    this.accounts = accounts.map(account => account.toLowerCase());
+    this.syncLegacyFields();
+    if (this.authorized) {
+      this.emit('accountsChanged', this.getAuthorizedAccounts());
+    }
+  }
+
+  setChainId(chainId: number): void {
+    this.knownChains.add(chainId);
+    if (chainId === this.currentChainId) return;
+
+    this.currentChainId = chainId;
+    this.syncLegacyFields();
+    this.emit('chainChanged', toHexChainId(chainId));
+  }
+
+  lock(): void {
+    this.revokeAccounts();
+  }
+
+  disconnect(): void {
+    if (!this.connected) return;
+    this.connected = false;
+    this.emit('disconnect', createProviderError(4900));
+  }
+
+  reconnect(): void {
+    if (this.connected) return;
+    this.connected = true;
+    this.emit('connect', { chainId: toHexChainId(this.currentChainId) });
+  }
+
+  // Inspection
+  getRequests(method?: string): SimulatedRequest[] {
+    return method ? this.requests.filter(request => request.method === method) : [...this.requests];
+  }
+
+  clearRequests(): void {
+    this.requests = [];
+  }
+
+  isAuthorized(): boolean {
+    return this.authorized;
+  }
+
+  getChainId(): number {
+    return this.currentChainId;
+  }
+
+  hasChain(chainId: number): boolean {
+    return this.knownChains.has(chainId);
+  }
+
+  private handle(method: string, params: any[]): unknown {
+    switch (method) {
+      case 'eth_requestAccounts':
+        this.authorizeAccounts();
+        return this.getAuthorizedAccounts();
+      case 'eth_accounts':
+        return this.getAuthorizedAccounts();
+      case 'eth_chainId':
+        return toHexChainId(this.currentChainId);
+      case 'net_version':
+        return String(this.currentChainId);
+      case 'eth_blockNumber':
+        return toHexChainId(1000000 + this.requests.length);
+      case 'eth_getBalance':
+        return `0x${this.balance.toString(16)}`;
+      case 'wallet_switchEthereumChain':
+        return this.switchChain(params[0]?.chainId);
+      case 'wallet_addEthereumChain':
+        return this.addChain(params[0]);
+      case 'wallet_getPermissions':
+        return this.getPermissions();
+      case 'wallet_requestPermissions':
+        this.requireAccountsPermission(params[0]);
+        this.authorizeAccounts();
+        return this.getPermissions();
+      case 'wallet_revokePermissions':
+        this.requireAccountsPermission(params[0]);
+        this.revokeAccounts();
+        return null;
+      case 'personal_sign':
+        this.requireAccount(params[1]);
+        return createSimulatedSignature(`${params[1]}:${params[0]}`);
+      case 'eth_signTypedData_v4':
+        this.requireAccount(params[0]);
+        return createSimulatedSignature(`${params[0]}:${typeof params[1] === 'string' ? params[1] : JSON.stringify(params[1])}`);
+      case 'eth_sendTransaction': {
+        const transaction = params[0] || {};
+        this.requireAccount(transaction.from);
+        return this.createTransactionHash(transaction);
+      }
+      case 'wallet_getCapabilities':
+        this.requireBatching(method);
+        this.requireAccount(params[0]);
+        return this.getCapabilities(params[1]);
+      case 'wallet_sendCalls':
+        this.requireBatching(method);
+        return this.sendCalls(params[0]);
+      case 'wallet_getCallsStatus':
+        this.requireBatching(method);
+        return this.getCallsStatus(params[0]);
+      default:
+        throw createProviderError(4200, `The Provider does not support the requested method: ${method}.`);
+    }
+  }
+
+  private switchChain(value: unknown): null {
+    const chainId = parseChainId(value);
+    if (!chainId) {
+      throw createProviderError(-32602);
+    }
+    if (!this.knownChains.has(chainId)) {
+      throw createProviderError(4902, `Unrecognized chain ID "${value}". Try adding the chain using wallet_addEthereumChain first.`);
+    }
+    this.setChainId(chainId);
+    return null;
+  }
+
+  // Adds the chain without switching; callers follow up with wallet_switchEthereumChain
+  private addChain(chain?: AddEthereumChainParameter): null {
+    const chainId = parseChainId(chain?.chainId);
+    if (!chainId || !chain?.rpcUrls?.length) {
+      throw createProviderError(-32602);
+    }
+    this.knownChains.add(chainId);
+    return null;
+  }
+
+  private authorizeAccounts(): void {
+    if (this.authorized) return;
+    this.authorized = true;
+    this.authorizedAt = Date.now();
+    this.syncLegacyFields();
+    this.emit('accountsChanged', this.getAuthorizedAccounts());
+  }
+
+  private revokeAccounts(): void {
+    if (!this.authorized) return;
+    this.authorized = false;
+    this.authorizedAt = null;
+    this.syncLegacyFields();
+    this.emit('accountsChanged', []);
+  }
+
+  // eth_accounts is the only capability the simulator grants
+  private requireAccountsPermission(request: unknown): void {
+    const capabilities = request && typeof request === 'object' ? Object.keys(request) : [];
+    if (capabilities.length === 0 || capabilities.some(capability => capability !== 'eth_accounts')) {
+      throw createProviderError(-32602);
+    }
+  }
+
+  private getPermissions(): Array<Record<string, unknown>> {
+    if (!this.authorized) return [];
+    return [{
+      parentCapability: 'eth_accounts',
+      invoker: typeof window !== 'undefined' ? window.location.origin : 'http://localhost',
+      caveats: [{ type: 'restrictReturnedAccounts', value: this.getAuthorizedAccounts() }],
+      date: this.authorizedAt ?? Date.now()
+    }];
+  }
+
+  private requireBatching(method: string): void {
+    if (!this.batching) {
+      throw createProviderError(4200, `The Provider does not support the requested method: ${method}.`);
+    }
+  }
+
+  // Every known chain runs batches atomically
+  private getCapabilities(chainIds?: unknown): Record<string, Record<string, unknown>> {
+    const requested = Array.isArray(chainIds)
+      ? chainIds.map(parseChainId).filter((chainId): chainId is number => chainId !== null)
+      : Array.from(this.knownChains);
+
+    return requested
+      .filter(chainId => this.knownChains.has(chainId))
+      .reduce<Record<string, Record<string, unknown>>>((capabilities, chainId) => {
+        capabilities[toHexChainId(chainId)] = { atomic: { status: 'supported' } };
+        return capabilities;
+      }, {});
+  }
+
+  private sendCalls(request?: { from?: string; chainId?: string; calls?: Array<Record<string, string>> }): { id: string } {
+    this.requireAccount(request?.from);
+    if (!Array.isArray(request?.calls) || request!.calls.length === 0) {
+      throw createProviderError(-32602);
+    }
+    if (parseChainId(request!.chainId) !== this.currentChainId) {
+      throw createProviderError(5710);
+    }
+
+    // An atomic batch lands as one transaction
+    const hash = this.createTransactionHash({ to: request!.calls.map(call => call.to).join(',') });
+    const id = createSimulatedSignature(`batch:${hash}`).slice(0, 66);
+    this.batches.set(id, { chainId: this.currentChainId, hash });
+    return { id };
+  }
+
+  // Simulated batches are mined as soon as they are sent
+  private getCallsStatus(id: unknown): Record<string, unknown> {
+    const batch = typeof id === 'string' ? this.batches.get(id) : undefined;
+    if (!batch) {
+      throw createProviderError(5730);
+    }
+
+    return {
+      version: '2.0.0',
+      id,
+      chainId: toHexChainId(batch.chainId),
+      status: 200,
+      atomic: true,
+      receipts: [{
+        transactionHash: batch.hash,
+        status: '0x1',
+        blockNumber: toHexChainId(1000000 + this.requests.length),
+        logs: []
+      }]
+    };
+  }
+
+  private createTransactionHash(transaction: Record<string, string | undefined>): string {
+    this.nonce += 1;
+    return createSimulatedSignature(`${this.currentChainId}:${this.nonce}:${transaction.to}:${transaction.value || '0x0'}`).slice(0, 66);
+  }
+
+  private requireAccount(address: unknown): void {
+    const authorized = this.getAuthorizedAccounts();
+    if (typeof address !== 'string' || !authorized.includes(address.toLowerCase())) {
+      throw createProviderError(4100);
+    }
+  }
+
+  private getAuthorizedAccounts(): string[] {
+    return this.authorized ? [...this.accounts] : [];
+  }
+
+  private takeFailure(method: string): SimulatedFailure | undefined {
+    const failure = this.failures.find(candidate => candidate.method === method || candidate.method === '*');
+    if (!failure) return undefined;
+
+    if (failure.times !== undefined) {
+      failure.times -= 1;
+      if (failure.times <= 0) {
+        this.failures = this.failures.filter(candidate => candidate !== failure);
+      }
+    }
+    return failure;
+  }
+
+  private syncLegacyFields(): void {
+    this.selectedAddress = this.authorized ? this.accounts[0] : undefined;
+    this.chainId = toHexChainId(this.currentChainId);
+    this.networkVersion = String(this.currentChainId);
+  }
+
+  private emit(eventName: string, ...args: unknown[]): void {
+    this.handlers.get(eventName)?.forEach(handler => {
+      try {
+        handler(...args);
+      } catch (error) {
+        console.warn(`Simulated wallet ${eventName} listener failed:`, error);
+      }
+    });
+  }
+}
+
+// Deterministic 65-byte signature so tests and demos can assert on it
+export const createSimulatedSignature = (payload: string): string => {
+  let hash = 0;
+  for (let i = 0; i < payload.length; i++) {
+    hash = (hash * 31 + payload.charCodeAt(i)) >>> 0;
+  }
+  return `0x${hash.toString(16).padStart(8, '0').repeat(16)}1b`;
+};
+
+let simulatedWallet: SimulatedWalletProvider | null = null;
+
+// Shared instance used by the strategy and the wagmi connector, configured from
+// the ?mockWallet= query parameter when the page was opened with one
+export const getSimulatedWallet = (): SimulatedWalletProvider => {
+  if (!simulatedWallet) {
+    const search = typeof window !== 'undefined' ? window.location.search : '';
+    simulatedWallet = new SimulatedWalletProvider(parseMockWalletParam(search) || {});
+  }
+  return simulatedWallet;
+};
+
+export const resetSimulatedWallet = (): void => {
+  simulatedWallet = null;
+};
@@ -0,0 +1,225 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PublicClient, createPublicClient, fallback, http, verifyMessage } from 'viem';
+import { INonceStore } from '../interfaces/INonceStore';
+import { InMemoryNonceStore } from './InMemoryNonceStore';
+import { getRpcProxyService } from './RpcProxyService';
+import { SiweSession, SiweVerifyFailure, SiweVerifyResult } from '@/types/auth';
+import { parseSiweMessage } from '@/utils/siwe';
+import { SecurityUtils } from '@/utils/security';
+import { APP_CONFIG } from '@/config/constants';
+import { getSessionSecret, isProduction } from '@/config/environment';
+
+export type SignatureVerifier = Pick<PublicClient, 'verifyMessage'>;
+
+export interface SiweAuthOptions {
+  nonceStore?: INonceStore;
+  secret?: string;
+  nonceTtl?: number;
+  sessionTtl?: number;
+  // Checks signatures on the message's chain; defaults to a client over the RPC proxy's upstreams
+  getVerifier?: (chainId: number) => SignatureVerifier;
+}
+
+const toBase64Url = (value: string): string => Buffer.from(value, 'utf8').toString('base64url');
+const fromBase64Url = (value: string): string => Buffer.from(value, 'base64url').toString('utf8');
+
+const createVerifier = (chainId: number): SignatureVerifier =>
+  createPublicClient({ transport: fallback(getRpcProxyService().getUpstreamUrls(chainId).map(url => http(url))) });
+
+const failure = (reason: SiweVerifyFailure, error: string): SiweVerifyResult => ({
+  success: false,
+  reason,
+  error
+});
+
+// Server-side SIWE verification and session token handling; never import from client code
+export class SiweAuthService {
+  private nonceStore: INonceStore;
+  private secret: string;
+  private nonceTtl: number;
+  private sessionTtl: number;
+  private getVerifier: (chainId: number) => SignatureVerifier;
+  private verifiers: Map<number, SignatureVerifier> = new Map();
+
+  constructor(options: SiweAuthOptions = {}) {
+    this.nonceStore = options.nonceStore || new InMemoryNonceStore();
+    this.secret = options.secret || getSessionSecret();
+    this.nonceTtl = options.nonceTtl ?? APP_CONFIG.AUTH.NONCE_TTL;
+    this.sessionTtl = options.sessionTtl ?? APP_CONFIG.AUTH.SESSION_TTL;
+    this.getVerifier = options.getVerifier || createVerifier;
+  }
+
+  async createNonce(): Promise<string> {
+    const nonce = SecurityUtils.generateSecureToken(16);
+    await this.nonceStore.create(nonce, Date.now() + this.nonceTtl);
+    return nonce;
+  }
+
+  // nonceToken is the nonce cookie sent along with the message
+  async verify(message: string, signature: string, expectedDomain: string, nonceToken: string | undefined): Promise<SiweVerifyResult> {
+    const fields = parseSiweMessage(message);
+    if (!fields) {
+      return failure('invalid_message', 'Malformed sign-in message');
+    }
+
+    if (fields.domain !== expectedDomain) {
+      return failure('domain_mismatch', 'Sign-in message was issued for a different domain');
+    }
+
+    if (!SecurityUtils.validateChainId(fields.chainId)) {
+      return failure('unsupported_chain', `Chain ${fields.chainId} is not supported`);
+    }
+
+    // A nonce fetched by another client cannot be used, nor burnt, from this one
+    if (this.readNonceToken(nonceToken) !== fields.nonce) {
+      return failure('invalid_nonce', 'Sign-in nonce was not issued to this browser');
+    }
+
+    // Consume before checking the signature so a nonce can never be replayed
+    const nonceValid = await this.nonceStore.consume(fields.nonce);
+    if (!nonceValid) {
+      return failure('invalid_nonce', 'Sign-in nonce is invalid or has expired');
+    }
+
+    const now = Date.now();
+    if (fields.expirationTime && Date.parse(fields.expirationTime) <= now) {
+      return failure('expired', 'Sign-in message has expired');
+    }
+
+    if (fields.notBefore && Date.parse(fields.notBefore) > now) {
+      return failure('not_yet_valid', 'Sign-in message is not valid yet');
+    }
+
+    if (!(await this.verifySignature(fields.address, fields.chainId, message, signature))) {
+      return failure('invalid_signature', 'Signature does not match the sign-in message');
+    }
+
+    const expiresAt = fields.expirationTime
+      ? Math.min(Date.parse(fields.expirationTime), now + this.sessionTtl)
+      : now + this.sessionTtl;
+
+    return {
+      success: true,
+      session: {
+        address: fields.address,
+        chainId: fields.chainId,
+        issuedAt: now,
+        expiresAt
+      }
+    };
+  }
+
+  createSessionToken(session: SiweSession): string {
+    const payload = toBase64Url(JSON.stringify(session));
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  readSessionToken(token: string | undefined): SiweSession | null {
+    if (!token) return null;
+
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    if (!this.matchesSignature(payload, signature)) return null;
+
+    try {
+      const session = JSON.parse(fromBase64Url(payload)) as SiweSession;
+      if (!SecurityUtils.validateWalletAddress(session.address) || session.expiresAt <= Date.now()) {
+        return null;
+      }
+      return session;
+    } catch {
+      return null;
+    }
+  }
+
+  createNonceCookie(nonce: string): string {
+    return this.serializeCookie(APP_CONFIG.AUTH.NONCE_COOKIE, `${nonce}.${this.sign(`nonce:${nonce}`)}`, Math.floor(this.nonceTtl / 1000));
+  }
+
+  clearNonceCookie(): string {
+    return this.serializeCookie(APP_CONFIG.AUTH.NONCE_COOKIE, '', 0);
+  }
+
+  createSessionCookie(session: SiweSession): string {
+    const maxAge = Math.max(0, Math.floor((session.expiresAt - Date.now()) / 1000));
+    return this.serializeCookie(APP_CONFIG.AUTH.SESSION_COOKIE, this.createSessionToken(session), maxAge);
+  }
+
+  createLogoutCookie(): string {
+    return this.serializeCookie(APP_CONFIG.AUTH.SESSION_COOKIE, '', 0);
+  }
+
+  // Account keys are checked locally. Anything else goes to the chain, where smart contract
+  // accounts answer through ERC-1271 and accounts not deployed yet through ERC-6492.
+  private async verifySignature(address: string, chainId: number, message: string, signature: string): Promise<boolean> {
+    const params = { address: address as `0x${string}`, message, signature: signature as `0x${string}` };
+
+    try {
+      if (await verifyMessage(params)) return true;
+    } catch {
+      // Not an ECDSA signature; contract accounts may sign in other formats
+    }
+
+    try {
+      let verifier = this.verifiers.get(chainId);
+      if (!verifier) {
+        verifier = this.getVerifier(chainId);
+        this.verifiers.set(chainId, verifier);
+      }
+      return await verifier.verifyMessage(params);
+    } catch (error) {
+      console.warn('SIWE signature verification failed:', error);
+      return false;
+    }
+  }
+
+  private readNonceToken(token: string | undefined): string | null {
+    if (!token) return null;
+
+    const [nonce, signature] = token.split('.');
+    if (!nonce || !signature) return null;
+
+    return this.matchesSignature(`nonce:${nonce}`, signature) ? nonce : null;
+  }
+
+  private serializeCookie(name: string, value: string, maxAge: number): string {
+    const parts = [
+      `${name}=${value}`,
+      'Path=/',
+      `Max-Age=${maxAge}`,
+      'HttpOnly',
+      'SameSite=Strict'
+    ];
+
+    if (isProduction()) {
+      parts.push('Secure');
+    }
+
+    return parts.join('; ');
+  }
+
+  private matchesSignature(payload: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
+
+// Created on first use, so a missing production secret fails the auth routes rather than the build
+let siweAuthService: SiweAuthService | null = null;
+
+export const getSiweAuthService = (): SiweAuthService => {
+  if (!siweAuthService) siweAuthService = new SiweAuthService();
+  return siweAuthService;
+};
+
+// Swap the nonce store (e.g. Redis) without touching the API routes
+export const configureSiweAuth = (options: SiweAuthOptions): SiweAuthService => {
+  siweAuthService = new SiweAuthService(options);
+  return siweAuthService;
+};
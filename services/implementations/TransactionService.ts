@@ -0,0 +1,506 @@
+import {
+  CallsReceipt,
+  CallsRequest,
+  CallsResult,
+  CallsStatusResult,
+  ITransactionService,
+  PreparedTransaction,
+  TrackedTransaction,
+  TransactionListener,
+  TransactionRequest,
+  TransactionResult,
+  TransactionStatus
+} from '../interfaces/ITransactionService';
+import { IWalletService } from '../interfaces/IWalletService';
+import { INetworkService } from '../interfaces/INetworkService';
+import { IStorageService } from '../interfaces/IStorageService';
+import { IErrorHandler, ErrorContext } from '../interfaces/IErrorHandler';
+import { APP_CONFIG } from '@/config/constants';
+import { SecurityUtils } from '@/utils/security';
+import { transactionToast } from '@/utils/toast';
+import { rpcClient } from '@/utils/rpcClient';
+import { networkRegistry } from '@/strategies/NetworkStrategy';
+import { ErrorCode, ErrorFactory, TransactionError, isTransactionError } from '@/types/errors';
+
+export interface TransactionServiceOptions {
+  pollInterval?: number;
+  dropTimeout?: number;
+}
+
+interface RpcReceipt {
+  status: string;
+  blockNumber: string;
+}
+
+const toQuantity = (value: bigint | number): string => `0x${value.toString(16)}`;
+
+// Batches sent one transaction per call get an id of their own, so getCallsStatus can tell them from wallet batch ids
+const SEQUENTIAL_ID_PREFIX = 'sequential:';
+
+const toSequentialId = (chainId: number, hashes: string[]): string => `${SEQUENTIAL_ID_PREFIX}${chainId}:${hashes.join(',')}`;
+
+const parseSequentialId = (id: string): { chainId: number; hashes: string[] } | null => {
+  if (!id.startsWith(SEQUENTIAL_ID_PREFIX)) return null;
+  const [chainId, hashes = ''] = id.slice(SEQUENTIAL_ID_PREFIX.length).split(':');
+  const parsed = Number(chainId);
+  return Number.isInteger(parsed) && hashes ? { chainId: parsed, hashes: hashes.split(',') } : null;
+};
+
+export class TransactionService implements ITransactionService {
+  private walletService: IWalletService;
+  private networkService: INetworkService;
+  private storageService: IStorageService;
+  private errorHandler: IErrorHandler;
+  private pollInterval: number;
+  private dropTimeout: number;
+  private transactions: Map<string, TrackedTransaction> = new Map();
+  private listeners: Set<TransactionListener> = new Set();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private isPolling = false;
+
+  constructor(
+    walletService: IWalletService,
+    networkService: INetworkService,
+    storageService: IStorageService,
+    errorHandler: IErrorHandler,
+    options: TransactionServiceOptions = {}
+  ) {
+    this.walletService = walletService;
+    this.networkService = networkService;
+    this.storageService = storageService;
+    this.errorHandler = errorHandler;
+    this.pollInterval = options.pollInterval ?? APP_CONFIG.TIMEOUTS.TRANSACTION_POLL_INTERVAL;
+    this.dropTimeout = options.dropTimeout ?? APP_CONFIG.TIMEOUTS.TRANSACTION_DROP_TIMEOUT;
+
+    this.loadPendingTransactions();
+  }
+
+  async buildTransaction(request: TransactionRequest): Promise<PreparedTransaction> {
+    if (!SecurityUtils.validateWalletAddress(request.to)) {
+      throw ErrorFactory.createTransactionError(`Invalid recipient address: ${request.to}`, 'build', ErrorCode.TRANSACTION_FAILED, request.chainId);
+    }
+
+    if (!this.networkService.isNetworkSupported(request.chainId)) {
+      throw ErrorFactory.createTransactionError(`Network ${request.chainId} is not supported`, 'build', ErrorCode.NETWORK_UNSUPPORTED, request.chainId);
+    }
+
+    const account = await this.walletService.getAccount();
+    if (!account?.isConnected || !account.address) {
+      throw ErrorFactory.createTransactionError('Connect a wallet before sending a transaction', 'build', ErrorCode.TRANSACTION_FAILED, request.chainId);
+    }
+
+    const nonce = await this.rpc<string>(request.chainId, 'eth_getTransactionCount', [account.address, 'pending']);
+    const gas = request.gas ?? await this.estimateGas(request, account.address);
+
+    return {
+      ...request,
+      from: account.address,
+      nonce: Number(nonce),
+      gas
+    };
+  }
+
+  async estimateGas(request: TransactionRequest, from: string): Promise<bigint> {
+    try {
+      const estimate = await this.rpc<string>(request.chainId, 'eth_estimateGas', [{
+        from,
+        to: request.to,
+        value: request.value !== undefined ? toQuantity(request.value) : undefined,
+        data: request.data
+      }]);
+      return BigInt(estimate);
+    } catch (error) {
+      throw this.toTransactionError(error, 'estimate', request.chainId);
+    }
+  }
+
+  async sendTransaction(request: TransactionRequest): Promise<TransactionResult> {
+    const context: ErrorContext = {
+      component: 'TransactionService',
+      action: 'sendTransaction',
+      chainId: request.chainId,
+      timestamp: Date.now()
+    };
+
+    let prepared: PreparedTransaction;
+    try {
+      prepared = await this.buildTransaction(request);
+    } catch (error) {
+      const errorResult = this.errorHandler.handle(this.toTransactionError(error, 'build', request.chainId), context);
+      return {
+        success: false,
+        error: errorResult.message
+      };
+    }
+
+    // The wallet service reports its own send errors
+    const result = await this.walletService.sendTransaction(prepared);
+    if (!result.success || !result.hash) {
+      return result;
+    }
+
+    const now = Date.now();
+    const transaction: TrackedTransaction = {
+      hash: result.hash,
+      chainId: prepared.chainId,
+      from: prepared.from,
+      to: prepared.to,
+      nonce: prepared.nonce,
+      value: (prepared.value ?? BigInt(0)).toString(),
+      status: 'pending',
+      submittedAt: now,
+      updatedAt: now
+    };
+
+    this.trackTransaction(transaction);
+    transactionToast.submitted();
+
+    return {
+      success: true,
+      hash: result.hash,
+      transaction
+    };
+  }
+
+  async sendCalls(request: CallsRequest): Promise<CallsResult> {
+    const context: ErrorContext = {
+      component: 'TransactionService',
+      action: 'sendCalls',
+      chainId: request.chainId,
+      timestamp: Date.now()
+    };
+
+    try {
+      if (!this.networkService.isNetworkSupported(request.chainId)) {
+        throw ErrorFactory.createTransactionError(`Network ${request.chainId} is not supported`, 'build', ErrorCode.NETWORK_UNSUPPORTED, request.chainId);
+      }
+      if (request.calls.length === 0) {
+        throw ErrorFactory.createTransactionError('A batch needs at least one call', 'build', ErrorCode.TRANSACTION_FAILED, request.chainId);
+      }
+      const invalid = request.calls.find(call => !SecurityUtils.validateWalletAddress(call.to));
+      if (invalid) {
+        throw ErrorFactory.createTransactionError(`Invalid recipient address: ${invalid.to}`, 'build', ErrorCode.TRANSACTION_FAILED, request.chainId);
+      }
+
+      const capabilities = await this.walletService.getWalletCapabilities(request.chainId);
+      if (!capabilities.supportsChain) {
+        throw ErrorFactory.createTransactionError(`The connected wallet does not support network ${request.chainId}`, 'build', ErrorCode.TRANSACTION_UNSUPPORTED, request.chainId);
+      }
+
+      // Wallets that report no EIP-5792 capabilities do not implement wallet_sendCalls either
+      const canBatch = capabilities.reported !== null && (!request.atomicRequired || capabilities.atomicBatch !== 'unsupported');
+      if (canBatch) {
+        const result = await this.walletService.sendCalls(request);
+        if (result.supported !== false) {
+          return result;
+        }
+      }
+
+      if (request.atomicRequired) {
+        throw ErrorFactory.createTransactionError('This wallet cannot run these calls as one atomic batch', 'send', ErrorCode.TRANSACTION_UNSUPPORTED, request.chainId);
+      }
+    } catch (error) {
+      const errorResult = this.errorHandler.handle(this.toTransactionError(error, 'build', request.chainId), context);
+      return {
+        success: false,
+        error: errorResult.message
+      };
+    }
+
+    return this.sendCallsSequentially(request);
+  }
+
+  async getCallsStatus(id: string): Promise<CallsStatusResult> {
+    const sequential = parseSequentialId(id);
+    if (!sequential) {
+      return this.walletService.getCallsStatus(id);
+    }
+
+    try {
+      const receipts: CallsReceipt[] = [];
+      let isPending = false;
+      let isLost = false;
+
+      for (const hash of sequential.hashes) {
+        const tracked = this.transactions.get(hash);
+        if (tracked && tracked.status !== 'pending') {
+          if (tracked.status === 'replaced' || tracked.status === 'dropped') {
+            isLost = true;
+          } else {
+            receipts.push({ hash, status: tracked.status === 'confirmed' ? 'success' : 'reverted', blockNumber: tracked.blockNumber });
+          }
+          continue;
+        }
+
+        const receipt = await this.rpc<RpcReceipt | null>(sequential.chainId, 'eth_getTransactionReceipt', [hash]);
+        if (!receipt) {
+          isPending = true;
+          continue;
+        }
+        receipts.push({ hash, status: receipt.status === '0x1' ? 'success' : 'reverted', blockNumber: Number(receipt.blockNumber) });
+      }
+
+      const reverted = receipts.filter(receipt => receipt.status === 'reverted').length;
+      const status = isLost
+        ? 'failed'
+        : isPending
+          ? 'pending'
+          : reverted === 0
+            ? 'confirmed'
+            : reverted === receipts.length ? 'reverted' : 'partially-reverted';
+
+      return { success: true, status, atomic: false, receipts };
+    } catch (error) {
+      const context: ErrorContext = {
+        component: 'TransactionService',
+        action: 'getCallsStatus',
+        chainId: sequential.chainId,
+        timestamp: Date.now()
+      };
+      const errorResult = this.errorHandler.handle(error, context);
+      return {
+        success: false,
+        error: errorResult.message
+      };
+    }
+  }
+
+  trackTransaction(transaction: TrackedTransaction): void {
+    this.transactions.set(transaction.hash, { ...transaction });
+    this.persistPendingTransactions();
+    this.notify(transaction);
+    this.resumeTracking();
+  }
+
+  getTransaction(hash: string): TrackedTransaction | null {
+    return this.transactions.get(hash) || null;
+  }
+
+  getTransactions(): TrackedTransaction[] {
+    return Array.from(this.transactions.values()).sort((a, b) => b.submittedAt - a.submittedAt);
+  }
+
+  getPendingTransactions(): TrackedTransaction[] {
+    return this.getTransactions().filter(transaction => transaction.status === 'pending');
+  }
+
+  clearCompleted(): void {
+    this.transactions.forEach((transaction, hash) => {
+      if (transaction.status !== 'pending') {
+        this.transactions.delete(hash);
+        this.notify(transaction);
+      }
+    });
+  }
+
+  resumeTracking(): void {
+    if (this.pollTimer || this.getPendingTransactions().length === 0) return;
+
+    this.pollTimer = setInterval(() => {
+      this.pollPendingTransactions();
+    }, this.pollInterval);
+  }
+
+  stopTracking(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  subscribe(listener: TransactionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async pollPendingTransactions(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      const pending = this.getPendingTransactions();
+      for (const transaction of pending) {
+        await this.refreshTransaction(transaction);
+      }
+    } finally {
+      this.isPolling = false;
+    }
+
+    if (this.getPendingTransactions().length === 0) {
+      this.stopTracking();
+    }
+  }
+
+  // Each call becomes its own tracked transaction; a failure stops the batch and reports what was already sent
+  private async sendCallsSequentially(request: CallsRequest): Promise<CallsResult> {
+    const hashes: string[] = [];
+
+    for (const call of request.calls) {
+      const result = await this.sendTransaction({
+        chainId: request.chainId,
+        to: call.to,
+        value: call.value,
+        data: call.data
+      });
+
+      if (!result.success || !result.hash) {
+        return {
+          success: false,
+          id: hashes.length > 0 ? toSequentialId(request.chainId, hashes) : undefined,
+          mode: 'sequential',
+          hashes,
+          error: result.error || `Call ${hashes.length + 1} of ${request.calls.length} failed`
+        };
+      }
+      hashes.push(result.hash);
+    }
+
+    return {
+      success: true,
+      id: toSequentialId(request.chainId, hashes),
+      mode: 'sequential',
+      hashes
+    };
+  }
+
+  private async refreshTransaction(transaction: TrackedTransaction): Promise<void> {
+    try {
+      if (await this.applyReceipt(transaction)) return;
+
+      const known = await this.rpc<object | null>(transaction.chainId, 'eth_getTransactionByHash', [transaction.hash]);
+      if (known) return;
+
+      // Once the sender's nonce has moved past ours, another transaction took the slot, unless ours
+      // was mined after the receipt lookup above
+      const latestNonce = await this.rpc<string>(transaction.chainId, 'eth_getTransactionCount', [transaction.from, 'latest']);
+      if (Number(latestNonce) > transaction.nonce) {
+        if (!(await this.applyReceipt(transaction))) {
+          this.updateStatus(transaction.hash, 'replaced');
+        }
+        return;
+      }
+
+      if (Date.now() - transaction.submittedAt > this.dropTimeout) {
+        this.updateStatus(transaction.hash, 'dropped');
+      }
+    } catch (error) {
+      // A flaky RPC should not end tracking; the next poll retries
+      console.warn(`Failed to refresh transaction ${transaction.hash}:`, error);
+    }
+  }
+
+  // True once the transaction has a receipt, which settles it as confirmed or failed
+  private async applyReceipt(transaction: TrackedTransaction): Promise<boolean> {
+    const receipt = await this.rpc<RpcReceipt | null>(transaction.chainId, 'eth_getTransactionReceipt', [transaction.hash]);
+    if (!receipt) return false;
+
+    const status = receipt.status === '0x1' ? 'confirmed' : 'failed';
+    this.updateStatus(transaction.hash, status, {
+      blockNumber: Number(receipt.blockNumber),
+      error: status === 'failed' ? 'Transaction reverted' : undefined
+    });
+    return true;
+  }
+
+  private updateStatus(
+    hash: string,
+    status: TransactionStatus,
+    details: Pick<TrackedTransaction, 'blockNumber' | 'error'> = {}
+  ): void {
+    const transaction = this.transactions.get(hash);
+    if (!transaction || transaction.status === status) return;
+
+    const updated: TrackedTransaction = {
+      ...transaction,
+      ...details,
+      status,
+      updatedAt: Date.now()
+    };
+    this.transactions.set(hash, updated);
+    this.persistPendingTransactions();
+    this.notify(updated);
+
+    switch (status) {
+      case 'confirmed':
+        transactionToast.confirmed();
+        break;
+      case 'failed':
+        transactionToast.failed(updated.error);
+        break;
+      case 'replaced':
+        transactionToast.replaced();
+        break;
+      case 'dropped':
+        transactionToast.dropped();
+        break;
+    }
+  }
+
+  // Pending transactions outlive a mainnet/testnet switch, so any registered chain is reachable
+  private async rpc<T>(chainId: number, method: string, params: unknown[]): Promise<T> {
+    const urls = networkRegistry.getRpcUrls(chainId);
+    if (urls.length === 0) {
+      throw ErrorFactory.createNetworkError(`Network ${chainId} is not supported`, chainId, chainId);
+    }
+
+    return rpcClient.call<T>(urls, method, params, { chainId });
+  }
+
+  private loadPendingTransactions(): void {
+    try {
+      const stored = this.storageService.getJSON<TrackedTransaction[]>(APP_CONFIG.STORAGE_KEYS.PENDING_TRANSACTIONS);
+      if (!Array.isArray(stored)) return;
+
+      stored
+        .filter(transaction => transaction && transaction.status === 'pending' && typeof transaction.hash === 'string')
+        .forEach(transaction => this.transactions.set(transaction.hash, transaction));
+
+      this.resumeTracking();
+    } catch (error) {
+      const context: ErrorContext = {
+        component: 'TransactionService',
+        action: 'loadPendingTransactions',
+        timestamp: Date.now()
+      };
+      this.errorHandler.handle(error, context);
+    }
+  }
+
+  private persistPendingTransactions(): void {
+    try {
+      this.storageService.setJSON(APP_CONFIG.STORAGE_KEYS.PENDING_TRANSACTIONS, this.getPendingTransactions());
+    } catch (error) {
+      const context: ErrorContext = {
+        component: 'TransactionService',
+        action: 'persistPendingTransactions',
+        timestamp: Date.now()
+      };
+      this.errorHandler.handle(error, context);
+    }
+  }
+
+  private notify(transaction: TrackedTransaction): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(transaction);
+      } catch (error) {
+        console.warn('Transaction listener failed:', error);
+      }
+    });
+  }
+
+  private toTransactionError(error: any, stage: TransactionError['stage'], chainId: number): TransactionError {
+    if (isTransactionError(error)) {
+      return error;
+    }
+    return ErrorFactory.createTransactionError(
+      error?.shortMessage || error?.message || 'Transaction failed',
+      stage,
+      error?.code ?? error?.cause?.code,
+      chainId,
+      error
+    );
+  }
+}
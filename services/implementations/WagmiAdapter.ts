@@ -1,5 +1,16 @@
 import { useAccount, useConnect, useDisconnect, Connector } from 'wagmi';
+import { signMessage, signTypedData, sendTransaction, SignTypedDataArgs } from 'wagmi/actions';
 import { IWagmiAdapter } from './WagmiWalletService';
+import { TypedDataPayload } from '../interfaces/IWalletService';
+import { PreparedTransaction } from '../interfaces/ITransactionService';
+
+// The payload uses viem's EIP-712 types, so it maps onto wagmi's arguments without casts
+export const toSignTypedDataArgs = (typedData: TypedDataPayload): SignTypedDataArgs => ({
+  domain: typedData.domain,
+  types: typedData.types,
+  primaryType: typedData.primaryType,
+  message: typedData.message
+});
 
 // Pure adapter interface implementation
 export interface IWagmiAdapterPure {
@@ -13,8 +24,13 @@ export interface IWagmiAdapterPure {
     error: any;
   };
   connect: (connector: Connector) => Promise<any>;
+  switchConnector: (connector: Connector) => Promise<any>;
   disconnect: () => Promise<void>;
   getConnectors: () => Connector[];
+  signMessage: (message: string) => Promise<string>;
+  signTypedData: (typedData: TypedDataPayload) => Promise<string>;
+  sendTransaction: (transaction: PreparedTransaction) => Promise<string>;
+  request: <T = unknown>(method: string, params?: unknown[]) => Promise<T>;
 }
 
 // React hook-based adapter that implements IWagmiAdapter
@@ -57,6 +73,17 @@ export const useWagmiAdapter = (): IWagmiAdapter => {
       }
     },
     
+    switchConnector: async (connector: Connector) => {
+      try {
+        return await connectAsync({ connector });
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('already connected')) {
+          return { success: true };
+        }
+        throw error;
+      }
+    },
+
     disconnect: async () => {
       try {
         await disconnectAsync();
@@ -70,6 +97,33 @@ export const useWagmiAdapter = (): IWagmiAdapter => {
       // Return the configured connectors from wagmi
       // This should be injected from the wagmi config
       return [];
+    },
+
+    signMessage: async (message: string) => {
+      return await signMessage({ message });
+    },
+
+    signTypedData: async (typedData: TypedDataPayload) => {
+      return await signTypedData(toSignTypedDataArgs(typedData));
+    },
+
+    sendTransaction: async (transaction: PreparedTransaction) => {
+      const { hash } = await sendTransaction({
+        chainId: transaction.chainId,
+        to: transaction.to,
+        value: transaction.value,
+        data: transaction.data as `0x${string}` | undefined,
+        gas: transaction.gas,
+        nonce: transaction.nonce
+      });
+      return hash;
+    },
+    request: async <T = unknown>(method: string, params?: unknown[]): Promise<T> => {
+      const provider = await connector?.getProvider();
+      if (!provider?.request) {
+        throw new Error('No wallet provider is connected');
+      }
+      return await provider.request({ method, params });
     }
   };
 
@@ -118,6 +172,13 @@ export class MockWagmiAdapter implements IWagmiAdapter {
     return { success: true };
   }
 
+  async switchConnector(connector: Connector) {
+    this.mockState.isConnected = true;
+    this.mockState.address = '0x1234567890123456789012345678901234567890';
+    this.mockState.connector = { id: connector.id };
+    return { success: true };
+  }
+
   async disconnect() {
     this.mockState.isConnected = false;
     this.mockState.address = '';
@@ -134,6 +195,45 @@ export class MockWagmiAdapter implements IWagmiAdapter {
     ];
   }
 
+  async signMessage(message: string) {
+    if (!this.mockState.isConnected) {
+      throw new Error('Wallet not connected');
+    }
+    return this.createMockSignature(message);
+  }
+
+  async signTypedData(typedData: TypedDataPayload) {
+    if (!this.mockState.isConnected) {
+      throw new Error('Wallet not connected');
+    }
+    return this.createMockSignature(JSON.stringify(typedData));
+  }
+
+  async sendTransaction(transaction: PreparedTransaction) {
+    if (!this.mockState.isConnected) {
+      throw new Error('Wallet not connected');
+    }
+    return this.createMockHash(`${transaction.chainId}:${transaction.nonce}:${transaction.to}`);
+  }
+
+  // The mock wallet answers like one without EIP-2255 or EIP-5792 support
+  async request<T = unknown>(method: string, params?: unknown[]): Promise<T> {
+    throw Object.assign(new Error(`The Provider does not support the requested method: ${method}.`), { code: 4200 });
+  }
+
+  // Deterministic 65-byte signature so tests can assert on it
+  private createMockSignature(payload: string): string {
+    let hash = 0;
+    for (let i = 0; i < payload.length; i++) {
+      hash = (hash * 31 + payload.charCodeAt(i)) >>> 0;
+    }
+    return `0x${hash.toString(16).padStart(8, '0').repeat(16)}1b`;
+  }
+
+  private createMockHash(payload: string): string {
+    return this.createMockSignature(payload).slice(0, 66);
+  }
+
   // Method to simulate MetaMask connection for testing
   simulateMetaMaskConnection() {
     this.mockState.isConnected = true;
@@ -1,32 +1,94 @@
 import { useAccount, useConnect, useDisconnect, Connector } from 'wagmi';
-import { IWalletService, Account, WalletConnectionResult } from '../interfaces/IWalletService';
+import { IWalletService, Account, WalletConnectionResult, SignatureResult, TypedDataPayload, PermissionsResult, WalletPermission } from '../interfaces/IWalletService';
+import { CallsReceipt, CallsRequest, CallsResult, CallsStatus, CallsStatusResult, PreparedTransaction, TransactionResult } from '../interfaces/ITransactionService';
 import { IStorageService } from '../interfaces/IStorageService';
 import { IErrorHandler, ErrorContext } from '../interfaces/IErrorHandler';
+import { AccountChangedEvent, ChainChangedEvent, DisconnectEvent, IProviderEventBus, Unsubscribe } from '../interfaces/IProviderEventBus';
+import { ProviderEventBus } from './ProviderEventBus';
 import { APP_CONFIG } from '@/config/constants';
 import { walletConnectionToast } from '@/utils/toast';
+import { walletRegistry } from '@/strategies/WalletStrategy';
+import { ErrorCode, ErrorFactory, SignatureError, TransactionError, isSignatureError, isTransactionError } from '@/types/errors';
+import { ChainCapabilities, ResolvedWalletCapabilities, WalletCapabilities } from '@/types/wallet';
+import { getChainDefinition } from '@/config/chains';
+import { mergeCapabilities, pickChainCapabilities, supportsChainStatically } from '@/utils/capabilities';
+import { toHexChainId } from '@/utils/chains';
 
 // Interface for wagmi adapter to follow Dependency Inversion Principle
 export interface IWagmiAdapter {
   getAccount(): { address?: string; isConnected: boolean; connector?: { id: string } };
   getConnectionState(): { isConnecting: boolean; error: any };
   connect(connector: Connector): Promise<any>;
+  switchConnector(connector: Connector): Promise<any>;
   disconnect(): Promise<void>;
   getConnectors(): Connector[];
+  signMessage(message: string): Promise<string>;
+  signTypedData(typedData: TypedDataPayload): Promise<string>;
+  sendTransaction(transaction: PreparedTransaction): Promise<string>;
+  // Raw EIP-1193 request to the active connector's provider
+  request<T = unknown>(method: string, params?: unknown[]): Promise<T>;
 }
 
+const DEFAULT_CAPABILITIES = ['eth_accounts'];
+
+// Used when the connector has no registered strategy; the wallet itself decides what it refuses
+const PERMISSIVE_CAPABILITIES: WalletCapabilities = {
+  supportsEthereum: true,
+  supportsPolygon: true,
+  supportsLinea: true,
+  supportsBSC: true,
+  supportsPersonalSign: true,
+  supportsTypedSign: true,
+  supportsTransactionSign: true
+};
+
+// EIP-5792 wallet_sendCalls version this client speaks
+const CALLS_VERSION = '2.0.0';
+
+// 4200 is EIP-1193 "unsupported method"; older wallets answer with JSON-RPC -32601
+const isUnsupportedMethodError = (error: any): boolean => {
+  const code = error?.code ?? error?.cause?.code;
+  if (code === ErrorCode.PROVIDER_UNSUPPORTED_METHOD || code === ErrorCode.RPC_METHOD_NOT_FOUND) return true;
+  return /method.*(not (found|supported|implemented)|does not exist|unsupported)|unsupported method/i.test(error?.message || '');
+};
+
+// EIP-5792 status codes: 1xx pending, 2xx confirmed, 4xx failed off-chain, 5xx reverted, 6xx partially reverted.
+// Earlier drafts answered with the strings PENDING and CONFIRMED.
+const toCallsStatus = (status: unknown): CallsStatus => {
+  if (typeof status === 'string') {
+    return status.toUpperCase() === 'CONFIRMED' ? 'confirmed' : 'pending';
+  }
+  if (typeof status !== 'number' || status < 200) return 'pending';
+  if (status < 300) return 'confirmed';
+  if (status < 500) return 'failed';
+  if (status < 600) return 'reverted';
+  return 'partially-reverted';
+};
+
+const toCallsReceipt = (receipt: any): CallsReceipt => ({
+  hash: receipt?.transactionHash,
+  status: receipt?.status === '0x1' || receipt?.status === 'success' ? 'success' : 'reverted',
+  blockNumber: typeof receipt?.blockNumber === 'string' ? parseInt(receipt.blockNumber, 16) : receipt?.blockNumber
+});
+
 export class WagmiWalletService implements IWalletService {
   private storageService: IStorageService;
   private errorHandler: IErrorHandler;
   private wagmiAdapter: IWagmiAdapter;
+  private eventBus: IProviderEventBus;
+  // Reported capabilities keyed by wallet, account and chain; cleared on disconnect
+  private capabilitiesCache: Map<string, ResolvedWalletCapabilities> = new Map();
 
   constructor(
     storageService: IStorageService,
     errorHandler: IErrorHandler,
-    wagmiAdapter: IWagmiAdapter
+    wagmiAdapter: IWagmiAdapter,
+    eventBus: IProviderEventBus = new ProviderEventBus()
   ) {
     this.storageService = storageService;
     this.errorHandler = errorHandler;
     this.wagmiAdapter = wagmiAdapter;
+    this.eventBus = eventBus;
   }
 
   async connect(connectorId: string): Promise<WalletConnectionResult> {
@@ -88,9 +150,15 @@ export class WagmiWalletService implements IWalletService {
     };
 
     try {
+      // Clearing wagmi state leaves the site authorised in the wallet, so ask the wallet to forget it too
+      if (this.wagmiAdapter.getAccount().isConnected) {
+        await this.revokeAccountAccess();
+      }
+
       // Use the adapter to disconnect
       await this.wagmiAdapter.disconnect();
       
+      this.capabilitiesCache.clear();
       this.clearConnectionState();
       walletConnectionToast.disconnected();
     } catch (error) {
@@ -98,6 +166,39 @@ export class WagmiWalletService implements IWalletService {
     }
   }
 
+  async activateConnector(connectorId: string): Promise<WalletConnectionResult> {
+    const context: ErrorContext = {
+      component: 'WagmiWalletService',
+      action: 'activateConnector',
+      walletType: connectorId,
+      timestamp: Date.now()
+    };
+
+    try {
+      const { isConnected, connector: current } = this.wagmiAdapter.getAccount();
+      if (isConnected && current?.id === connectorId) {
+        return { success: true, walletType: connectorId };
+      }
+
+      const connector = this.wagmiAdapter.getConnectors().find(c => c.id === connectorId);
+      if (!connector) {
+        throw new Error(`Connector ${connectorId} not found`);
+      }
+
+      // wagmi switches its active connector without disconnecting the previous one
+      await this.wagmiAdapter.switchConnector(connector);
+      this.saveLastConnectedWallet(connectorId);
+
+      return { success: true, walletType: connectorId };
+    } catch (error) {
+      const errorResult = this.errorHandler.handle(error, context);
+      return {
+        success: false,
+        error: errorResult.message
+      };
+    }
+  }
+
   async getAccount(): Promise<Account | null> {
     try {
       // Use the adapter to get account information
@@ -141,6 +242,266 @@ export class WagmiWalletService implements IWalletService {
     }
   }
 
+  async signMessage(message: string): Promise<SignatureResult> {
+    const context: ErrorContext = {
+      component: 'WagmiWalletService',
+      action: 'signMessage',
+      timestamp: Date.now()
+    };
+
+    try {
+      context.walletType = this.getSigningWalletType('supportsPersonalSign', 'personal_sign');
+
+      if (!message) {
+        throw ErrorFactory.createSignatureError('Message to sign must not be empty', 'personal_sign', ErrorCode.SIGNATURE_FAILED, context.walletType);
+      }
+
+      const signature = await this.wagmiAdapter.signMessage(message);
+      return {
+        success: true,
+        signature
+      };
+    } catch (error) {
+      const errorResult = this.errorHandler.handle(this.toSignatureError(error, 'personal_sign', context.walletType), context);
+      return {
+        success: false,
+        error: errorResult.message
+      };
+    }
+  }
+
+  async signTypedData(typedData: TypedDataPayload): Promise<SignatureResult> {
+    const context: ErrorContext = {
+      component: 'WagmiWalletService',
+      action: 'signTypedData',
+      timestamp: Date.now()
+    };
+
+    try {
+      context.walletType = this.getSigningWalletType('supportsTypedSign', 'eth_signTypedData_v4');
+
+      if (!typedData?.types?.[typedData.primaryType]) {
+        throw ErrorFactory.createSignatureError(`Typed data is missing the ${typedData?.primaryType} type definition`, 'eth_signTypedData_v4', ErrorCode.SIGNATURE_FAILED, context.walletType);
+      }
+
+      const signature = await this.wagmiAdapter.signTypedData(typedData);
+      return {
+        success: true,
+        signature
+      };
+    } catch (error) {
+      const errorResult = this.errorHandler.handle(this.toSignatureError(error, 'eth_signTypedData_v4', context.walletType), context);
+      return {
+        success: false,
+        error: errorResult.message
+      };
+    }
+  }
+
+  async sendTransaction(transaction: PreparedTransaction): Promise<TransactionResult> {
+    const context: ErrorContext = {
+      component: 'WagmiWalletService',
+      action: 'sendTransaction',
+      chainId: transaction.chainId,
+      timestamp: Date.now()
+    };
+
+    try {
+      const { isConnected, connector } = this.wagmiAdapter.getAccount();
+      if (!isConnected) {
+        throw ErrorFactory.createTransactionError('Connect a wallet before sending a transaction', 'send', ErrorCode.TRANSACTION_FAILED, transaction.chainId);
+      }
+
+      context.walletType = connector?.id || this.getLastConnectedWallet() || undefined;
+      const strategy = context.walletType ? walletRegistry.getStrategy(context.walletType) : undefined;
+      if (strategy && !strategy.getCapabilities().supportsTransactionSign) {
+        throw ErrorFactory.createTransactionError(
+          `${strategy.name} does not support sending transactions`,
+          'send',
+          ErrorCode.TRANSACTION_UNSUPPORTED,
+          transaction.chainId
+        );
+      }
+      this.requireChainSupport(context.walletType, transaction.chainId);
+
+      const hash = await this.wagmiAdapter.sendTransaction(transaction);
+      return {
+        success: true,
+        hash
+      };
+    } catch (error) {
+      const errorResult = this.errorHandler.handle(this.toTransactionError(error, transaction.chainId), context);
+      return {
+        success: false,
+        error: errorResult.message
+      };
+    }
+  }
+
+  async getWalletCapabilities(chainId: number): Promise<ResolvedWalletCapabilities> {
+    const { address, isConnected, connector } = this.wagmiAdapter.getAccount();
+    const walletType = connector?.id || this.getLastConnectedWallet() || undefined;
+    const base = this.getStaticCapabilities(walletType);
+    if (!isConnected || !address) {
+      return mergeCapabilities(base, chainId, null);
+    }
+
+    const cacheKey = `${walletType}:${address.toLowerCase()}:${chainId}`;
+    const cached = this.capabilitiesCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let reported: ChainCapabilities | null = null;
+    try {
+      const result = await this.wagmiAdapter.request('wallet_getCapabilities', [address, [toHexChainId(chainId)]]);
+      reported = pickChainCapabilities(result, chainId);
+    } catch (error) {
+      if (!isUnsupportedMethodError(error)) {
+        // Transient failure: answer from the static capabilities but ask again next time
+        console.warn('Failed to read wallet capabilities:', error);
+        return mergeCapabilities(base, chainId, null);
+      }
+    }
+
+    const capabilities = mergeCapabilities(base, chainId, reported);
+    this.capabilitiesCache.set(cacheKey, capabilities);
+    return capabilities;
+  }
+
+  async sendCalls(request: CallsRequest): Promise<CallsResult> {
+    const context: ErrorContext = {
+      component: 'WagmiWalletService',
+      action: 'sendCalls',
+      chainId: request.chainId,
+      timestamp: Date.now()
+    };
+
+    try {
+      const { address, isConnected, connector } = this.wagmiAdapter.getAccount();
+      if (!isConnected || !address) {
+        throw ErrorFactory.createTransactionError('Connect a wallet before sending calls', 'send', ErrorCode.TRANSACTION_FAILED, request.chainId);
+      }
+      if (request.calls.length === 0) {
+        throw ErrorFactory.createTransactionError('A batch needs at least one call', 'send', ErrorCode.TRANSACTION_FAILED, request.chainId);
+      }
+
+      context.walletType = connector?.id || this.getLastConnectedWallet() || undefined;
+      this.requireChainSupport(context.walletType, request.chainId);
+
+      const response = await this.wagmiAdapter.request<{ id?: string } | string>('wallet_sendCalls', [{
+        version: CALLS_VERSION,
+        from: address,
+        chainId: toHexChainId(request.chainId),
+        atomicRequired: request.atomicRequired ?? false,
+        calls: request.calls.map(call => ({
+          to: call.to,
+          value: call.value !== undefined ? `0x${call.value.toString(16)}` : undefined,
+          data: call.data
+        }))
+      }]);
+
+      // Early drafts of EIP-5792 returned the batch id as a bare string
+      const id = typeof response === 'string' ? response : response?.id;
+      if (!id) {
+        throw ErrorFactory.createTransactionError('The wallet did not return a batch id', 'send', ErrorCode.TRANSACTION_FAILED, request.chainId);
+      }
+
+      return { success: true, id, mode: 'wallet', supported: true };
+    } catch (error: any) {
+      if (isUnsupportedMethodError(error) || (error?.code ?? error?.cause?.code) === ErrorCode.CALLS_UNSUPPORTED_CHAIN) {
+        return { success: false, supported: false, error: 'This wallet does not support batched calls' };
+      }
+      const errorResult = this.errorHandler.handle(this.toTransactionError(error, request.chainId), context);
+      return { success: false, error: errorResult.message };
+    }
+  }
+
+  async getCallsStatus(id: string): Promise<CallsStatusResult> {
+    const context: ErrorContext = {
+      component: 'WagmiWalletService',
+      action: 'getCallsStatus',
+      timestamp: Date.now()
+    };
+
+    try {
+      this.requireConnectedWallet('wallet_getCallsStatus');
+      const response = await this.wagmiAdapter.request<any>('wallet_getCallsStatus', [id]);
+      return {
+        success: true,
+        status: toCallsStatus(response?.status),
+        atomic: typeof response?.atomic === 'boolean' ? response.atomic : undefined,
+        receipts: Array.isArray(response?.receipts) ? response.receipts.map(toCallsReceipt) : []
+      };
+    } catch (error) {
+      const errorResult = this.errorHandler.handle(error, context);
+      return { success: false, error: errorResult.message };
+    }
+  }
+
+  async getPermissions(): Promise<PermissionsResult> {
+    const context = this.createPermissionsContext('getPermissions');
+
+    try {
+      this.requireConnectedWallet('wallet_getPermissions');
+      const permissions = await this.wagmiAdapter.request<WalletPermission[]>('wallet_getPermissions');
+      return {
+        success: true,
+        supported: true,
+        permissions: Array.isArray(permissions) ? permissions : []
+      };
+    } catch (error) {
+      if (isUnsupportedMethodError(error)) {
+        return { success: true, supported: false, permissions: [] };
+      }
+      const errorResult = this.errorHandler.handle(error, context);
+      return { success: false, error: errorResult.message };
+    }
+  }
+
+  async requestPermissions(capabilities: string[] = DEFAULT_CAPABILITIES): Promise<PermissionsResult> {
+    const context = this.createPermissionsContext('requestPermissions');
+
+    try {
+      this.requireConnectedWallet('wallet_requestPermissions');
+      const permissions = await this.wagmiAdapter.request<WalletPermission[]>(
+        'wallet_requestPermissions',
+        [this.toPermissionRequest(capabilities)]
+      );
+      return {
+        success: true,
+        supported: true,
+        permissions: Array.isArray(permissions) ? permissions : []
+      };
+    } catch (error) {
+      if (isUnsupportedMethodError(error)) {
+        return { success: false, supported: false, error: 'This wallet does not support permission requests' };
+      }
+      const errorResult = this.errorHandler.handle(error, context);
+      return { success: false, error: errorResult.message };
+    }
+  }
+
+  async revokePermissions(capabilities: string[] = DEFAULT_CAPABILITIES): Promise<PermissionsResult> {
+    const context = this.createPermissionsContext('revokePermissions');
+
+    try {
+      this.requireConnectedWallet('wallet_revokePermissions');
+      await this.wagmiAdapter.request('wallet_revokePermissions', [this.toPermissionRequest(capabilities)]);
+      return { success: true, supported: true };
+    } catch (error) {
+      if (isUnsupportedMethodError(error)) {
+        return {
+          success: false,
+          supported: false,
+          error: 'This wallet does not let sites revoke access. Remove the site from the wallet\'s connected sites instead.'
+        };
+      }
+      const errorResult = this.errorHandler.handle(error, context);
+      return { success: false, error: errorResult.message };
+    }
+  }
+
   getConnectors(): Connector[] {
     try {
       return this.wagmiAdapter.getConnectors();
@@ -231,6 +592,121 @@ export class WagmiWalletService implements IWalletService {
     }
   }
 
+  onAccountChanged(listener: (event: AccountChangedEvent) => void): Unsubscribe {
+    return this.eventBus.onAccountChanged(listener);
+  }
+
+  onChainChanged(listener: (event: ChainChangedEvent) => void): Unsubscribe {
+    return this.eventBus.onChainChanged(listener);
+  }
+
+  onDisconnect(listener: (event: DisconnectEvent) => void): Unsubscribe {
+    return this.eventBus.onDisconnect(listener);
+  }
+
+  // Best effort: wallets without wallet_revokePermissions simply stay authorised
+  private async revokeAccountAccess(): Promise<void> {
+    try {
+      await this.wagmiAdapter.request('wallet_revokePermissions', [this.toPermissionRequest(DEFAULT_CAPABILITIES)]);
+    } catch (error) {
+      if (!isUnsupportedMethodError(error)) {
+        console.warn('Failed to revoke wallet permissions:', error);
+      }
+    }
+  }
+
+  private getStaticCapabilities(walletType?: string): WalletCapabilities {
+    const strategy = walletType ? walletRegistry.getStrategy(walletType) : undefined;
+    return strategy ? strategy.getCapabilities() : PERMISSIVE_CAPABILITIES;
+  }
+
+  // Refuses chains the strategy's network flags rule out before the wallet is asked
+  private requireChainSupport(walletType: string | undefined, chainId: number): void {
+    const strategy = walletType ? walletRegistry.getStrategy(walletType) : undefined;
+    if (strategy && !supportsChainStatically(strategy.getCapabilities(), chainId)) {
+      const chainName = getChainDefinition(chainId)?.name || `chain ${chainId}`;
+      throw ErrorFactory.createTransactionError(
+        `${strategy.name} does not support ${chainName}`,
+        'send',
+        ErrorCode.TRANSACTION_UNSUPPORTED,
+        chainId
+      );
+    }
+  }
+
+  private requireConnectedWallet(method: string): void {
+    if (!this.wagmiAdapter.getAccount().isConnected) {
+      throw ErrorFactory.createWalletError(`Connect a wallet before calling ${method}`, ErrorCode.CONNECTION_FAILED);
+    }
+  }
+
+  private toPermissionRequest(capabilities: string[]): Record<string, Record<string, never>> {
+    return capabilities.reduce<Record<string, Record<string, never>>>((request, capability) => {
+      request[capability] = {};
+      return request;
+    }, {});
+  }
+
+  private createPermissionsContext(action: string): ErrorContext {
+    const { connector } = this.wagmiAdapter.getAccount();
+    return {
+      component: 'WagmiWalletService',
+      action,
+      walletType: connector?.id || this.getLastConnectedWallet() || undefined,
+      timestamp: Date.now()
+    };
+  }
+
+  // Resolves the connected wallet and checks it advertises the requested signing capability
+  private getSigningWalletType(
+    capability: 'supportsPersonalSign' | 'supportsTypedSign',
+    method: SignatureError['method']
+  ): string | undefined {
+    const { isConnected, connector } = this.wagmiAdapter.getAccount();
+    if (!isConnected) {
+      throw ErrorFactory.createSignatureError('Connect a wallet before signing', method, ErrorCode.SIGNATURE_FAILED);
+    }
+
+    const walletType = connector?.id || this.getLastConnectedWallet() || undefined;
+    const strategy = walletType ? walletRegistry.getStrategy(walletType) : undefined;
+    if (strategy && !strategy.getCapabilities()[capability]) {
+      throw ErrorFactory.createSignatureError(
+        `${strategy.name} does not support ${method}`,
+        method,
+        ErrorCode.SIGNATURE_UNSUPPORTED,
+        walletType
+      );
+    }
+
+    return walletType;
+  }
+
+  private toSignatureError(error: any, method: SignatureError['method'], walletType?: string): SignatureError {
+    if (isSignatureError(error)) {
+      return error;
+    }
+    return ErrorFactory.createSignatureError(
+      error?.shortMessage || error?.message || 'Signing failed',
+      method,
+      error?.code ?? error?.cause?.code,
+      walletType,
+      error
+    );
+  }
+
+  private toTransactionError(error: any, chainId: number): TransactionError {
+    if (isTransactionError(error)) {
+      return error;
+    }
+    return ErrorFactory.createTransactionError(
+      error?.shortMessage || error?.message || 'Transaction failed',
+      'send',
+      error?.code ?? error?.cause?.code,
+      chainId,
+      error
+    );
+  }
+
   // Method to update the wagmi adapter (for React integration)
   updateAdapter(adapter: IWagmiAdapter): void {
     this.wagmiAdapter = adapter;
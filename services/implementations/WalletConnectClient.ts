@@ -0,0 +1,22 @@
+import { WalletConnectClient } from '../interfaces/IWalletConnectService';
+import { APP_CONFIG } from '@/config/constants';
+import { getWalletConnectProjectId } from '@/config/environment';
+
+// Loads the sign client on first use so pages that never pair do not pay for it.
+// It shares the wc@2 storage with the wagmi WalletConnect connector, so sessions
+// opened through either one show up in both
+export const createSignClient = async (): Promise<WalletConnectClient> => {
+  const projectId = getWalletConnectProjectId();
+  if (!projectId) {
+    throw new Error('WalletConnect project ID is not configured');
+  }
+
+  const { SignClient } = await import('@walletconnect/sign-client');
+  return SignClient.init({
+    projectId,
+    metadata: {
+      ...APP_CONFIG.WALLETCONNECT.METADATA,
+      icons: [...APP_CONFIG.WALLETCONNECT.METADATA.icons]
+    }
+  });
+};
@@ -0,0 +1,308 @@
+import {
+  IWalletConnectService,
+  WalletConnectClient,
+  WalletConnectClientSession,
+  WalletConnectDisconnectResult,
+  WalletConnectExpiryListener,
+  WalletConnectPairingResult,
+  WalletConnectSession,
+  WalletConnectSessionResult,
+  WalletConnectSessionsListener
+} from '../interfaces/IWalletConnectService';
+import { IStorageService } from '../interfaces/IStorageService';
+import { IErrorHandler, ErrorContext } from '../interfaces/IErrorHandler';
+import { APP_CONFIG } from '@/config/constants';
+import { CHAIN_DEFINITIONS } from '@/config/chains';
+import { buildWalletConnectDeepLink, getMobileWallet, toWalletConnectSession } from '@/utils/walletconnect';
+import { walletConnectToast } from '@/utils/toast';
+
+export interface WalletConnectSessionServiceOptions {
+  // How long before expiry the user is warned
+  expiryWarning?: number;
+  chainIds?: number[];
+}
+
+// Reason sent to the wallet when the user ends a session from the dapp
+const USER_DISCONNECTED = { code: 6000, message: 'User disconnected.' };
+
+export class WalletConnectSessionService implements IWalletConnectService {
+  private storageService: IStorageService;
+  private errorHandler: IErrorHandler;
+  private clientFactory: () => Promise<WalletConnectClient>;
+  private clientPromise: Promise<WalletConnectClient> | null = null;
+  private expiryWarning: number;
+  private chainIds: number[];
+  private sessions: Map<string, WalletConnectSession> = new Map();
+  private expiryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private warnedTopics: Set<string> = new Set();
+  private listeners: Set<WalletConnectSessionsListener> = new Set();
+  private expiryListeners: Set<WalletConnectExpiryListener> = new Set();
+
+  constructor(
+    storageService: IStorageService,
+    errorHandler: IErrorHandler,
+    clientFactory: () => Promise<WalletConnectClient>,
+    options: WalletConnectSessionServiceOptions = {}
+  ) {
+    this.storageService = storageService;
+    this.errorHandler = errorHandler;
+    this.clientFactory = clientFactory;
+    this.expiryWarning = options.expiryWarning ?? APP_CONFIG.TIMEOUTS.WALLETCONNECT_EXPIRY_WARNING;
+    this.chainIds = options.chainIds ?? CHAIN_DEFINITIONS.filter(chain => !chain.testnet).map(chain => chain.id);
+  }
+
+  async createPairing(walletId?: string): Promise<WalletConnectPairingResult> {
+    const context: ErrorContext = {
+      component: 'WalletConnectSessionService',
+      action: 'createPairing',
+      walletType: 'walletConnect',
+      timestamp: Date.now()
+    };
+
+    try {
+      const client = await this.getClient();
+      const { uri, approval } = await client.connect({
+        optionalNamespaces: {
+          eip155: {
+            chains: this.chainIds.map(chainId => `eip155:${chainId}`),
+            methods: [...APP_CONFIG.WALLETCONNECT.METHODS],
+            events: [...APP_CONFIG.WALLETCONNECT.EVENTS]
+          }
+        }
+      });
+
+      if (!uri) {
+        throw new Error('WalletConnect did not return a pairing URI');
+      }
+
+      const wallet = walletId ? getMobileWallet(walletId) : undefined;
+      const deepLink = wallet ? buildWalletConnectDeepLink(uri, wallet) : undefined;
+
+      return {
+        success: true,
+        pairing: {
+          uri,
+          ...(deepLink && { deepLink }),
+          approval: this.waitForApproval(approval)
+        }
+      };
+    } catch (error) {
+      const errorResult = this.errorHandler.handle(error, context);
+      return {
+        success: false,
+        error: errorResult.message
+      };
+    }
+  }
+
+  async restoreSessions(): Promise<WalletConnectSession[]> {
+    try {
+      const client = await this.getClient();
+      this.syncSessions(client);
+    } catch (error) {
+      const context: ErrorContext = {
+        component: 'WalletConnectSessionService',
+        action: 'restoreSessions',
+        walletType: 'walletConnect',
+        timestamp: Date.now()
+      };
+      this.errorHandler.handle(error, context);
+    }
+    return this.getSessions();
+  }
+
+  getSessions(): WalletConnectSession[] {
+    return Array.from(this.sessions.values()).sort((a, b) => a.expiresAt - b.expiresAt);
+  }
+
+  async disconnectSession(topic: string): Promise<WalletConnectDisconnectResult> {
+    const context: ErrorContext = {
+      component: 'WalletConnectSessionService',
+      action: 'disconnectSession',
+      walletType: 'walletConnect',
+      timestamp: Date.now()
+    };
+
+    try {
+      if (!this.sessions.has(topic)) {
+        return {
+          success: false,
+          error: 'WalletConnect session not found'
+        };
+      }
+
+      const client = await this.getClient();
+      await client.disconnect({ topic, reason: USER_DISCONNECTED });
+      this.removeSession(topic);
+      return { success: true };
+    } catch (error) {
+      const errorResult = this.errorHandler.handle(error, context);
+      return {
+        success: false,
+        error: errorResult.message
+      };
+    }
+  }
+
+  subscribe(listener: WalletConnectSessionsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onSessionExpiring(listener: WalletConnectExpiryListener): () => void {
+    this.expiryListeners.add(listener);
+    return () => {
+      this.expiryListeners.delete(listener);
+    };
+  }
+
+  stop(): void {
+    this.expiryTimers.forEach(timer => clearTimeout(timer));
+    this.expiryTimers.clear();
+  }
+
+  private getClient(): Promise<WalletConnectClient> {
+    if (!this.clientPromise) {
+      this.clientPromise = this.clientFactory().then(client => {
+        // The wallet or the relay ended the session
+        client.on('session_delete', ({ topic }) => this.endSession(topic));
+        client.on('session_expire', ({ topic }) => this.endSession(topic));
+        // Accounts, chains or expiry changed; the client already holds the new state
+        client.on('session_update', () => this.syncSessions(client));
+        client.on('session_extend', ({ topic }) => {
+          this.warnedTopics.delete(topic);
+          this.syncSessions(client);
+        });
+        return client;
+      });
+      // Let the next call try again instead of caching the failure
+      this.clientPromise.catch(() => {
+        this.clientPromise = null;
+      });
+    }
+    return this.clientPromise;
+  }
+
+  private async waitForApproval(approval: () => Promise<WalletConnectClientSession>): Promise<WalletConnectSessionResult> {
+    try {
+      const session = toWalletConnectSession(await approval());
+      this.setSession(session);
+      this.persistSessions();
+      this.notify();
+      walletConnectToast.sessionApproved(session.peer.name);
+      return { success: true, session };
+    } catch (error) {
+      const context: ErrorContext = {
+        component: 'WalletConnectSessionService',
+        action: 'approveSession',
+        walletType: 'walletConnect',
+        timestamp: Date.now()
+      };
+      const errorResult = this.errorHandler.handle(error, context);
+      return {
+        success: false,
+        error: errorResult.message
+      };
+    }
+  }
+
+  // The client is the source of truth; saved topics it no longer knows are dropped
+  private syncSessions(client: WalletConnectClient): void {
+    const saved = this.storageService.getJSON<string[]>(APP_CONFIG.STORAGE_KEYS.WALLETCONNECT_SESSIONS) || [];
+    const active = client.session.getAll()
+      .map(toWalletConnectSession)
+      .filter(session => session.expiresAt > Date.now());
+
+    this.stop();
+    this.sessions.clear();
+    active.forEach(session => this.setSession(session));
+
+    const topics = active.map(session => session.topic);
+    if (saved.length !== topics.length || saved.some(topic => !topics.includes(topic))) {
+      this.persistSessions();
+    }
+    this.notify();
+  }
+
+  private setSession(session: WalletConnectSession): void {
+    this.sessions.set(session.topic, session);
+    this.scheduleExpiryWarning(session);
+  }
+
+  private endSession(topic: string): void {
+    const session = this.sessions.get(topic);
+    if (!session) return;
+
+    this.removeSession(topic);
+    walletConnectToast.sessionEnded(session.peer.name);
+  }
+
+  private removeSession(topic: string): void {
+    const timer = this.expiryTimers.get(topic);
+    if (timer) clearTimeout(timer);
+    this.expiryTimers.delete(topic);
+    this.warnedTopics.delete(topic);
+    this.sessions.delete(topic);
+    this.persistSessions();
+    this.notify();
+  }
+
+  private scheduleExpiryWarning(session: WalletConnectSession): void {
+    const existing = this.expiryTimers.get(session.topic);
+    if (existing) clearTimeout(existing);
+    this.expiryTimers.delete(session.topic);
+
+    if (this.warnedTopics.has(session.topic)) return;
+
+    const delay = session.expiresAt - this.expiryWarning - Date.now();
+    if (delay <= 0) {
+      this.warnExpiring(session);
+      return;
+    }
+
+    this.expiryTimers.set(session.topic, setTimeout(() => {
+      this.expiryTimers.delete(session.topic);
+      this.warnExpiring(session);
+    }, delay));
+  }
+
+  private warnExpiring(session: WalletConnectSession): void {
+    this.warnedTopics.add(session.topic);
+    const hours = Math.max(1, Math.round((session.expiresAt - Date.now()) / (60 * 60 * 1000)));
+    walletConnectToast.sessionExpiring(session.peer.name, hours);
+
+    this.expiryListeners.forEach(listener => {
+      try {
+        listener(session);
+      } catch (error) {
+        console.warn('WalletConnect expiry listener failed:', error);
+      }
+    });
+  }
+
+  private persistSessions(): void {
+    try {
+      this.storageService.setJSON(APP_CONFIG.STORAGE_KEYS.WALLETCONNECT_SESSIONS, Array.from(this.sessions.keys()));
+    } catch (error) {
+      const context: ErrorContext = {
+        component: 'WalletConnectSessionService',
+        action: 'persistSessions',
+        timestamp: Date.now()
+      };
+      this.errorHandler.handle(error, context);
+    }
+  }
+
+  private notify(): void {
+    const sessions = this.getSessions();
+    this.listeners.forEach(listener => {
+      try {
+        listener(sessions);
+      } catch (error) {
+        console.warn('WalletConnect session listener failed:', error);
+      }
+    });
+  }
+}
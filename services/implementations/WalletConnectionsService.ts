@@ -0,0 +1,349 @@
+import { Connector, ConnectorData } from 'wagmi';
+import {
+  IWalletConnectionsService,
+  WalletConnectionsListener,
+  WalletConnectionsResult
+} from '../interfaces/IWalletConnectionsService';
+import { IWalletService } from '../interfaces/IWalletService';
+import { IStorageService } from '../interfaces/IStorageService';
+import { IErrorHandler, ErrorContext } from '../interfaces/IErrorHandler';
+import { APP_CONFIG } from '@/config/constants';
+import { WalletConnection } from '@/types/wallet';
+import { SecurityUtils } from '@/utils/security';
+
+interface TrackedConnector {
+  connector: Connector;
+  onChange: (data: ConnectorData) => void;
+  onDisconnect: () => void;
+}
+
+const { WALLET_CONNECTION_PREFIX, ACTIVE_WALLET_CONNECTION } = APP_CONFIG.STORAGE_KEYS;
+
+// Keeps every connected wallet's connector live at once. The wallet service (wagmi) only
+// signs with one connector, so switching the active connection switches wagmi over to it.
+export class WalletConnectionsService implements IWalletConnectionsService {
+  private storageService: IStorageService;
+  private errorHandler: IErrorHandler;
+  private walletService: IWalletService;
+  private connections: Map<string, WalletConnection> = new Map();
+  private connectors: Map<string, TrackedConnector> = new Map();
+  private activeId: string | null = null;
+  private listeners: Set<WalletConnectionsListener> = new Set();
+  private restoring: Promise<WalletConnection[]> | null = null;
+
+  constructor(
+    storageService: IStorageService,
+    errorHandler: IErrorHandler,
+    walletService: IWalletService
+  ) {
+    this.storageService = storageService;
+    this.errorHandler = errorHandler;
+    this.walletService = walletService;
+  }
+
+  async connect(walletType: string): Promise<WalletConnectionsResult> {
+    if (this.connections.has(walletType)) {
+      return this.setActive(walletType);
+    }
+
+    // The wallet is connected through the wallet service so it also becomes the signing one
+    const result = this.walletService.isConnected()
+      ? await this.walletService.activateConnector(walletType)
+      : await this.walletService.connect(walletType);
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Connection failed' };
+    }
+    return this.track(walletType);
+  }
+
+  // Adds a wallet the wallet service has already connected, without prompting, as the active one
+  async track(walletType: string): Promise<WalletConnectionsResult> {
+    try {
+      const connector = this.findConnector(walletType);
+      const [address, chainId] = await Promise.all([
+        connector.getAccount(),
+        connector.getChainId().catch(() => null)
+      ]);
+
+      const connection = this.register(connector, address, chainId);
+      this.setActiveId(connection.id);
+      this.notify();
+
+      return { success: true, connection };
+    } catch (error) {
+      const context: ErrorContext = {
+        component: 'WalletConnectionsService',
+        action: 'track',
+        walletType,
+        timestamp: Date.now()
+      };
+      const errorResult = this.errorHandler.handle(error, context);
+      return { success: false, error: errorResult.message };
+    }
+  }
+
+  async disconnect(id: string): Promise<void> {
+    const tracked = this.connectors.get(id);
+    if (!tracked) return;
+
+    const wasActive = id === this.activeId;
+    this.untrack(id);
+
+    try {
+      // The active connector is wagmi's, so wagmi has to let go of it as well
+      if (wasActive) {
+        await this.walletService.disconnect();
+      } else {
+        await tracked.connector.disconnect();
+      }
+    } catch (error) {
+      const context: ErrorContext = {
+        component: 'WalletConnectionsService',
+        action: 'disconnect',
+        walletType: id,
+        timestamp: Date.now()
+      };
+      this.errorHandler.handle(error, context);
+    }
+
+    if (wasActive) {
+      await this.activateNext();
+    }
+    this.notify();
+  }
+
+  async disconnectAll(): Promise<void> {
+    const inactive = Array.from(this.connectors.entries()).filter(([id]) => id !== this.activeId);
+    Array.from(this.connectors.keys()).forEach(id => this.untrack(id));
+    this.setActiveId(null);
+
+    await Promise.all(inactive.map(([, { connector }]) => connector.disconnect().catch(error => {
+      console.warn(`Failed to disconnect ${connector.id}:`, error);
+    })));
+    await this.walletService.disconnect();
+
+    this.notify();
+  }
+
+  restore(): Promise<WalletConnection[]> {
+    if (!this.restoring) {
+      this.restoring = this.restoreSaved();
+    }
+    return this.restoring;
+  }
+
+  async setActive(id: string): Promise<WalletConnectionsResult> {
+    const connection = this.connections.get(id);
+    if (!connection) {
+      return { success: false, error: `${id} is not connected` };
+    }
+
+    if (id !== this.activeId) {
+      const result = await this.walletService.activateConnector(id);
+      if (!result.success) {
+        return { success: false, error: result.error || 'Failed to switch account' };
+      }
+      this.update(id, { lastActivity: Date.now() });
+      this.setActiveId(id);
+      this.notify();
+    }
+
+    return { success: true, connection: this.connections.get(id) };
+  }
+
+  getActiveConnection(): WalletConnection | null {
+    return this.activeId ? this.connections.get(this.activeId) ?? null : null;
+  }
+
+  getConnections(): WalletConnection[] {
+    return Array.from(this.connections.values());
+  }
+
+  getConnection(id: string): WalletConnection | null {
+    return this.connections.get(id) ?? null;
+  }
+
+  subscribe(listener: WalletConnectionsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private findConnector(id: string): Connector {
+    const connector = this.walletService.getConnectors().find(c => c.id === id);
+    if (!connector) {
+      throw new Error(`Connector ${id} not found`);
+    }
+    return connector;
+  }
+
+  private register(connector: Connector, address: string, chainId: number | null, connectedAt?: number): WalletConnection {
+    if (!SecurityUtils.validateWalletAddress(address)) {
+      throw new Error(`${connector.name} did not return a valid account`);
+    }
+
+    const now = Date.now();
+    const existing = this.connections.get(connector.id);
+    const connection: WalletConnection = {
+      id: connector.id,
+      walletType: connector.id,
+      address,
+      chainId,
+      connectedAt: existing?.connectedAt ?? connectedAt ?? now,
+      lastActivity: now
+    };
+
+    if (!this.connectors.has(connector.id)) {
+      const tracked: TrackedConnector = {
+        connector,
+        onChange: data => this.handleChange(connector.id, data),
+        onDisconnect: () => this.handleDisconnect(connector.id)
+      };
+      connector.on('change', tracked.onChange);
+      connector.on('disconnect', tracked.onDisconnect);
+      this.connectors.set(connector.id, tracked);
+    }
+
+    this.connections.set(connection.id, connection);
+    this.save(connection);
+    return connection;
+  }
+
+  private untrack(id: string): void {
+    const tracked = this.connectors.get(id);
+    if (tracked) {
+      tracked.connector.off('change', tracked.onChange);
+      tracked.connector.off('disconnect', tracked.onDisconnect);
+    }
+
+    this.connectors.delete(id);
+    this.connections.delete(id);
+    this.storageService.removeItem(`${WALLET_CONNECTION_PREFIX}${id}`);
+  }
+
+  private update(id: string, changes: Partial<WalletConnection>): void {
+    const connection = this.connections.get(id);
+    if (!connection) return;
+
+    const updated = { ...connection, ...changes };
+    this.connections.set(id, updated);
+    this.save(updated);
+  }
+
+  private handleChange(id: string, { account, chain }: ConnectorData): void {
+    if (!this.connections.has(id)) return;
+
+    this.update(id, {
+      ...(account && SecurityUtils.validateWalletAddress(account) && { address: account }),
+      ...(chain && { chainId: chain.id }),
+      lastActivity: Date.now()
+    });
+    this.notify();
+  }
+
+  // The wallet ended the connection itself, e.g. it was locked or the session was revoked
+  private async handleDisconnect(id: string): Promise<void> {
+    if (!this.connections.has(id)) return;
+
+    const wasActive = id === this.activeId;
+    this.untrack(id);
+    if (wasActive) {
+      await this.activateNext();
+    }
+    this.notify();
+  }
+
+  // Hands signing to the longest-open remaining connection
+  private async activateNext(): Promise<void> {
+    this.setActiveId(null);
+
+    const [next] = this.getConnections().sort((a, b) => a.connectedAt - b.connectedAt);
+    if (!next) return;
+
+    const result = await this.walletService.activateConnector(next.id);
+    if (result.success) {
+      this.setActiveId(next.id);
+    }
+  }
+
+  private async restoreSaved(): Promise<WalletConnection[]> {
+    const saved = this.loadSaved();
+    const savedActiveId = this.storageService.getItem(ACTIVE_WALLET_CONNECTION);
+
+    // One at a time so a wallet that does prompt is not buried under the others
+    for (const connection of saved) {
+      try {
+        const connector = this.findConnector(connection.id);
+        if (!(await connector.isAuthorized())) {
+          this.storageService.removeItem(`${WALLET_CONNECTION_PREFIX}${connection.id}`);
+          continue;
+        }
+
+        const data = await connector.connect();
+        this.register(connector, data.account, data.chain?.id ?? connection.chainId, connection.connectedAt);
+      } catch (error) {
+        console.warn(`Failed to restore the ${connection.walletType} connection:`, error);
+        this.storageService.removeItem(`${WALLET_CONNECTION_PREFIX}${connection.id}`);
+      }
+    }
+
+    if (savedActiveId && this.connections.has(savedActiveId)) {
+      const result = await this.walletService.activateConnector(savedActiveId);
+      this.setActiveId(result.success ? savedActiveId : null);
+    }
+    if (!this.activeId && this.connections.size > 0) {
+      await this.activateNext();
+    }
+
+    this.notify();
+    return this.getConnections();
+  }
+
+  private loadSaved(): WalletConnection[] {
+    return this.storageService.getKeys()
+      .filter(key => key.startsWith(WALLET_CONNECTION_PREFIX))
+      .map(key => this.storageService.getJSON<WalletConnection>(key))
+      .filter((connection): connection is WalletConnection => (
+        !!connection &&
+        typeof connection.id === 'string' &&
+        SecurityUtils.validateWalletAddress(connection.address)
+      ))
+      .sort((a, b) => a.connectedAt - b.connectedAt);
+  }
+
+  private save(connection: WalletConnection): void {
+    try {
+      this.storageService.setJSON(`${WALLET_CONNECTION_PREFIX}${connection.id}`, connection);
+    } catch (error) {
+      const context: ErrorContext = {
+        component: 'WalletConnectionsService',
+        action: 'saveConnection',
+        walletType: connection.walletType,
+        timestamp: Date.now()
+      };
+      this.errorHandler.handle(error, context);
+    }
+  }
+
+  private setActiveId(id: string | null): void {
+    this.activeId = id;
+    if (id) {
+      this.storageService.setItem(ACTIVE_WALLET_CONNECTION, id);
+    } else {
+      this.storageService.removeItem(ACTIVE_WALLET_CONNECTION);
+    }
+  }
+
+  private notify(): void {
+    const snapshot = { connections: this.getConnections(), activeId: this.activeId };
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.warn('Wallet connections listener failed:', error);
+      }
+    });
+  }
+}
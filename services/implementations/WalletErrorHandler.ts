@@ -1,12 +1,31 @@
 import { IErrorHandler, ErrorContext, ErrorResult } from '../interfaces/IErrorHandler';
-import { APP_CONFIG } from '@/config/constants';
-import { walletConnectionToast, networkToast } from '@/utils/toast';
+import { walletConnectionToast, networkToast, signatureToast, transactionToast } from '@/utils/toast';
+import { ErrorCategory, ErrorCode, ErrorSeverity, RecoveryAction, isSignatureError, isTransactionError } from '@/types/errors';
+import { ErrorMessageKey, RECOVERY_POLICIES, formatErrorMessage, getErrorEntry } from '@/config/errorCatalogue';
 import { walletLogger } from '@/utils/logger';
+import { WalletRegistry, WalletStrategy, walletRegistry } from '@/strategies/WalletStrategy';
+
+// Recovery for errors the catalogue has no code for
+const CATEGORY_RECOVERY: Record<ErrorCategory, RecoveryAction> = {
+  connection: 'reconnect',
+  network: 'switch_network',
+  wallet: 'retry',
+  storage: 'clear_storage',
+  validation: 'none',
+  signature: 'retry',
+  transaction: 'none',
+  unknown: 'none'
+};
 
 export class WalletErrorHandler implements IErrorHandler {
+  private registry: WalletRegistry;
+
+  constructor(registry: WalletRegistry = walletRegistry) {
+    this.registry = registry;
+  }
+
   handle(error: any, context: ErrorContext): ErrorResult {
     const categorization = this.categorizeError(error);
-    const recoveryAction = this.getRecoveryAction(error);
     
     this.logError(error, context);
     
@@ -19,8 +38,16 @@ export class WalletErrorHandler implements IErrorHandler {
         return this.handleWalletError(error, context);
       case 'storage':
         return this.handleStorageError(error, context);
-      default:
-        return this.handleUnknownError(error, context);
+      case 'signature':
+        return this.handleSignatureError(error, context);
+      case 'transaction':
+        return this.handleTransactionError(error, context);
+      default: {
+        const strategy = this.getStrategy(context);
+        return strategy
+          ? this.handleWalletStrategyError(error, context, strategy)
+          : this.handleUnknownError(error, context);
+      }
     }
   }
 
@@ -29,10 +56,21 @@ export class WalletErrorHandler implements IErrorHandler {
   }
 
   categorizeError(error: any): {
-    type: 'connection' | 'network' | 'wallet' | 'storage' | 'unknown';
-    severity: 'low' | 'medium' | 'high' | 'critical';
+    type: ErrorCategory;
+    severity: ErrorSeverity;
     userFriendly: boolean;
   } {
+    const entry = getErrorEntry(error);
+
+    // Our own signature and transaction errors keep their category whatever code the wallet gave
+    if (isSignatureError(error) || isTransactionError(error)) {
+      return {
+        type: isSignatureError(error) ? 'signature' : 'transaction',
+        severity: entry?.severity ?? 'low',
+        userFriendly: true
+      };
+    }
+
     // Handle ConnectorAlreadyConnectedError specifically
     if (error?.message?.includes('already connected') || error?.name === 'ConnectorAlreadyConnectedError') {
       return {
@@ -42,15 +80,17 @@ export class WalletErrorHandler implements IErrorHandler {
       };
     }
 
-    if (error?.code === APP_CONFIG.ERROR_CODES.METAMASK_PENDING_REQUEST) {
+    if (entry) {
       return {
-        type: 'wallet',
-        severity: 'low',
-        userFriendly: true
+        type: entry.category,
+        severity: entry.severity,
+        // Critical codes point at a bug in the request, not something the user can fix
+        userFriendly: entry.severity !== 'critical'
       };
     }
 
-    if (error?.code === -32603 || error?.message?.includes('network')) {
+    // Errors without a known code, such as viem's, are recognised by their message
+    if (error?.message?.includes('network')) {
       return {
         type: 'network',
         severity: 'medium',
@@ -58,7 +98,7 @@ export class WalletErrorHandler implements IErrorHandler {
       };
     }
 
-    if (error?.code === -32002 || error?.message?.includes('connection')) {
+    if (error?.message?.includes('connection')) {
       return {
         type: 'connection',
         severity: 'medium',
@@ -66,7 +106,7 @@ export class WalletErrorHandler implements IErrorHandler {
       };
     }
 
-    if (error?.name === 'QuotaExceededError' || error?.message?.includes('storage')) {
+    if (error?.message?.includes('storage')) {
       return {
         type: 'storage',
         severity: 'high',
@@ -74,14 +114,6 @@ export class WalletErrorHandler implements IErrorHandler {
       };
     }
 
-    if (error?.code === -32601 || error?.code === -32700) {
-      return {
-        type: 'wallet',
-        severity: 'critical',
-        userFriendly: false
-      };
-    }
-
     return {
       type: 'unknown',
       severity: 'medium',
@@ -90,12 +122,10 @@ export class WalletErrorHandler implements IErrorHandler {
   }
 
   getRecoveryAction(error: any): {
-    action: 'retry' | 'reconnect' | 'switch_network' | 'clear_storage' | 'none';
+    action: RecoveryAction;
     delay?: number;
     maxAttempts?: number;
   } {
-    const categorization = this.categorizeError(error);
-
     // Handle already connected error - no recovery action needed
     if (error?.message?.includes('already connected') || error?.name === 'ConnectorAlreadyConnectedError') {
       return {
@@ -105,43 +135,18 @@ export class WalletErrorHandler implements IErrorHandler {
       };
     }
 
-    switch (categorization.type) {
-      case 'connection':
-        return {
-          action: 'reconnect',
-          delay: 2000,
-          maxAttempts: 3
-        };
-      case 'network':
-        return {
-          action: 'switch_network',
-          delay: 1000,
-          maxAttempts: 2
-        };
-      case 'storage':
-        return {
-          action: 'clear_storage',
-          delay: 0,
-          maxAttempts: 1
-        };
-      case 'wallet':
-        if (categorization.severity === 'low') {
-          return {
-            action: 'retry',
-            delay: 1000,
-            maxAttempts: 2
-          };
-        }
-        return {
-          action: 'reconnect',
-          delay: 3000,
-          maxAttempts: 1
-        };
-      default:
-        return {
-          action: 'none'
-        };
+    // Never re-submit a transaction automatically; the user decides whether to send again
+    if (isTransactionError(error)) {
+      return {
+        action: 'none'
+      };
     }
+
+    const action = getErrorEntry(error)?.recovery ?? CATEGORY_RECOVERY[this.categorizeError(error).type];
+    return {
+      action,
+      ...RECOVERY_POLICIES[action]
+    };
   }
 
   logError(error: any, context: ErrorContext): void {
@@ -153,52 +158,65 @@ export class WalletErrorHandler implements IErrorHandler {
   }
 
   private handleConnectionError(error: any, context: ErrorContext): ErrorResult {
-    const message = this.getUserFriendlyMessage(error, 'connection');
+    const strategy = this.getStrategy(context);
+    if (strategy) {
+      return this.handleWalletStrategyError(error, context, strategy);
+    }
+
+    const message = this.getCatalogueMessage(error, 'connectionFailed');
     walletConnectionToast.failed(context.walletType || 'wallet', message);
     
     return {
       handled: true,
       message,
-      shouldRetry: true,
+      shouldRetry: getErrorEntry(error)?.retryable ?? true,
       retryDelay: 2000
     };
   }
 
   private handleNetworkError(error: any, context: ErrorContext): ErrorResult {
-    const message = this.getUserFriendlyMessage(error, 'network');
+    const message = this.getCatalogueMessage(error, 'internalError', this.getStrategy(context)?.name);
     networkToast.switchError('Network', message);
     
     return {
       handled: true,
       message,
-      shouldRetry: true,
+      shouldRetry: getErrorEntry(error)?.retryable ?? true,
       retryDelay: 1000
     };
   }
 
   private handleWalletError(error: any, context: ErrorContext): ErrorResult {
-    if (error?.code === APP_CONFIG.ERROR_CODES.METAMASK_PENDING_REQUEST) {
-      walletLogger.warn(`MetaMask is already processing a request. Please wait.`);
+    const strategy = this.getStrategy(context);
+
+    // A pending request is still open in the wallet; the user only has to answer it
+    if (getErrorEntry(error)?.messageKey === 'requestPending') {
+      const message = formatErrorMessage('requestPending', strategy?.name);
+      walletLogger.warn(message);
       return {
         handled: true,
-        message: 'MetaMask is already processing a request. Please wait.',
+        message,
         shouldRetry: false
       };
     }
 
-    const message = this.getUserFriendlyMessage(error, 'wallet');
+    if (strategy) {
+      return this.handleWalletStrategyError(error, context, strategy);
+    }
+
+    const message = this.getCatalogueMessage(error, 'unexpected');
     walletConnectionToast.failed(context.walletType || 'wallet', message);
     
     return {
       handled: true,
       message,
-      shouldRetry: error?.code !== APP_CONFIG.ERROR_CODES.METAMASK_PENDING_REQUEST,
+      shouldRetry: getErrorEntry(error)?.retryable ?? true,
       retryDelay: 1000
     };
   }
 
   private handleStorageError(error: any, context: ErrorContext): ErrorResult {
-    const message = 'Storage error occurred. Please check your browser settings.';
+    const message = this.getCatalogueMessage(error, 'storageDenied');
     
     return {
       handled: true,
@@ -207,9 +225,35 @@ export class WalletErrorHandler implements IErrorHandler {
     };
   }
 
-  private handleUnknownError(error: any, context: ErrorContext): ErrorResult {
-    const message = 'An unexpected error occurred. Please try again.';
-    
+  private handleSignatureError(error: any, context: ErrorContext): ErrorResult {
+    const entry = getErrorEntry(error);
+    let message = formatErrorMessage('signatureFailed');
+    if (entry?.messageKey === 'userRejected') {
+      message = 'Signature request was rejected in the wallet.';
+    } else if (error?.code === ErrorCode.SIGNATURE_UNSUPPORTED) {
+      message = error.message;
+    }
+
+    signatureToast.failed(message);
+
+    return {
+      handled: true,
+      message,
+      shouldRetry: entry?.retryable ?? true,
+      retryDelay: 1000
+    };
+  }
+
+  private handleTransactionError(error: any, context: ErrorContext): ErrorResult {
+    let message = formatErrorMessage('transactionFailed');
+    if (getErrorEntry(error)?.messageKey === 'userRejected') {
+      message = 'Transaction was rejected in the wallet.';
+    } else if (error?.code === ErrorCode.TRANSACTION_UNSUPPORTED || error?.stage === 'build' || error?.stage === 'estimate') {
+      message = error.message;
+    }
+
+    transactionToast.failed(message);
+
     return {
       handled: true,
       message,
@@ -217,29 +261,35 @@ export class WalletErrorHandler implements IErrorHandler {
     };
   }
 
-  private getUserFriendlyMessage(error: any, type: string): string {
-    const messages = {
-      connection: {
-        'meta_mask': 'MetaMask connection failed. Please check if MetaMask is installed and unlocked.',
-        'token_pocket': 'TokenPocket connection failed. Please check if TokenPocket is installed and unlocked.',
-        'bitget_wallet': 'Bitget Wallet connection failed. Please check if Bitget Wallet is installed and unlocked.',
-        'particle_network': 'Particle Network connection failed. Please try again.',
-        'wallet_connect': 'WalletConnect connection failed. Please try again.',
-        default: 'Connection failed. Please try again.'
-      },
-      network: {
-        default: 'Network error occurred. Please check your connection and try again.'
-      },
-      wallet: {
-        default: 'Wallet error occurred. Please try again.'
-      }
+  private handleWalletStrategyError(error: any, context: ErrorContext, strategy: WalletStrategy): ErrorResult {
+    const message = strategy.getErrorMessage(error);
+    walletConnectionToast.failed(context.walletType || strategy.name, message);
+
+    // A rejected or cancelled request is the user's answer; do not prompt again
+    const retryable = getErrorEntry(error)?.retryable ?? true;
+    return {
+      handled: true,
+      message,
+      shouldRetry: retryable,
+      ...(retryable && { retryDelay: 2000 })
     };
+  }
 
-    const typeMessages = messages[type as keyof typeof messages];
-    if (!typeMessages) {
-      return messages.connection.default;
-    }
+  private handleUnknownError(error: any, context: ErrorContext): ErrorResult {
+    const message = formatErrorMessage('unexpected');
+    
+    return {
+      handled: true,
+      message,
+      shouldRetry: false
+    };
+  }
+
+  private getStrategy(context: ErrorContext): WalletStrategy | undefined {
+    return context.walletType ? this.registry.getStrategy(context.walletType) : undefined;
+  }
 
-    return typeMessages.default || 'An error occurred. Please try again.';
+  private getCatalogueMessage(error: any, fallback: ErrorMessageKey, wallet?: string): string {
+    return formatErrorMessage(getErrorEntry(error)?.messageKey ?? fallback, wallet);
   }
 }
@@ -0,0 +1,162 @@
+import {
+  IWatchOnlyService,
+  WatchedAccount,
+  WatchedAccountListener,
+  WatchOnlyResult
+} from '../interfaces/IWatchOnlyService';
+import { IStorageService } from '../interfaces/IStorageService';
+import { IErrorHandler, ErrorContext } from '../interfaces/IErrorHandler';
+import { APP_CONFIG } from '@/config/constants';
+import { getChainDefinition } from '@/config/chains';
+import { areTestnetsAllowed } from '@/config/environment';
+import { SecurityUtils } from '@/utils/security';
+import { isEnsName, resolveEnsName } from '@/utils/ens';
+
+export interface WatchOnlyServiceOptions {
+  allowTestnets?: boolean;
+  // Looks up ENS names; resolves to null when the name has no address
+  resolveName?: (name: string) => Promise<string | null>;
+}
+
+const DEFAULT_CHAIN_ID = 1;
+
+export class WatchOnlyService implements IWatchOnlyService {
+  private storageService: IStorageService;
+  private errorHandler: IErrorHandler;
+  private allowTestnets: boolean;
+  private resolveName: (name: string) => Promise<string | null>;
+  private account: WatchedAccount | null;
+  private listeners: Set<WatchedAccountListener> = new Set();
+
+  constructor(
+    storageService: IStorageService,
+    errorHandler: IErrorHandler,
+    options: WatchOnlyServiceOptions = {}
+  ) {
+    this.storageService = storageService;
+    this.errorHandler = errorHandler;
+    this.allowTestnets = options.allowTestnets ?? areTestnetsAllowed();
+    this.resolveName = options.resolveName ?? (name => resolveEnsName(name));
+    this.account = this.loadAccount();
+  }
+
+  async watch(addressOrName: string, chainId?: number): Promise<WatchOnlyResult> {
+    const input = (addressOrName || '').trim();
+    const targetChainId = chainId ?? this.account?.chainId ?? DEFAULT_CHAIN_ID;
+
+    if (!this.isChainSupported(targetChainId)) {
+      return { success: false, error: `Network ${targetChainId} is not supported` };
+    }
+
+    try {
+      let ensName: string | undefined;
+      let address = input;
+
+      if (isEnsName(input)) {
+        ensName = input.toLowerCase();
+        const resolved = await this.resolveName(ensName);
+        if (!resolved) {
+          return { success: false, error: `${ensName} does not resolve to an address` };
+        }
+        address = resolved;
+      }
+
+      if (!SecurityUtils.validateWalletAddress(address)) {
+        return { success: false, error: 'Enter a valid address or ENS name' };
+      }
+
+      this.setAccount({
+        address,
+        ...(ensName && { ensName }),
+        chainId: targetChainId,
+        startedAt: Date.now()
+      });
+      return { success: true, account: this.account! };
+    } catch (error) {
+      const context: ErrorContext = {
+        component: 'WatchOnlyService',
+        action: 'watch',
+        walletType: 'watchOnly',
+        chainId: targetChainId,
+        timestamp: Date.now()
+      };
+      const errorResult = this.errorHandler.handle(error, context);
+      return { success: false, error: errorResult.message };
+    }
+  }
+
+  setChain(chainId: number): WatchOnlyResult {
+    if (!this.account) {
+      return { success: false, error: 'No address is being watched' };
+    }
+    if (!this.isChainSupported(chainId)) {
+      return { success: false, error: `Network ${chainId} is not supported` };
+    }
+
+    if (chainId !== this.account.chainId) {
+      this.setAccount({ ...this.account, chainId });
+    }
+    return { success: true, account: this.account };
+  }
+
+  stopWatching(): void {
+    if (!this.account) return;
+    this.setAccount(null);
+  }
+
+  getWatchedAccount(): WatchedAccount | null {
+    return this.account;
+  }
+
+  isWatching(): boolean {
+    return this.account !== null;
+  }
+
+  subscribe(listener: WatchedAccountListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private isChainSupported(chainId: number): boolean {
+    const chain = getChainDefinition(chainId);
+    return !!chain && (!chain.testnet || this.allowTestnets);
+  }
+
+  // A saved address is only trusted again if it still validates
+  private loadAccount(): WatchedAccount | null {
+    const saved = this.storageService.getJSON<WatchedAccount>(APP_CONFIG.STORAGE_KEYS.WATCH_ONLY_ACCOUNT);
+    if (!saved || !SecurityUtils.validateWalletAddress(saved.address) || !this.isChainSupported(saved.chainId)) {
+      return null;
+    }
+    return saved;
+  }
+
+  private setAccount(account: WatchedAccount | null): void {
+    this.account = account;
+
+    try {
+      if (account) {
+        this.storageService.setJSON(APP_CONFIG.STORAGE_KEYS.WATCH_ONLY_ACCOUNT, account);
+      } else {
+        this.storageService.removeItem(APP_CONFIG.STORAGE_KEYS.WATCH_ONLY_ACCOUNT);
+      }
+    } catch (error) {
+      const context: ErrorContext = {
+        component: 'WatchOnlyService',
+        action: 'persistAccount',
+        timestamp: Date.now()
+      };
+      this.errorHandler.handle(error, context);
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(account);
+      } catch (error) {
+        console.warn('Watch-only listener failed:', error);
+      }
+    });
+  }
+}
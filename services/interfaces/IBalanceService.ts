@@ -0,0 +1,49 @@
+import { TokenDefinition } from '@/types/chain';
+
+export interface TokenBalance {
+  // null for the chain's native currency
+  address: string | null;
+  symbol: string;
+  name: string;
+  decimals: number;
+  value: bigint;
+  formatted: string;
+}
+
+export interface BalanceSnapshot {
+  address: string;
+  chainId: number;
+  native: TokenBalance;
+  tokens: TokenBalance[];
+  // True when the token balances were read through a single Multicall3 call
+  batched: boolean;
+  blockNumber?: number;
+  fetchedAt: number;
+}
+
+export interface BalanceResult {
+  success: boolean;
+  balances?: BalanceSnapshot;
+  error?: string;
+}
+
+export interface BalanceQueryOptions {
+  // Skip the cache entirely
+  force?: boolean;
+  // Latest known block; cached balances read at an older block are refreshed
+  blockNumber?: number;
+}
+
+export interface IBalanceService {
+  // Balance reads
+  getBalances(address: string, chainId: number, options?: BalanceQueryOptions): Promise<BalanceResult>;
+  getNativeBalance(address: string, chainId: number): Promise<TokenBalance>;
+  getTokenBalances(address: string, chainId: number, tokens?: TokenDefinition[]): Promise<{ balances: TokenBalance[]; batched: boolean }>;
+
+  // Token list
+  getTokenList(chainId: number): TokenDefinition[];
+
+  // Cache
+  getCachedBalances(address: string, chainId: number): BalanceSnapshot | null;
+  invalidate(address?: string, chainId?: number): void;
+}
@@ -0,0 +1,39 @@
+import { ChainDefinition } from '@/types/chain';
+
+// What a user enters in the "Add network" form
+export interface CustomNetworkInput {
+  name: string;
+  rpcUrl: string;
+  chainId: number;
+  currencySymbol: string;
+  currencyName?: string; // defaults to the symbol
+  currencyDecimals?: number; // defaults to 18
+  explorerUrl?: string;
+  testnet?: boolean;
+}
+
+export interface CustomNetworkResult {
+  success: boolean;
+  network?: ChainDefinition;
+  error?: string;
+}
+
+export interface ChainIdVerification {
+  success: boolean;
+  // The chain id the RPC reported, when it answered
+  chainId?: number;
+  error?: string;
+}
+
+// Networks added by the user at runtime, kept alongside the built-in chain list
+export interface ICustomNetworkService {
+  getCustomNetworks(): ChainDefinition[];
+  isCustomNetwork(chainId: number): boolean;
+
+  // Saves and registers the network once its RPC reports the entered chain id
+  addCustomNetwork(input: CustomNetworkInput): Promise<CustomNetworkResult>;
+  removeCustomNetwork(chainId: number): boolean;
+
+  // Asks the RPC for eth_chainId and compares it with the expected id
+  verifyChainId(rpcUrl: string, chainId: number): Promise<ChainIdVerification>;
+}
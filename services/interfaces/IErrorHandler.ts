@@ -1,3 +1,5 @@
+import { ErrorCategory, ErrorSeverity, RecoveryAction } from '@/types/errors';
+
 export interface ErrorContext {
   component: string;
   action: string;
@@ -21,14 +23,14 @@ export interface IErrorHandler {
   
   // Error categorization
   categorizeError(error: any): {
-    type: 'connection' | 'network' | 'wallet' | 'storage' | 'unknown';
-    severity: 'low' | 'medium' | 'high' | 'critical';
+    type: ErrorCategory;
+    severity: ErrorSeverity;
     userFriendly: boolean;
   };
   
   // Error recovery
   getRecoveryAction(error: any): {
-    action: 'retry' | 'reconnect' | 'switch_network' | 'clear_storage' | 'none';
+    action: RecoveryAction;
     delay?: number;
     maxAttempts?: number;
   };
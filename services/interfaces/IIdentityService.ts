@@ -0,0 +1,32 @@
+export interface EnsIdentity {
+  address: string;
+  name: string | null;
+  avatar: string | null; // an http(s) or data: URL ready for an <img>
+}
+
+export interface AddressResolution {
+  success: boolean;
+  address?: string;
+  name?: string;
+  error?: string;
+}
+
+// Looks up names and avatars on Ethereum mainnet
+export interface EnsResolver {
+  resolveName(name: string): Promise<string | null>;
+  lookupName(address: string): Promise<string | null>;
+  resolveAvatar(name: string, owner: string): Promise<string | null>;
+}
+
+export interface IIdentityService {
+  // Forward resolution: name.eth -> address
+  resolveName(name: string): Promise<string | null>;
+  // Reverse resolution with avatar: address -> name.eth
+  lookupAddress(address: string): Promise<EnsIdentity>;
+  // Accepts what a user types into an address field: a hex address or an ENS name
+  resolveAddressInput(value: string): Promise<AddressResolution>;
+
+  // Cache
+  getCachedIdentity(address: string): EnsIdentity | null;
+  clearCache(): void;
+}
@@ -1,8 +1,13 @@
+import { ConnectionFailure, NetworkMode, RpcEndpointHealth } from '@/types/chain';
+import { ProviderEventSubscriptions } from './IProviderEventBus';
+
 export interface Network {
   id: number;
   name: string;
   rpcUrl: string;
+  rpcUrls?: string[]; // every configured endpoint, healthiest first
   blockExplorer?: string;
+  isTestnet?: boolean;
   nativeCurrency?: {
     name: string;
     symbol: string;
@@ -10,21 +15,50 @@ export interface Network {
   };
 }
 
+export interface NetworkHealth {
+  isHealthy: boolean;
+  latency: number;
+  error?: string;
+  endpoints: RpcEndpointHealth[]; // ranked healthiest first
+  // Why the probe judged the network unhealthy, such as a chain id mismatch or a stale block
+  failures?: ConnectionFailure[];
+}
+
 export interface NetworkSwitchResult {
   success: boolean;
   error?: string;
   networkId?: number;
 }
 
-export interface INetworkService {
+// A network is valid when it is supported in the current mode and its RPC passes the connection probe
+export interface NetworkValidationResult {
+  isValid: boolean;
+  error?: string;
+  // What the probe found wrong with the RPC; empty when the network is not supported at all
+  failures: ConnectionFailure[];
+}
+
+export interface NetworkModeResult {
+  success: boolean;
+  mode: NetworkMode;
+  error?: string;
+}
+
+// Also exposes the wallet provider events; chainChanged keeps the current network up to date
+export interface INetworkService extends ProviderEventSubscriptions {
   // Network operations
   getCurrentNetwork(): Network | null;
   switchNetwork(networkId: number): Promise<NetworkSwitchResult>;
   
-  // Network validation
+  // Network mode (mainnet or testnet), saved as a user preference
+  getNetworkMode(): NetworkMode;
+  setNetworkMode(mode: NetworkMode): NetworkModeResult;
+  isNetworkModeAllowed(mode: NetworkMode): boolean;
+  
+  // Network validation, limited to the current network mode
   getSupportedNetworks(): Network[];
   isNetworkSupported(networkId: number): boolean;
-  validateNetwork(networkId: number): Promise<boolean>;
+  validateNetwork(networkId: number): Promise<NetworkValidationResult>;
   
   // Network status
   getNetworkStatus(networkId: number): {
@@ -34,9 +68,5 @@ export interface INetworkService {
   };
   
   // Network health
-  checkNetworkHealth(networkId: number): Promise<{
-    isHealthy: boolean;
-    latency: number;
-    error?: string;
-  }>;
+  checkNetworkHealth(networkId: number): Promise<NetworkHealth>;
 }
@@ -0,0 +1,8 @@
+export interface INonceStore {
+  // Nonce lifecycle
+  create(nonce: string, expiresAt: number): Promise<void>;
+  consume(nonce: string): Promise<boolean>;
+
+  // Housekeeping
+  purgeExpired(now?: number): Promise<void>;
+}
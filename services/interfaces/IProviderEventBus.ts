@@ -0,0 +1,44 @@
+import { WalletProvider } from '@/types/wallet';
+
+// EIP-1193 provider events, normalised so every wallet reports them the same way
+export interface AccountChangedEvent {
+  walletType: string;
+  accounts: string[];
+  address: string | null; // null when the wallet is locked or the site lost access
+}
+
+export interface ChainChangedEvent {
+  walletType: string;
+  chainId: number;
+}
+
+export interface DisconnectEvent {
+  walletType: string;
+  code?: number;
+  message?: string;
+}
+
+export interface ProviderEventMap {
+  accountChanged: AccountChangedEvent;
+  chainChanged: ChainChangedEvent;
+  disconnect: DisconnectEvent;
+}
+
+export type Unsubscribe = () => void;
+
+// Subscriptions shared by the wallet and network services
+export interface ProviderEventSubscriptions {
+  onAccountChanged(listener: (event: AccountChangedEvent) => void): Unsubscribe;
+  onChainChanged(listener: (event: ChainChangedEvent) => void): Unsubscribe;
+  onDisconnect(listener: (event: DisconnectEvent) => void): Unsubscribe;
+}
+
+export interface IProviderEventBus extends ProviderEventSubscriptions {
+  // Provider lifecycle
+  attach(walletType: string, provider: WalletProvider): void;
+  detach(provider: WalletProvider): void;
+
+  // Follows every wallet strategy's provider, including wallets announced later
+  start(): void;
+  stop(): void;
+}
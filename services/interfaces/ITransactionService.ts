@@ -0,0 +1,108 @@
+export type TransactionStatus = 'pending' | 'confirmed' | 'replaced' | 'dropped' | 'failed';
+
+export interface TransactionRequest {
+  chainId: number;
+  to: string;
+  value?: bigint;
+  data?: string;
+  gas?: bigint;
+}
+
+export interface PreparedTransaction extends TransactionRequest {
+  from: string;
+  nonce: number;
+  gas: bigint;
+}
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  to: string;
+  nonce: number;
+  // Wei as a decimal string so the record survives JSON storage
+  value: string;
+  status: TransactionStatus;
+  submittedAt: number;
+  updatedAt: number;
+  blockNumber?: number;
+  error?: string;
+}
+
+export interface TransactionResult {
+  success: boolean;
+  hash?: string;
+  transaction?: TrackedTransaction;
+  error?: string;
+}
+
+// One call of an EIP-5792 batch
+export interface BatchCall {
+  to: string;
+  value?: bigint;
+  data?: string;
+}
+
+export interface CallsRequest {
+  chainId: number;
+  calls: BatchCall[];
+  // Fail rather than fall back when the calls cannot run as one atomic batch
+  atomicRequired?: boolean;
+}
+
+export type CallsStatus = 'pending' | 'confirmed' | 'failed' | 'reverted' | 'partially-reverted';
+
+export interface CallsReceipt {
+  hash: string;
+  status: 'success' | 'reverted';
+  blockNumber?: number;
+}
+
+export interface CallsResult {
+  success: boolean;
+  id?: string;
+  // 'wallet' when the wallet took the whole batch, 'sequential' when each call was its own transaction
+  mode?: 'wallet' | 'sequential';
+  // Hashes of the calls sent one by one
+  hashes?: string[];
+  // false when the wallet does not implement wallet_sendCalls
+  supported?: boolean;
+  error?: string;
+}
+
+export interface CallsStatusResult {
+  success: boolean;
+  status?: CallsStatus;
+  atomic?: boolean;
+  receipts?: CallsReceipt[];
+  error?: string;
+}
+
+// Called with each transaction that changes status or is cleared; getTransactions() has the current list
+export type TransactionListener = (transaction: TrackedTransaction) => void;
+
+export interface ITransactionService {
+  // Transaction building
+  buildTransaction(request: TransactionRequest): Promise<PreparedTransaction>;
+  estimateGas(request: TransactionRequest, from: string): Promise<bigint>;
+
+  // Transaction sending
+  sendTransaction(request: TransactionRequest): Promise<TransactionResult>;
+  // Sends an EIP-5792 batch, one transaction per call when the wallet cannot batch
+  sendCalls(request: CallsRequest): Promise<CallsResult>;
+  getCallsStatus(id: string): Promise<CallsStatusResult>;
+
+  // Lifecycle tracking
+  trackTransaction(transaction: TrackedTransaction): void;
+  getTransaction(hash: string): TrackedTransaction | null;
+  getTransactions(): TrackedTransaction[];
+  getPendingTransactions(): TrackedTransaction[];
+  clearCompleted(): void;
+
+  // Polling control
+  resumeTracking(): void;
+  stopTracking(): void;
+
+  // Status updates
+  subscribe(listener: TransactionListener): () => void;
+}
@@ -0,0 +1,98 @@
+// App metadata a WalletConnect peer shares when the session is approved
+export interface WalletConnectPeer {
+  name: string;
+  description: string;
+  url: string;
+  icons: string[];
+  // Links the wallet asks dapps to use when sending it back to the wallet app
+  redirect?: {
+    native?: string;
+    universal?: string;
+  };
+}
+
+export interface WalletConnectSession {
+  topic: string;
+  pairingTopic?: string;
+  peer: WalletConnectPeer;
+  // CAIP-10 accounts reduced to plain addresses, in the order the wallet sent them
+  accounts: string[];
+  chainIds: number[];
+  // Milliseconds since the epoch, unlike the relay which reports seconds
+  expiresAt: number;
+}
+
+export interface WalletConnectPairing {
+  uri: string;
+  // Only set when a mobile wallet was chosen
+  deepLink?: string;
+  // Settles once the wallet approves or rejects the proposal
+  approval: Promise<WalletConnectSessionResult>;
+}
+
+export interface WalletConnectPairingResult {
+  success: boolean;
+  pairing?: WalletConnectPairing;
+  error?: string;
+}
+
+export interface WalletConnectSessionResult {
+  success: boolean;
+  session?: WalletConnectSession;
+  error?: string;
+}
+
+export interface WalletConnectDisconnectResult {
+  success: boolean;
+  error?: string;
+}
+
+export type WalletConnectSessionsListener = (sessions: WalletConnectSession[]) => void;
+export type WalletConnectExpiryListener = (session: WalletConnectSession) => void;
+
+// Session as kept by the WalletConnect sign client; expiry is in seconds
+export interface WalletConnectClientSession {
+  topic: string;
+  pairingTopic?: string;
+  expiry: number;
+  namespaces: Record<string, { accounts: string[]; methods?: string[]; events?: string[] }>;
+  peer: { metadata: WalletConnectPeer };
+}
+
+export interface WalletConnectNamespace {
+  chains: string[];
+  methods: string[];
+  events: string[];
+}
+
+export type WalletConnectClientEvent = 'session_delete' | 'session_expire' | 'session_update' | 'session_extend';
+
+// The slice of @walletconnect/sign-client the session service relies on
+export interface WalletConnectClient {
+  connect(params: {
+    requiredNamespaces?: Record<string, WalletConnectNamespace>;
+    optionalNamespaces?: Record<string, WalletConnectNamespace>;
+  }): Promise<{ uri?: string; approval: () => Promise<WalletConnectClientSession> }>;
+  disconnect(params: { topic: string; reason: { code: number; message: string } }): Promise<void>;
+  session: {
+    getAll(): WalletConnectClientSession[];
+  };
+  on(event: WalletConnectClientEvent, listener: (args: { topic: string }) => void): unknown;
+}
+
+export interface IWalletConnectService {
+  // Pairing; walletId picks a mobile wallet to build a deep link for
+  createPairing(walletId?: string): Promise<WalletConnectPairingResult>;
+
+  // Sessions, restored from the client and the saved topics
+  restoreSessions(): Promise<WalletConnectSession[]>;
+  getSessions(): WalletConnectSession[];
+  disconnectSession(topic: string): Promise<WalletConnectDisconnectResult>;
+
+  // Subscriptions
+  subscribe(listener: WalletConnectSessionsListener): () => void;
+  onSessionExpiring(listener: WalletConnectExpiryListener): () => void;
+
+  // Clears the expiry timers
+  stop(): void;
+}
@@ -0,0 +1,35 @@
+import { WalletConnection } from '@/types/wallet';
+
+export interface WalletConnectionsResult {
+  success: boolean;
+  connection?: WalletConnection;
+  error?: string;
+}
+
+export interface WalletConnectionsSnapshot {
+  connections: WalletConnection[];
+  activeId: string | null;
+}
+
+export type WalletConnectionsListener = (snapshot: WalletConnectionsSnapshot) => void;
+
+// Several wallets connected at once, each on its own chain. The active one is the
+// wallet that signs; the others stay connected until they are disconnected.
+export interface IWalletConnectionsService {
+  // Connection lifecycle
+  connect(walletType: string): Promise<WalletConnectionsResult>;
+  track(walletType: string): Promise<WalletConnectionsResult>;
+  disconnect(id: string): Promise<void>;
+  disconnectAll(): Promise<void>;
+  restore(): Promise<WalletConnection[]>;
+
+  // Active account
+  setActive(id: string): Promise<WalletConnectionsResult>;
+  getActiveConnection(): WalletConnection | null;
+
+  // Queries
+  getConnections(): WalletConnection[];
+  getConnection(id: string): WalletConnection | null;
+
+  subscribe(listener: WalletConnectionsListener): () => void;
+}
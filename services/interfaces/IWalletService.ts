@@ -1,4 +1,8 @@
 import { Connector } from 'wagmi';
+import type { TypedData, TypedDataDomain } from 'viem';
+import { CallsRequest, CallsResult, CallsStatusResult, PreparedTransaction, TransactionResult } from './ITransactionService';
+import { ResolvedWalletCapabilities } from '@/types/wallet';
+import { ProviderEventSubscriptions } from './IProviderEventBus';
 
 export interface Account {
   address: string;
@@ -12,15 +16,64 @@ export interface WalletConnectionResult {
   walletType?: string;
 }
 
-export interface IWalletService {
+export interface SignatureResult {
+  success: boolean;
+  signature?: string;
+  error?: string;
+}
+
+// EIP-712 typed data payload
+export interface TypedDataPayload {
+  domain: TypedDataDomain;
+  types: TypedData;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+// EIP-2255 permission, as returned by wallet_getPermissions
+export interface WalletPermission {
+  parentCapability: string;
+  invoker?: string;
+  caveats?: Array<{ type: string; value: unknown }>;
+  date?: number;
+}
+
+export interface PermissionsResult {
+  success: boolean;
+  permissions?: WalletPermission[];
+  // false when the wallet does not implement the EIP-2255 methods
+  supported?: boolean;
+  error?: string;
+}
+
+// Also exposes accountsChanged, chainChanged and disconnect from the wallet providers
+export interface IWalletService extends ProviderEventSubscriptions {
   // Connection operations
   connect(connectorId: string): Promise<WalletConnectionResult>;
   disconnect(): Promise<void>;
+  // Makes another connector the signing one; the previous connector stays connected
+  activateConnector(connectorId: string): Promise<WalletConnectionResult>;
   
   // Account operations
   getAccount(): Promise<Account | null>;
   isConnected(): boolean;
   
+  // Signing operations
+  signMessage(message: string): Promise<SignatureResult>;
+  signTypedData(typedData: TypedDataPayload): Promise<SignatureResult>;
+  
+  // Transaction operations
+  sendTransaction(transaction: PreparedTransaction): Promise<TransactionResult>;
+  // EIP-5792: the wallet's capabilities on a chain, and batches the wallet runs itself
+  getWalletCapabilities(chainId: number): Promise<ResolvedWalletCapabilities>;
+  sendCalls(request: CallsRequest): Promise<CallsResult>;
+  getCallsStatus(id: string): Promise<CallsStatusResult>;
+  
+  // EIP-2255 permissions the site holds in the connected wallet; capabilities default to eth_accounts
+  getPermissions(): Promise<PermissionsResult>;
+  requestPermissions(capabilities?: string[]): Promise<PermissionsResult>;
+  revokePermissions(capabilities?: string[]): Promise<PermissionsResult>;
+  
   // Connector operations
   getConnectors(): Connector[];
   getAvailableConnectors(): Connector[];
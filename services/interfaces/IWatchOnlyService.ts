@@ -0,0 +1,29 @@
+// An address followed without a wallet; nothing can be signed for it
+export interface WatchedAccount {
+  address: string;
+  // Set when the address was looked up from an ENS name
+  ensName?: string;
+  chainId: number;
+  startedAt: number;
+}
+
+export interface WatchOnlyResult {
+  success: boolean;
+  account?: WatchedAccount;
+  error?: string;
+}
+
+export type WatchedAccountListener = (account: WatchedAccount | null) => void;
+
+export interface IWatchOnlyService {
+  // Accepts a 0x address or an ENS name; defaults to the current chain, then Ethereum
+  watch(addressOrName: string, chainId?: number): Promise<WatchOnlyResult>;
+  setChain(chainId: number): WatchOnlyResult;
+  stopWatching(): void;
+
+  getWatchedAccount(): WatchedAccount | null;
+  isWatching(): boolean;
+
+  // Subscriptions
+  subscribe(listener: WatchedAccountListener): () => void;
+}
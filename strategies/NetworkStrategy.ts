@@ -1,5 +1,11 @@
 import { APP_CONFIG } from '@/config/constants';
 import { SecurityUtils } from '@/utils/security';
+import { CHAIN_DEFINITIONS } from '@/config/chains';
+import { getPrimaryExplorerUrl, getPrimaryRpcUrl, getRpcEndpoints } from '@/utils/chains';
+import { JsonRpcClient, rpcClient } from '@/utils/rpcClient';
+import { RpcProbe } from '@/utils/rpcProbe';
+import { FeeOracle, getFallbackFees, parseGwei } from '@/utils/fees';
+import { ChainDefinition, ConnectionValidation, FeeEstimate, RpcEndpointHealth } from '@/types/chain';
 
 export interface Currency {
   name: string;
@@ -11,84 +17,67 @@ export interface NetworkStrategy {
   id: number;
   name: string;
   rpcUrl: string;
-  validateConnection(): Promise<boolean>;
+  validateConnection(): Promise<ConnectionValidation>;
   getBlockExplorer(): string;
   getNativeCurrency(): Currency;
   getChainId(): number;
   isTestnet(): boolean;
-  getGasEstimate(): Promise<{
-    fast: number;
-    standard: number;
-    slow: number;
-  }>;
+  getGasEstimate(): Promise<FeeEstimate>;
 }
 
-export class PolygonStrategy implements NetworkStrategy {
-  id = 137;
-  name = 'Polygon';
-  rpcUrl = 'https://polygon-rpc.com';
+// Network strategy driven entirely by a chain-list definition
+export class ConfiguredNetworkStrategy implements NetworkStrategy {
+  id: number;
+  name: string;
+  private readonly endpoints: string[];
+  private readonly feeOracle: FeeOracle;
+  private readonly probe: RpcProbe;
 
-  async validateConnection(): Promise<boolean> {
-    try {
-      // Validate RPC URL to prevent open redirect attacks
-      if (!SecurityUtils.validateURL(this.rpcUrl)) {
-        console.warn(`Invalid RPC URL detected: ${this.rpcUrl}`);
-        return false;
-      }
+  constructor(
+    private readonly definition: ChainDefinition,
+    private readonly client: JsonRpcClient = rpcClient
+  ) {
+    this.id = definition.id;
+    this.name = definition.name;
+    this.endpoints = getRpcEndpoints(definition);
+    this.feeOracle = new FeeOracle(client);
+    this.probe = new RpcProbe(client);
+  }
 
-      const payload = {
-        jsonrpc: '2.0',
-        method: 'eth_blockNumber',
-        params: [],
-        id: SecurityUtils.generateSecureToken(8)
-      };
-
-      // Validate RPC payload
-      if (!SecurityUtils.validateRPCRequest(payload)) {
-        console.warn('Invalid RPC payload detected');
-        return false;
-      }
+  // The currently healthiest endpoint
+  get rpcUrl(): string {
+    return this.getRpcUrls()[0] || getPrimaryRpcUrl(this.definition);
+  }
 
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'User-Agent': 'WalletConnectionApp/1.0'
-        },
-        body: JSON.stringify(payload),
-        signal: AbortSignal.timeout(APP_CONFIG.TIMEOUTS.NETWORK_HEALTH_CHECK)
-      });
+  getDefinition(): ChainDefinition {
+    return this.definition;
+  }
 
-      if (!response.ok) {
-        console.warn(`RPC response not ok: ${response.status} ${response.statusText}`);
-        return false;
-      }
+  // The RPC proxy and the endpoints from the chain list, healthiest first
+  getRpcUrls(): string[] {
+    return this.client.tracker.getRankedUrls(this.endpoints);
+  }
 
-      const data = await response.json();
-      
-      // Validate response structure
-      if (!data || typeof data !== 'object' || !data.result) {
-        console.warn('Invalid RPC response structure');
-        return false;
-      }
+  getEndpointHealth(): RpcEndpointHealth[] {
+    return this.client.tracker.rank(this.endpoints);
+  }
 
-      return true;
-    } catch (error) {
-      console.warn(`RPC validation failed for ${this.name}:`, error);
-      return false;
+  // Fails over to the next endpoint when one is down, so a single bad host does not fail validation.
+  // An endpoint that answers for another chain, has stopped producing blocks or lags behind does.
+  async validateConnection(): Promise<ConnectionValidation> {
+    const validation = await this.probe.probe(this.endpoints, this.id);
+    if (!validation.healthy) {
+      console.warn(`RPC validation failed for ${this.name}:`, validation.failures.map(failure => failure.message).join('; '));
     }
+    return validation;
   }
 
   getBlockExplorer(): string {
-    return 'https://polygonscan.com';
+    return getPrimaryExplorerUrl(this.definition) || '';
   }
 
   getNativeCurrency(): Currency {
-    return {
-      name: 'MATIC',
-      symbol: 'MATIC',
-      decimals: 18
-    };
+    return { ...this.definition.nativeCurrency };
   }
 
   getChainId(): number {
@@ -96,235 +85,111 @@ export class PolygonStrategy implements NetworkStrategy {
   }
 
   isTestnet(): boolean {
-    return false;
+    return this.definition.testnet;
   }
 
-  async getGasEstimate(): Promise<{ fast: number; standard: number; slow: number }> {
+  // Fee suggestions from the chain's own RPC, then its external gas oracle, then the configured fallback
+  async getGasEstimate(): Promise<FeeEstimate> {
     try {
-      const gasUrl = 'https://gasstation.polygon.technology/v2';
-      
-      // Validate gas station URL
-      if (!SecurityUtils.validateURL(gasUrl)) {
-        throw new Error('Invalid gas station URL');
+      return await this.feeOracle.estimate(this.endpoints, this.id);
+    } catch (error) {
+      console.warn(`RPC fee estimation failed for ${this.name}:`, error);
+    }
+
+    const { oracle, fallback } = this.definition.gas;
+    if (!oracle) {
+      return getFallbackFees(fallback);
+    }
+
+    try {
+      // Validate gas oracle URL
+      if (!SecurityUtils.validateURL(oracle.url)) {
+        throw new Error('Invalid gas oracle URL');
       }
 
-      const response = await fetch(gasUrl, {
+      const response = await fetch(oracle.url, {
         signal: AbortSignal.timeout(APP_CONFIG.TIMEOUTS.NETWORK_HEALTH_CHECK)
       });
       
       if (!response.ok) {
-        throw new Error(`Gas station response not ok: ${response.status}`);
+        throw new Error(`Gas oracle response not ok: ${response.status}`);
       }
 
       const data = await response.json();
-      
-      // Validate and sanitize response data
-      const sanitizedData = SecurityUtils.sanitizeJSON<{
-        fast: { maxFee: string };
-        standard: { maxFee: string };
-        safeLow: { maxFee: string };
-      }>(data);
-      
-      if (!sanitizedData || !sanitizedData.fast || !sanitizedData.standard || !sanitizedData.safeLow) {
-        throw new Error('Invalid gas station data structure');
-      }
-
-      return {
-        fast: Math.max(1, parseInt(sanitizedData.fast.maxFee) || 30),
-        standard: Math.max(1, parseInt(sanitizedData.standard.maxFee) || 20),
-        slow: Math.max(1, parseInt(sanitizedData.safeLow.maxFee) || 10)
-      };
+      return oracle.provider === 'polygon-gas-station'
+        ? this.parsePolygonGasStation(data)
+        : this.parseEtherscanGasOracle(data);
     } catch (error) {
       console.warn('Gas estimation failed, using fallback values:', error);
-      return {
-        fast: 30,
-        standard: 20,
-        slow: 10
-      };
+      return getFallbackFees(fallback);
     }
   }
-}
-
-export class LineaStrategy implements NetworkStrategy {
-  id = 59144;
-  name = 'Linea';
-  rpcUrl = 'https://rpc.linea.build';
-
-  async validateConnection(): Promise<boolean> {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'eth_blockNumber',
-          params: [],
-          id: 1
-        })
-      });
-      return response.ok;
-    } catch {
-      return false;
-    }
-  }
-
-  getBlockExplorer(): string {
-    return 'https://lineascan.build';
-  }
-
-  getNativeCurrency(): Currency {
-    return {
-      name: 'ETH',
-      symbol: 'ETH',
-      decimals: 18
-    };
-  }
-
-  getChainId(): number {
-    return this.id;
-  }
-
-  isTestnet(): boolean {
-    return false;
-  }
-
-  async getGasEstimate(): Promise<{ fast: number; standard: number; slow: number }> {
-    return {
-      fast: 2,
-      standard: 1.5,
-      slow: 1
-    };
-  }
-}
 
-export class BSCStrategy implements NetworkStrategy {
-  id = 56;
-  name = 'BSC';
-  rpcUrl = 'https://bsc-dataseed1.binance.org';
-
-  async validateConnection(): Promise<boolean> {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'eth_blockNumber',
-          params: [],
-          id: 1
-        })
-      });
-      return response.ok;
-    } catch {
-      return false;
+  private parsePolygonGasStation(data: unknown): FeeEstimate {
+    type GasStationLevel = { maxFee: number; maxPriorityFee: number };
+
+    // Validate and sanitize response data
+    const sanitizedData = SecurityUtils.sanitizeJSON<{
+      fast: GasStationLevel;
+      standard: GasStationLevel;
+      safeLow: GasStationLevel;
+      estimatedBaseFee: number;
+      blockNumber?: number;
+    }>(JSON.stringify(data));
+    
+    if (!sanitizedData || !sanitizedData.fast || !sanitizedData.standard || !sanitizedData.safeLow) {
+      throw new Error('Invalid gas station data structure');
     }
-  }
-
-  getBlockExplorer(): string {
-    return 'https://bscscan.com';
-  }
 
-  getNativeCurrency(): Currency {
-    return {
-      name: 'BNB',
-      symbol: 'BNB',
-      decimals: 18
-    };
-  }
+    const toFees = (level: GasStationLevel) => ({
+      maxFeePerGas: parseGwei(level.maxFee),
+      maxPriorityFeePerGas: parseGwei(level.maxPriorityFee)
+    });
 
-  getChainId(): number {
-    return this.id;
-  }
-
-  isTestnet(): boolean {
-    return false;
-  }
-
-  async getGasEstimate(): Promise<{ fast: number; standard: number; slow: number }> {
     return {
-      fast: 5,
-      standard: 3,
-      slow: 1
+      type: 'eip1559',
+      source: 'oracle',
+      baseFeePerGas: parseGwei(sanitizedData.estimatedBaseFee),
+      fast: toFees(sanitizedData.fast),
+      standard: toFees(sanitizedData.standard),
+      slow: toFees(sanitizedData.safeLow),
+      blockNumber: sanitizedData.blockNumber
     };
   }
-}
 
-export class EthereumStrategy implements NetworkStrategy {
-  id = 1;
-  name = 'Ethereum';
-  rpcUrl = 'https://mainnet.infura.io/v3/your-project-id';
-
-  async validateConnection(): Promise<boolean> {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'eth_blockNumber',
-          params: [],
-          id: 1
-        })
-      });
-      return response.ok;
-    } catch {
-      return false;
+  private parseEtherscanGasOracle(data: any): FeeEstimate {
+    const result = data?.result;
+    if (!result || typeof result !== 'object') {
+      throw new Error('Invalid gas oracle data structure');
     }
-  }
-
-  getBlockExplorer(): string {
-    return 'https://etherscan.io';
-  }
 
-  getNativeCurrency(): Currency {
+    // Etherscan quotes a total price per gas, which is valid as a legacy gas price
     return {
-      name: 'Ether',
-      symbol: 'ETH',
-      decimals: 18
+      type: 'legacy',
+      source: 'oracle',
+      fast: { gasPrice: parseGwei(result.FastGasPrice) },
+      standard: { gasPrice: parseGwei(result.ProposeGasPrice) },
+      slow: { gasPrice: parseGwei(result.SafeGasPrice) },
+      blockNumber: result.LastBlock ? Number(result.LastBlock) : undefined
     };
   }
-
-  getChainId(): number {
-    return this.id;
-  }
-
-  isTestnet(): boolean {
-    return false;
-  }
-
-  async getGasEstimate(): Promise<{ fast: number; standard: number; slow: number }> {
-    try {
-      const response = await fetch('https://api.etherscan.io/api?module=gastracker&action=gasoracle');
-      const data = await response.json();
-      return {
-        fast: parseInt(data.result.FastGasPrice),
-        standard: parseInt(data.result.ProposeGasPrice),
-        slow: parseInt(data.result.SafeGasPrice)
-      };
-    } catch {
-      return {
-        fast: 50,
-        standard: 30,
-        slow: 20
-      };
-    }
-  }
 }
 
 export class NetworkRegistry {
   private strategies: Map<number, NetworkStrategy> = new Map();
 
-  constructor() {
-    this.register(new EthereumStrategy());
-    this.register(new PolygonStrategy());
-    this.register(new LineaStrategy());
-    this.register(new BSCStrategy());
+  constructor(definitions: ChainDefinition[] = CHAIN_DEFINITIONS) {
+    definitions.forEach(definition => this.register(new ConfiguredNetworkStrategy(definition)));
   }
 
   register(strategy: NetworkStrategy): void {
     this.strategies.set(strategy.id, strategy);
   }
 
+  unregister(id: number): void {
+    this.strategies.delete(id);
+  }
+
   getStrategy(id: number): NetworkStrategy | undefined {
     return this.strategies.get(id);
   }
@@ -341,6 +206,13 @@ export class NetworkRegistry {
     return this.getAllStrategies().filter(strategy => strategy.isTestnet());
   }
 
+  // Endpoints for any registered chain, whatever the current network mode; empty for unknown chains
+  getRpcUrls(id: number): string[] {
+    const strategy = this.getStrategy(id);
+    if (!strategy) return [];
+    return strategy instanceof ConfiguredNetworkStrategy ? strategy.getRpcUrls() : [strategy.rpcUrl];
+  }
+
   getStrategyByName(name: string): NetworkStrategy | undefined {
     return this.getAllStrategies().find(strategy => strategy.name === name);
   }
@@ -348,7 +220,7 @@ export class NetworkRegistry {
   async validateNetwork(id: number): Promise<boolean> {
     const strategy = this.getStrategy(id);
     if (!strategy) return false;
-    return strategy.validateConnection();
+    return (await strategy.validateConnection()).healthy;
   }
 }
 
@@ -0,0 +1,87 @@
+import {
+  EIP6963ProviderDetail,
+  EIP6963AnnounceProviderEvent,
+  EIP6963_ANNOUNCE_EVENT,
+  EIP6963_REQUEST_EVENT,
+  isEIP6963ProviderDetail
+} from '@/types/wallet';
+
+type ProviderListener = (providers: EIP6963ProviderDetail[]) => void;
+
+// Keeps a live list of wallets announced over EIP-6963
+export class ProviderDiscovery {
+  private providers: Map<string, EIP6963ProviderDetail> = new Map();
+  private listeners: Set<ProviderListener> = new Set();
+  private isListening = false;
+
+  start(): void {
+    if (typeof window === 'undefined' || this.isListening) return;
+
+    window.addEventListener(EIP6963_ANNOUNCE_EVENT, this.handleAnnounce);
+    this.isListening = true;
+    this.requestProviders();
+  }
+
+  stop(): void {
+    if (typeof window === 'undefined' || !this.isListening) return;
+
+    window.removeEventListener(EIP6963_ANNOUNCE_EVENT, this.handleAnnounce);
+    this.isListening = false;
+  }
+
+  requestProviders(): void {
+    if (typeof window === 'undefined') return;
+    window.dispatchEvent(new Event(EIP6963_REQUEST_EVENT));
+  }
+
+  getProviders(): EIP6963ProviderDetail[] {
+    return Array.from(this.providers.values());
+  }
+
+  getProviderByRdns(rdns: string[] | undefined): EIP6963ProviderDetail | undefined {
+    if (!rdns || rdns.length === 0) return undefined;
+    return this.getProviders().find(detail => rdns.includes(detail.info.rdns));
+  }
+
+  subscribe(listener: ProviderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.providers.clear();
+    this.notify();
+  }
+
+  private handleAnnounce = (event: EIP6963AnnounceProviderEvent): void => {
+    const detail = event.detail;
+    if (!isEIP6963ProviderDetail(detail)) {
+      console.warn('Ignoring malformed EIP-6963 provider announcement');
+      return;
+    }
+
+    const existing = this.providers.get(detail.info.uuid);
+    if (existing && existing.provider === detail.provider) return;
+
+    this.providers.set(detail.info.uuid, Object.freeze({
+      info: Object.freeze({ ...detail.info }),
+      provider: detail.provider
+    }));
+    this.notify();
+  };
+
+  private notify(): void {
+    const providers = this.getProviders();
+    this.listeners.forEach(listener => {
+      try {
+        listener(providers);
+      } catch (error) {
+        console.warn('EIP-6963 provider listener failed:', error);
+      }
+    });
+  }
+}
+
+export const providerDiscovery = new ProviderDiscovery();
@@ -1,4 +1,17 @@
-import { WalletStrategy as IWalletStrategy, WalletProvider, AppError, WalletCapabilities, WalletInstallation } from '@/types/wallet';
+import {
+  WalletStrategy as IWalletStrategy,
+  WalletProvider,
+  WalletProviderFactory,
+  WalletCapabilities,
+  WalletInstallation,
+  EIP6963ProviderDetail
+} from '@/types/wallet';
+import { AppError } from '@/types/errors';
+import { describeWalletError } from '@/config/errorCatalogue';
+import { stripUrlProtocol } from '@/utils/mobile';
+import { getParticleConfig, isProduction } from '@/config/environment';
+import { getSimulatedWallet } from '@/services/implementations/SimulatedWalletProvider';
+import { ProviderDiscovery, providerDiscovery } from './ProviderDiscovery';
 
 export interface WalletStrategy extends IWalletStrategy {
   id: string;
@@ -11,23 +24,18 @@ export interface WalletStrategy extends IWalletStrategy {
   getProvider(): WalletProvider | null;
   getCapabilities(): WalletCapabilities;
   getInstallationInfo(): WalletInstallation;
+  // Link that reopens the dapp URL inside the wallet app's browser on a phone
+  getDeepLink?(dappUrl: string): string;
 }
 
 export class MetaMaskStrategy implements WalletStrategy {
   id = 'metaMask';
   name = 'MetaMask';
+  rdns = ['io.metamask', 'io.metamask.flask'];
 
   getErrorMessage(error: AppError): string {
-    if (error.code === -32002) {
-      return 'MetaMask is already processing a request. Please wait.';
-    }
-    if (error.code === -32003) {
-      return 'MetaMask is locked. Please unlock your wallet.';
-    }
-    if (error.code === -32601) {
-      return 'MetaMask method not found. Please update MetaMask.';
-    }
-    return 'MetaMask connection failed. Please check if MetaMask is installed and unlocked.';
+    return describeWalletError(error, this.name)
+      ?? 'MetaMask connection failed. Please check if MetaMask is installed and unlocked.';
   }
 
   validateConnection(provider: WalletProvider): boolean {
@@ -47,13 +55,19 @@ export class MetaMaskStrategy implements WalletStrategy {
     return 'https://metamask.io/download/';
   }
 
+  // Any other injected wallet may own window.ethereum, so only MetaMask's own provider counts
   isInstalled(): boolean {
-    return typeof window !== 'undefined' && !!(window as any).ethereum;
+    return this.getProvider() !== null;
   }
 
   getProvider(): WalletProvider | null {
     try {
       if (typeof window === 'undefined') return null;
+
+      // Prefer the provider MetaMask announced over EIP-6963 so other
+      // extensions overriding window.ethereum cannot hijack the connection
+      const announced = providerDiscovery.getProviderByRdns(this.rdns);
+      if (announced) return announced.provider;
       
       const ethereum = (window as { ethereum?: unknown }).ethereum;
       if (!ethereum) return null;
@@ -84,12 +98,16 @@ export class MetaMaskStrategy implements WalletStrategy {
     };
   }
 
+  getDeepLink(dappUrl: string): string {
+    return `https://metamask.app.link/dapp/${stripUrlProtocol(dappUrl)}`;
+  }
+
   getInstallationInfo(): WalletInstallation {
     return {
       isInstalled: this.isInstalled(),
       installationUrl: this.getInstallationUrl(),
       browserCompatible: true,
-      mobileCompatible: false,
+      mobileCompatible: true,
       extensionCompatible: true
     };
   }
@@ -100,15 +118,18 @@ export class WalletConnectStrategy implements WalletStrategy {
   name = 'WalletConnect';
 
   getErrorMessage(error: AppError): string {
-    if (typeof error === 'object' && error !== null && 'code' in error) {
-      if (error.code === 'USER_REJECTED') {
-        return 'Connection was rejected by the user.';
-      }
-      if (error.code === 'SESSION_EXPIRED') {
-        return 'Session expired. Please try connecting again.';
-      }
+    if (error?.message?.includes('Proposal expired')) {
+      return 'The pairing request expired. Please scan a new QR code.';
     }
-    return 'WalletConnect connection failed. Please try again.';
+    if (error?.message?.includes('project ID is not configured')) {
+      return 'WalletConnect is not configured for this site.';
+    }
+    // The rejection happens in the paired mobile wallet, not in WalletConnect itself
+    return describeWalletError(error, this.name, {
+      overrides: { userRejected: 'Connection was rejected by the user.' },
+      includeWalletConnect: true
+    })
+      ?? 'WalletConnect connection failed. Please try again.';
   }
 
   validateConnection(provider: WalletProvider): boolean {
@@ -161,14 +182,11 @@ export class WalletConnectStrategy implements WalletStrategy {
 export class TokenPocketStrategy implements WalletStrategy {
   id = 'tokenPocket';
   name = 'TokenPocket';
+  rdns = ['pro.tokenpocket'];
 
   getErrorMessage(error: AppError): string {
-    if (typeof error === 'object' && error !== null && 'code' in error) {
-      if (error.code === 'USER_REJECTED') {
-        return 'Connection was rejected by the user.';
-      }
-    }
-    return 'TokenPocket connection failed. Please check if TokenPocket is installed and unlocked.';
+    return describeWalletError(error, this.name)
+      ?? 'TokenPocket connection failed. Please check if TokenPocket is installed and unlocked.';
   }
 
   validateConnection(provider: WalletProvider): boolean {
@@ -189,10 +207,13 @@ export class TokenPocketStrategy implements WalletStrategy {
   }
 
   isInstalled(): boolean {
+    if (providerDiscovery.getProviderByRdns(this.rdns)) return true;
     return typeof window !== 'undefined' && !!(window as any).tokenpocket;
   }
 
   getProvider(): WalletProvider | null {
+    const announced = providerDiscovery.getProviderByRdns(this.rdns);
+    if (announced) return announced.provider;
     return typeof window !== 'undefined' ? (window as any).tokenpocket : null;
   }
 
@@ -208,6 +229,10 @@ export class TokenPocketStrategy implements WalletStrategy {
     };
   }
 
+  getDeepLink(dappUrl: string): string {
+    return `tpdapp://open?params=${encodeURIComponent(JSON.stringify({ url: dappUrl }))}`;
+  }
+
   getInstallationInfo(): WalletInstallation {
     return {
       isInstalled: this.isInstalled(),
@@ -222,14 +247,11 @@ export class TokenPocketStrategy implements WalletStrategy {
 export class BitgetWalletStrategy implements WalletStrategy {
   id = 'bitgetWallet';
   name = 'Bitget Wallet';
+  rdns = ['com.bitget.web3'];
 
   getErrorMessage(error: AppError): string {
-    if (typeof error === 'object' && error !== null && 'code' in error) {
-      if (error.code === 'USER_REJECTED') {
-        return 'Connection was rejected by the user.';
-      }
-    }
-    return 'Bitget Wallet connection failed. Please check if Bitget Wallet is installed and unlocked.';
+    return describeWalletError(error, this.name)
+      ?? 'Bitget Wallet connection failed. Please check if Bitget Wallet is installed and unlocked.';
   }
 
   validateConnection(provider: WalletProvider): boolean {
@@ -250,10 +272,13 @@ export class BitgetWalletStrategy implements WalletStrategy {
   }
 
   isInstalled(): boolean {
+    if (providerDiscovery.getProviderByRdns(this.rdns)) return true;
     return typeof window !== 'undefined' && !!(window as any).bitkeep;
   }
 
   getProvider(): WalletProvider | null {
+    const announced = providerDiscovery.getProviderByRdns(this.rdns);
+    if (announced) return announced.provider;
     return typeof window !== 'undefined' ? (window as any).bitkeep : null;
   }
 
@@ -269,27 +294,399 @@ export class BitgetWalletStrategy implements WalletStrategy {
     };
   }
 
+  getDeepLink(dappUrl: string): string {
+    return `https://bkcode.vip?action=dapp&url=${encodeURIComponent(dappUrl)}`;
+  }
+
   getInstallationInfo(): WalletInstallation {
     return {
       isInstalled: this.isInstalled(),
       installationUrl: this.getInstallationUrl(),
       browserCompatible: true,
-      mobileCompatible: false,
+      mobileCompatible: true,
       extensionCompatible: true
     };
   }
 }
 
+export class CoinbaseWalletStrategy implements WalletStrategy {
+  id = 'coinbaseWallet';
+  name = 'Coinbase Wallet';
+  rdns = ['com.coinbase.wallet'];
+
+  getErrorMessage(error: AppError): string {
+    if (error?.code === -32603 && error.message?.includes('Pop up window failed to open')) {
+      return 'Coinbase Smart Wallet needs pop-ups. Please allow pop-ups for this site and try again.';
+    }
+    const message = describeWalletError(error, this.name);
+    if (message) {
+      return message;
+    }
+    return this.hasExtension()
+      ? 'Coinbase Wallet connection failed. Please check if the extension is unlocked.'
+      : 'Coinbase Smart Wallet connection failed. Please try again.';
+  }
+
+  validateConnection(provider: WalletProvider): boolean {
+    return provider && typeof provider.request === 'function';
+  }
+
+  getConnectionSteps(): string[] {
+    if (this.hasExtension()) {
+      return [
+        'Unlock the Coinbase Wallet extension',
+        'Connect to the website',
+        'Approve the connection request'
+      ];
+    }
+    return [
+      'Allow pop-ups for this site',
+      'Sign in or create a Coinbase Smart Wallet with a passkey',
+      'Approve the connection request'
+    ];
+  }
+
+  getInstallationUrl(): string {
+    return 'https://www.coinbase.com/wallet/downloads';
+  }
+
+  // The smart wallet runs in a keys.coinbase.com pop-up, so nothing has to be installed
+  isInstalled(): boolean {
+    return true;
+  }
+
+  hasExtension(): boolean {
+    return !!this.getProvider();
+  }
+
+  getProvider(): WalletProvider | null {
+    try {
+      if (typeof window === 'undefined') return null;
+
+      const announced = providerDiscovery.getProviderByRdns(this.rdns);
+      if (announced) return announced.provider;
+
+      const extension = WalletProviderFactory.createProvider((window as any).coinbaseWalletExtension);
+      if (extension) return extension;
+
+      // Older setups expose every injected wallet in window.ethereum.providers
+      const ethereum = (window as any).ethereum;
+      const candidates: unknown[] = Array.isArray(ethereum?.providers) ? ethereum.providers : [ethereum];
+      const injected = candidates
+        .map(candidate => WalletProviderFactory.createProvider(candidate))
+        .find(provider => !!provider && (provider.isCoinbaseWallet || provider.isCoinbaseBrowser));
+      return injected || null;
+    } catch (error) {
+      console.warn('Failed to get Coinbase Wallet provider:', error);
+      return null;
+    }
+  }
+
+  getCapabilities(): WalletCapabilities {
+    // The smart wallet only deploys to a fixed set of chains, which excludes BSC and Linea
+    const hasExtension = this.hasExtension();
+    return {
+      supportsCoinbaseWallet: true,
+      supportsEthereum: true,
+      supportsPolygon: true,
+      supportsBSC: hasExtension,
+      supportsLinea: hasExtension,
+      supportsPersonalSign: true,
+      supportsTypedSign: true,
+      supportsTransactionSign: true
+    };
+  }
+
+  getDeepLink(dappUrl: string): string {
+    return `https://go.cb-w.com/dapp?cb_url=${encodeURIComponent(dappUrl)}`;
+  }
+
+  getInstallationInfo(): WalletInstallation {
+    return {
+      isInstalled: this.isInstalled(),
+      installationUrl: this.getInstallationUrl(),
+      browserCompatible: true,
+      mobileCompatible: true,
+      extensionCompatible: true
+    };
+  }
+}
+
+export class ParticleNetworkStrategy implements WalletStrategy {
+  id = 'particleNetwork';
+  name = 'Particle Network';
+
+  getErrorMessage(error: AppError): string {
+    const message = describeWalletError(error, this.name, {
+      overrides: {
+        userRejected: 'Particle Network login was cancelled.',
+        unauthorized: 'Particle Network session has expired. Please log in again.'
+      }
+    });
+    if (message) {
+      return message;
+    }
+    if (!getParticleConfig()) {
+      return 'Particle Network is not configured for this site.';
+    }
+    return 'Particle Network connection failed. Please try again.';
+  }
+
+  validateConnection(provider: WalletProvider): boolean {
+    return provider && typeof provider.request === 'function';
+  }
+
+  getConnectionSteps(): string[] {
+    return [
+      'Choose a login method (email, phone or social account)',
+      'Complete the login in the Particle pop-up',
+      'Approve the connection request'
+    ];
+  }
+
+  getInstallationUrl(): string {
+    return 'https://particle.network/';
+  }
+
+  // Particle is a hosted MPC wallet; it only needs the project keys to be set
+  isInstalled(): boolean {
+    return !!getParticleConfig();
+  }
+
+  // The provider is created by the wagmi connector once the user logs in
+  getProvider(): WalletProvider | null {
+    return null;
+  }
+
+  getCapabilities(): WalletCapabilities {
+    return {
+      supportsParticleNetwork: true,
+      supportsEthereum: true,
+      supportsPolygon: true,
+      supportsBSC: true,
+      supportsLinea: true,
+      supportsPersonalSign: true,
+      supportsTypedSign: true,
+      supportsTransactionSign: true
+    };
+  }
+
+  getInstallationInfo(): WalletInstallation {
+    return {
+      isInstalled: this.isInstalled(),
+      installationUrl: this.getInstallationUrl(),
+      browserCompatible: true,
+      mobileCompatible: true,
+      extensionCompatible: false
+    };
+  }
+}
+
+// Read-only "connection" to any address; there is no provider and nothing can be signed
+export class WatchOnlyStrategy implements WalletStrategy {
+  id = 'watchOnly';
+  name = 'Watch an address';
+
+  getErrorMessage(error: AppError): string {
+    return describeWalletError(error, this.name, { overrides: { validationFailed: 'Enter a valid address or ENS name.' } })
+      ?? 'The address could not be loaded. Please check it and try again.';
+  }
+
+  // There is no provider to validate; signing requests never reach a wallet
+  validateConnection(_provider: WalletProvider): boolean {
+    return false;
+  }
+
+  getConnectionSteps(): string[] {
+    return [
+      'Enter an address or ENS name',
+      'Pick the network to read from'
+    ];
+  }
+
+  getInstallationUrl(): string {
+    return '';
+  }
+
+  isInstalled(): boolean {
+    return true;
+  }
+
+  getProvider(): WalletProvider | null {
+    return null;
+  }
+
+  getCapabilities(): WalletCapabilities {
+    return {
+      supportsEthereum: true,
+      supportsPolygon: true,
+      supportsBSC: true,
+      supportsLinea: true,
+      supportsPersonalSign: false,
+      supportsTypedSign: false,
+      supportsTransactionSign: false
+    };
+  }
+
+  getInstallationInfo(): WalletInstallation {
+    return {
+      isInstalled: true,
+      installationUrl: this.getInstallationUrl(),
+      browserCompatible: true,
+      mobileCompatible: true,
+      extensionCompatible: false
+    };
+  }
+}
+
+// In-memory wallet for development and ?mockWallet= demos; never registered in production builds
+export class SimulatedWalletStrategy implements WalletStrategy {
+  id = 'simulatedWallet';
+  name = 'Simulated Wallet';
+
+  getErrorMessage(error: AppError): string {
+    return describeWalletError(error, 'The simulated wallet', { overrides: { userRejected: 'The simulated wallet rejected the request.' } })
+      ?? 'Simulated wallet request failed. Check the mockWallet settings.';
+  }
 
+  validateConnection(provider: WalletProvider): boolean {
+    return provider && typeof provider.request === 'function';
+  }
+
+  getConnectionSteps(): string[] {
+    return [
+      'Add ?mockWallet= to the URL to script accounts, chain, latency and failures',
+      'Connect to the website'
+    ];
+  }
+
+  getInstallationUrl(): string {
+    return '';
+  }
+
+  isInstalled(): boolean {
+    return !isProduction();
+  }
+
+  getProvider(): WalletProvider | null {
+    return this.isInstalled() ? getSimulatedWallet() : null;
+  }
+
+  getCapabilities(): WalletCapabilities {
+    return {
+      supportsEthereum: true,
+      supportsPolygon: true,
+      supportsBSC: true,
+      supportsLinea: true,
+      supportsPersonalSign: true,
+      supportsTypedSign: true,
+      supportsTransactionSign: true
+    };
+  }
+
+  getInstallationInfo(): WalletInstallation {
+    return {
+      isInstalled: this.isInstalled(),
+      installationUrl: this.getInstallationUrl(),
+      browserCompatible: true,
+      mobileCompatible: true,
+      extensionCompatible: false
+    };
+  }
+}
+
+// Generic strategy for EIP-6963 wallets we have no dedicated strategy for
+export class InjectedWalletStrategy implements WalletStrategy {
+  id: string;
+  name: string;
+  rdns: string[];
+  icon: string;
+  private detail: EIP6963ProviderDetail;
+
+  constructor(detail: EIP6963ProviderDetail) {
+    this.detail = detail;
+    this.id = InjectedWalletStrategy.getId(detail);
+    this.name = detail.info.name;
+    this.rdns = [detail.info.rdns];
+    this.icon = detail.info.icon;
+  }
+
+  static getId(detail: EIP6963ProviderDetail): string {
+    return `eip6963:${detail.info.rdns}`;
+  }
+
+  getErrorMessage(error: AppError): string {
+    return describeWalletError(error, this.name)
+      ?? `${this.name} connection failed. Please check if ${this.name} is unlocked.`;
+  }
+
+  validateConnection(provider: WalletProvider): boolean {
+    return provider && typeof provider.request === 'function';
+  }
+
+  getConnectionSteps(): string[] {
+    return [
+      `Unlock ${this.name}`,
+      'Connect to the website',
+      'Approve the connection request'
+    ];
+  }
+
+  getInstallationUrl(): string {
+    return '';
+  }
+
+  isInstalled(): boolean {
+    return true;
+  }
+
+  getProvider(): WalletProvider | null {
+    return this.detail.provider;
+  }
+
+  getCapabilities(): WalletCapabilities {
+    return {
+      supportsEthereum: true,
+      supportsPolygon: true,
+      supportsBSC: true,
+      supportsLinea: true,
+      supportsPersonalSign: true,
+      supportsTypedSign: true,
+      supportsTransactionSign: true
+    };
+  }
+
+  getInstallationInfo(): WalletInstallation {
+    return {
+      isInstalled: true,
+      installationUrl: this.getInstallationUrl(),
+      browserCompatible: true,
+      mobileCompatible: false,
+      extensionCompatible: true
+    };
+  }
+}
 
 export class WalletRegistry {
   private strategies: Map<string, WalletStrategy> = new Map();
+  private injectedStrategies: Map<string, InjectedWalletStrategy> = new Map();
+  private discovery: ProviderDiscovery;
+
+  constructor(discovery: ProviderDiscovery = providerDiscovery) {
+    this.discovery = discovery;
 
-  constructor() {
     this.register(new MetaMaskStrategy());
     this.register(new WalletConnectStrategy());
     this.register(new TokenPocketStrategy());
     this.register(new BitgetWalletStrategy());
+    this.register(new CoinbaseWalletStrategy());
+    this.register(new ParticleNetworkStrategy());
+    this.register(new WatchOnlyStrategy());
+    if (!isProduction()) {
+      this.register(new SimulatedWalletStrategy());
+    }
+
+    this.discovery.subscribe(providers => this.syncInjectedStrategies(providers));
   }
 
   register(strategy: WalletStrategy): void {
@@ -297,7 +694,7 @@ export class WalletRegistry {
   }
 
   getStrategy(id: string): WalletStrategy | undefined {
-    return this.strategies.get(id);
+    return this.strategies.get(id) || this.injectedStrategies.get(id);
   }
 
   getAllStrategies(): WalletStrategy[] {
@@ -305,12 +702,60 @@ export class WalletRegistry {
   }
 
   getAvailableStrategies(): WalletStrategy[] {
-    return this.getAllStrategies().filter(strategy => strategy.isInstalled());
+    const registered = this.getAllStrategies().filter(strategy => strategy.isInstalled());
+    return [...registered, ...this.getInjectedStrategies()];
+  }
+
+  // Wallets a phone browser can hand the dapp over to
+  getDeepLinkStrategies(): WalletStrategy[] {
+    return this.getAllStrategies().filter(strategy =>
+      !!strategy.getDeepLink && strategy.getInstallationInfo().mobileCompatible
+    );
   }
 
   getStrategyByName(name: string): WalletStrategy | undefined {
     return this.getAllStrategies().find(strategy => strategy.name === name);
   }
+
+  // EIP-6963 provider discovery
+  startProviderDiscovery(): void {
+    this.discovery.start();
+  }
+
+  stopProviderDiscovery(): void {
+    this.discovery.stop();
+  }
+
+  getAnnouncedProviders(): EIP6963ProviderDetail[] {
+    return this.discovery.getProviders();
+  }
+
+  getStrategyForProvider(detail: EIP6963ProviderDetail): WalletStrategy | undefined {
+    return this.getAllStrategies().find(strategy => strategy.rdns?.includes(detail.info.rdns)) ||
+      this.injectedStrategies.get(InjectedWalletStrategy.getId(detail));
+  }
+
+  getInjectedStrategies(): InjectedWalletStrategy[] {
+    return Array.from(this.injectedStrategies.values());
+  }
+
+  onProvidersChanged(listener: (providers: EIP6963ProviderDetail[]) => void): () => void {
+    return this.discovery.subscribe(listener);
+  }
+
+  private syncInjectedStrategies(providers: EIP6963ProviderDetail[]): void {
+    const next = new Map<string, InjectedWalletStrategy>();
+
+    providers.forEach(detail => {
+      const hasStrategy = this.getAllStrategies().some(strategy => strategy.rdns?.includes(detail.info.rdns));
+      if (hasStrategy) return;
+
+      const strategy = new InjectedWalletStrategy(detail);
+      next.set(strategy.id, strategy);
+    });
+
+    this.injectedStrategies = next;
+  }
 }
 
 export const walletRegistry = new WalletRegistry();
@@ -0,0 +1,40 @@
+// Sign-In with Ethereum (EIP-4361) type definitions
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: '1';
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export interface SiweSession {
+  address: string;
+  chainId: number;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface SiweVerifyRequest {
+  message: string;
+  signature: string;
+}
+
+export type SiweVerifyFailure =
+  | 'invalid_message'
+  | 'domain_mismatch'
+  | 'unsupported_chain'
+  | 'invalid_nonce'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'invalid_signature';
+
+export type SiweVerifyResult =
+  | { success: true; session: SiweSession }
+  | { success: false; reason: SiweVerifyFailure; error: string };
@@ -0,0 +1,175 @@
+// Chain-list definitions shared by the network registry, wagmi and wallet_addEthereumChain
+export interface ChainNativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface ChainExplorer {
+  name: string;
+  url: string;
+}
+
+export interface ChainIcons {
+  emoji: string;
+  url?: string;
+}
+
+export interface ChainContract {
+  address: `0x${string}`;
+  blockCreated?: number;
+}
+
+export type GasOracleProvider = 'polygon-gas-station' | 'etherscan';
+
+export interface ChainGasConfig {
+  oracle?: {
+    provider: GasOracleProvider;
+    url: string;
+  };
+  // Gwei values used when neither the RPC nor the oracle can be read
+  fallback: {
+    fast: number;
+    standard: number;
+    slow: number;
+  };
+}
+
+export type FeeSpeed = 'slow' | 'standard' | 'fast';
+
+// Where a fee estimate came from: the chain's own RPC, its external gas oracle, or the configured fallback
+export type FeeEstimateSource = 'rpc' | 'oracle' | 'fallback';
+
+// EIP-1559 fees for one speed, in wei
+export interface Eip1559Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+// Legacy (type 0) gas price for one speed, in wei
+export interface LegacyFees {
+  gasPrice: bigint;
+}
+
+export interface Eip1559FeeEstimate extends Record<FeeSpeed, Eip1559Fees> {
+  type: 'eip1559';
+  source: FeeEstimateSource;
+  baseFeePerGas: bigint; // expected base fee of the next block
+  blockNumber?: number; // newest block the estimate was sampled from
+}
+
+export interface LegacyFeeEstimate extends Record<FeeSpeed, LegacyFees> {
+  type: 'legacy';
+  source: FeeEstimateSource;
+  blockNumber?: number;
+}
+
+export type FeeEstimate = Eip1559FeeEstimate | LegacyFeeEstimate;
+
+export interface ChainDefinition {
+  id: number;
+  key: string;
+  name: string;
+  network: string;
+  nativeCurrency: ChainNativeCurrency;
+  rpcUrls: string[];
+  wsUrls?: string[]; // wss:// endpoints for eth_subscribe; blocks are polled over rpcUrls without them
+  blockExplorers: ChainExplorer[];
+  testnet: boolean;
+  icons: ChainIcons;
+  gas: ChainGasConfig;
+  contracts?: {
+    multicall3?: ChainContract;
+  };
+}
+
+// ERC-20 token from the per-chain token list
+export interface TokenDefinition {
+  address: `0x${string}`;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoUrl?: string;
+}
+
+// Mainnet mode only offers production chains; testnet mode only offers test chains
+export type NetworkMode = 'mainnet' | 'testnet';
+
+// EIP-3085 wallet_addEthereumChain parameter
+export interface AddEthereumChainParameter {
+  chainId: string;
+  chainName: string;
+  nativeCurrency: ChainNativeCurrency;
+  rpcUrls: string[];
+  blockExplorerUrls?: string[];
+  iconUrls?: string[];
+}
+
+export type RpcEndpointStatus = 'healthy' | 'degraded' | 'down' | 'unknown';
+
+// Rolling health of a single RPC endpoint, as ranked by the endpoint tracker
+export interface RpcEndpointHealth {
+  url: string;
+  rank: number;
+  status: RpcEndpointStatus;
+  latency: number | null; // average over recent successful requests, in ms
+  errorRate: number; // 0..1 over recent requests
+  requests: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  retryAt?: number; // set by an HTTP 429 Retry-After; the endpoint is skipped until then
+}
+
+// How a chain's subscriptions are currently fed
+export type SubscriptionTransport = 'websocket' | 'polling';
+
+// Header delivered by newHeads, or by polling eth_getBlockByNumber
+export interface BlockHead {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number; // seconds, as in the block header
+}
+
+// eth_subscribe logs / eth_getLogs filter
+export interface LogFilter {
+  address?: string | string[];
+  topics?: Array<string | string[] | null>;
+}
+
+export interface ChainLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  removed: boolean; // true when a reorg dropped the log
+}
+
+// Why a network's RPC was judged unhealthy by the connection probe
+export type ConnectionFailureReason =
+  | 'unreachable'
+  | 'invalid-response'
+  | 'chain-id-mismatch'
+  | 'block-not-advancing'
+  | 'stale-block';
+
+export interface ConnectionFailure {
+  reason: ConnectionFailureReason;
+  message: string;
+}
+
+// Result of probing a network's RPC; the reported values come from the endpoint that answered
+export interface ConnectionValidation {
+  healthy: boolean;
+  rpcUrl: string | null;
+  chainId: number | null;
+  blockNumber: number | null;
+  blockTimestamp: number | null; // seconds, as in the block header
+  latency: number; // ms for the whole probe
+  failures: ConnectionFailure[];
+  checkedAt: number;
+}
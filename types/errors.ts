@@ -31,17 +31,64 @@ export interface ValidationError extends WalletError {
   constraint?: string;
 }
 
-export type AppError = WalletError | NetworkError | ConnectionError | StorageError | ValidationError;
+export interface SignatureError extends WalletError {
+  method?: 'personal_sign' | 'eth_signTypedData_v4';
+  walletType?: string;
+}
+
+export interface TransactionError extends WalletError {
+  stage?: 'build' | 'estimate' | 'send' | 'track';
+  hash?: string;
+  chainId?: number;
+}
+
+export type AppError = WalletError | NetworkError | ConnectionError | StorageError | ValidationError | SignatureError | TransactionError;
 
 export enum ErrorCode {
+  // EIP-1193 provider errors
+  PROVIDER_USER_REJECTED = 4001,
+  PROVIDER_UNAUTHORIZED = 4100,
+  PROVIDER_UNSUPPORTED_METHOD = 4200,
+  PROVIDER_DISCONNECTED = 4900,
+  PROVIDER_CHAIN_DISCONNECTED = 4901,
+  PROVIDER_UNRECOGNIZED_CHAIN = 4902,
+
   METAMASK_PENDING_REQUEST = -32002,
   METAMASK_LOCKED = -32003,
   METAMASK_METHOD_NOT_FOUND = -32601,
+
+  PARTICLE_USER_CANCELLED = 4011,
+  PARTICLE_UNSUPPORTED_CHAIN = 4201,
   
+  // JSON-RPC 2.0 and EIP-1474
+  RPC_PARSE_ERROR = -32700,
   RPC_INVALID_REQUEST = -32600,
   RPC_METHOD_NOT_FOUND = -32601,
   RPC_INVALID_PARAMS = -32602,
   RPC_INTERNAL_ERROR = -32603,
+  RPC_INVALID_INPUT = -32000,
+  RPC_RESOURCE_NOT_FOUND = -32001,
+  RPC_METHOD_NOT_SUPPORTED = -32004,
+  RPC_LIMIT_EXCEEDED = -32005,
+
+  // WalletConnect v2 SDK
+  WALLETCONNECT_USER_REJECTED = 5000,
+  WALLETCONNECT_USER_REJECTED_CHAINS = 5001,
+  WALLETCONNECT_USER_REJECTED_METHODS = 5002,
+  WALLETCONNECT_USER_REJECTED_EVENTS = 5003,
+  WALLETCONNECT_UNSUPPORTED_CHAINS = 5100,
+  WALLETCONNECT_UNSUPPORTED_METHODS = 5101,
+  WALLETCONNECT_UNSUPPORTED_EVENTS = 5102,
+  WALLETCONNECT_USER_DISCONNECTED = 6000,
+
+  // EIP-5792 batched calls
+  CALLS_UNSUPPORTED_CAPABILITY = 5700,
+  CALLS_UNSUPPORTED_CHAIN = 5710,
+  CALLS_DUPLICATE_ID = 5720,
+  CALLS_UNKNOWN_BUNDLE = 5730,
+  CALLS_BUNDLE_TOO_LARGE = 5740,
+  CALLS_UPGRADE_REJECTED = 5750,
+  CALLS_ATOMICITY_UNSUPPORTED = 5760,
   
   WALLET_USER_REJECTED = 'USER_REJECTED',
   WALLET_SESSION_EXPIRED = 'SESSION_EXPIRED',
@@ -54,6 +101,13 @@ export enum ErrorCode {
   STORAGE_QUOTA_EXCEEDED = 'QuotaExceededError',
   STORAGE_ACCESS_DENIED = 'AccessDeniedError',
   
+  SIGNATURE_UNSUPPORTED = 'SIGNATURE_UNSUPPORTED',
+  SIGNATURE_FAILED = 'SIGNATURE_FAILED',
+  
+  TRANSACTION_UNSUPPORTED = 'TRANSACTION_UNSUPPORTED',
+  TRANSACTION_FAILED = 'TRANSACTION_FAILED',
+  TRANSACTION_REVERTED = 'TRANSACTION_REVERTED',
+  
   UNSUPPORTED_WALLET_TYPE = 'UNSUPPORTED_WALLET_TYPE',
   CONNECTION_FAILED = 'CONNECTION_FAILED',
   VALIDATION_FAILED = 'VALIDATION_FAILED'
@@ -61,7 +115,7 @@ export enum ErrorCode {
 
 export type ErrorSeverity = 'low' | 'medium' | 'high' | 'critical';
 
-export type ErrorCategory = 'connection' | 'network' | 'wallet' | 'storage' | 'validation' | 'unknown';
+export type ErrorCategory = 'connection' | 'network' | 'wallet' | 'storage' | 'validation' | 'signature' | 'transaction' | 'unknown';
 
 export type RecoveryAction = 'retry' | 'reconnect' | 'switch_network' | 'clear_storage' | 'none';
 
@@ -110,6 +164,14 @@ export const isValidationError = (error: unknown): error is ValidationError => {
   return isWalletError(error) && 'field' in error;
 };
 
+export const isSignatureError = (error: unknown): error is SignatureError => {
+  return isWalletError(error) && error.name === 'SignatureError';
+};
+
+export const isTransactionError = (error: unknown): error is TransactionError => {
+  return isWalletError(error) && error.name === 'TransactionError';
+};
+
 export class ErrorFactory {
   static createWalletError(
     message: string,
@@ -151,6 +213,40 @@ export class ErrorFactory {
     };
   }
 
+  static createSignatureError(
+    message: string,
+    method: SignatureError['method'],
+    code?: ErrorCode | number,
+    walletType?: string,
+    cause?: unknown
+  ): SignatureError {
+    return {
+      code,
+      message,
+      method,
+      walletType,
+      cause,
+      name: 'SignatureError'
+    };
+  }
+
+  static createTransactionError(
+    message: string,
+    stage: TransactionError['stage'],
+    code?: ErrorCode | number,
+    chainId?: number,
+    cause?: unknown
+  ): TransactionError {
+    return {
+      code,
+      message,
+      stage,
+      chainId,
+      cause,
+      name: 'TransactionError'
+    };
+  }
+
   static createValidationError(
     message: string,
     field?: string,
@@ -1,3 +1,5 @@
+import type { WindowProvider } from 'wagmi';
+
 // Wallet-related type definitions
 export interface Account {
   address: string;
@@ -6,25 +8,162 @@ export interface Account {
 }
 
 export interface WalletCapabilities {
-  supportsMetaMask: boolean;
-  supportsWalletConnect: boolean;
-  supportsTokenPocket: boolean;
-  supportsBitgetWallet: boolean;
-  supportsParticleNetwork: boolean;
+  supportsMetaMask?: boolean;
+  supportsWalletConnect?: boolean;
+  supportsTokenPocket?: boolean;
+  supportsBitgetWallet?: boolean;
+  supportsCoinbaseWallet?: boolean;
+  supportsParticleNetwork?: boolean;
   supportsPolygon: boolean;
   supportsLinea: boolean;
   supportsBSC: boolean;
   supportsEthereum: boolean;
+  supportsPersonalSign: boolean;
+  supportsTypedSign: boolean;
+  supportsTransactionSign: boolean;
+}
+
+// EIP-5792 capabilities a wallet reports for one chain through wallet_getCapabilities,
+// e.g. { atomic: { status: 'supported' }, paymasterService: { supported: true } }
+export type ChainCapabilities = Record<string, any>;
+
+// 'ready' means the wallet can batch atomically once the user agrees to upgrade the account
+export type AtomicBatchStatus = 'supported' | 'ready' | 'unsupported';
+
+// Static strategy capabilities merged with what the wallet reports for a chain
+export interface ResolvedWalletCapabilities extends WalletCapabilities {
+  chainId: number;
+  // From the strategy's network flags
+  supportsChain: boolean;
+  atomicBatch: AtomicBatchStatus;
+  supportsPaymaster: boolean;
+  // null when the wallet does not implement wallet_getCapabilities
+  reported: ChainCapabilities | null;
+}
+
+export interface WalletInstallation {
+  isInstalled: boolean;
+  installationUrl: string;
+  browserCompatible: boolean;
+  mobileCompatible: boolean;
+  extensionCompatible: boolean;
+}
+
+// EIP-1193 provider as exposed by injected wallets
+export interface WalletProvider {
+  request: (args: { method: string; params?: any[] | Record<string, any> }) => Promise<any>;
+  on: (eventName: string, handler: (...args: any[]) => void) => void;
+  removeListener: (eventName: string, handler: (...args: any[]) => void) => void;
+  isMetaMask?: boolean;
+  isTokenPocket?: boolean;
+  isBitgetWallet?: boolean;
+  isCoinbaseWallet?: boolean;
+  isCoinbaseBrowser?: boolean;
+  isParticleNetwork?: boolean;
+  isWalletConnect?: boolean;
+  selectedAddress?: string;
+  networkVersion?: string;
+  chainId?: string;
+}
+
+export interface WalletStrategy {
+  id: string;
+  name: string;
+  // Reverse-DNS identifiers announced by the wallet over EIP-6963
+  rdns?: string[];
+  icon?: string;
+}
+
+// EIP-6963 multi injected provider discovery
+export interface EIP6963ProviderInfo {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo;
+  provider: WalletProvider;
+}
+
+export type EIP6963AnnounceProviderEvent = CustomEvent<EIP6963ProviderDetail>;
+
+export const EIP6963_ANNOUNCE_EVENT = 'eip6963:announceProvider';
+export const EIP6963_REQUEST_EVENT = 'eip6963:requestProvider';
+
+// One live wallet connection, keyed by its connector id
+export interface WalletConnection {
+  id: string;
+  walletType: string;
+  address: string;
+  chainId: number | null;
+  connectedAt: number;
+  lastActivity: number;
 }
 
 export interface ConnectionState {
   isConnected: boolean;
   isConnecting: boolean;
+  // The active connection's account and wallet
   address: string | null;
   walletType: string | null;
   error: string | null;
   connectionTime: number | null;
   lastActivity: number | null;
+  connections: WalletConnection[];
+  activeConnectionId: string | null;
+}
+
+export const isWalletProvider = (value: unknown): value is WalletProvider => {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.request === 'function' &&
+         typeof candidate.on === 'function' &&
+         typeof candidate.removeListener === 'function';
+};
+
+export const isMetaMaskProvider = (provider: WalletProvider): boolean => !!provider.isMetaMask;
+
+export const isTokenPocketProvider = (provider: WalletProvider): boolean => !!provider.isTokenPocket;
+
+export const isBitgetWalletProvider = (provider: WalletProvider): boolean => !!provider.isBitgetWallet;
+
+export const isCoinbaseWalletProvider = (provider: WalletProvider): boolean => !!provider.isCoinbaseWallet;
+
+export const isParticleNetworkProvider = (provider: WalletProvider): boolean => !!provider.isParticleNetwork;
+
+export const isWalletConnectProvider = (provider: WalletProvider): boolean => !!provider.isWalletConnect;
+
+// SDK and announced providers implement EIP-1193, which is all wagmi's injected connector relies on
+export const toWindowProvider = (value: unknown): WindowProvider | undefined =>
+  isWalletProvider(value) ? (value as unknown as WindowProvider) : undefined;
+
+export const isEIP6963ProviderDetail = (value: unknown): value is EIP6963ProviderDetail => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { info, provider } = value as { info?: Partial<EIP6963ProviderInfo>; provider?: unknown };
+  return !!info &&
+         typeof info.uuid === 'string' &&
+         typeof info.name === 'string' &&
+         typeof info.icon === 'string' &&
+         typeof info.rdns === 'string' &&
+         isWalletProvider(provider);
+};
+
+export class WalletProviderFactory {
+  static createProvider(value: unknown): WalletProvider | null {
+    return isWalletProvider(value) ? value : null;
+  }
+
+  static validateProvider(provider: WalletProvider): boolean {
+    try {
+      if (!isWalletProvider(provider)) return false;
+      const result = provider.request({ method: 'eth_chainId' });
+      return !!result && typeof (result as Promise<unknown>).then === 'function';
+    } catch {
+      return false;
+    }
+  }
 }
 
 // MetaMask ethereum object type declaration
@@ -39,4 +178,8 @@ declare global {
       selectedAddress?: string;
     };
   }
+
+  interface WindowEventMap {
+    'eip6963:announceProvider': EIP6963AnnounceProviderEvent;
+  }
 }
@@ -0,0 +1,52 @@
+import { AtomicBatchStatus, ChainCapabilities, ResolvedWalletCapabilities, WalletCapabilities } from '@/types/wallet';
+import { toHexChainId } from '@/utils/chains';
+
+type NetworkFlag = 'supportsEthereum' | 'supportsPolygon' | 'supportsLinea' | 'supportsBSC';
+
+// Network flag in WalletCapabilities that covers each configured chain, testnets included
+const CHAIN_NETWORK_FLAGS: Record<number, NetworkFlag> = {
+  1: 'supportsEthereum',
+  11155111: 'supportsEthereum',
+  137: 'supportsPolygon',
+  80002: 'supportsPolygon',
+  59144: 'supportsLinea',
+  59141: 'supportsLinea',
+  56: 'supportsBSC',
+  97: 'supportsBSC'
+};
+
+// Chains without a flag (custom networks) are left to the wallet to accept or refuse
+export const supportsChainStatically = (capabilities: WalletCapabilities, chainId: number): boolean => {
+  const flag = CHAIN_NETWORK_FLAGS[chainId];
+  return flag ? capabilities[flag] : true;
+};
+
+// wallet_getCapabilities answers keyed by hex chain id; '0x0' holds capabilities shared by every chain
+export const pickChainCapabilities = (result: unknown, chainId: number): ChainCapabilities => {
+  if (!result || typeof result !== 'object') return {};
+
+  const byChain = result as Record<string, ChainCapabilities | undefined>;
+  const hexChainId = toHexChainId(chainId);
+  const forChain = byChain[hexChainId] ?? byChain[String(chainId)];
+  return { ...(byChain['0x0'] || {}), ...(forChain || {}) };
+};
+
+// EIP-5792 v2 reports atomic.status; earlier drafts used atomicBatch.supported
+export const getAtomicStatus = (capabilities: ChainCapabilities | null): AtomicBatchStatus => {
+  const status = capabilities?.atomic?.status;
+  if (status === 'supported' || status === 'ready') return status;
+  return capabilities?.atomicBatch?.supported === true ? 'supported' : 'unsupported';
+};
+
+export const mergeCapabilities = (
+  base: WalletCapabilities,
+  chainId: number,
+  reported: ChainCapabilities | null
+): ResolvedWalletCapabilities => ({
+  ...base,
+  chainId,
+  supportsChain: supportsChainStatically(base, chainId),
+  atomicBatch: getAtomicStatus(reported),
+  supportsPaymaster: reported?.paymasterService?.supported === true,
+  reported
+});
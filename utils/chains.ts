@@ -0,0 +1,90 @@
+import type { Chain } from 'wagmi';
+import { getChainDefinition } from '@/config/chains';
+import { APP_CONFIG } from '@/config/constants';
+import { AddEthereumChainParameter, ChainDefinition } from '@/types/chain';
+
+export const toHexChainId = (chainId: number): string => `0x${chainId.toString(16)}`;
+
+export const getPrimaryRpcUrl = (chain: ChainDefinition): string => chain.rpcUrls[0];
+
+// Chains from the chain list are read through the app's /api/rpc proxy, which holds the
+// provider keys. Only the browser can reach it, and user-added networks are not proxied.
+export const getRpcProxyUrl = (chainId: number): string | null => {
+  if (typeof window === 'undefined' || !getChainDefinition(chainId)) return null;
+  return `${window.location.origin}${APP_CONFIG.RPC_PROXY.PATH}/${chainId}`;
+};
+
+// The proxy first, with the chain's public endpoints to fail over to
+export const getRpcEndpoints = (chain: ChainDefinition): string[] => {
+  const proxyUrl = getRpcProxyUrl(chain.id);
+  return proxyUrl ? [proxyUrl, ...chain.rpcUrls] : chain.rpcUrls;
+};
+
+export const getPrimaryExplorerUrl = (chain: ChainDefinition): string | undefined => chain.blockExplorers[0]?.url;
+
+export const toWagmiChain = (chain: ChainDefinition): Chain => {
+  const [defaultExplorer] = chain.blockExplorers;
+  const multicall3 = chain.contracts?.multicall3;
+
+  return {
+    id: chain.id,
+    name: chain.name,
+    network: chain.network,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: {
+      default: { http: chain.rpcUrls },
+      public: { http: chain.rpcUrls }
+    },
+    ...(defaultExplorer && {
+      blockExplorers: {
+        default: { name: defaultExplorer.name, url: defaultExplorer.url }
+      }
+    }),
+    ...(multicall3 && {
+      contracts: {
+        multicall3: { address: multicall3.address, blockCreated: multicall3.blockCreated }
+      }
+    }),
+    testnet: chain.testnet
+  };
+};
+
+export const toAddEthereumChainParams = (chain: ChainDefinition): AddEthereumChainParameter => ({
+  chainId: toHexChainId(chain.id),
+  chainName: chain.name,
+  nativeCurrency: chain.nativeCurrency,
+  rpcUrls: chain.rpcUrls,
+  blockExplorerUrls: chain.blockExplorers.map(explorer => explorer.url),
+  ...(chain.icons.url && { iconUrls: [chain.icons.url] })
+});
+
+// Function to add chain to MetaMask; networks the user added pass their own definition
+export const addChainToMetaMask = async (networkId: number, chain: ChainDefinition | undefined = getChainDefinition(networkId)) => {
+  if (!chain) {
+    throw new Error(`Network ${networkId} not found in configuration`);
+  }
+
+  try {
+    if (typeof window !== 'undefined' && window.ethereum) {
+      await window.ethereum.request({
+        method: 'wallet_addEthereumChain',
+        params: [toAddEthereumChainParams(chain)],
+      });
+      return true;
+    } else {
+      throw new Error('MetaMask not available');
+    }
+  } catch (error) {
+    console.error('Failed to add chain to MetaMask:', error);
+    throw error;
+  }
+};
+
+// Wallets report chain ids as hex strings, decimal strings or numbers
+export const parseChainId = (value: unknown): number | null => {
+  const chainId = typeof value === 'string'
+    ? parseInt(value, value.toLowerCase().startsWith('0x') ? 16 : 10)
+    : value;
+
+  return typeof chainId === 'number' && Number.isInteger(chainId) && chainId > 0 ? chainId : null;
+};
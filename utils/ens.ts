@@ -0,0 +1,209 @@
+import type { Abi } from 'viem';
+import { getChainDefinition } from '@/config/chains';
+import { APP_CONFIG } from '@/config/constants';
+import { rpcClient } from '@/utils/rpcClient';
+import { getRpcEndpoints } from '@/utils/chains';
+
+// ENS registry, deployed at the same address on Ethereum mainnet and Sepolia
+export const ENS_REGISTRY_ADDRESS = '0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e';
+
+export const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+export const ARWEAVE_GATEWAY = 'https://arweave.net/';
+
+const ZERO_ADDRESS = /^0x0{40}$/;
+
+const bytes32 = { name: 'node', type: 'bytes32' };
+const tokenId = { name: 'tokenId', type: 'uint256' };
+
+const ENS_ABI = [
+  { name: 'resolver', type: 'function', stateMutability: 'view', inputs: [bytes32], outputs: [{ name: '', type: 'address' }] },
+  { name: 'addr', type: 'function', stateMutability: 'view', inputs: [bytes32], outputs: [{ name: '', type: 'address' }] },
+  { name: 'name', type: 'function', stateMutability: 'view', inputs: [bytes32], outputs: [{ name: '', type: 'string' }] },
+  { name: 'text', type: 'function', stateMutability: 'view', inputs: [bytes32, { name: 'key', type: 'string' }], outputs: [{ name: '', type: 'string' }] }
+] as const;
+
+// The parts of ERC-721 and ERC-1155 an NFT avatar needs
+const TOKEN_ABI = [
+  { name: 'tokenURI', type: 'function', stateMutability: 'view', inputs: [tokenId], outputs: [{ name: '', type: 'string' }] },
+  { name: 'ownerOf', type: 'function', stateMutability: 'view', inputs: [tokenId], outputs: [{ name: '', type: 'address' }] },
+  { name: 'uri', type: 'function', stateMutability: 'view', inputs: [tokenId], outputs: [{ name: '', type: 'string' }] },
+  { name: 'balanceOf', type: 'function', stateMutability: 'view', inputs: [{ name: 'account', type: 'address' }, tokenId], outputs: [{ name: '', type: 'uint256' }] }
+] as const;
+
+export type EnsAvatarUri =
+  | { kind: 'url'; url: string }
+  | { kind: 'nft'; chainId: number; standard: 'erc721' | 'erc1155'; contract: string; tokenId: string };
+
+// Anything with a dot that is not a hex address, e.g. vitalik.eth or pay.example.xyz
+export const isEnsName = (value: string): boolean => {
+  const name = value.trim();
+  return !name.startsWith('0x') && /^[^\s.]+(\.[^\s.]+)+$/.test(name);
+};
+
+// Turns ipfs:// and ar:// URIs into gateway URLs; http(s) and data:image URIs pass through
+export const toGatewayUrl = (uri: string): string | null => {
+  const value = uri.trim();
+  if (/^(https?:\/\/|data:image\/)/i.test(value)) return value;
+
+  const ipfs = value.match(/^ipfs:\/\/(?:ipfs\/)?(.+)$/i) || value.match(/^\/?ipfs\/(.+)$/i);
+  if (ipfs) return `${IPFS_GATEWAY}${ipfs[1]}`;
+
+  const arweave = value.match(/^ar:\/\/(.+)$/i);
+  if (arweave) return `${ARWEAVE_GATEWAY}${arweave[1]}`;
+
+  return null;
+};
+
+// Reads an ENS avatar record: a plain URI, or eip155:<chain>/<erc721|erc1155>:<contract>/<token id>
+export const parseEnsAvatarUri = (record: string): EnsAvatarUri | null => {
+  const nft = record.trim().match(/^eip155:(\d+)\/(erc721|erc1155):(0x[0-9a-fA-F]{40})\/(\d+)$/i);
+  if (nft) {
+    return {
+      kind: 'nft',
+      chainId: parseInt(nft[1], 10),
+      standard: nft[2].toLowerCase() as 'erc721' | 'erc1155',
+      contract: nft[3],
+      tokenId: nft[4]
+    };
+  }
+
+  const url = toGatewayUrl(record);
+  return url ? { kind: 'url', url } : null;
+};
+
+const callContract = async <T>(
+  chainId: number,
+  address: string,
+  abi: Abi,
+  functionName: string,
+  args: unknown[]
+): Promise<T | null> => {
+  const chain = getChainDefinition(chainId);
+  if (!chain) {
+    throw new Error(`Network ${chainId} not found in configuration`);
+  }
+
+  // viem is loaded on demand so pages that never look up a name do not pay for it
+  const { encodeFunctionData, decodeFunctionResult } = await import('viem');
+  const data = encodeFunctionData({ abi, functionName, args } as any);
+  const result = await rpcClient.call<string>(
+    getRpcEndpoints(chain),
+    'eth_call',
+    [{ to: address, data }, 'latest'],
+    { chainId }
+  );
+
+  // Empty return data: no contract, or a resolver without the function
+  if (!result || result === '0x') return null;
+  return decodeFunctionResult({ abi, functionName, data: result } as any) as T;
+};
+
+const toNode = async (name: string): Promise<string> => {
+  const [{ namehash }, { normalize }] = await Promise.all([import('viem'), import('viem/ens')]);
+  return namehash(normalize(name.trim()));
+};
+
+const getResolver = async (node: string, chainId: number): Promise<string | null> => {
+  const resolver = await callContract<string>(chainId, ENS_REGISTRY_ADDRESS, ENS_ABI, 'resolver', [node]);
+  return resolver && !ZERO_ADDRESS.test(resolver) ? resolver : null;
+};
+
+// Resolves a name to its address with plain eth_calls on the chain's public RPC URLs.
+// Only on-chain resolvers are followed; offchain (CCIP-read) names resolve to null.
+export const resolveEnsName = async (name: string, chainId: number = 1): Promise<string | null> => {
+  const node = await toNode(name);
+  const resolver = await getResolver(node, chainId);
+  if (!resolver) return null;
+
+  const address = await callContract<string>(chainId, resolver, ENS_ABI, 'addr', [node]);
+  return address && !ZERO_ADDRESS.test(address) ? address : null;
+};
+
+// Primary name of an address. The name only counts if it resolves back to the same address.
+export const lookupEnsName = async (address: string, chainId: number = 1): Promise<string | null> => {
+  const { namehash } = await import('viem');
+  const node = namehash(`${address.toLowerCase().slice(2)}.addr.reverse`);
+  const resolver = await getResolver(node, chainId);
+  if (!resolver) return null;
+
+  const name = await callContract<string>(chainId, resolver, ENS_ABI, 'name', [node]);
+  if (!name) return null;
+
+  const forward = await resolveEnsName(name, chainId);
+  return forward?.toLowerCase() === address.toLowerCase() ? name : null;
+};
+
+export const getEnsText = async (name: string, key: string, chainId: number = 1): Promise<string | null> => {
+  const node = await toNode(name);
+  const resolver = await getResolver(node, chainId);
+  if (!resolver) return null;
+
+  const value = await callContract<string>(chainId, resolver, ENS_ABI, 'text', [node, key]);
+  return value || null;
+};
+
+const fetchJson = async (url: string): Promise<any> => {
+  // Token metadata is often inlined as a data URI
+  const inline = url.match(/^data:application\/json(;base64)?,(.*)$/i);
+  if (inline) {
+    return JSON.parse(inline[1] ? atob(inline[2]) : decodeURIComponent(inline[2]));
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), APP_CONFIG.TIMEOUTS.RPC_REQUEST);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Metadata request failed with HTTP ${response.status}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Metadata image of an NFT avatar, after checking the token belongs to the name's owner
+const resolveNftAvatar = async (
+  avatar: Extract<EnsAvatarUri, { kind: 'nft' }>,
+  owner?: string
+): Promise<string | null> => {
+  const { chainId, standard, contract } = avatar;
+  const id = BigInt(avatar.tokenId);
+
+  if (owner) {
+    if (standard === 'erc721') {
+      const tokenOwner = await callContract<string>(chainId, contract, TOKEN_ABI, 'ownerOf', [id]);
+      if (tokenOwner?.toLowerCase() !== owner.toLowerCase()) return null;
+    } else {
+      const balance = await callContract<bigint>(chainId, contract, TOKEN_ABI, 'balanceOf', [owner, id]);
+      if (!balance || balance <= BigInt(0)) return null;
+    }
+  }
+
+  const tokenUri = standard === 'erc721'
+    ? await callContract<string>(chainId, contract, TOKEN_ABI, 'tokenURI', [id])
+    : await callContract<string>(chainId, contract, TOKEN_ABI, 'uri', [id]);
+  if (!tokenUri) return null;
+
+  // ERC-1155 URIs carry an {id} placeholder for the zero-padded hex token id
+  const metadataUri = tokenUri.replace('{id}', id.toString(16).padStart(64, '0'));
+  const metadataUrl = metadataUri.startsWith('data:') ? metadataUri : toGatewayUrl(metadataUri);
+  if (!metadataUrl) return null;
+
+  const metadata = await fetchJson(metadataUrl);
+  const image = metadata?.image || metadata?.image_url;
+  if (typeof image === 'string') return toGatewayUrl(image);
+  if (typeof metadata?.image_data === 'string') {
+    return `data:image/svg+xml;utf8,${encodeURIComponent(metadata.image_data)}`;
+  }
+  return null;
+};
+
+// Avatar image URL for a name, following NFT avatars to their token metadata
+export const resolveEnsAvatar = async (name: string, owner?: string, chainId: number = 1): Promise<string | null> => {
+  const record = await getEnsText(name, 'avatar', chainId);
+  const avatar = record ? parseEnsAvatarUri(record) : null;
+  if (!avatar) return null;
+
+  return avatar.kind === 'url' ? avatar.url : resolveNftAvatar(avatar, owner);
+};
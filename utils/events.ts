@@ -0,0 +1,37 @@
+type Listener<T> = (payload: T) => void;
+
+// Minimal typed emitter; a failing listener does not stop the others
+export class TypedEventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const listeners = this.listeners[event] || new Set<Listener<Events[K]>>();
+    listeners.add(listener);
+    this.listeners[event] = listeners;
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners[event];
+    if (!listeners) return;
+
+    Array.from(listeners).forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.warn(`Listener for ${String(event)} failed:`, error);
+      }
+    });
+  }
+
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners[event]?.size ?? 0;
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+}
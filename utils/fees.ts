@@ -0,0 +1,162 @@
+import { parseUnits } from 'viem';
+import { APP_CONFIG } from '@/config/constants';
+import { ErrorFactory } from '@/types/errors';
+import {
+  ChainGasConfig,
+  Eip1559FeeEstimate,
+  Eip1559Fees,
+  FeeEstimate,
+  FeeEstimateSource,
+  FeeSpeed,
+  LegacyFeeEstimate,
+  LegacyFees
+} from '@/types/chain';
+import { JsonRpcClient, rpcClient } from '@/utils/rpcClient';
+
+// eth_feeHistory result as returned by the node; quantities are hex strings
+export interface FeeHistory {
+  oldestBlock: string;
+  baseFeePerGas?: string[];
+  gasUsedRatio: number[];
+  reward?: string[][];
+}
+
+export interface FeeOracleOptions {
+  historyBlocks?: number;
+}
+
+const FEE_SPEEDS: FeeSpeed[] = ['slow', 'standard', 'fast'];
+const ZERO = BigInt(0);
+const HUNDRED = BigInt(100);
+
+const toBigInt = (value: unknown): bigint | null => {
+  if (typeof value !== 'string' || !/^0x[0-9a-fA-F]+$/.test(value)) return null;
+  return BigInt(value);
+};
+
+const percentOf = (value: bigint, percent: number): bigint => value * BigInt(percent) / HUNDRED;
+
+const median = (values: bigint[]): bigint | null => {
+  if (values.length === 0) return null;
+  const sorted = values.slice().sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / BigInt(2) : sorted[middle];
+};
+
+const maxOf = (a: bigint, b: bigint): bigint => (a > b ? a : b);
+
+// Accepts gwei as a number or decimal string, as returned by gas oracles and the chain list
+export const parseGwei = (value: number | string): bigint => {
+  const decimal = typeof value === 'number' ? value.toFixed(9) : value;
+  return parseUnits(decimal, 9);
+};
+
+// The next block's base fee, which feeHistory appends after the sampled blocks.
+// Chains without EIP-1559 omit it or report zero.
+export const getNextBaseFee = (history: FeeHistory | null): bigint | null => {
+  const baseFees = history?.baseFeePerGas;
+  if (!Array.isArray(baseFees) || baseFees.length === 0) return null;
+
+  const next = toBigInt(baseFees[baseFees.length - 1]);
+  return next !== null && next > ZERO ? next : null;
+};
+
+const getNewestBlock = (history: FeeHistory | null): number | undefined => {
+  const oldest = toBigInt(history?.oldestBlock);
+  if (oldest === null || !history?.gasUsedRatio?.length) return undefined;
+  return Number(oldest) + history.gasUsedRatio.length - 1;
+};
+
+export const suggestLegacyFees = (
+  gasPrice: bigint,
+  source: FeeEstimateSource = 'rpc',
+  blockNumber?: number
+): LegacyFeeEstimate => {
+  const markup = APP_CONFIG.FEES.GAS_PRICE_MARKUP;
+  const levels = FEE_SPEEDS.reduce((all, speed) => {
+    all[speed] = { gasPrice: percentOf(gasPrice, markup[speed]) };
+    return all;
+  }, {} as Record<FeeSpeed, LegacyFees>);
+
+  return { type: 'legacy', source, ...levels, blockNumber };
+};
+
+// Builds slow/standard/fast suggestions from fee history, falling back to legacy pricing
+// when the chain has no base fee. Returns null when neither input is usable.
+export const suggestFees = (history: FeeHistory | null, gasPrice: bigint | null): FeeEstimate | null => {
+  const blockNumber = getNewestBlock(history);
+  const baseFee = getNextBaseFee(history);
+  if (baseFee === null) {
+    return gasPrice === null ? null : suggestLegacyFees(gasPrice, 'rpc', blockNumber);
+  }
+
+  // Used when the sampled blocks carried no tipped transactions
+  const defaultTip = gasPrice !== null && gasPrice > baseFee ? gasPrice - baseFee : ZERO;
+  const rewards = Array.isArray(history?.reward) ? history!.reward : [];
+  const headroom = APP_CONFIG.FEES.BASE_FEE_HEADROOM;
+
+  let previousTip = ZERO;
+  const levels = FEE_SPEEDS.reduce((all, speed, index) => {
+    // Empty blocks report a zero reward and would drag the tip down, so they are skipped
+    const tips = rewards
+      .map(blockRewards => toBigInt(blockRewards?.[index]))
+      .filter((tip): tip is bigint => tip !== null && tip > ZERO);
+
+    // A faster speed never suggests a smaller tip than a slower one
+    const tip = maxOf(median(tips) ?? defaultTip, previousTip);
+    previousTip = tip;
+
+    all[speed] = {
+      maxFeePerGas: percentOf(baseFee, headroom[speed]) + tip,
+      maxPriorityFeePerGas: tip
+    };
+    return all;
+  }, {} as Record<FeeSpeed, Eip1559Fees>);
+
+  const estimate: Eip1559FeeEstimate = { type: 'eip1559', source: 'rpc', baseFeePerGas: baseFee, ...levels, blockNumber };
+  return estimate;
+};
+
+// Configured gwei values, priced as legacy so they are accepted on every chain
+export const getFallbackFees = (fallback: ChainGasConfig['fallback']): LegacyFeeEstimate => {
+  return {
+    type: 'legacy',
+    source: 'fallback',
+    slow: { gasPrice: parseGwei(fallback.slow) },
+    standard: { gasPrice: parseGwei(fallback.standard) },
+    fast: { gasPrice: parseGwei(fallback.fast) }
+  };
+};
+
+// Suggests fees from a chain's own RPC using eth_feeHistory and eth_gasPrice
+export class FeeOracle {
+  private readonly historyBlocks: number;
+
+  constructor(
+    private readonly client: JsonRpcClient = rpcClient,
+    options: FeeOracleOptions = {}
+  ) {
+    this.historyBlocks = options.historyBlocks ?? APP_CONFIG.FEES.HISTORY_BLOCKS;
+  }
+
+  async estimate(urls: string[], chainId: number): Promise<FeeEstimate> {
+    const percentiles = FEE_SPEEDS.map(speed => APP_CONFIG.FEES.REWARD_PERCENTILES[speed]);
+
+    // Nodes without EIP-1559 reject eth_feeHistory; eth_gasPrice still prices a legacy transaction
+    const [history, gasPrice] = await Promise.all([
+      this.client
+        .call<FeeHistory>(urls, 'eth_feeHistory', [`0x${this.historyBlocks.toString(16)}`, 'latest', percentiles], { chainId })
+        .catch(() => null),
+      this.client
+        .call<string>(urls, 'eth_gasPrice', [], { chainId })
+        .then(toBigInt)
+        .catch(() => null)
+    ]);
+
+    const estimate = suggestFees(history, gasPrice);
+    if (!estimate) {
+      throw ErrorFactory.createNetworkError('Unable to read fee data from the network', chainId, chainId);
+    }
+    return estimate;
+  }
+}
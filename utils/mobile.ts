@@ -0,0 +1,49 @@
+const MOBILE_USER_AGENT = /Android|iPhone|iPad|iPod|Mobile|Opera Mini|IEMobile/i;
+
+export const isMobileUserAgent = (userAgent?: string): boolean => {
+  const agent = userAgent ?? (typeof navigator !== 'undefined' ? navigator.userAgent : '');
+  return MOBILE_USER_AGENT.test(agent);
+};
+
+export interface MobileEnvironment {
+  isMobile: boolean;
+  // Strategy id of the wallet whose in-app browser the page is open in
+  inAppWallet: string | null;
+}
+
+// Wallet in-app browsers we have strategies for, recognised by their user agent token or the flag
+// their injected provider sets. TokenPocket and Bitget also set isMetaMask, so they are checked first.
+const IN_APP_BROWSERS: Array<{ walletId: string; userAgent: RegExp; providerFlag?: string }> = [
+  { walletId: 'tokenPocket', userAgent: /TokenPocket/i, providerFlag: 'isTokenPocket' },
+  { walletId: 'bitgetWallet', userAgent: /BitKeep|Bitget/i, providerFlag: 'isBitKeep' },
+  { walletId: 'coinbaseWallet', userAgent: /CoinbaseWallet|CoinbaseBrowser/i, providerFlag: 'isCoinbaseBrowser' },
+  { walletId: 'metaMask', userAgent: /MetaMaskMobile/i }
+];
+
+const getInjectedProvider = (): Record<string, unknown> | undefined => {
+  return typeof window !== 'undefined' ? (window as any).ethereum : undefined;
+};
+
+export const detectInAppWallet = (
+  userAgent?: string,
+  provider: Record<string, unknown> | undefined = getInjectedProvider()
+): string | null => {
+  const agent = userAgent ?? (typeof navigator !== 'undefined' ? navigator.userAgent : '');
+  if (!isMobileUserAgent(agent)) return null;
+
+  const browser = IN_APP_BROWSERS.find(candidate =>
+    candidate.userAgent.test(agent) || (!!candidate.providerFlag && !!provider?.[candidate.providerFlag])
+  );
+  return browser?.walletId ?? null;
+};
+
+export const getMobileEnvironment = (
+  userAgent?: string,
+  provider: Record<string, unknown> | undefined = getInjectedProvider()
+): MobileEnvironment => ({
+  isMobile: isMobileUserAgent(userAgent),
+  inAppWallet: detectInAppWallet(userAgent, provider)
+});
+
+// Several wallets expect the dapp URL without its scheme
+export const stripUrlProtocol = (url: string): string => url.replace(/^https?:\/\//, '');
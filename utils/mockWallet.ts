@@ -0,0 +1,90 @@
+import type { SimulatedFailure, SimulatedWalletOptions } from '@/services/implementations/SimulatedWalletProvider';
+
+export const MOCK_WALLET_PARAM = 'mockWallet';
+
+// Well-known development accounts (Hardhat / Anvil defaults)
+export const SIMULATED_ACCOUNTS = [
+  '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+  '0x70997970c51812dc3a010c7d01b50e0d17dc79c8',
+  '0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc'
+];
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+const parseInteger = (value: string): number | undefined => {
+  const parsed = parseInt(value, value.toLowerCase().startsWith('0x') ? 16 : 10);
+  return Number.isInteger(parsed) ? parsed : undefined;
+};
+
+const parseAccounts = (value: string): string[] | undefined => {
+  const count = /^\d+$/.test(value) ? parseInt(value, 10) : undefined;
+  if (count !== undefined) {
+    return count > 0 ? SIMULATED_ACCOUNTS.slice(0, Math.min(count, SIMULATED_ACCOUNTS.length)) : undefined;
+  }
+  const accounts = value.split('|').filter(account => ADDRESS_PATTERN.test(account));
+  return accounts.length > 0 ? accounts : undefined;
+};
+
+// method:code[:times], e.g. eth_requestAccounts:4001 or personal_sign:-32603:2
+const parseFailure = (value: string): SimulatedFailure | undefined => {
+  const [method, code, times] = value.split(':');
+  const parsedCode = code !== undefined ? parseInteger(code) : undefined;
+  if (!method || parsedCode === undefined) return undefined;
+
+  const parsedTimes = times !== undefined ? parseInteger(times) : undefined;
+  return { method, code: parsedCode, ...(parsedTimes !== undefined && parsedTimes > 0 && { times: parsedTimes }) };
+};
+
+// Reads ?mockWallet=chain:137,latency:500,accounts:2,fail:eth_requestAccounts:4001
+// into simulated wallet options. A bare ?mockWallet (or =1 / =true) uses the defaults;
+// null means the page was not opened in mock wallet mode.
+export const parseMockWalletParam = (search: string): SimulatedWalletOptions | null => {
+  const params = new URLSearchParams(search);
+  if (!params.has(MOCK_WALLET_PARAM)) return null;
+
+  const options: SimulatedWalletOptions = {};
+  const failures: SimulatedFailure[] = [];
+
+  (params.get(MOCK_WALLET_PARAM) || '').split(',').forEach(pair => {
+    const separator = pair.indexOf(':');
+    const key = (separator === -1 ? pair : pair.slice(0, separator)).trim();
+    const value = separator === -1 ? '' : pair.slice(separator + 1).trim();
+
+    switch (key) {
+      case 'chain': {
+        const chainId = parseInteger(value);
+        if (chainId && chainId > 0) options.chainId = chainId;
+        break;
+      }
+      case 'chains': {
+        const chains = value.split('|').map(parseInteger).filter((chainId): chainId is number => !!chainId && chainId > 0);
+        if (chains.length > 0) options.chains = chains;
+        break;
+      }
+      case 'latency': {
+        const latency = parseInteger(value);
+        if (latency !== undefined && latency >= 0) options.latency = latency;
+        break;
+      }
+      case 'accounts': {
+        const accounts = parseAccounts(value);
+        if (accounts) options.accounts = accounts;
+        break;
+      }
+      case 'authorized':
+        options.authorized = value !== 'false';
+        break;
+      case 'fail': {
+        const failure = parseFailure(value);
+        if (failure) failures.push(failure);
+        break;
+      }
+      default:
+        // '1', 'true' and unknown keys only switch the mode on
+        break;
+    }
+  });
+
+  if (failures.length > 0) options.failures = failures;
+  return options;
+};
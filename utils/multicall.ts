@@ -0,0 +1,43 @@
+import { decodeFunctionResult, encodeFunctionData, multicall3Abi } from 'viem';
+
+// ERC-20 balanceOf and Multicall3 aggregate3, the only contract calls the balance reader makes
+
+const BALANCE_OF_ABI = [
+  { name: 'balanceOf', type: 'function', stateMutability: 'view', inputs: [{ name: 'owner', type: 'address' }], outputs: [{ name: '', type: 'uint256' }] }
+] as const;
+
+export interface Multicall3Call {
+  target: string;
+  allowFailure: boolean;
+  callData: string;
+}
+
+export interface Multicall3Result {
+  success: boolean;
+  returnData: string;
+}
+
+const toHex = (value: string): `0x${string}` => value as `0x${string}`;
+
+export const encodeBalanceOf = (owner: string): string =>
+  encodeFunctionData({ abi: BALANCE_OF_ABI, functionName: 'balanceOf', args: [toHex(owner)] });
+
+export const encodeAggregate3 = (calls: Multicall3Call[]): string =>
+  encodeFunctionData({
+    abi: multicall3Abi,
+    functionName: 'aggregate3',
+    args: [calls.map(call => ({ target: toHex(call.target), allowFailure: call.allowFailure, callData: toHex(call.callData) }))]
+  });
+
+export const decodeAggregate3 = (data: string): Multicall3Result[] =>
+  decodeFunctionResult({ abi: multicall3Abi, functionName: 'aggregate3', data: toHex(data) })
+    .map(({ success, returnData }) => ({ success, returnData }));
+
+// Returns null when the data does not hold a uint256, e.g. a call to a non-contract
+export const decodeUint256 = (data: string): bigint | null => {
+  try {
+    return decodeFunctionResult({ abi: BALANCE_OF_ABI, functionName: 'balanceOf', data: toHex(data) });
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,265 @@
+import { APP_CONFIG } from '@/config/constants';
+import { SecurityUtils } from '@/utils/security';
+import { ErrorFactory } from '@/types/errors';
+import { RpcEndpointHealth, RpcEndpointStatus } from '@/types/chain';
+
+interface EndpointSample {
+  ok: boolean;
+  latency: number;
+}
+
+interface EndpointRecord {
+  samples: EndpointSample[];
+  consecutiveFailures: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  retryAt?: number;
+}
+
+export interface RpcEndpointTrackerOptions {
+  sampleSize?: number;
+  maxConsecutiveFailures?: number;
+  cooldown?: number;
+}
+
+export interface RpcRequestOptions {
+  chainId?: number;
+  timeout?: number;
+  // False asks the endpoint even when the result is cached, and caches the fresh one
+  cache?: boolean;
+}
+
+// Untested endpoints are assumed to be this slow so that measured ones win ties
+const UNKNOWN_LATENCY = APP_CONFIG.HEALTH_CHECK.MAX_LATENCY;
+
+// Thrown when an endpoint should be skipped in favour of the next one
+interface RetryableRpcFailure {
+  retryable: true;
+  message: string;
+}
+
+const retryable = (message: string): RetryableRpcFailure => ({ retryable: true, message });
+
+const isRetryable = (error: unknown): error is RetryableRpcFailure => {
+  return (error as RetryableRpcFailure)?.retryable === true;
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: string | null | undefined, now: number): number | null => {
+  if (!value) return null;
+  const delay = /^\d+$/.test(value.trim()) ? Number(value) * 1000 : Date.parse(value) - now;
+  return Number.isFinite(delay) && delay > 0 ? Math.min(delay, APP_CONFIG.HEALTH_CHECK.RPC_MAX_RETRY_AFTER) : null;
+};
+
+// Tracks latency and error rate per RPC URL and routes requests to the healthiest endpoint
+export class RpcEndpointTracker {
+  private records: Map<string, EndpointRecord> = new Map();
+  private readonly sampleSize: number;
+  private readonly maxConsecutiveFailures: number;
+  private readonly cooldown: number;
+
+  constructor(options: RpcEndpointTrackerOptions = {}) {
+    this.sampleSize = options.sampleSize ?? APP_CONFIG.HEALTH_CHECK.RPC_SAMPLE_SIZE;
+    this.maxConsecutiveFailures = options.maxConsecutiveFailures ?? APP_CONFIG.HEALTH_CHECK.RPC_MAX_CONSECUTIVE_FAILURES;
+    this.cooldown = options.cooldown ?? APP_CONFIG.HEALTH_CHECK.RPC_ENDPOINT_COOLDOWN;
+  }
+
+  recordSuccess(url: string, latency: number): void {
+    const record = this.getRecord(url);
+    this.addSample(record, { ok: true, latency });
+    record.consecutiveFailures = 0;
+  }
+
+  recordFailure(url: string, error: string, latency: number = 0): void {
+    const record = this.getRecord(url);
+    this.addSample(record, { ok: false, latency });
+    record.consecutiveFailures += 1;
+    record.lastError = error;
+    record.lastFailureAt = Date.now();
+  }
+
+  getHealth(url: string): Omit<RpcEndpointHealth, 'rank'> {
+    const record = this.records.get(url);
+    if (!record || record.samples.length === 0) {
+      return { url, status: 'unknown', latency: null, errorRate: 0, requests: 0, consecutiveFailures: 0 };
+    }
+
+    const successes = record.samples.filter(sample => sample.ok);
+    const latency = successes.length > 0
+      ? Math.round(successes.reduce((total, sample) => total + sample.latency, 0) / successes.length)
+      : null;
+    const errorRate = (record.samples.length - successes.length) / record.samples.length;
+
+    return {
+      url,
+      status: this.getStatus(record, errorRate, latency),
+      latency,
+      errorRate,
+      requests: record.samples.length,
+      consecutiveFailures: record.consecutiveFailures,
+      lastError: record.lastError,
+      lastFailureAt: record.lastFailureAt,
+      ...(this.isRateLimited(record) && { retryAt: record.retryAt })
+    };
+  }
+
+  // Orders endpoints healthiest first; ties keep the configured order
+  rank(urls: string[]): RpcEndpointHealth[] {
+    return urls
+      .map((url, index) => ({ health: this.getHealth(url), index }))
+      .sort((a, b) => this.score(a.health) - this.score(b.health) || a.index - b.index)
+      .map(({ health }, rank) => ({ ...health, rank: rank + 1 }));
+  }
+
+  getRankedUrls(urls: string[]): string[] {
+    return this.rank(urls).map(endpoint => endpoint.url);
+  }
+
+  // Sends a JSON-RPC payload or batch to the healthiest endpoint, failing over on timeouts,
+  // unreachable hosts, HTTP 429 and HTTP 5xx. Other failures are returned to the caller as-is.
+  // Endpoints that asked to be left alone with Retry-After are skipped until then.
+  async request<T = any>(urls: string[], payload: object | object[], options: RpcRequestOptions = {}): Promise<T> {
+    const { chainId, timeout = APP_CONFIG.TIMEOUTS.RPC_REQUEST } = options;
+
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    if (payloads.length === 0 || !payloads.every(entry => SecurityUtils.validateRPCRequest(entry))) {
+      throw ErrorFactory.createNetworkError('Invalid RPC payload', chainId, chainId);
+    }
+
+    const candidates = this.getRankedUrls(urls).filter(url => {
+      const isValid = SecurityUtils.validateURL(url);
+      if (!isValid) {
+        console.warn(`Invalid RPC URL detected: ${url}`);
+      }
+      return isValid;
+    });
+
+    if (candidates.length === 0) {
+      throw ErrorFactory.createNetworkError('No valid RPC endpoints configured', chainId, chainId);
+    }
+
+    const failures: string[] = [];
+    for (const url of candidates) {
+      const record = this.records.get(url);
+      if (record && this.isRateLimited(record)) {
+        failures.push(`${url}: rate limited for ${Math.ceil((record.retryAt! - Date.now()) / 1000)}s`);
+        continue;
+      }
+
+      try {
+        return await this.send<T>(url, payload, timeout);
+      } catch (error) {
+        if (!isRetryable(error)) {
+          throw { ...ErrorFactory.createNetworkError(this.describe(error), chainId, chainId), rpcUrl: url };
+        }
+        failures.push(`${url}: ${error.message}`);
+      }
+    }
+
+    throw ErrorFactory.createNetworkError(`All RPC endpoints failed (${failures.join('; ')})`, chainId, chainId);
+  }
+
+  reset(): void {
+    this.records.clear();
+  }
+
+  private async send<T>(url: string, payload: object, timeout: number): Promise<T> {
+    const startedAt = Date.now();
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(timeout)
+      });
+    } catch (error) {
+      const message = this.isTimeout(error) ? `timed out after ${timeout}ms` : this.describe(error);
+      this.recordFailure(url, message, Date.now() - startedAt);
+      throw retryable(message);
+    }
+
+    // A rate-limited endpoint, such as the RPC proxy, is skipped like one that is down
+    if (response.status >= 500 || response.status === 429) {
+      const message = `HTTP ${response.status}`;
+      this.recordFailure(url, message, Date.now() - startedAt);
+      if (response.status === 429) {
+        this.setRetryAfter(url, response.headers?.get('Retry-After'));
+      }
+      throw retryable(message);
+    }
+
+    if (!response.ok) {
+      throw new Error(`RPC request failed: ${response.status} ${response.statusText}`);
+    }
+
+    try {
+      const data = await response.json();
+      this.recordSuccess(url, Date.now() - startedAt);
+      return data as T;
+    } catch {
+      const message = 'invalid JSON response';
+      this.recordFailure(url, message, Date.now() - startedAt);
+      throw retryable(message);
+    }
+  }
+
+  private setRetryAfter(url: string, value: string | null | undefined): void {
+    const now = Date.now();
+    const delay = parseRetryAfter(value, now);
+    if (delay !== null) {
+      this.getRecord(url).retryAt = now + delay;
+    }
+  }
+
+  private isRateLimited(record: EndpointRecord): boolean {
+    return record.retryAt !== undefined && Date.now() < record.retryAt;
+  }
+
+  private getRecord(url: string): EndpointRecord {
+    let record = this.records.get(url);
+    if (!record) {
+      record = { samples: [], consecutiveFailures: 0 };
+      this.records.set(url, record);
+    }
+    return record;
+  }
+
+  private addSample(record: EndpointRecord, sample: EndpointSample): void {
+    record.samples.push(sample);
+    if (record.samples.length > this.sampleSize) {
+      record.samples.shift();
+    }
+  }
+
+  private getStatus(record: EndpointRecord, errorRate: number, latency: number | null): RpcEndpointStatus {
+    if (this.isCoolingDown(record) || this.isRateLimited(record)) return 'down';
+    if (errorRate > 0.2 || (latency !== null && latency > APP_CONFIG.HEALTH_CHECK.MAX_LATENCY)) return 'degraded';
+    return 'healthy';
+  }
+
+  private isCoolingDown(record: EndpointRecord): boolean {
+    return record.consecutiveFailures >= this.maxConsecutiveFailures
+      && record.lastFailureAt !== undefined
+      && Date.now() - record.lastFailureAt < this.cooldown;
+  }
+
+  // Lower is better: latency inflated by error rate, with endpoints that are down pushed to the back
+  private score(health: Omit<RpcEndpointHealth, 'rank'>): number {
+    const latency = health.latency ?? UNKNOWN_LATENCY;
+    const penalty = health.status === 'down' ? Number.MAX_SAFE_INTEGER / 2 : 0;
+    return penalty + latency * (1 + health.errorRate * 4);
+  }
+
+  private isTimeout(error: unknown): boolean {
+    const name = (error as { name?: string })?.name;
+    return name === 'TimeoutError' || name === 'AbortError';
+  }
+
+  private describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export const rpcEndpointTracker = new RpcEndpointTracker();
@@ -0,0 +1,176 @@
+import { APP_CONFIG } from '@/config/constants';
+import { ErrorFactory } from '@/types/errors';
+import { SecurityUtils } from '@/utils/security';
+import { RpcEndpointTracker, RpcRequestOptions, rpcEndpointTracker } from '@/utils/rpc';
+
+export interface JsonRpcClientOptions {
+  maxBatchSize?: number;
+  cacheSize?: number;
+}
+
+interface JsonRpcPayload {
+  jsonrpc: '2.0';
+  method: string;
+  params: unknown[];
+  id: number;
+}
+
+interface QueuedCall {
+  payload: JsonRpcPayload;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+interface CallQueue {
+  urls: string[];
+  options: RpcRequestOptions;
+  calls: QueuedCall[];
+}
+
+// Results that never change for the same endpoints and params. A contract can still be deployed
+// at an empty address, so only code that is already there is kept.
+const IMMUTABLE_RESULTS: Record<string, (result: unknown) => boolean> = {
+  eth_chainId: result => result !== null && result !== undefined,
+  eth_getCode: result => typeof result === 'string' && result !== '0x',
+  eth_getBlockByHash: result => result !== null && result !== undefined
+};
+
+// Shared JSON-RPC client: identical calls in flight share one request, calls made in the same
+// tick go out as one JSON-RPC batch, and immutable results are cached. Endpoint selection,
+// failover and Retry-After are left to the endpoint tracker.
+export class JsonRpcClient {
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+  private cache: Map<string, unknown> = new Map();
+  private queues: Map<string, CallQueue> = new Map();
+  private nextId = 1;
+  private readonly maxBatchSize: number;
+  private readonly cacheSize: number;
+
+  constructor(
+    readonly tracker: RpcEndpointTracker = rpcEndpointTracker,
+    options: JsonRpcClientOptions = {}
+  ) {
+    this.maxBatchSize = options.maxBatchSize ?? APP_CONFIG.RPC_CLIENT.MAX_BATCH_SIZE;
+    this.cacheSize = options.cacheSize ?? APP_CONFIG.RPC_CLIENT.CACHE_SIZE;
+  }
+
+  // Sends a single JSON-RPC call and unwraps its result; node errors are raised as NetworkErrors
+  call<T = unknown>(urls: string[], method: string, params: unknown[] = [], options: RpcRequestOptions = {}): Promise<T> {
+    const { chainId, cache = true } = options;
+    const payload: JsonRpcPayload = { jsonrpc: '2.0', method, params, id: this.nextId++ };
+
+    if (!SecurityUtils.validateRPCRequest(payload)) {
+      return Promise.reject(ErrorFactory.createNetworkError(`RPC method ${method} is not allowed`, chainId, chainId));
+    }
+
+    const key = `${urls.join(' ')}|${method}|${JSON.stringify(params)}`;
+    if (cache && this.cache.has(key)) {
+      return Promise.resolve(this.cache.get(key) as T);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const request = this.enqueue(urls, payload, options)
+      .then(result => {
+        if (IMMUTABLE_RESULTS[method]?.(result)) {
+          this.remember(key, result);
+        }
+        return result;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, request);
+    return request as Promise<T>;
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  // Forgets cached results and endpoint health
+  reset(): void {
+    this.clearCache();
+    this.tracker.reset();
+  }
+
+  private enqueue(urls: string[], payload: JsonRpcPayload, options: RpcRequestOptions): Promise<unknown> {
+    const queueKey = `${urls.join(' ')}|${options.chainId ?? ''}|${options.timeout ?? ''}`;
+
+    return new Promise((resolve, reject) => {
+      let queue = this.queues.get(queueKey);
+      if (!queue) {
+        queue = { urls, options, calls: [] };
+        this.queues.set(queueKey, queue);
+        // Flushed once the current tick's synchronous calls have been queued
+        Promise.resolve().then(() => this.flush(queueKey));
+      }
+      queue.calls.push({ payload, resolve, reject });
+    });
+  }
+
+  private flush(queueKey: string): void {
+    const queue = this.queues.get(queueKey);
+    this.queues.delete(queueKey);
+    if (!queue) return;
+
+    for (let start = 0; start < queue.calls.length; start += this.maxBatchSize) {
+      const calls = queue.calls.slice(start, start + this.maxBatchSize);
+      void this.send(queue.urls, calls, queue.options);
+    }
+  }
+
+  private async send(urls: string[], calls: QueuedCall[], options: RpcRequestOptions): Promise<void> {
+    if (calls.length === 1) {
+      const [call] = calls;
+      try {
+        this.settle(call, await this.tracker.request(urls, call.payload, options), options);
+      } catch (error) {
+        call.reject(error);
+      }
+      return;
+    }
+
+    let responses: unknown;
+    try {
+      responses = await this.tracker.request(urls, calls.map(call => call.payload), options);
+    } catch (error) {
+      calls.forEach(call => call.reject(error));
+      return;
+    }
+
+    // Some nodes answer a batch with a single error; ask them one call at a time instead
+    if (!Array.isArray(responses)) {
+      await Promise.all(calls.map(call => this.send(urls, [call], options)));
+      return;
+    }
+
+    const byId = new Map(responses.map((response: any) => [response?.id, response]));
+    calls.forEach(call => this.settle(call, byId.get(call.payload.id), options));
+  }
+
+  private settle(call: QueuedCall, response: any, options: RpcRequestOptions): void {
+    const { chainId } = options;
+
+    if (!response) {
+      call.reject(ErrorFactory.createNetworkError(`No response to ${call.payload.method}`, chainId, chainId));
+    } else if (response.error) {
+      call.reject({ ...ErrorFactory.createNetworkError(response.error.message, chainId, chainId), code: response.error.code });
+    } else {
+      call.resolve(response.result);
+    }
+  }
+
+  private remember(key: string, result: unknown): void {
+    this.cache.set(key, result);
+    if (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+  }
+}
+
+export const rpcClient = new JsonRpcClient();
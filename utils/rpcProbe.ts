@@ -0,0 +1,147 @@
+import { APP_CONFIG } from '@/config/constants';
+import { ConnectionFailure, ConnectionFailureReason, ConnectionValidation } from '@/types/chain';
+import { parseChainId } from '@/utils/chains';
+import { JsonRpcClient, rpcClient } from '@/utils/rpcClient';
+
+export interface RpcProbeOptions {
+  maxBlockAge?: number;
+  stallTimeout?: number;
+  timeout?: number;
+}
+
+interface BlockObservation {
+  blockNumber: number;
+  // When the block number last moved forward
+  seenAt: number;
+}
+
+const parseQuantity = (value: unknown): number | null => {
+  if (typeof value !== 'string' || !/^0x[0-9a-f]+$/i.test(value)) return null;
+  return parseInt(value, 16);
+};
+
+const describe = (error: unknown): string => {
+  return (error as { message?: string })?.message ?? String(error);
+};
+
+// Checks that a network's RPC is the chain it claims to be and is keeping up: eth_chainId must
+// match, the block number must move forward between probes, and the latest block must be recent.
+export class RpcProbe {
+  private lastBlocks: Map<number, BlockObservation> = new Map();
+  private readonly maxBlockAge: number;
+  private readonly stallTimeout: number;
+  private readonly timeout: number;
+
+  constructor(
+    private readonly client: JsonRpcClient = rpcClient,
+    options: RpcProbeOptions = {}
+  ) {
+    this.maxBlockAge = options.maxBlockAge ?? APP_CONFIG.HEALTH_CHECK.MAX_BLOCK_AGE;
+    this.stallTimeout = options.stallTimeout ?? APP_CONFIG.HEALTH_CHECK.BLOCK_STALL_TIMEOUT;
+    this.timeout = options.timeout ?? APP_CONFIG.TIMEOUTS.NETWORK_HEALTH_CHECK;
+  }
+
+  // Endpoints are tried healthiest first; the first one that answers decides the result
+  async probe(urls: string[], chainId: number): Promise<ConnectionValidation> {
+    const startedAt = Date.now();
+    const unanswered: ConnectionFailure[] = [];
+
+    for (const url of this.client.tracker.getRankedUrls(urls)) {
+      let reportedChainId: unknown;
+      let block: any;
+
+      try {
+        // Sent together as one JSON-RPC batch; the chain id skips the cache, as an endpoint can change chains
+        [reportedChainId, block] = await Promise.all([
+          this.client.call([url], 'eth_chainId', [], { chainId, timeout: this.timeout, cache: false }),
+          this.client.call([url], 'eth_getBlockByNumber', ['latest', false], { chainId, timeout: this.timeout })
+        ]);
+      } catch (error) {
+        // Node errors carry a JSON-RPC code; anything else means the endpoint could not be reached
+        const reason: ConnectionFailureReason = (error as { code?: unknown })?.code !== undefined ? 'invalid-response' : 'unreachable';
+        unanswered.push({ reason, message: `${url}: ${describe(error)}` });
+        continue;
+      }
+
+      return this.evaluate(url, chainId, reportedChainId, block, startedAt);
+    }
+
+    return {
+      healthy: false,
+      rpcUrl: null,
+      chainId: null,
+      blockNumber: null,
+      blockTimestamp: null,
+      latency: Date.now() - startedAt,
+      failures: unanswered.length > 0
+        ? unanswered
+        : [{ reason: 'unreachable', message: 'No RPC endpoints configured' }],
+      checkedAt: Date.now()
+    };
+  }
+
+  reset(): void {
+    this.lastBlocks.clear();
+  }
+
+  private evaluate(
+    url: string,
+    expectedChainId: number,
+    reportedChainId: unknown,
+    block: any,
+    startedAt: number
+  ): ConnectionValidation {
+    const now = Date.now();
+    const failures: ConnectionFailure[] = [];
+    const chainId = parseChainId(reportedChainId);
+    const blockNumber = parseQuantity(block?.number);
+    const blockTimestamp = parseQuantity(block?.timestamp);
+
+    if (chainId === null) {
+      failures.push({ reason: 'invalid-response', message: `${url} did not return a chain ID` });
+    } else if (chainId !== expectedChainId) {
+      failures.push({
+        reason: 'chain-id-mismatch',
+        message: `${url} reports chain ID ${chainId}, expected ${expectedChainId}`
+      });
+    }
+
+    if (blockNumber === null || blockTimestamp === null) {
+      failures.push({ reason: 'invalid-response', message: `${url} did not return the latest block` });
+    } else {
+      const last = this.lastBlocks.get(expectedChainId);
+      if (!last || blockNumber > last.blockNumber) {
+        this.lastBlocks.set(expectedChainId, { blockNumber, seenAt: now });
+      } else if (now - last.seenAt >= this.stallTimeout) {
+        failures.push({
+          reason: 'block-not-advancing',
+          message: `${url} has not moved past block ${last.blockNumber} in ${Math.round((now - last.seenAt) / 1000)}s`
+        });
+      }
+
+      const age = now - blockTimestamp * 1000;
+      if (age > this.maxBlockAge) {
+        failures.push({
+          reason: 'stale-block',
+          message: `${url} latest block ${blockNumber} is ${Math.round(age / 1000)}s old`
+        });
+      }
+    }
+
+    // The endpoint answered, but for the wrong chain; count that against its health ranking
+    if (failures.some(failure => failure.reason === 'chain-id-mismatch')) {
+      this.client.tracker.recordFailure(url, 'chain ID mismatch');
+    }
+
+    return {
+      healthy: failures.length === 0,
+      rpcUrl: url,
+      chainId,
+      blockNumber,
+      blockTimestamp,
+      latency: now - startedAt,
+      failures,
+      checkedAt: now
+    };
+  }
+}
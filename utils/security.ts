@@ -1,7 +1,27 @@
 import { APP_CONFIG } from '@/config/constants';
+import { CHAIN_DEFINITIONS } from '@/config/chains';
+
+// Hosts named in the chain list are trusted alongside the built-in ones
+const getChainListHosts = (): string[] => {
+  const urls = CHAIN_DEFINITIONS.reduce<string[]>((all, chain) => all.concat(
+    chain.rpcUrls,
+    chain.wsUrls || [],
+    chain.gas.oracle ? [chain.gas.oracle.url] : []
+  ), []);
+
+  return urls.map(url => {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return '';
+    }
+  }).filter(Boolean);
+};
 
 export class SecurityUtils {
   private static readonly SANITIZE_REGEX = /[<>\"'&]/g;
+  // Hosts of user-added networks, trusted once their RPC has been verified
+  private static readonly trustedHosts: Set<string> = new Set();
   private static readonly XSS_PATTERNS = [
     /<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi,
     /javascript:/gi,
@@ -61,39 +81,67 @@ export class SecurityUtils {
   static validateURL(url: string): boolean {
     try {
       const parsed = new URL(url);
-      const allowedProtocols = ['https:', 'http:'];
+      const allowedProtocols = ['https:', 'http:', 'wss:', 'ws:'];
       const allowedDomains = [
         'polygon-rpc.com',
         'rpc.linea.build',
         'bsc-dataseed1.binance.org',
         'gasstation.polygon.technology',
-        'api.etherscan.io'
+        'api.etherscan.io',
+        ...getChainListHosts()
       ];
       
+      // The app's own API routes, such as the RPC proxy
+      const isSameOrigin = typeof window !== 'undefined' && parsed.origin === window.location.origin;
+
       return allowedProtocols.includes(parsed.protocol) &&
-             allowedDomains.some(domain => parsed.hostname.endsWith(domain));
+             (allowedDomains.some(domain => parsed.hostname.endsWith(domain)) || this.trustedHosts.has(parsed.hostname) || isSameOrigin);
     } catch {
       return false;
     }
   }
 
+  static trustHost(hostname: string): void {
+    this.trustedHosts.add(hostname.toLowerCase());
+  }
+
+  static untrustHost(hostname: string): void {
+    this.trustedHosts.delete(hostname.toLowerCase());
+  }
+
+  // cost lets one call count as several requests, e.g. each entry of a JSON-RPC batch
   static createRateLimiter(maxRequests: number, windowMs: number) {
     const requests = new Map<string, number[]>();
+    let lastSweep = Date.now();
     
-    return (identifier: string): boolean => {
+    const limiter = (identifier: string, cost: number = 1): boolean => {
       const now = Date.now();
+
+      // Forget identifiers with nothing left in the window, at most once per window
+      if (now - lastSweep >= windowMs) {
+        requests.forEach((times, id) => {
+          if (times.every(time => now - time >= windowMs)) requests.delete(id);
+        });
+        lastSweep = now;
+      }
+
       const userRequests = requests.get(identifier) || [];
       
       const validRequests = userRequests.filter(time => now - time < windowMs);
       
-      if (validRequests.length >= maxRequests) {
+      if (validRequests.length + cost > maxRequests) {
         return false;
       }
       
-      validRequests.push(now);
+      for (let i = 0; i < cost; i++) {
+        validRequests.push(now);
+      }
       requests.set(identifier, validRequests);
       return true;
     };
+    // Identifiers currently tracked
+    limiter.size = (): number => requests.size;
+    return limiter;
   }
 
   static validateWalletAddress(address: string): boolean {
@@ -145,6 +193,22 @@ export class SecurityUtils {
     return result;
   }
 
+  // eth_getLogs filters must name one block by hash, or a hex fromBlock..toBlock range of at most MAX_LOG_BLOCK_RANGE blocks
+  static isBoundedLogFilter(filter: any): boolean {
+    if (!filter || typeof filter !== 'object') return false;
+
+    if (filter.blockHash !== undefined) {
+      return typeof filter.blockHash === 'string' && /^0x[a-fA-F0-9]{64}$/.test(filter.blockHash)
+        && filter.fromBlock === undefined && filter.toBlock === undefined;
+    }
+
+    const isQuantity = (value: unknown): value is string => typeof value === 'string' && /^0x[a-fA-F0-9]{1,16}$/.test(value);
+    if (!isQuantity(filter.fromBlock) || !isQuantity(filter.toBlock)) return false;
+
+    const span = parseInt(filter.toBlock, 16) - parseInt(filter.fromBlock, 16);
+    return span >= 0 && span < APP_CONFIG.RPC_PROXY.MAX_LOG_BLOCK_RANGE;
+  }
+
   static validateRPCRequest(payload: any): boolean {
     if (!payload || typeof payload !== 'object') return false;
     
@@ -155,11 +219,29 @@ export class SecurityUtils {
     
     if (payload.jsonrpc !== '2.0') return false;
     
-    const safeMethods = ['eth_blockNumber', 'eth_getBalance', 'eth_getTransactionCount'];
+    const safeMethods = [
+      'eth_chainId',
+      'eth_blockNumber',
+      'eth_getBalance',
+      'eth_call',
+      'eth_getTransactionCount',
+      'eth_estimateGas',
+      'eth_feeHistory',
+      'eth_gasPrice',
+      'eth_getTransactionByHash',
+      'eth_getTransactionReceipt',
+      'eth_getBlockByNumber',
+      'eth_getBlockByHash',
+      'eth_getCode',
+      'eth_getLogs'
+    ];
     if (!safeMethods.includes(payload.method)) return false;
     
     if (!Array.isArray(payload.params)) return false;
     
+    // Log scans are only forwarded when they cannot walk the whole chain
+    if (payload.method === 'eth_getLogs' && !SecurityUtils.isBoundedLogFilter(payload.params[0])) return false;
+    
     if (typeof payload.id !== 'number' && typeof payload.id !== 'string') return false;
     
     return true;
@@ -168,3 +250,13 @@ export class SecurityUtils {
 
 export const networkRateLimiter = SecurityUtils.createRateLimiter(10, 60000);
 export const walletRateLimiter = SecurityUtils.createRateLimiter(5, 60000);
+// Sign-in fetches a nonce, verifies and reads the session, so auth is not held to the wallet limit
+export const authRateLimiter = SecurityUtils.createRateLimiter(
+  APP_CONFIG.AUTH.RATE_LIMIT,
+  APP_CONFIG.AUTH.RATE_LIMIT_WINDOW
+);
+// Every browser read goes through the RPC proxy, so it gets a budget of its own
+export const rpcProxyRateLimiter = SecurityUtils.createRateLimiter(
+  APP_CONFIG.RPC_PROXY.RATE_LIMIT,
+  APP_CONFIG.RPC_PROXY.RATE_LIMIT_WINDOW
+);
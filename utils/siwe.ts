@@ -0,0 +1,133 @@
+import { SiweMessageFields } from '@/types/auth';
+
+// EIP-4361 message formatting and parsing
+const PREAMBLE_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const NONCE_REGEX = /^[a-zA-Z0-9]{8,}$/;
+
+const FIELD_LABELS = {
+  uri: 'URI',
+  version: 'Version',
+  chainId: 'Chain ID',
+  nonce: 'Nonce',
+  issuedAt: 'Issued At',
+  expirationTime: 'Expiration Time',
+  notBefore: 'Not Before',
+  requestId: 'Request ID'
+} as const;
+
+export const createSiweMessage = (fields: SiweMessageFields): string => {
+  const lines = [
+    `${fields.domain}${PREAMBLE_SUFFIX}`,
+    fields.address,
+    ''
+  ];
+
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  } else {
+    lines.push('');
+  }
+
+  lines.push(
+    `${FIELD_LABELS.uri}: ${fields.uri}`,
+    `${FIELD_LABELS.version}: ${fields.version}`,
+    `${FIELD_LABELS.chainId}: ${fields.chainId}`,
+    `${FIELD_LABELS.nonce}: ${fields.nonce}`,
+    `${FIELD_LABELS.issuedAt}: ${fields.issuedAt}`
+  );
+
+  if (fields.expirationTime) lines.push(`${FIELD_LABELS.expirationTime}: ${fields.expirationTime}`);
+  if (fields.notBefore) lines.push(`${FIELD_LABELS.notBefore}: ${fields.notBefore}`);
+  if (fields.requestId) lines.push(`${FIELD_LABELS.requestId}: ${fields.requestId}`);
+
+  if (fields.resources && fields.resources.length > 0) {
+    lines.push('Resources:', ...fields.resources.map(resource => `- ${resource}`));
+  }
+
+  return lines.join('\n');
+};
+
+const readField = (line: string | undefined, label: string): string | null => {
+  const prefix = `${label}: `;
+  if (!line || !line.startsWith(prefix)) return null;
+  return line.slice(prefix.length);
+};
+
+const isValidTimestamp = (value: string): boolean => !Number.isNaN(Date.parse(value));
+
+// Returns null when the message does not follow the EIP-4361 layout
+export const parseSiweMessage = (message: string): SiweMessageFields | null => {
+  if (typeof message !== 'string') return null;
+
+  const lines = message.split('\n');
+  let index = 0;
+
+  const header = lines[index++];
+  if (!header || !header.endsWith(PREAMBLE_SUFFIX)) return null;
+  const domain = header.slice(0, -PREAMBLE_SUFFIX.length);
+  if (!domain) return null;
+
+  const address = lines[index++];
+  if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) return null;
+
+  if (lines[index++] !== '') return null;
+
+  let statement: string | undefined;
+  if (lines[index] === '') {
+    index++;
+  } else {
+    statement = lines[index++];
+    if (lines[index++] !== '') return null;
+  }
+
+  const uri = readField(lines[index++], FIELD_LABELS.uri);
+  const version = readField(lines[index++], FIELD_LABELS.version);
+  const chainId = readField(lines[index++], FIELD_LABELS.chainId);
+  const nonce = readField(lines[index++], FIELD_LABELS.nonce);
+  const issuedAt = readField(lines[index++], FIELD_LABELS.issuedAt);
+
+  if (!uri || version !== '1' || !chainId || !nonce || !issuedAt) return null;
+  if (!/^\d+$/.test(chainId) || !NONCE_REGEX.test(nonce) || !isValidTimestamp(issuedAt)) return null;
+
+  const fields: SiweMessageFields = {
+    domain,
+    address,
+    statement,
+    uri,
+    version: '1',
+    chainId: parseInt(chainId, 10),
+    nonce,
+    issuedAt
+  };
+
+  const expirationTime = readField(lines[index], FIELD_LABELS.expirationTime);
+  if (expirationTime !== null) {
+    if (!isValidTimestamp(expirationTime)) return null;
+    fields.expirationTime = expirationTime;
+    index++;
+  }
+
+  const notBefore = readField(lines[index], FIELD_LABELS.notBefore);
+  if (notBefore !== null) {
+    if (!isValidTimestamp(notBefore)) return null;
+    fields.notBefore = notBefore;
+    index++;
+  }
+
+  const requestId = readField(lines[index], FIELD_LABELS.requestId);
+  if (requestId !== null) {
+    fields.requestId = requestId;
+    index++;
+  }
+
+  if (lines[index] === 'Resources:') {
+    index++;
+    const resources: string[] = [];
+    while (index < lines.length && lines[index].startsWith('- ')) {
+      resources.push(lines[index++].slice(2));
+    }
+    fields.resources = resources;
+  }
+
+  return index === lines.length ? fields : null;
+};
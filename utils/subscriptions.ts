@@ -0,0 +1,535 @@
+import { APP_CONFIG } from '@/config/constants';
+import { getChainDefinition } from '@/config/chains';
+import { BlockHead, ChainLog, LogFilter, SubscriptionTransport } from '@/types/chain';
+import { getRpcEndpoints } from '@/utils/chains';
+import { TypedEventEmitter } from '@/utils/events';
+import { JsonRpcClient, rpcClient } from '@/utils/rpcClient';
+import { SecurityUtils } from '@/utils/security';
+
+// The part of the browser WebSocket that subscriptions use; the ws package's client has the same shape
+export interface SubscriptionSocket {
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export interface ChainEndpoints {
+  wsUrls: string[];
+  httpUrls: string[];
+}
+
+export interface SubscriptionManagerOptions {
+  client?: JsonRpcClient;
+  // Defaults to the browser WebSocket; without one every chain is polled
+  createSocket?: (url: string) => SubscriptionSocket;
+  // Defaults to the chain list's wsUrls and the RPC endpoints used for reads
+  resolveEndpoints?: (chainId: number) => ChainEndpoints | null;
+  reconnectDelay?: number;
+  maxReconnectDelay?: number;
+  pollInterval?: number;
+  // How long the socket may go without a new head before the chain is polled instead
+  stallTimeout?: number;
+}
+
+export interface TransportChange {
+  chainId: number;
+  transport: SubscriptionTransport | null;
+}
+
+interface SubscriptionEvents {
+  transport: TransportChange;
+}
+
+type Subscription =
+  | { kind: 'newHeads'; listener: (head: BlockHead) => void; serverId: string | null }
+  | {
+    kind: 'logs';
+    filter: LogFilter;
+    listener: (log: ChainLog) => void;
+    serverId: string | null;
+    // First block whose logs may have been missed while the socket was down
+    resumeFrom: number | null;
+    // Logs streamed while the missed ones are being fetched, delivered after them
+    held: ChainLog[] | null;
+    // Block of each log delivered lately, by blockHash:logIndex:removed, so none is delivered twice
+    seen: Map<string, number>;
+  };
+
+type LogSubscription = Extract<Subscription, { kind: 'logs' }>;
+
+interface ManagerSettings {
+  client: JsonRpcClient;
+  createSocket: ((url: string) => SubscriptionSocket) | null;
+  reconnectDelay: number;
+  maxReconnectDelay: number;
+  pollInterval: number;
+  stallTimeout: number;
+  onTransportChange: (transport: SubscriptionTransport | null) => void;
+}
+
+const parseQuantity = (value: unknown): number | null => {
+  if (typeof value !== 'string' || !/^0x[0-9a-f]+$/i.test(value)) return null;
+  return parseInt(value, 16);
+};
+
+const toQuantity = (value: number): string => `0x${value.toString(16)}`;
+
+const toBlockHead = (raw: any): BlockHead | null => {
+  const number = parseQuantity(raw?.number);
+  const timestamp = parseQuantity(raw?.timestamp);
+  if (number === null || timestamp === null || typeof raw.hash !== 'string') return null;
+  return { number, hash: raw.hash, parentHash: raw.parentHash ?? '', timestamp };
+};
+
+const toChainLog = (raw: any): ChainLog | null => {
+  const blockNumber = parseQuantity(raw?.blockNumber);
+  const logIndex = parseQuantity(raw?.logIndex);
+  if (blockNumber === null || logIndex === null || typeof raw.address !== 'string') return null;
+  return {
+    address: raw.address,
+    topics: Array.isArray(raw.topics) ? raw.topics : [],
+    data: raw.data ?? '0x',
+    blockNumber,
+    blockHash: raw.blockHash ?? '',
+    transactionHash: raw.transactionHash ?? '',
+    logIndex,
+    removed: raw.removed === true
+  };
+};
+
+// A failing listener does not stop the others
+const deliver = <T>(listener: (value: T) => void, value: T): void => {
+  try {
+    listener(value);
+  } catch (error) {
+    console.warn('Subscription listener failed:', error);
+  }
+};
+
+const defaultResolveEndpoints = (chainId: number): ChainEndpoints | null => {
+  const chain = getChainDefinition(chainId);
+  return chain ? { wsUrls: chain.wsUrls || [], httpUrls: getRpcEndpoints(chain) } : null;
+};
+
+const defaultCreateSocket = (): ((url: string) => SubscriptionSocket) | null => {
+  return typeof WebSocket !== 'undefined' ? url => new WebSocket(url) : null;
+};
+
+// One socket per chain shared by all of its subscriptions. While the socket is down the chain is
+// polled over HTTP, and the socket is reopened with exponential backoff and resubscribed.
+class ChainSubscriptions {
+  private subscriptions: Map<number, Subscription> = new Map();
+  private pendingRequests: Map<number, number> = new Map(); // eth_subscribe request id -> subscription id
+  private socket: SubscriptionSocket | null = null;
+  private socketAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private stallTimer: ReturnType<typeof setTimeout> | null = null;
+  private isPolling = false;
+  private lastBlock: number | null = null;
+  private nextId = 1;
+  private readonly wsUrls: string[];
+  transport: SubscriptionTransport | null = null;
+
+  constructor(
+    private readonly chainId: number,
+    private readonly endpoints: ChainEndpoints,
+    private readonly settings: ManagerSettings
+  ) {
+    this.wsUrls = endpoints.wsUrls.filter(url => SecurityUtils.validateURL(url));
+  }
+
+  get size(): number {
+    return this.subscriptions.size;
+  }
+
+  private get watchesHeads(): boolean {
+    return Array.from(this.subscriptions.values()).some(subscription => subscription.kind === 'newHeads');
+  }
+
+  add(subscription: Subscription): number {
+    const id = this.nextId++;
+    this.subscriptions.set(id, subscription);
+
+    if (this.subscriptions.size === 1) {
+      this.start();
+    } else if (this.transport === 'websocket') {
+      this.subscribe(id, subscription);
+    }
+    return id;
+  }
+
+  remove(id: number): void {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) return;
+
+    this.subscriptions.delete(id);
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    } else if (subscription.serverId && this.transport === 'websocket') {
+      this.send('eth_unsubscribe', [subscription.serverId]);
+    }
+  }
+
+  stop(): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.stopPolling();
+    this.closeSocket();
+    this.setTransport(null);
+  }
+
+  private start(): void {
+    if (this.wsUrls.length > 0 && this.settings.createSocket) {
+      this.connect();
+    } else {
+      this.startPolling();
+    }
+  }
+
+  // Endpoints are tried in turn, one per attempt
+  private connect(): void {
+    this.reconnectTimer = null;
+    const url = this.wsUrls[this.socketAttempts % this.wsUrls.length];
+
+    let socket: SubscriptionSocket;
+    try {
+      socket = this.settings.createSocket!(url);
+    } catch (error) {
+      console.warn(`Failed to open ${url}:`, error);
+      this.handleClose();
+      return;
+    }
+
+    this.socket = socket;
+    socket.onopen = () => {
+      this.stopPolling();
+      this.setTransport('websocket');
+      this.subscriptions.forEach((subscription, id) => {
+        if (subscription.kind === 'logs' && this.lastBlock !== null) {
+          subscription.resumeFrom = this.lastBlock + 1;
+        }
+        this.subscribe(id, subscription);
+      });
+    };
+    socket.onmessage = event => this.handleMessage(String(event.data));
+    // An error is always followed by close, which does the cleanup
+    socket.onerror = () => {};
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.handleClose();
+    };
+  }
+
+  private handleClose(): void {
+    this.pendingRequests.clear();
+    this.subscriptions.forEach(subscription => {
+      subscription.serverId = null;
+    });
+    if (this.subscriptions.size === 0) return;
+
+    this.startPolling();
+    const delay = Math.min(
+      this.settings.reconnectDelay * Math.pow(2, this.socketAttempts),
+      this.settings.maxReconnectDelay
+    );
+    this.socketAttempts++;
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private handleMessage(data: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    if (message?.method === 'eth_subscription') {
+      const { subscription: serverId, result } = message.params || {};
+      this.subscriptions.forEach(subscription => {
+        if (subscription.serverId === serverId) this.dispatch(subscription, result);
+      });
+      return;
+    }
+
+    const id = this.pendingRequests.get(message?.id);
+    if (id === undefined) return;
+    this.pendingRequests.delete(message.id);
+
+    const subscription = this.subscriptions.get(id);
+    if (message.error || typeof message.result !== 'string') {
+      // A node that refuses the subscription is no better than no socket: poll and try again later
+      console.warn(`eth_subscribe failed on chain ${this.chainId}:`, message.error?.message);
+      this.closeSocket();
+      this.handleClose();
+    } else if (subscription) {
+      // Backoff starts over once the node has accepted a subscription, not merely the socket
+      this.socketAttempts = 0;
+      subscription.serverId = message.result;
+      if (subscription.kind === 'newHeads') {
+        this.watchHeads();
+      } else if (subscription.resumeFrom !== null) {
+        this.backfill(subscription, subscription.resumeFrom);
+        subscription.resumeFrom = null;
+      } else if (this.lastBlock === null && !this.watchesHeads) {
+        this.fetchLastBlock();
+      }
+    } else {
+      // Unsubscribed before the node answered
+      this.send('eth_unsubscribe', [message.result]);
+    }
+  }
+
+  private subscribe(id: number, subscription: Subscription): void {
+    const params = subscription.kind === 'logs' ? ['logs', subscription.filter] : ['newHeads'];
+    const requestId = this.send('eth_subscribe', params);
+    if (requestId !== null) this.pendingRequests.set(requestId, id);
+  }
+
+  private send(method: string, params: unknown[]): number | null {
+    if (!this.socket) return null;
+    const id = this.nextId++;
+    try {
+      this.socket.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+      return id;
+    } catch (error) {
+      console.warn(`Failed to send ${method}:`, error);
+      return null;
+    }
+  }
+
+  private dispatch(subscription: Subscription, result: unknown): void {
+    if (subscription.kind === 'newHeads') {
+      const head = toBlockHead(result);
+      if (!head) return;
+      this.lastBlock = Math.max(this.lastBlock ?? 0, head.number);
+      this.watchHeads();
+      deliver(subscription.listener, head);
+    } else {
+      const log = toChainLog(result);
+      if (!log) return;
+      // Without a newHeads subscription, streamed logs are all that tell how far the chain has been seen
+      this.lastBlock = Math.max(this.lastBlock ?? 0, log.blockNumber);
+      if (subscription.held) {
+        subscription.held.push(log);
+      } else {
+        this.deliverLog(subscription, log);
+      }
+    }
+  }
+
+  // A log can arrive over the socket, a poll and a backfill; the listener gets it once
+  private deliverLog(subscription: LogSubscription, log: ChainLog): void {
+    const key = `${log.blockHash}:${log.logIndex}:${log.removed}`;
+    if (subscription.seen.has(key)) return;
+    subscription.seen.set(key, log.blockNumber);
+
+    // Polls and backfills never reach further back than one log range. Logs mostly arrive in block
+    // order, so the oldest entries come first.
+    const oldest = log.blockNumber - APP_CONFIG.RPC_PROXY.MAX_LOG_BLOCK_RANGE;
+    const entries = subscription.seen.entries();
+    let entry = entries.next();
+    while (!entry.done && entry.value[1] < oldest) {
+      subscription.seen.delete(entry.value[0]);
+      entry = entries.next();
+    }
+    deliver(subscription.listener, log);
+  }
+
+  // A logs-only chain has no head to resume from until a log streams in, so ask for one
+  private async fetchLastBlock(): Promise<void> {
+    try {
+      const latest = parseQuantity(await this.settings.client.call(this.endpoints.httpUrls, 'eth_blockNumber', [], { chainId: this.chainId }));
+      if (latest !== null && this.lastBlock === null) this.lastBlock = latest;
+    } catch (error) {
+      console.warn(`Fetching the latest block on chain ${this.chainId} failed:`, (error as { message?: string })?.message ?? error);
+    }
+  }
+
+  // A socket can stay open after the node stops sending heads; that counts as a dropped socket
+  private watchHeads(): void {
+    if (this.stallTimer) clearTimeout(this.stallTimer);
+    this.stallTimer = setTimeout(() => {
+      this.stallTimer = null;
+      if (!this.watchesHeads || this.transport !== 'websocket') return;
+
+      console.warn(`No new block on chain ${this.chainId} for ${this.settings.stallTimeout}ms, polling instead`);
+      this.closeSocket();
+      this.handleClose();
+    }, this.settings.stallTimeout);
+  }
+
+  // Logs mined between the last poll and the eth_subscribe answer are never streamed, so fetch them
+  private async backfill(subscription: LogSubscription, fromBlock: number): Promise<void> {
+    const { client } = this.settings;
+    const options = { chainId: this.chainId };
+    subscription.held = [];
+
+    let missed: ChainLog[] = [];
+    try {
+      const latest = parseQuantity(await client.call(this.endpoints.httpUrls, 'eth_blockNumber', [], options));
+      if (latest !== null && latest >= fromBlock) {
+        const logs = await client.call<unknown[]>(this.endpoints.httpUrls, 'eth_getLogs', [{
+          ...subscription.filter,
+          fromBlock: toQuantity(Math.max(fromBlock, latest - APP_CONFIG.RPC_PROXY.MAX_LOG_BLOCK_RANGE + 1)),
+          toBlock: toQuantity(latest)
+        }], options);
+        missed = (logs || []).map(toChainLog).filter((log): log is ChainLog => log !== null);
+      }
+    } catch (error) {
+      console.warn(`Fetching missed logs on chain ${this.chainId} failed:`, (error as { message?: string })?.message ?? error);
+    }
+
+    const held = subscription.held || [];
+    subscription.held = null;
+    if (!Array.from(this.subscriptions.values()).includes(subscription)) return;
+
+    missed.concat(held).forEach(log => this.deliverLog(subscription, log));
+  }
+
+  private closeSocket(): void {
+    if (this.stallTimer) clearTimeout(this.stallTimer);
+    this.stallTimer = null;
+    const socket = this.socket;
+    this.socket = null;
+    if (!socket) return;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onclose = null;
+    try {
+      socket.close();
+    } catch {
+      // Already closed
+    }
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer) return;
+    this.setTransport('polling');
+    this.poll();
+    this.pollTimer = setInterval(() => this.poll(), this.settings.pollInterval);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  // Reports the latest block when it moves, and the logs of every block since the previous one
+  private async poll(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      const { client } = this.settings;
+      const options = { chainId: this.chainId };
+      const head = toBlockHead(await client.call(this.endpoints.httpUrls, 'eth_getBlockByNumber', ['latest', false], options));
+      if (!head || (this.lastBlock !== null && head.number <= this.lastBlock) || this.transport !== 'polling') return;
+
+      // The RPC proxy refuses longer log ranges, so a long gap only catches up on the most recent blocks
+      const earliest = head.number - APP_CONFIG.RPC_PROXY.MAX_LOG_BLOCK_RANGE + 1;
+      const fromBlock = this.lastBlock === null ? head.number : Math.max(this.lastBlock + 1, earliest);
+      this.lastBlock = head.number;
+
+      await Promise.all(Array.from(this.subscriptions.values()).map(async subscription => {
+        if (subscription.kind === 'newHeads') {
+          deliver(subscription.listener, head);
+          return;
+        }
+
+        const logs = await client.call<unknown[]>(this.endpoints.httpUrls, 'eth_getLogs', [{
+          ...subscription.filter,
+          fromBlock: toQuantity(fromBlock),
+          toBlock: toQuantity(head.number)
+        }], options);
+        (logs || []).forEach(raw => {
+          const log = toChainLog(raw);
+          if (log) this.deliverLog(subscription, log);
+        });
+      }));
+    } catch (error) {
+      // The next poll tries again, possibly on another endpoint
+      console.warn(`Polling chain ${this.chainId} failed:`, (error as { message?: string })?.message ?? error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private setTransport(transport: SubscriptionTransport | null): void {
+    if (this.transport === transport) return;
+    this.transport = transport;
+    this.settings.onTransportChange(transport);
+  }
+}
+
+// eth_subscribe newHeads and logs per chain, kept alive across dropped sockets
+export class SubscriptionManager {
+  private chains: Map<number, ChainSubscriptions> = new Map();
+  private events = new TypedEventEmitter<SubscriptionEvents>();
+  private readonly options: SubscriptionManagerOptions;
+
+  constructor(options: SubscriptionManagerOptions = {}) {
+    this.options = options;
+  }
+
+  // Called with each new block; returns the unsubscribe function
+  subscribeNewHeads(chainId: number, listener: (head: BlockHead) => void): () => void {
+    return this.add(chainId, { kind: 'newHeads', listener, serverId: null });
+  }
+
+  subscribeLogs(chainId: number, filter: LogFilter, listener: (log: ChainLog) => void): () => void {
+    return this.add(chainId, { kind: 'logs', filter, listener, serverId: null, resumeFrom: null, held: null, seen: new Map() });
+  }
+
+  // Null while the chain has no subscriptions or its socket is still opening
+  getTransport(chainId: number): SubscriptionTransport | null {
+    return this.chains.get(chainId)?.transport ?? null;
+  }
+
+  onTransportChange(listener: (change: TransportChange) => void): () => void {
+    return this.events.on('transport', listener);
+  }
+
+  closeAll(): void {
+    this.chains.forEach(chain => chain.stop());
+    this.chains.clear();
+  }
+
+  private add(chainId: number, subscription: Subscription): () => void {
+    let chain = this.chains.get(chainId);
+    if (!chain) {
+      const endpoints = (this.options.resolveEndpoints || defaultResolveEndpoints)(chainId);
+      if (!endpoints) {
+        console.warn(`No RPC endpoints to subscribe to on chain ${chainId}`);
+        return () => {};
+      }
+
+      chain = new ChainSubscriptions(chainId, endpoints, {
+        client: this.options.client || rpcClient,
+        createSocket: this.options.createSocket || defaultCreateSocket(),
+        reconnectDelay: this.options.reconnectDelay ?? APP_CONFIG.SUBSCRIPTIONS.RECONNECT_DELAY,
+        maxReconnectDelay: this.options.maxReconnectDelay ?? APP_CONFIG.SUBSCRIPTIONS.MAX_RECONNECT_DELAY,
+        pollInterval: this.options.pollInterval ?? APP_CONFIG.SUBSCRIPTIONS.POLL_INTERVAL,
+        stallTimeout: this.options.stallTimeout ?? APP_CONFIG.SUBSCRIPTIONS.STALL_TIMEOUT,
+        onTransportChange: transport => this.events.emit('transport', { chainId, transport })
+      });
+      this.chains.set(chainId, chain);
+    }
+
+    const target = chain;
+    const id = target.add(subscription);
+    return () => {
+      target.remove(id);
+      if (target.size === 0 && this.chains.get(chainId) === target) {
+        this.chains.delete(chainId);
+      }
+    };
+  }
+}
+
+export const subscriptionManager = new SubscriptionManager();
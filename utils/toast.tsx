@@ -162,6 +162,56 @@ export const networkToast = {
   },
 };
 
+export const signatureToast = {
+  requested: (walletName: string) => {
+    return walletToast.loading(`Confirm the signature request in ${walletName}...`);
+  },
+
+  signed: () => {
+    return walletToast.success('Message signed');
+  },
+
+  failed: (error?: string) => {
+    return walletToast.error(`Signing failed: ${error || 'Unknown error'}`);
+  },
+};
+
+export const transactionToast = {
+  submitted: () => {
+    return walletToast.info('Transaction submitted');
+  },
+
+  confirmed: () => {
+    return walletToast.success('Transaction confirmed');
+  },
+
+  failed: (error?: string) => {
+    return walletToast.error(`Transaction failed: ${error || 'Unknown error'}`);
+  },
+
+  replaced: () => {
+    return walletToast.warning('Transaction was replaced by another with the same nonce');
+  },
+
+  dropped: () => {
+    return walletToast.warning('Transaction was dropped from the mempool');
+  },
+};
+
+export const walletConnectToast = {
+  sessionApproved: (walletName: string) => {
+    return walletToast.success(`Connected to ${walletName} over WalletConnect`);
+  },
+
+  sessionExpiring: (walletName: string, hours: number) => {
+    return walletToast.warning(`WalletConnect session with ${walletName} expires in ${hours} hour${hours === 1 ? '' : 's'}`);
+  },
+
+  sessionEnded: (walletName: string) => {
+    return walletToast.info(`WalletConnect session with ${walletName} ended`);
+  },
+};
+
 export const preferenceToast = {
   autoReconnectEnabled: () => {
     return walletToast.success('Auto-reconnect enabled');
@@ -0,0 +1,11 @@
+// Shortens a formatted amount for display, e.g. 1.234567891 -> 1.2346
+export const formatDisplayAmount = (formatted: string, maxFractionDigits: number = 4): string => {
+  const [whole, fraction = ''] = formatted.split('.');
+  const trimmed = fraction.slice(0, maxFractionDigits).replace(/0+$/, '');
+
+  if (!trimmed && fraction && /^0+$/.test(whole.replace('-', ''))) {
+    return `<0.${'0'.repeat(maxFractionDigits - 1)}1`;
+  }
+
+  return trimmed ? `${whole}.${trimmed}` : whole;
+};
@@ -0,0 +1,84 @@
+import { WalletConnectClientSession, WalletConnectSession } from '@/services/interfaces/IWalletConnectService';
+
+export interface WalletConnectMobileWallet {
+  id: string;
+  name: string;
+  // Universal links open the app store when the wallet is missing; native schemes do not
+  universalLink?: string;
+  nativeLink?: string;
+}
+
+export interface WalletConnectPairingUri {
+  topic: string;
+  version: number;
+  symKey: string;
+  relayProtocol: string;
+  expiryTimestamp?: number;
+}
+
+export const WALLETCONNECT_MOBILE_WALLETS: WalletConnectMobileWallet[] = [
+  { id: 'metaMask', name: 'MetaMask', universalLink: 'https://metamask.app.link', nativeLink: 'metamask://' },
+  { id: 'trust', name: 'Trust Wallet', universalLink: 'https://link.trustwallet.com', nativeLink: 'trust://' },
+  { id: 'rainbow', name: 'Rainbow', universalLink: 'https://rnbwapp.com', nativeLink: 'rainbow://' },
+  { id: 'tokenPocket', name: 'TokenPocket', nativeLink: 'tpoutside://' },
+  { id: 'bitgetWallet', name: 'Bitget Wallet', universalLink: 'https://bkcode.vip', nativeLink: 'bitkeep://' }
+];
+
+export const getMobileWallet = (walletId: string): WalletConnectMobileWallet | undefined =>
+  WALLETCONNECT_MOBILE_WALLETS.find(wallet => wallet.id === walletId);
+
+// wc:{topic}@2?relay-protocol=irn&symKey={key}&expiryTimestamp={seconds}
+export const parsePairingUri = (uri: string): WalletConnectPairingUri | null => {
+  const match = /^wc:([0-9a-f]+)@(\d+)\?(.+)$/i.exec(uri);
+  if (!match) return null;
+
+  const params = new URLSearchParams(match[3]);
+  const symKey = params.get('symKey');
+  const relayProtocol = params.get('relay-protocol');
+  if (!symKey || !relayProtocol) return null;
+
+  const expiry = Number(params.get('expiryTimestamp'));
+  return {
+    topic: match[1],
+    version: Number(match[2]),
+    symKey,
+    relayProtocol,
+    ...(expiry > 0 && { expiryTimestamp: expiry })
+  };
+};
+
+export const buildWalletConnectDeepLink = (uri: string, wallet: WalletConnectMobileWallet): string | undefined => {
+  const encoded = encodeURIComponent(uri);
+  if (wallet.universalLink) {
+    return `${wallet.universalLink.replace(/\/$/, '')}/wc?uri=${encoded}`;
+  }
+  if (wallet.nativeLink) {
+    return `${wallet.nativeLink}wc?uri=${encoded}`;
+  }
+  return undefined;
+};
+
+const unique = <T>(values: T[]): T[] => values.filter((value, index) => values.indexOf(value) === index);
+
+// eip155:137:0xabc... -> { chainId: 137, address: '0xabc...' }
+export const parseCaip10Account = (account: string): { chainId: number; address: string } | null => {
+  const [namespace, reference, address] = account.split(':');
+  const chainId = Number(reference);
+  if (namespace !== 'eip155' || !Number.isInteger(chainId) || chainId <= 0 || !address) return null;
+  return { chainId, address };
+};
+
+export const toWalletConnectSession = (session: WalletConnectClientSession): WalletConnectSession => {
+  const parsed = (session.namespaces.eip155?.accounts || [])
+    .map(parseCaip10Account)
+    .filter((account): account is { chainId: number; address: string } => account !== null);
+
+  return {
+    topic: session.topic,
+    ...(session.pairingTopic && { pairingTopic: session.pairingTopic }),
+    peer: session.peer.metadata,
+    accounts: unique(parsed.map(account => account.address)),
+    chainIds: unique(parsed.map(account => account.chainId)),
+    expiresAt: session.expiry * 1000
+  };
+};